@@ -2,6 +2,7 @@
  * Egress Agent Configuration Constants
  * Central configuration for OPC-UA communication and plant control
  */
+import { loadTagMapping, TagMapping } from './tag-mapping';
 
 export const OPCUA_CONFIG = {
   endpoint: process.env.OPCUA_ENDPOINT || 'opc.tcp://localhost:4840',
@@ -12,6 +13,31 @@ export const OPCUA_CONFIG = {
   commandTimeout: 30000 // 30 seconds
 };
 
+export type CommandPriority = 'critical' | 'high' | 'normal' | 'low';
+
+// Queue order; lower runs first
+export const COMMAND_PRIORITY_RANK: Record<CommandPriority, number> = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+  low: 3
+};
+
+export const COMMAND_SCHEDULER_CONFIG = {
+  maxConcurrentCommands: OPCUA_CONFIG.maxConcurrentCommands,
+  commandRateLimit: OPCUA_CONFIG.commandRateLimit, // commands per minute, all variables
+  variableRateLimit: 4, // commands per minute for one control variable
+  rateWindow: 60000, // 1 minute
+  maxQueueLength: 20,
+  maxQueueWait: 15000 // 15 seconds
+};
+
+// Acknowledged commands kept so a re-sent commandId is answered, not executed again
+export const ACKNOWLEDGED_COMMAND_RETENTION = 1000;
+
+// Start-up refuses to run while TAG_MAPPING_ERRORS is non-empty
+export const { mapping: TAG_MAPPING, errors: TAG_MAPPING_ERRORS } = loadTagMapping(OPCUA_CONFIG.commandTimeout);
+
 export interface SafetyLimit {
   min: number;
   max: number;
@@ -23,34 +49,20 @@ export interface PlantSystem {
   safetyLimits: { [key: string]: SafetyLimit };
 }
 
-export const PLANT_SYSTEMS: Record<string, PlantSystem> = {
-  kiln: {
-    name: 'kiln_system',
-    variables: ['kiln_speed', 'kiln_temperature', 'fuel_flow'],
-    safetyLimits: {
-      kiln_speed: { min: 2.8, max: 4.2 },
-      kiln_temperature: { min: 1400, max: 1500 },
-      fuel_flow: { min: 4.5, max: 6.8 }
-    }
-  },
-  mill: {
-    name: 'mill_system',
-    variables: ['mill_speed', 'mill_power', 'feed_rate'],
-    safetyLimits: {
-      mill_speed: { min: 15, max: 25 },
-      mill_power: { min: 1000, max: 5000 },
-      feed_rate: { min: 180, max: 220 }
-    }
-  },
-  preheater: {
-    name: 'preheater_system',
-    variables: ['preheater_temperature', 'gas_flow'],
-    safetyLimits: {
-      preheater_temperature: { min: 850, max: 950 },
-      gas_flow: { min: 100, max: 200 }
+// Systems, variables and limits as given by the plant's tag mapping
+export const PLANT_SYSTEMS: Record<string, PlantSystem> = plantSystemsFrom(TAG_MAPPING);
+
+function plantSystemsFrom(mapping: TagMapping): Record<string, PlantSystem> {
+  const systems: Record<string, PlantSystem> = {};
+  for (const [variable, entry] of Object.entries(mapping.variables)) {
+    if (!systems[entry.system]) {
+      systems[entry.system] = { name: `${entry.system}_system`, variables: [], safetyLimits: {} };
     }
+    systems[entry.system].variables.push(variable);
+    systems[entry.system].safetyLimits[variable] = { min: entry.limits.min, max: entry.limits.max };
   }
-};
+  return systems;
+}
 
 export const COMMAND_TYPES = {
   SETPOINT_CHANGE: 'setpoint_change',
@@ -81,6 +93,27 @@ export const AGENT_CONFIG = {
 export const MASTER_CONTROL_ENDPOINT = process.env.MASTER_CONTROL_ENDPOINT || 
   'https://master-control-agent-us-central1-cemai-agents.a.run.app';
 
+export const GUARDIAN_ENDPOINT = process.env.GUARDIAN_ENDPOINT ||
+  'https://guardian-agent-us-central1-cemai-agents.a.run.app';
+
+export const RAMP_CONFIG = {
+  defaultDurationMinutes: 30,
+  stepIntervalSeconds: 60,
+  // Steps come no faster than the scheduler admits writes to one variable
+  minStepIntervalSeconds: COMMAND_SCHEDULER_CONFIG.rateWindow / 1000 / COMMAND_SCHEDULER_CONFIG.variableRateLimit,
+  maxDurationMinutes: 120,
+  // Readback may differ from the written step by this fraction of the variable's maxAdjustment
+  readbackTolerance: 0.1,
+  // Guardian alert levels that stop a ramp
+  abortOnAlertStatus: ['critical'],
+  // Without a Guardian reading a ramp cannot watch quality, so it stops unless this is false
+  requireGuardian: process.env.RAMP_REQUIRE_GUARDIAN !== 'false',
+  guardianTimeout: 5000, // 5 seconds
+  // Scheduler rejections a step may absorb before the ramp gives up
+  maxStepRejections: 3,
+  maxRetainedRamps: 100
+};
+
 export const EMERGENCY_PROCEDURES = {
   emergencyStopTimeout: 1000, // 1 second
   rollbackTimeout: 5000, // 5 seconds
@@ -97,4 +130,45 @@ export const COMMAND_VALIDATION = {
   maxAdjustmentPercent: 10, // Maximum 10% adjustment per command
   minAdjustmentThreshold: 0.1, // Minimum adjustment to be effective
   validationTimeout: 2000 // 2 seconds
-};
\ No newline at end of file
+};
+
+export interface SimulationFaults {
+  // Fraction of reads answered BadSensorFailure and writes BadDeviceFailure
+  badStatusRate: number;
+  // Variables the bad status applies to; all when empty
+  badStatusVariables: string[];
+  // Delay before a setpoint write completes
+  slowWriteMs: number;
+  // Variables whose process value ignores its setpoint
+  stuckVariables: string[];
+  // Tighter PLC clamps than the mapped limits, applied silently on write
+  clampSetpoints: Record<string, { min?: number; max?: number }>;
+  // Drop every client this often (0 = never) and stay down for disconnectDurationMs
+  disconnectIntervalMs: number;
+  disconnectDurationMs: number;
+}
+
+export const DEFAULT_SIMULATION_FAULTS: SimulationFaults = {
+  badStatusRate: 0,
+  badStatusVariables: [],
+  slowWriteMs: 0,
+  stuckVariables: [],
+  clampSetpoints: {},
+  disconnectIntervalMs: 0,
+  disconnectDurationMs: 5000
+};
+
+export const SIMULATION_CONFIG = {
+  port: process.env.SIM_PORT ? Number(process.env.SIM_PORT) : 4840,
+  controlPort: process.env.SIM_CONTROL_PORT ? Number(process.env.SIM_CONTROL_PORT) : 4841,
+  tickMs: 500,
+  // First-order time constants; short enough that moves settle inside the verification window
+  timeConstantSeconds: {
+    kiln_speed: 4,
+    fuel_flow: 5,
+    feed_rate: 5,
+    preheater_temp: 8,
+    mill_power: 5
+  } as Record<string, number>,
+  defaultTimeConstantSeconds: 5
+};
@@ -0,0 +1,92 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_TAG_MAPPING, loadTagMapping, validateTagMapping } from './tag-mapping';
+
+const COMMAND_TIMEOUT = 30000;
+
+// The built-in mapping with one variable's fields replaced
+function withKilnSpeed(fields: Record<string, unknown>) {
+  const mapping = JSON.parse(JSON.stringify(DEFAULT_TAG_MAPPING));
+  Object.assign(mapping.variables.kiln_speed, fields);
+  return mapping;
+}
+
+describe('validateTagMapping', () => {
+  it('accepts the built-in mapping', () => {
+    expect(validateTagMapping(DEFAULT_TAG_MAPPING, COMMAND_TIMEOUT)).toEqual([]);
+  });
+
+  it('rejects a settle timeout that does not end before the command timeout', () => {
+    const verification = { setpointTolerance: 0.001, processTolerance: 0.05, settleTimeout: COMMAND_TIMEOUT };
+
+    expect(validateTagMapping(withKilnSpeed({ verification }), COMMAND_TIMEOUT)).toEqual([
+      'variables.kiln_speed.verification.settleTimeout must be shorter than the 30000 ms command timeout'
+    ]);
+    expect(validateTagMapping(withKilnSpeed({ verification }), 60000)).toEqual([]);
+  });
+
+  it('rejects a setpoint node mapped to two variables', () => {
+    const mapping = withKilnSpeed({ setpointNodeId: DEFAULT_TAG_MAPPING.variables.fuel_flow.setpointNodeId });
+
+    expect(validateTagMapping(mapping, COMMAND_TIMEOUT)).toEqual([
+      'variables.fuel_flow.setpointNodeId is already mapped to kiln_speed'
+    ]);
+  });
+
+  it('names each invalid field', () => {
+    const mapping = withKilnSpeed({
+      scaling: { scale: 0, offset: 0 },
+      dataType: 'String',
+      limits: { min: 5, max: 1, maxAdjustment: 0 },
+      writable: 'yes'
+    });
+
+    expect(validateTagMapping(mapping, COMMAND_TIMEOUT)).toEqual([
+      'variables.kiln_speed.scaling needs a non-zero scale and a finite offset',
+      'variables.kiln_speed.dataType must be one of Double, Float, Int16, UInt16, Int32, UInt32',
+      'variables.kiln_speed.limits needs finite min < max',
+      'variables.kiln_speed.limits.maxAdjustment must be positive',
+      'variables.kiln_speed.writable must be true or false'
+    ]);
+  });
+});
+
+describe('loadTagMapping', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tag-mapping-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const mappingFile = (content: string) => {
+    const file = join(dir, 'mapping.json');
+    writeFileSync(file, content);
+    return file;
+  };
+
+  it('loads a valid plant mapping', () => {
+    const plant = { ...DEFAULT_TAG_MAPPING, plant: 'plant_b' };
+
+    expect(loadTagMapping(COMMAND_TIMEOUT, mappingFile(JSON.stringify(plant)))).toEqual({ mapping: plant, errors: [] });
+  });
+
+  it('reports an invalid mapping instead of throwing', () => {
+    const file = mappingFile(JSON.stringify({ ...DEFAULT_TAG_MAPPING, plant: '' }));
+
+    expect(loadTagMapping(COMMAND_TIMEOUT, file).errors).toEqual(['plant must be a non-empty string']);
+  });
+
+  it('reports a file that cannot be read or parsed', () => {
+    const missing = join(dir, 'missing.json');
+
+    expect(loadTagMapping(COMMAND_TIMEOUT, missing).errors).toEqual([expect.stringContaining(`cannot read ${missing}`)]);
+    expect(loadTagMapping(COMMAND_TIMEOUT, mappingFile('{ "plant": ')).errors).toEqual([
+      expect.stringContaining('cannot read')
+    ]);
+  });
+});
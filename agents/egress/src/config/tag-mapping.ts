@@ -0,0 +1,239 @@
+/**
+ * Plant tag mapping for Egress Agent
+ * One document per plant mapping each control variable onto its OPC-UA setpoint and
+ * process-value nodes, with units, scaling, data type, limits and write permission.
+ * Loaded from TAG_MAPPING_FILE; the built-in mapping matches the reference plant
+ */
+import { readFileSync } from 'fs';
+
+export type TagDataType = 'Double' | 'Float' | 'Int16' | 'UInt16' | 'Int32' | 'UInt32';
+
+export interface TagMappingEntry {
+  // Plant system the variable belongs to (kiln, mill, preheater, ...)
+  system: string;
+  setpointNodeId: string;
+  // Measured value that should follow the setpoint; omit when the plant has none
+  processNodeId?: string;
+  unit: string;
+  // Engineering value = raw * scale + offset, for setpoint and process value alike
+  scaling: { scale: number; offset: number };
+  dataType: TagDataType;
+  // Engineering units; maxAdjustment is the largest single move
+  limits: { min: number; max: number; maxAdjustment: number };
+  writable: boolean;
+  verification: {
+    // Readback may differ from the written setpoint by this much (PLC rounding)
+    setpointTolerance: number;
+    // The process value has followed once it is this close to the setpoint
+    processTolerance: number;
+    // How long to watch the process value; inside OPCUA_CONFIG.commandTimeout
+    settleTimeout: number;
+  };
+}
+
+export interface TagMapping {
+  plant: string;
+  description?: string;
+  systemNodes: {
+    emergencyStatus: string;
+    emergencyStop: string;
+  };
+  // Keyed by control variable
+  variables: Record<string, TagMappingEntry>;
+}
+
+export interface TagMappingLoad {
+  mapping: TagMapping;
+  // Why the mapping cannot be used; empty when it can
+  errors: string[];
+}
+
+export const TAG_DATA_TYPES: TagDataType[] = ['Double', 'Float', 'Int16', 'UInt16', 'Int32', 'UInt32'];
+
+export const DEFAULT_TAG_MAPPING: TagMapping = {
+  plant: 'reference_plant',
+  description: 'Reference plant address space (ns=2, dotted string ids)',
+  systemNodes: {
+    emergencyStatus: 'ns=2;s=System.EmergencyStatus',
+    emergencyStop: 'ns=2;s=System.EmergencyStop'
+  },
+  variables: {
+    kiln_speed: {
+      system: 'kiln',
+      setpointNodeId: 'ns=2;s=Kiln.Speed.Setpoint',
+      processNodeId: 'ns=2;s=Kiln.Speed.ProcessValue',
+      unit: 'rpm',
+      scaling: { scale: 1, offset: 0 },
+      dataType: 'Double',
+      limits: { min: 2.8, max: 4.2, maxAdjustment: 0.2 },
+      writable: true,
+      verification: { setpointTolerance: 0.001, processTolerance: 0.05, settleTimeout: 20000 }
+    },
+    fuel_flow: {
+      system: 'kiln',
+      setpointNodeId: 'ns=2;s=Fuel.Flow.Setpoint',
+      processNodeId: 'ns=2;s=Fuel.Flow.ProcessValue',
+      unit: 't/h',
+      scaling: { scale: 1, offset: 0 },
+      dataType: 'Double',
+      limits: { min: 4.5, max: 6.8, maxAdjustment: 0.3 },
+      writable: true,
+      verification: { setpointTolerance: 0.001, processTolerance: 0.1, settleTimeout: 20000 }
+    },
+    feed_rate: {
+      system: 'mill',
+      setpointNodeId: 'ns=2;s=Feed.Rate.Setpoint',
+      processNodeId: 'ns=2;s=Feed.Rate.ProcessValue',
+      unit: 't/h',
+      scaling: { scale: 1, offset: 0 },
+      dataType: 'Double',
+      limits: { min: 180, max: 220, maxAdjustment: 5.0 },
+      writable: true,
+      verification: { setpointTolerance: 0.01, processTolerance: 2.0, settleTimeout: 20000 }
+    },
+    preheater_temp: {
+      system: 'preheater',
+      setpointNodeId: 'ns=2;s=Preheater.Temperature.Setpoint',
+      processNodeId: 'ns=2;s=Preheater.Temperature.ProcessValue',
+      unit: '°C',
+      scaling: { scale: 1, offset: 0 },
+      dataType: 'Double',
+      limits: { min: 850, max: 950, maxAdjustment: 10.0 },
+      writable: true,
+      verification: { setpointTolerance: 0.01, processTolerance: 5.0, settleTimeout: 20000 }
+    },
+    mill_power: {
+      system: 'mill',
+      setpointNodeId: 'ns=2;s=Mill.Power.Setpoint',
+      processNodeId: 'ns=2;s=Mill.Power.ProcessValue',
+      unit: 'kW',
+      scaling: { scale: 1, offset: 0 },
+      dataType: 'Double',
+      limits: { min: 1000, max: 5000, maxAdjustment: 200.0 },
+      writable: true,
+      verification: { setpointTolerance: 0.1, processTolerance: 50.0, settleTimeout: 20000 }
+    }
+  }
+};
+
+/**
+ * Returns the list of violations; an empty list means the mapping is usable.
+ * Settle timeouts must end before the command timeout they run inside
+ */
+export function validateTagMapping(input: unknown, commandTimeout: number): string[] {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['mapping must be an object'];
+  }
+  const mapping = input as Record<string, unknown>;
+  if (!isNonEmptyString(mapping.plant)) {
+    errors.push('plant must be a non-empty string');
+  }
+  const systemNodes = fieldsOf(mapping.systemNodes);
+  for (const node of ['emergencyStatus', 'emergencyStop']) {
+    if (!isNonEmptyString(systemNodes[node])) {
+      errors.push(`systemNodes.${node} must be a node id`);
+    }
+  }
+
+  const variables = mapping.variables;
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables) || Object.keys(variables).length === 0) {
+    errors.push('variables must be a non-empty object keyed by control variable');
+    return errors;
+  }
+
+  const setpointNodes = new Map<string, string>();
+  for (const [variable, value] of Object.entries(variables as Record<string, unknown>)) {
+    const at = `variables.${variable}`;
+    const entry = fieldsOf(value);
+    if (!/^[a-z][a-z0-9_]*$/.test(variable)) {
+      errors.push(`${at}: control variable names are lower_snake_case`);
+    }
+    if (!isNonEmptyString(entry.system)) {
+      errors.push(`${at}.system must be a non-empty string`);
+    }
+    const setpointNodeId = entry.setpointNodeId;
+    if (!isNonEmptyString(setpointNodeId)) {
+      errors.push(`${at}.setpointNodeId must be a node id`);
+    } else if (setpointNodes.has(setpointNodeId)) {
+      errors.push(`${at}.setpointNodeId is already mapped to ${setpointNodes.get(setpointNodeId)}`);
+    } else {
+      setpointNodes.set(setpointNodeId, variable);
+    }
+    if (entry.processNodeId !== undefined && !isNonEmptyString(entry.processNodeId)) {
+      errors.push(`${at}.processNodeId must be a node id when set`);
+    }
+    if (typeof entry.unit !== 'string') {
+      errors.push(`${at}.unit must be a string`);
+    }
+    const scaling = fieldsOf(entry.scaling);
+    if (!Number.isFinite(scaling.scale) || scaling.scale === 0 || !Number.isFinite(scaling.offset)) {
+      errors.push(`${at}.scaling needs a non-zero scale and a finite offset`);
+    }
+    if (!TAG_DATA_TYPES.includes(entry.dataType as TagDataType)) {
+      errors.push(`${at}.dataType must be one of ${TAG_DATA_TYPES.join(', ')}`);
+    }
+    const limits = fieldsOf(entry.limits);
+    if (!isFiniteNumber(limits.min) || !isFiniteNumber(limits.max) || limits.min >= limits.max) {
+      errors.push(`${at}.limits needs finite min < max`);
+    }
+    if (!(isFiniteNumber(limits.maxAdjustment) && limits.maxAdjustment > 0)) {
+      errors.push(`${at}.limits.maxAdjustment must be positive`);
+    }
+    if (typeof entry.writable !== 'boolean') {
+      errors.push(`${at}.writable must be true or false`);
+    }
+    const verification = fieldsOf(entry.verification);
+    for (const field of ['setpointTolerance', 'processTolerance', 'settleTimeout']) {
+      const bound = verification[field];
+      if (!(isFiniteNumber(bound) && bound > 0)) {
+        errors.push(`${at}.verification.${field} must be positive`);
+      }
+    }
+    if (Number(verification.settleTimeout) >= commandTimeout) {
+      errors.push(`${at}.verification.settleTimeout must be shorter than the ${commandTimeout} ms command timeout`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The plant's mapping from TAG_MAPPING_FILE, or the built-in one. Problems are returned, not
+ * thrown, so start-up can report them and refuse to run; the built-in mapping only stands in
+ * until then and is never a fallback for another plant's file
+ */
+export function loadTagMapping(commandTimeout: number, file: string | undefined = process.env.TAG_MAPPING_FILE): TagMappingLoad {
+  let mapping: unknown = DEFAULT_TAG_MAPPING;
+  if (file) {
+    try {
+      mapping = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      return { mapping: DEFAULT_TAG_MAPPING, errors: [`cannot read ${file}: ${(error as Error).message}`] };
+    }
+  }
+
+  const errors = validateTagMapping(mapping, commandTimeout);
+  return errors.length > 0 ? { mapping: DEFAULT_TAG_MAPPING, errors } : { mapping: mapping as TagMapping, errors };
+}
+
+/**
+ * Raw node value to engineering units
+ */
+export function toEngineeringValue(entry: TagMappingEntry, raw: number): number {
+  return raw * entry.scaling.scale + entry.scaling.offset;
+}
+
+// Fields of an unchecked JSON value; none for anything that is not an object
+function fieldsOf(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -6,7 +6,18 @@ import { A2AClient } from './utils/a2a-client';
 import { SecurityValidator } from './utils/security-validator';
 import { AgentMetrics } from './utils/metrics';
 import { OPCUAClientService } from './utils/opcua-client';
-import { OPCUA_CONFIG } from './config/constants';
+import { CommandScheduler, CommandRejectedError } from './utils/command-scheduler';
+import { RampExecutor, RampState } from './utils/ramp-executor';
+import { validateAddressSpace, AddressSpaceReport } from './utils/tag-mapping-validator';
+import {
+  OPCUA_CONFIG,
+  RAMP_CONFIG,
+  GUARDIAN_ENDPOINT,
+  TAG_MAPPING,
+  TAG_MAPPING_ERRORS,
+  ACKNOWLEDGED_COMMAND_RETENTION
+} from './config/constants';
+import { TagMappingEntry, toEngineeringValue } from './config/tag-mapping';
 
 const app = express();
 app.use(express.json());
@@ -18,6 +29,38 @@ const projectId = process.env.GOOGLE_CLOUD_PROJECT || 'cemai-agents';
 const metrics = new AgentMetrics('egress_agent', projectId);
 const a2aClient = new A2AClient('egress_agent');
 const opcuaClient = new OPCUAClientService(OPCUA_CONFIG.endpoint);
+const commandScheduler = new CommandScheduler();
+const rampExecutor = new RampExecutor(writeRampStep, checkGuardianQuality);
+
+// Result of checking the tag mapping against the server at start-up
+let addressSpaceReport: AddressSpaceReport | null = null;
+
+// A control action as Master Control sends it, inside a command request or an A2A payload
+interface ControlAction {
+  controlVariable: string;
+  currentValue?: number;
+  proposedValue: number;
+  executionMethod?: string;
+  rampDurationMinutes?: number;
+}
+
+interface AcknowledgedCommand {
+  commandId: string;
+  controlVariable: string;
+  proposedValue: number;
+  // executing: reserved before the write, so a duplicate arriving meanwhile is not written too
+  status: 'executing' | 'executed' | 'ramping';
+  executedValue: number | null;
+  // Setpoint read before the write, or where the ramp started; what a rollback restores
+  previousValue: number | null;
+  rampId: string | null;
+  acknowledgedAt: string;
+}
+
+// Oldest first; a commandId seen here is answered from the record instead of written again.
+// Kept in memory only: Master Control records each command in AlloyDB before sending it and
+// does not re-send one it has no answer for, which covers an Egress restart or scale-out
+const acknowledgedCommands: Map<string, AcknowledgedCommand> = new Map();
 
 // Prometheus metrics
 const register = new client.Registry();
@@ -52,6 +95,23 @@ const commandCount = new client.Counter({
   registers: [register]
 });
 
+// Sampled from the scheduler on each scrape
+new client.Gauge({
+  name: 'cemai_command_queue_depth',
+  help: 'Commands waiting for an OPC-UA write slot',
+  registers: [register],
+  collect() {
+    this.set(commandScheduler.queueDepth());
+  }
+});
+
+const commandRejections = new client.Counter({
+  name: 'cemai_command_rejections_total',
+  help: 'Commands rejected by the scheduler',
+  labelNames: ['reason'],
+  registers: [register]
+});
+
 // Health check endpoints
 app.get('/health', (_req, res) => res.status(200).send('OK'));
 app.get('/ready', async (_req, res) => {
@@ -79,6 +139,7 @@ app.get('/metrics', async (_req, res) => {
 app.post('/v1/command', async (req, res) => {
   const tracer = trace.getTracer('egress-agent');
   const span = tracer.startSpan('execute_opcua_command');
+  let reservedCommandId: string | null = null;
   
   try {
     // Validate input
@@ -99,42 +160,122 @@ app.post('/v1/command', async (req, res) => {
       });
     }
 
-    // Execute command with timeout
-    const result = await Promise.race([
-      executeOPCUACommand(action),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Command timeout')), OPCUA_CONFIG.commandTimeout)
-      )
-    ]) as { executedValue: any; latency: number; status: string };
+    // A command Master Control re-sends after a restart is not written a second time
+    const acknowledged = acknowledgedCommands.get(commandId);
+    if (acknowledged?.status === 'executing') {
+      return res.status(409).json({
+        agent: 'egress',
+        status: 'in_progress',
+        error: `Command ${commandId} is still executing`
+      });
+    }
+    if (acknowledged) {
+      span.setAttributes({ 'command.id': commandId, 'command.duplicate': true });
+      return res.status(200).json({
+        agent: 'egress',
+        status: 'success',
+        command: { ...acknowledged, duplicate: true },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // A ramp owns its variable until it finishes
+    const activeRamp = rampExecutor.activeRampFor(action.controlVariable);
+    if (activeRamp) {
+      return res.status(409).json({
+        agent: 'egress',
+        status: 'rejected',
+        error: `Ramp ${activeRamp.rampId} is moving ${action.controlVariable}`,
+        rampId: activeRamp.rampId
+      });
+    }
+    
+    reserveCommand(commandId, action);
+    reservedCommandId = commandId;
+    
+    // Gradual actions are acknowledged once their ramp starts; progress is at /v1/ramps/:rampId
+    if (action.executionMethod === 'gradual') {
+      const ramp = await startRamp(commandId, action, priority);
+      recordAcknowledgement(commandId, action, 'ramping', null, ramp.startValue, ramp.rampId);
+      commandCount.labels(action.controlVariable, 'ramping').inc();
+      span.setAttributes({
+        'command.id': commandId,
+        'command.control_variable': action.controlVariable,
+        'command.status': 'ramping',
+        'ramp.id': ramp.rampId
+      });
+      
+      return res.status(202).json({
+        agent: 'egress',
+        status: 'success',
+        command: {
+          commandId,
+          controlVariable: action.controlVariable,
+          currentValue: ramp.startValue,
+          proposedValue: action.proposedValue,
+          previousValue: ramp.startValue,
+          status: 'ramping',
+          rampId: ramp.rampId,
+          totalSteps: ramp.totalSteps,
+          durationMinutes: ramp.durationMinutes
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+    
+    // Execute command through the scheduler, with timeout once it holds a write slot
+    const result = await scheduleOPCUACommand(commandId, action, priority);
+    const outcome = result.verification.setpointAccepted ? 'success' : 'not_accepted';
+    if (result.verification.setpointAccepted) {
+      recordAcknowledgement(commandId, action, 'executed', result.executedValue, result.previousValue, null);
+    }
     
     // Update metrics
-    commandLatency.labels(action.controlVariable, 'success').observe(result.latency);
-    commandSuccessRate.labels(action.controlVariable).set(1);
-    commandCount.labels(action.controlVariable, 'success').inc();
+    commandLatency.labels(action.controlVariable, outcome).observe(result.latency);
+    commandSuccessRate.labels(action.controlVariable).set(result.verification.setpointAccepted ? 1 : 0);
+    commandCount.labels(action.controlVariable, outcome).inc();
 
     span.setAttributes({
       'command.id': commandId,
       'command.control_variable': action.controlVariable,
-      'command.status': 'success',
-      'command.latency_seconds': result.latency
+      'command.status': outcome,
+      'command.latency_seconds': result.latency,
+      'command.process_followed': result.verification.process?.followed ?? false
     });
 
+    // A setpoint the PLC clamped or refused is not an executed command
     res.status(200).json({
       agent: 'egress',
-      status: 'success',
+      status: result.verification.setpointAccepted ? 'success' : 'failed',
       command: {
         commandId,
         controlVariable: action.controlVariable,
         currentValue: action.currentValue,
         proposedValue: action.proposedValue,
         executedValue: result.executedValue,
-        status: 'executed',
+        previousValue: result.previousValue,
+        status: result.verification.setpointAccepted ? 'executed' : 'setpoint_not_accepted',
+        setpointAccepted: result.verification.setpointAccepted,
+        processFollowed: result.verification.process?.followed ?? null,
+        verification: result.verification,
         latency: result.latency
       },
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
+    if (error instanceof CommandRejectedError) {
+      span.setAttributes({ 'command.status': 'rejected', 'command.rejection_reason': error.reason });
+      commandCount.labels(req.body.action.controlVariable, 'rejected').inc();
+      return res.status(rejectionStatus(error)).set('Retry-After', String(error.retryAfterSeconds)).json({
+        agent: 'egress',
+        status: 'rejected',
+        reason: error.reason,
+        error: error.message,
+        retryAfterSeconds: error.retryAfterSeconds
+      });
+    }
+    
     logger.error('OPC-UA command execution failed', { 
       error: (error as Error).message, 
       stack: (error as Error).stack 
@@ -150,14 +291,153 @@ app.post('/v1/command', async (req, res) => {
       error: 'Command execution failed'
     });
   } finally {
+    if (reservedCommandId) {
+      releaseReservation(reservedCommandId);
+    }
     span.end();
   }
 });
 
 /**
- * Execute command on OPC-UA server
+ * Queue a command behind the rate limits and concurrency cap, then execute it with timeout
+ */
+async function scheduleOPCUACommand(commandId: string, action: ControlAction, priority: unknown, options: { trackProcess?: boolean } = {}) {
+  try {
+    return await commandScheduler.schedule(
+      {
+        commandId,
+        controlVariable: action.controlVariable,
+        priority: CommandScheduler.normalizePriority(priority)
+      },
+      () => executeOPCUACommand(action, options),
+      { timeoutMs: OPCUA_CONFIG.commandTimeout }
+    );
+  } catch (error) {
+    if (error instanceof CommandRejectedError) {
+      commandRejections.labels(error.reason).inc();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Hold a commandId while it is written; an acknowledgement replaces the reservation
+ */
+function reserveCommand(commandId: string, action: ControlAction): void {
+  recordAcknowledgement(commandId, action, 'executing', null, null, null);
+}
+
+/**
+ * Drop a reservation the command did not turn into an acknowledgement, so it may be sent again
+ */
+function releaseReservation(commandId: string): void {
+  if (acknowledgedCommands.get(commandId)?.status === 'executing') {
+    acknowledgedCommands.delete(commandId);
+  }
+}
+
+function recordAcknowledgement(
+  commandId: string,
+  action: ControlAction,
+  status: AcknowledgedCommand['status'],
+  executedValue: number | null,
+  previousValue: number | null,
+  rampId: string | null
+): void {
+  acknowledgedCommands.set(commandId, {
+    commandId,
+    controlVariable: action.controlVariable,
+    proposedValue: action.proposedValue,
+    status,
+    executedValue,
+    previousValue,
+    rampId,
+    acknowledgedAt: new Date().toISOString()
+  });
+  if (acknowledgedCommands.size > ACKNOWLEDGED_COMMAND_RETENTION) {
+    acknowledgedCommands.delete(acknowledgedCommands.keys().next().value as string);
+  }
+}
+
+/**
+ * Start a ramp from the setpoint as read from the DCS to the proposed value
+ */
+async function startRamp(commandId: string, action: ControlAction, priority: unknown): Promise<RampState> {
+  if (!await opcuaClient.isConnected()) {
+    await opcuaClient.connect();
+  }
+  
+  const tag = commandableTag(action.controlVariable);
+  const safetyLimits = tag.limits;
+  if (action.proposedValue < safetyLimits.min || action.proposedValue > safetyLimits.max) {
+    throw new Error(`Proposed value ${action.proposedValue} outside safety limits [${safetyLimits.min}, ${safetyLimits.max}]`);
+  }
+  
+  return rampExecutor.start({
+    commandId,
+    controlVariable: action.controlVariable,
+    priority: CommandScheduler.normalizePriority(priority),
+    startValue: await readSetpoint(tag),
+    targetValue: action.proposedValue,
+    maxStep: safetyLimits.maxAdjustment,
+    durationMinutes: action.rampDurationMinutes
+  });
+}
+
+/**
+ * One ramp step: a scheduled command from the last confirmed setpoint, returning the readback.
+ * Only the final step waits for the process value to follow
+ */
+async function writeRampStep(ramp: RampState, stepCommandId: string, setpoint: number): Promise<number> {
+  const result = await scheduleOPCUACommand(stepCommandId, {
+    controlVariable: ramp.controlVariable,
+    currentValue: ramp.currentSetpoint,
+    proposedValue: setpoint
+  }, ramp.priority, { trackProcess: setpoint === ramp.targetValue });
+  return Number(result.executedValue);
+}
+
+// The parts of Guardian's /current-quality answer a ramp checks
+interface GuardianQuality {
+  currentLSF: number;
+  alert?: { status: string };
+}
+
+/**
+ * Guardian's quality alert between ramp steps; null while the ramp may continue
+ */
+async function checkGuardianQuality(): Promise<string | null> {
+  try {
+    const response = await fetch(`${GUARDIAN_ENDPOINT}/current-quality`, {
+      signal: AbortSignal.timeout(RAMP_CONFIG.guardianTimeout)
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    
+    const quality = await response.json() as GuardianQuality | null;
+    if (quality?.alert && RAMP_CONFIG.abortOnAlertStatus.includes(quality.alert.status)) {
+      return `Guardian reports ${quality.alert.status} quality alert (LSF ${quality.currentLSF})`;
+    }
+    return null;
+    
+  } catch (error) {
+    logger.warn('Guardian quality check failed', { error: (error as Error).message });
+    return RAMP_CONFIG.requireGuardian ? `Guardian quality status unavailable: ${(error as Error).message}` : null;
+  }
+}
+
+/**
+ * Rate limits answer 429; a full or stalled queue means Egress itself is busy
  */
-async function executeOPCUACommand(action: any) {
+function rejectionStatus(error: CommandRejectedError): number {
+  return error.reason === 'rate_limit' || error.reason === 'variable_rate_limit' ? 429 : 503;
+}
+
+/**
+ * Execute command on OPC-UA server, verifying the setpoint readback and the process response
+ */
+async function executeOPCUACommand(action: ControlAction, options: { trackProcess?: boolean } = {}) {
   const startTime = Date.now();
   
   try {
@@ -166,32 +446,42 @@ async function executeOPCUACommand(action: any) {
       await opcuaClient.connect();
     }
     
-    // Map control variable to OPC-UA node ID
-    const nodeId = mapControlVariableToNodeId(action.controlVariable);
+    // Resolve the control variable through the plant's tag mapping
+    const tag = commandableTag(action.controlVariable);
     
     // Validate command safety
-    await validateCommandSafety(action, nodeId);
-    
-    // Execute the command
-    const executedValue = await opcuaClient.writeValue(nodeId, action.proposedValue);
+    await validateCommandSafety(action, tag);
     
-    // Verify execution
-    const verificationValue = await opcuaClient.readValue(nodeId);
+    // Execute the command and verify the PLC holds it and the process follows
+    const trackProcess = options.trackProcess !== false &&
+      Boolean(addressSpaceReport?.variables[action.controlVariable]?.processTracking);
+    const verification = await opcuaClient.writeAndVerify(tag.setpointNodeId, action.proposedValue, {
+      setpointTolerance: tag.verification.setpointTolerance,
+      processNodeId: trackProcess ? tag.processNodeId : undefined,
+      processTolerance: tag.verification.processTolerance,
+      settleTimeout: tag.verification.settleTimeout,
+      dataType: tag.dataType,
+      scaling: tag.scaling
+    });
     
     const latency = (Date.now() - startTime) / 1000;
     
-    logger.info('OPC-UA command executed successfully', {
+    logger.info('OPC-UA command executed', {
       controlVariable: action.controlVariable,
       currentValue: action.currentValue,
       proposedValue: action.proposedValue,
-      executedValue: verificationValue,
+      executedValue: verification.readbackValue,
+      setpointAccepted: verification.setpointAccepted,
+      processOutcome: verification.process?.outcome ?? null,
       latency
     });
     
     return {
-      executedValue: verificationValue,
+      executedValue: verification.readbackValue,
+      previousValue: verification.previousValue,
       latency,
-      status: 'success'
+      status: verification.setpointAccepted ? 'success' : 'not_accepted',
+      verification
     };
     
   } catch (error) {
@@ -201,34 +491,44 @@ async function executeOPCUACommand(action: any) {
 }
 
 /**
- * Map control variable to OPC-UA node ID
+ * Tag mapping entry for a control variable that may be commanded: mapped, writable
+ * and confirmed against the address space at start-up
  */
-function mapControlVariableToNodeId(controlVariable: string): string {
-  const nodeMapping: { [key: string]: string } = {
-    'kiln_speed': 'ns=2;s=Kiln.Speed.Setpoint',
-    'fuel_flow': 'ns=2;s=Fuel.Flow.Setpoint',
-    'feed_rate': 'ns=2;s=Feed.Rate.Setpoint',
-    'preheater_temp': 'ns=2;s=Preheater.Temperature.Setpoint',
-    'mill_power': 'ns=2;s=Mill.Power.Setpoint'
-  };
-  
-  const nodeId = nodeMapping[controlVariable];
-  if (!nodeId) {
+function commandableTag(controlVariable: string): TagMappingEntry {
+  const tag = TAG_MAPPING.variables[controlVariable];
+  if (!tag) {
     throw new Error(`Unknown control variable: ${controlVariable}`);
   }
-  
-  return nodeId;
+  if (!tag.writable) {
+    throw new Error(`Control variable ${controlVariable} is read-only in the ${TAG_MAPPING.plant} tag mapping`);
+  }
+  if (!addressSpaceReport) {
+    throw new Error('Tag mapping not yet validated against the OPC-UA server');
+  }
+  const validation = addressSpaceReport.variables[controlVariable];
+  if (!validation?.commandable) {
+    throw new Error(`Control variable ${controlVariable} failed tag validation: ${validation?.errors.join('; ')}`);
+  }
+  return tag;
+}
+
+/**
+ * Current setpoint in engineering units
+ */
+async function readSetpoint(tag: TagMappingEntry): Promise<number> {
+  const reading = await opcuaClient.readValue(tag.setpointNodeId);
+  return toEngineeringValue(tag, Number(reading.value));
 }
 
 /**
  * Validate command safety before execution
  */
-async function validateCommandSafety(action: any, nodeId: string) {
+async function validateCommandSafety(action: ControlAction, tag: TagMappingEntry) {
   // Read current value from OPC-UA
-  const currentValue = await opcuaClient.readValue(nodeId);
+  const currentValue = await readSetpoint(tag);
   
   // Validate proposed value is within safe limits
-  const safetyLimits = getSafetyLimits(action.controlVariable);
+  const safetyLimits = tag.limits;
   if (action.proposedValue < safetyLimits.min || action.proposedValue > safetyLimits.max) {
     throw new Error(`Proposed value ${action.proposedValue} outside safety limits [${safetyLimits.min}, ${safetyLimits.max}]`);
   }
@@ -242,38 +542,19 @@ async function validateCommandSafety(action: any, nodeId: string) {
   }
   
   // Check for emergency conditions
-  const emergencyStatus = await opcuaClient.readValue('ns=2;s=System.EmergencyStatus');
-  if (emergencyStatus === 1) {
+  const emergencyStatus = await opcuaClient.readValue(TAG_MAPPING.systemNodes.emergencyStatus);
+  if (emergencyStatus.value === 1 || emergencyStatus.value === true) {
     throw new Error('Emergency condition active - commands not allowed');
   }
 }
 
-/**
- * Get safety limits for control variables
- */
-function getSafetyLimits(controlVariable: string) {
-  const limits: { [key: string]: { min: number; max: number; maxAdjustment: number } } = {
-    'kiln_speed': { min: 2.8, max: 4.2, maxAdjustment: 0.2 },
-    'fuel_flow': { min: 4.5, max: 6.8, maxAdjustment: 0.3 },
-    'feed_rate': { min: 180, max: 220, maxAdjustment: 5.0 },
-    'preheater_temp': { min: 850, max: 950, maxAdjustment: 10.0 },
-    'mill_power': { min: 1000, max: 5000, maxAdjustment: 200.0 }
-  };
-  
-  const limit = limits[controlVariable];
-  if (!limit) {
-    throw new Error(`No safety limits defined for control variable: ${controlVariable}`);
-  }
-  
-  return limit;
-}
-
 /**
  * Handle A2A message reception
  */
 app.post('/a2a/receive', async (req, res) => {
   const tracer = trace.getTracer('egress-agent');
   const span = tracer.startSpan('receive_a2a_message');
+  let reservedCommandId: string | null = null;
   
   try {
     // Validate A2A message
@@ -285,16 +566,102 @@ app.post('/a2a/receive', async (req, res) => {
     }
 
     const message = req.body;
+    const commandId = message.payload?.commandId || message.messageId;
+    const acknowledged = message.messageType === 'command' ? acknowledgedCommands.get(commandId) : undefined;
     
     // Process command message
-    if (message.messageType === 'command') {
-      const commandResult = await executeOPCUACommand(message.payload.action);
+    if (acknowledged?.status === 'executing') {
+      res.status(409).json({
+        messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        conversationId: message.conversationId,
+        timestamp: new Date().toISOString(),
+        correlationId: message.correlationId,
+        senderAgent: 'egress_agent',
+        recipientAgent: message.senderAgent,
+        messageType: 'status',
+        payload: {
+          status: 'in_progress',
+          message: `Command ${commandId} is still executing`
+        },
+        protocolVersion: '1.0',
+        priority: 'normal'
+      });
+    } else if (acknowledged) {
+      span.setAttributes({ 'a2a.message.id': message.messageId, 'command.id': commandId, 'command.duplicate': true });
+      res.status(200).json({
+        messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        conversationId: message.conversationId,
+        timestamp: new Date().toISOString(),
+        correlationId: message.correlationId,
+        senderAgent: 'egress_agent',
+        recipientAgent: message.senderAgent,
+        messageType: 'status',
+        payload: {
+          status: acknowledged.status === 'ramping' ? 'ramp_started' : 'command_executed',
+          result: { ...acknowledged, duplicate: true },
+          message: `Command ${commandId} was already acknowledged; not executed again`
+        },
+        protocolVersion: '1.0',
+        priority: 'normal'
+      });
+    } else if (message.messageType === 'command' && message.payload.action?.executionMethod === 'gradual') {
+      const action = message.payload.action;
+      const activeRamp = rampExecutor.activeRampFor(action.controlVariable);
+      if (activeRamp) {
+        throw new Error(`Ramp ${activeRamp.rampId} is moving ${action.controlVariable}`);
+      }
+      reserveCommand(commandId, action);
+      reservedCommandId = commandId;
+      const ramp = await startRamp(commandId, action, message.payload.priority || message.priority);
+      recordAcknowledgement(commandId, action, 'ramping', null, ramp.startValue, ramp.rampId);
       
       span.setAttributes({
         'a2a.message.type': message.messageType,
         'a2a.message.id': message.messageId,
         'a2a.sender': message.senderAgent,
-        'command.status': 'executed'
+        'command.status': 'ramping',
+        'ramp.id': ramp.rampId
+      });
+      
+      res.status(202).json({
+        messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        conversationId: message.conversationId,
+        timestamp: new Date().toISOString(),
+        correlationId: message.correlationId,
+        senderAgent: 'egress_agent',
+        recipientAgent: message.senderAgent,
+        messageType: 'status',
+        payload: {
+          status: 'ramp_started',
+          result: ramp,
+          message: `Ramping ${action.controlVariable} over ${ramp.totalSteps} steps`
+        },
+        protocolVersion: '1.0',
+        priority: 'normal'
+      });
+    } else if (message.messageType === 'command') {
+      const activeRamp = rampExecutor.activeRampFor(message.payload.action?.controlVariable);
+      if (activeRamp) {
+        throw new Error(`Ramp ${activeRamp.rampId} is moving ${message.payload.action.controlVariable}`);
+      }
+      reserveCommand(commandId, message.payload.action);
+      reservedCommandId = commandId;
+      const commandResult = await scheduleOPCUACommand(
+        commandId,
+        message.payload.action,
+        message.payload.priority || message.priority
+      );
+      
+      const accepted = commandResult.verification.setpointAccepted;
+      if (accepted) {
+        recordAcknowledgement(commandId, message.payload.action, 'executed', commandResult.executedValue, commandResult.previousValue, null);
+      }
+      
+      span.setAttributes({
+        'a2a.message.type': message.messageType,
+        'a2a.message.id': message.messageId,
+        'a2a.sender': message.senderAgent,
+        'command.status': accepted ? 'executed' : 'setpoint_not_accepted'
       });
       
       res.status(200).json({
@@ -306,9 +673,11 @@ app.post('/a2a/receive', async (req, res) => {
         recipientAgent: message.senderAgent,
         messageType: 'status',
         payload: {
-          status: 'command_executed',
+          status: accepted ? 'command_executed' : 'setpoint_not_accepted',
           result: commandResult,
-          message: 'Command executed successfully on OPC-UA server'
+          message: accepted
+            ? 'Command executed successfully on OPC-UA server'
+            : `Setpoint read back as ${commandResult.executedValue}, not ${message.payload.action.proposedValue}`
         },
         protocolVersion: '1.0',
         priority: 'normal'
@@ -318,6 +687,27 @@ app.post('/a2a/receive', async (req, res) => {
     }
     
   } catch (error) {
+    if (error instanceof CommandRejectedError) {
+      span.setAttributes({ 'command.status': 'rejected', 'command.rejection_reason': error.reason });
+      return res.status(rejectionStatus(error)).set('Retry-After', String(error.retryAfterSeconds)).json({
+        messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        conversationId: req.body.conversationId,
+        timestamp: new Date().toISOString(),
+        correlationId: req.body.correlationId,
+        senderAgent: 'egress_agent',
+        recipientAgent: req.body.senderAgent,
+        messageType: 'status',
+        payload: {
+          status: 'command_rejected',
+          reason: error.reason,
+          retryAfterSeconds: error.retryAfterSeconds,
+          message: error.message
+        },
+        protocolVersion: '1.0',
+        priority: 'normal'
+      });
+    }
+    
     logger.error('A2A message processing failed', { error: (error as Error).message });
     span.recordException(error as Error);
     span.setStatus({ code: 2, message: (error as Error).message });
@@ -327,10 +717,134 @@ app.post('/a2a/receive', async (req, res) => {
       agent: 'egress'
     });
   } finally {
+    if (reservedCommandId) {
+      releaseReservation(reservedCommandId);
+    }
     span.end();
   }
 });
 
+/**
+ * Command scheduler state: write slots in use, queue and rate-limit budget
+ */
+app.get('/v1/commands/scheduler', (_req, res) => {
+  res.status(200).json({
+    agent: 'egress',
+    status: 'success',
+    scheduler: commandScheduler.getStatus(),
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * A command Egress has acknowledged, or status executing while it is being written;
+ * 404 when Egress has no record of it
+ */
+app.get('/v1/commands/:commandId', (req, res) => {
+  const acknowledged = acknowledgedCommands.get(req.params.commandId);
+  if (!acknowledged) {
+    return res.status(404).json({
+      agent: 'egress',
+      status: 'error',
+      error: 'Command not acknowledged'
+    });
+  }
+  
+  res.status(200).json({
+    agent: 'egress',
+    status: 'success',
+    command: acknowledged,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * Ramped setpoint moves, most recent first
+ */
+app.get('/v1/ramps', (_req, res) => {
+  const ramps = rampExecutor.list();
+  res.status(200).json({
+    agent: 'egress',
+    status: 'success',
+    ramps,
+    count: ramps.length,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * Progress of one ramp: steps written, readbacks and why it stopped
+ */
+app.get('/v1/ramps/:rampId', (req, res) => {
+  const ramp = rampExecutor.get(req.params.rampId);
+  if (!ramp) {
+    return res.status(404).json({
+      agent: 'egress',
+      error: 'Ramp not found',
+      rampId: req.params.rampId
+    });
+  }
+  
+  res.status(200).json({
+    agent: 'egress',
+    status: 'success',
+    ramp,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * Operator cancel; the variable is held at the last confirmed step
+ */
+app.post('/v1/ramps/:rampId/cancel', (req, res) => {
+  if (!SecurityValidator.validateAuthorization(req.headers.authorization as string)) {
+    return res.status(401).json({
+      error: 'Invalid authorization',
+      agent: 'egress'
+    });
+  }
+  
+  const existing = rampExecutor.get(req.params.rampId);
+  if (!existing) {
+    return res.status(404).json({
+      agent: 'egress',
+      error: 'Ramp not found',
+      rampId: req.params.rampId
+    });
+  }
+  if (existing.status !== 'running') {
+    return res.status(409).json({
+      agent: 'egress',
+      error: `Ramp already ${existing.status}`,
+      ramp: existing
+    });
+  }
+  
+  const cancelledBy = (req.headers['x-user-id'] as string) || 'unknown';
+  const ramp = rampExecutor.cancel(req.params.rampId, cancelledBy, req.body?.reason)!;
+  logger.warn('Setpoint ramp cancelled', { rampId: ramp.rampId, cancelledBy, status: ramp.status });
+  res.status(200).json({
+    agent: 'egress',
+    status: 'success',
+    ramp,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * The plant's tag mapping and how it matched the address space; read-only
+ */
+app.get('/v1/tag-mapping', (_req, res) => {
+  res.status(200).json({
+    agent: 'egress',
+    status: 'success',
+    plant: TAG_MAPPING.plant,
+    mapping: TAG_MAPPING,
+    validation: addressSpaceReport,
+    timestamp: new Date().toISOString()
+  });
+});
+
 /**
  * Get OPC-UA server status and information
  */
@@ -454,8 +968,11 @@ app.post('/v1/emergency-stop', async (req, res) => {
       });
     }
     
+    // No further ramp steps once the plant is stopping
+    rampExecutor.cancelAll('Emergency stop', (req.headers['x-user-id'] as string) || 'unknown');
+    
     // Execute emergency stop on OPC-UA
-    await opcuaClient.writeValue('ns=2;s=System.EmergencyStop', 1);
+    await opcuaClient.writeValue(TAG_MAPPING.systemNodes.emergencyStop, 1);
     
     logger.warn('Emergency stop executed', {
       timestamp: new Date().toISOString(),
@@ -520,25 +1037,8 @@ async function initializeAgent() {
       securityPolicy: serverInfo.securityPolicy
     });
     
-    // Validate critical nodes exist
-    const criticalNodes = [
-      'ns=2;s=Kiln.Speed.Setpoint',
-      'ns=2;s=Fuel.Flow.Setpoint',
-      'ns=2;s=Feed.Rate.Setpoint',
-      'ns=2;s=Preheater.Temperature.Setpoint',
-      'ns=2;s=Mill.Power.Setpoint',
-      'ns=2;s=System.EmergencyStatus',
-      'ns=2;s=System.EmergencyStop'
-    ];
-    
-    for (const nodeId of criticalNodes) {
-      const exists = await opcuaClient.validateNodeExists(nodeId);
-      if (!exists) {
-        logger.warn('Critical OPC-UA node not found', { nodeId });
-      } else {
-        logger.debug('OPC-UA node validated', { nodeId });
-      }
-    }
+    // Check the plant's tag mapping against the address space; failing tags cannot be commanded
+    addressSpaceReport = await validateAddressSpace(opcuaClient, TAG_MAPPING);
     
     // Start connection monitoring
     setInterval(monitorOPCUAConnection, 30000); // Check every 30 seconds
@@ -549,6 +1049,8 @@ async function initializeAgent() {
       port,
       projectId,
       opcuaEndpoint: OPCUA_CONFIG.endpoint,
+      plant: TAG_MAPPING.plant,
+      tagMappingValid: addressSpaceReport.valid,
       serverInfo: {
         sessionId: serverInfo.sessionId,
         securityMode: serverInfo.securityMode
@@ -560,6 +1062,15 @@ async function initializeAgent() {
   }
 }
 
+// A mapping that does not describe the plant must not be used to command it
+if (TAG_MAPPING_ERRORS.length > 0) {
+  logger.error('Egress Agent cannot start: invalid tag mapping', {
+    file: process.env.TAG_MAPPING_FILE || 'built-in',
+    errors: TAG_MAPPING_ERRORS
+  });
+  process.exit(1);
+}
+
 // Start server
 app.listen(port, async () => {
   console.log(`Egress Agent listening on :${port}`);
@@ -0,0 +1,113 @@
+/**
+ * CemAI Plant Simulator
+ * Local OPC-UA server for running Egress without a plant: point OPCUA_ENDPOINT at
+ * opc.tcp://localhost:SIM_PORT. A small HTTP API on SIM_CONTROL_PORT inspects the
+ * simulated process and injects faults; SIM_FAULTS sets the faults at start-up
+ */
+import express from 'express';
+import { Server } from 'http';
+import { logger } from '../utils/logger';
+import { SIMULATION_CONFIG, DEFAULT_SIMULATION_FAULTS, TAG_MAPPING, TAG_MAPPING_ERRORS } from '../config/constants';
+import { PlantProcessModel } from './plant-process-model';
+import { PlantSimulationServer, mergeSimulationFaults } from './opcua-simulation-server';
+
+export interface SimulationHandle {
+  endpoint: string;
+  controlPort: number;
+  model: PlantProcessModel;
+  server: PlantSimulationServer;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Start the OPC-UA server and its control API; integration tests start it in-process
+ */
+export async function startSimulation(config: typeof SIMULATION_CONFIG = SIMULATION_CONFIG): Promise<SimulationHandle> {
+  if (TAG_MAPPING_ERRORS.length > 0) {
+    throw new Error(`Invalid tag mapping: ${TAG_MAPPING_ERRORS.join('; ')}`);
+  }
+  const model = new PlantProcessModel(TAG_MAPPING, config);
+  const server = new PlantSimulationServer(TAG_MAPPING, model, config);
+  if (process.env.SIM_FAULTS) {
+    model.setFaults(mergeSimulationFaults(DEFAULT_SIMULATION_FAULTS, JSON.parse(process.env.SIM_FAULTS)));
+  }
+  await server.start();
+
+  const app = express();
+  app.use(express.json());
+
+  app.get('/state', (req, res) => {
+    res.json({ ...model.getState(), endpoint: server.endpoint, serverRunning: server.isRunning() });
+  });
+
+  app.get('/faults', (req, res) => {
+    res.json(model.getFaults());
+  });
+
+  // Partial update; fields left out keep their current value
+  app.put('/faults', (req, res) => {
+    try {
+      server.setFaults(mergeSimulationFaults(model.getFaults(), req.body));
+      res.json(model.getFaults());
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post('/faults/clear', (req, res) => {
+    server.setFaults(DEFAULT_SIMULATION_FAULTS);
+    res.json(model.getFaults());
+  });
+
+  app.post('/disconnect', async (req, res) => {
+    const durationMs = Number(req.body?.durationMs ?? model.getFaults().disconnectDurationMs);
+    if (!(Number.isFinite(durationMs) && durationMs >= 0)) {
+      return res.status(400).json({ error: 'durationMs must be a non-negative number' });
+    }
+    await server.disconnect(durationMs);
+    res.json({ disconnected: true, durationMs });
+  });
+
+  app.post('/emergency-reset', (req, res) => {
+    model.setEmergencyStop(false);
+    logger.info('Simulated emergency stop reset through control API');
+    res.json(model.getState());
+  });
+
+  // Back to the settled start-up state; faults are cleared too
+  app.post('/reset', (req, res) => {
+    model.reset();
+    server.setFaults(DEFAULT_SIMULATION_FAULTS);
+    res.json(model.getState());
+  });
+
+  const control = await new Promise<Server>(resolve => {
+    const listener = app.listen(config.controlPort, () => resolve(listener));
+  });
+  logger.info('Simulation control API listening', { port: config.controlPort });
+
+  return {
+    endpoint: server.endpoint,
+    controlPort: config.controlPort,
+    model,
+    server,
+    stop: async () => {
+      await new Promise<void>(resolve => control.close(() => resolve()));
+      await server.stop();
+    }
+  };
+}
+
+if (require.main === module) {
+  startSimulation().then(simulation => {
+    const shutdown = async () => {
+      await simulation.stop();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  }).catch(error => {
+    logger.error('Plant simulator failed to start', { error: (error as Error).message });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,324 @@
+import {
+  OPCUAServer,
+  AddressSpace,
+  UAObject,
+  BindVariableOptions,
+  TimestampGetFunc,
+  VariableSetter,
+  DataType,
+  DataValue,
+  Variant,
+  StatusCode,
+  StatusCodes
+} from 'node-opcua';
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import { SIMULATION_CONFIG, SimulationFaults } from '../config/constants';
+import { TagMapping, TagMappingEntry } from '../config/tag-mapping';
+import { PlantProcessModel } from './plant-process-model';
+
+// node-opcua also binds a plain set next to timestamped_get, a pairing its typings leave out
+type VariableBinding = BindVariableOptions | { timestamped_get: TimestampGetFunc; set: VariableSetter };
+
+/**
+ * OPC-UA Plant Simulation Server for Egress development
+ * Serves the tag mapping's address space over node-opcua, backed by PlantProcessModel.
+ * Values are exposed raw (through the mapping's scaling) with the mapped data types and
+ * write access, so Egress validates and commands it exactly as it would the plant.
+ * Faults (bad status codes, slow writes, disconnects) are injected at the OPC-UA layer
+ */
+export class PlantSimulationServer {
+  private mapping: TagMapping;
+  private model: PlantProcessModel;
+  private config: typeof SIMULATION_CONFIG;
+  private server: OPCUAServer | null = null;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private disconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastTick = Date.now();
+
+  constructor(mapping: TagMapping, model: PlantProcessModel, config: typeof SIMULATION_CONFIG = SIMULATION_CONFIG) {
+    this.mapping = mapping;
+    this.model = model;
+    this.config = config;
+  }
+
+  get endpoint(): string {
+    return `opc.tcp://localhost:${this.config.port}`;
+  }
+
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  async start(): Promise<void> {
+    await this.startServer();
+
+    this.lastTick = Date.now();
+    this.tickTimer = setInterval(() => {
+      const now = Date.now();
+      this.model.step((now - this.lastTick) / 1000);
+      this.lastTick = now;
+    }, this.config.tickMs);
+
+    this.scheduleDisconnect();
+  }
+
+  async stop(): Promise<void> {
+    for (const timer of [this.tickTimer, this.disconnectTimer, this.reconnectTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.tickTimer = null;
+    this.disconnectTimer = null;
+    this.reconnectTimer = null;
+    await this.stopServer();
+  }
+
+  /**
+   * Drop every client by taking the server down for durationMs; the process keeps running
+   */
+  async disconnect(durationMs: number): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    logger.warn('Simulated OPC-UA disconnect', { durationMs });
+    await this.stopServer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.startServer().catch(error =>
+        logger.error('Simulation server failed to restart', { error: (error as Error).message }));
+    }, durationMs);
+  }
+
+  setFaults(faults: SimulationFaults): void {
+    this.model.setFaults(faults);
+    this.scheduleDisconnect();
+    logger.info('Simulation faults updated', { faults });
+  }
+
+  private async startServer(): Promise<void> {
+    const tracer = trace.getTracer('egress-agent');
+    const span = tracer.startSpan('start_simulation_server');
+
+    try {
+      const server = new OPCUAServer({
+        port: this.config.port,
+        resourcePath: '/UA/CemAISimulator',
+        buildInfo: {
+          productName: 'CemAI Plant Simulator',
+          buildNumber: '1.0.0',
+          buildDate: new Date()
+        }
+      });
+      await server.initialize();
+      this.buildAddressSpace(server.engine.addressSpace!);
+      await server.start();
+      this.server = server;
+
+      span.setAttributes({
+        'simulation.plant': this.mapping.plant,
+        'simulation.port': this.config.port,
+        'simulation.variables': Object.keys(this.mapping.variables).length
+      });
+
+      logger.info('Simulation server listening', { endpoint: this.endpoint, plant: this.mapping.plant });
+
+    } catch (error) {
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private async stopServer(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await server.shutdown(0);
+    }
+  }
+
+  /**
+   * One object per plant system under Objects, with the mapped node ids
+   */
+  private buildAddressSpace(addressSpace: AddressSpace): void {
+    const nodeIds = [
+      ...Object.values(this.mapping.systemNodes),
+      ...Object.values(this.mapping.variables).flatMap(entry =>
+        entry.processNodeId ? [entry.setpointNodeId, entry.processNodeId] : [entry.setpointNodeId])
+    ];
+    const reserved = nodeIds.filter(nodeId => namespaceIndex(nodeId) === 0);
+    if (reserved.length > 0) {
+      throw new Error(`Namespace 0 is reserved for the OPC-UA standard, cannot simulate ${reserved.join(', ')}`);
+    }
+    const maxIndex = Math.max(...nodeIds.map(namespaceIndex));
+    // Mapped ids carry their namespace index; register namespaces until every index exists
+    while (addressSpace.getNamespaceArray().length <= maxIndex) {
+      addressSpace.registerNamespace(`urn:cemai:simulator:ns${addressSpace.getNamespaceArray().length}`);
+    }
+
+    const folders = new Map<string, UAObject>();
+    const folderFor = (name: string) => {
+      if (!folders.has(name)) {
+        folders.set(name, addressSpace.getOwnNamespace().addObject({
+          organizedBy: addressSpace.rootFolder.objects,
+          browseName: name
+        }));
+      }
+      return folders.get(name)!;
+    };
+
+    const namespaces = addressSpace.getNamespaceArray();
+    const addVariable = (
+      nodeId: string,
+      browseName: string,
+      folder: UAObject,
+      dataType: string,
+      writable: boolean,
+      value: VariableBinding
+    ) => {
+      const accessLevel = writable ? 'CurrentRead | CurrentWrite' : 'CurrentRead';
+      namespaces[namespaceIndex(nodeId)].addVariable({
+        componentOf: folder,
+        nodeId,
+        browseName,
+        dataType,
+        accessLevel,
+        userAccessLevel: accessLevel,
+        minimumSamplingInterval: this.config.tickMs,
+        value: value as BindVariableOptions
+      });
+    };
+
+    // Double, since Egress writes the emergency stop as a plain number
+    const system = folderFor('System');
+    addVariable(this.mapping.systemNodes.emergencyStatus, 'EmergencyStatus', system, 'Double', false, {
+      get: () => new Variant({ dataType: DataType.Double, value: this.model.isEmergencyStopActive() ? 1 : 0 })
+    });
+    addVariable(this.mapping.systemNodes.emergencyStop, 'EmergencyStop', system, 'Double', true, {
+      get: () => new Variant({ dataType: DataType.Double, value: this.model.isEmergencyStopActive() ? 1 : 0 }),
+      set: (variant: Variant) => {
+        const active = Number(variant.value) !== 0;
+        if (active !== this.model.isEmergencyStopActive()) {
+          logger.warn(active ? 'Simulated emergency stop engaged' : 'Simulated emergency stop reset');
+        }
+        this.model.setEmergencyStop(active);
+        return StatusCodes.Good;
+      }
+    });
+
+    for (const [controlVariable, entry] of Object.entries(this.mapping.variables)) {
+      const folder = folderFor(entry.system);
+      addVariable(entry.setpointNodeId, `${controlVariable}.Setpoint`, folder, entry.dataType, entry.writable, {
+        timestamped_get: () => this.readVariable(controlVariable, entry, 'setpoint'),
+        set: (variant: Variant, callback: (error: Error | null, statusCode?: StatusCode) => void) => {
+          const write = () => callback(null, this.writeVariable(controlVariable, entry, Number(variant.value)));
+          const delay = this.model.getFaults().slowWriteMs;
+          if (delay > 0) {
+            setTimeout(write, delay);
+          } else {
+            write();
+          }
+        }
+      });
+      if (entry.processNodeId) {
+        addVariable(entry.processNodeId, `${controlVariable}.ProcessValue`, folder, entry.dataType, false, {
+          timestamped_get: () => this.readVariable(controlVariable, entry, 'processValue')
+        });
+      }
+    }
+  }
+
+  private readVariable(controlVariable: string, entry: TagMappingEntry, field: 'setpoint' | 'processValue'): DataValue {
+    if (this.injectBadStatus(controlVariable)) {
+      return new DataValue({ statusCode: StatusCodes.BadSensorFailure, sourceTimestamp: new Date() });
+    }
+    const variable = this.model.get(controlVariable)!;
+    return new DataValue({
+      value: new Variant({ dataType: DataType[entry.dataType as keyof typeof DataType], value: toRawValue(entry, variable[field]) }),
+      statusCode: StatusCodes.Good,
+      sourceTimestamp: new Date()
+    });
+  }
+
+  private writeVariable(controlVariable: string, entry: TagMappingEntry, raw: number): StatusCode {
+    if (this.injectBadStatus(controlVariable)) {
+      logger.warn('Simulated write failure', { controlVariable });
+      return StatusCodes.BadDeviceFailure;
+    }
+
+    const result = this.model.writeSetpoint(controlVariable, raw * entry.scaling.scale + entry.scaling.offset);
+    if (!result.accepted) {
+      logger.warn('Simulated setpoint write refused', { controlVariable, reason: result.reason });
+      return StatusCodes.BadInvalidState;
+    }
+    logger.info('Simulated setpoint written', { controlVariable, setpoint: result.setpoint });
+    return StatusCodes.Good;
+  }
+
+  private injectBadStatus(controlVariable: string): boolean {
+    const faults = this.model.getFaults();
+    const applies = faults.badStatusVariables.length === 0 || faults.badStatusVariables.includes(controlVariable);
+    return applies && Math.random() < faults.badStatusRate;
+  }
+
+  private scheduleDisconnect(): void {
+    if (this.disconnectTimer) {
+      clearTimeout(this.disconnectTimer);
+      this.disconnectTimer = null;
+    }
+    const { disconnectIntervalMs, disconnectDurationMs } = this.model.getFaults();
+    if (disconnectIntervalMs <= 0) {
+      return;
+    }
+
+    this.disconnectTimer = setTimeout(async () => {
+      await this.disconnect(disconnectDurationMs);
+      // The next interval counts from when the server is back
+      this.disconnectTimer = setTimeout(() => this.scheduleDisconnect(), disconnectDurationMs);
+    }, disconnectIntervalMs);
+  }
+}
+
+/**
+ * Validate a partial fault update and merge it over the current faults
+ */
+export function mergeSimulationFaults(current: SimulationFaults, update: unknown): SimulationFaults {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    throw new Error('Faults must be an object');
+  }
+
+  const merged: Record<string, unknown> = { ...current, ...update };
+  const rate = merged.badStatusRate;
+  if (!(typeof rate === 'number' && Number.isFinite(rate) && rate >= 0 && rate <= 1)) {
+    throw new Error('badStatusRate must be between 0 and 1');
+  }
+  for (const field of ['slowWriteMs', 'disconnectIntervalMs', 'disconnectDurationMs']) {
+    const ms = merged[field];
+    if (!(typeof ms === 'number' && Number.isFinite(ms) && ms >= 0)) {
+      throw new Error(`${field} must be a non-negative number of milliseconds`);
+    }
+  }
+  for (const field of ['badStatusVariables', 'stuckVariables']) {
+    const variables = merged[field];
+    if (!Array.isArray(variables) || !variables.every(v => typeof v === 'string')) {
+      throw new Error(`${field} must be a list of control variables`);
+    }
+  }
+  if (!merged.clampSetpoints || typeof merged.clampSetpoints !== 'object' || Array.isArray(merged.clampSetpoints)) {
+    throw new Error('clampSetpoints must be an object keyed by control variable');
+  }
+  return merged as unknown as SimulationFaults;
+}
+
+function namespaceIndex(nodeId: string): number {
+  const match = /^ns=(\d+);/.exec(nodeId);
+  return match ? Number(match[1]) : 0;
+}
+
+function toRawValue(entry: TagMappingEntry, value: number): number {
+  const raw = (value - entry.scaling.offset) / entry.scaling.scale;
+  return entry.dataType === 'Double' || entry.dataType === 'Float' ? raw : Math.round(raw);
+}
@@ -0,0 +1,129 @@
+import { SIMULATION_CONFIG, DEFAULT_SIMULATION_FAULTS, SimulationFaults } from '../config/constants';
+import { TagMapping, TagMappingEntry } from '../config/tag-mapping';
+
+export interface SimulatedVariable {
+  controlVariable: string;
+  unit: string;
+  // Engineering units
+  setpoint: number;
+  processValue: number;
+  timeConstantSeconds: number;
+  stuck: boolean;
+}
+
+export interface SetpointWriteResult {
+  accepted: boolean;
+  // What the simulated PLC holds after clamping
+  setpoint: number;
+  reason?: string;
+}
+
+/**
+ * Simulated Plant Process for Egress development
+ * Each mapped control variable is a first-order lag: the process value moves toward its
+ * setpoint with the variable's time constant. An emergency stop drives every process
+ * value toward zero and refuses setpoint writes until it is reset
+ */
+export class PlantProcessModel {
+  private mapping: TagMapping;
+  private config: typeof SIMULATION_CONFIG;
+  private variables: Map<string, SimulatedVariable> = new Map();
+  private faults: SimulationFaults = { ...DEFAULT_SIMULATION_FAULTS };
+  private emergencyStopActive = false;
+
+  constructor(mapping: TagMapping, config: typeof SIMULATION_CONFIG = SIMULATION_CONFIG) {
+    this.mapping = mapping;
+    this.config = config;
+    this.reset();
+  }
+
+  /**
+   * Every variable settled at the middle of its limits, emergency stop cleared
+   */
+  reset(): void {
+    this.variables.clear();
+    for (const [controlVariable, entry] of Object.entries(this.mapping.variables)) {
+      const midpoint = (entry.limits.min + entry.limits.max) / 2;
+      this.variables.set(controlVariable, {
+        controlVariable,
+        unit: entry.unit,
+        setpoint: midpoint,
+        processValue: midpoint,
+        timeConstantSeconds: this.config.timeConstantSeconds[controlVariable] ?? this.config.defaultTimeConstantSeconds,
+        stuck: false
+      });
+    }
+    this.emergencyStopActive = false;
+    this.applyFaults();
+  }
+
+  /**
+   * Advance the process by dt seconds
+   */
+  step(dt: number): void {
+    for (const variable of this.variables.values()) {
+      if (variable.stuck) continue;
+      const target = this.emergencyStopActive ? 0 : variable.setpoint;
+      variable.processValue += (target - variable.processValue) * (1 - Math.exp(-dt / variable.timeConstantSeconds));
+    }
+  }
+
+  writeSetpoint(controlVariable: string, value: number): SetpointWriteResult {
+    const variable = this.variables.get(controlVariable);
+    if (!variable) {
+      return { accepted: false, setpoint: NaN, reason: `Unknown control variable ${controlVariable}` };
+    }
+    if (this.emergencyStopActive) {
+      return { accepted: false, setpoint: variable.setpoint, reason: 'Emergency stop active' };
+    }
+
+    const entry = this.mapping.variables[controlVariable];
+    const clamp = this.faults.clampSetpoints[controlVariable] || {};
+    const min = Math.max(entry.limits.min, clamp.min ?? -Infinity);
+    const max = Math.min(entry.limits.max, clamp.max ?? Infinity);
+    // Like a PLC, an out-of-range write is accepted and clamped rather than refused
+    variable.setpoint = Math.min(max, Math.max(min, value));
+    return { accepted: true, setpoint: variable.setpoint };
+  }
+
+  get(controlVariable: string): SimulatedVariable | null {
+    const variable = this.variables.get(controlVariable);
+    return variable ? { ...variable } : null;
+  }
+
+  entry(controlVariable: string): TagMappingEntry {
+    return this.mapping.variables[controlVariable];
+  }
+
+  setEmergencyStop(active: boolean): void {
+    this.emergencyStopActive = active;
+  }
+
+  isEmergencyStopActive(): boolean {
+    return this.emergencyStopActive;
+  }
+
+  getFaults(): SimulationFaults {
+    return { ...this.faults };
+  }
+
+  setFaults(faults: SimulationFaults): void {
+    this.faults = { ...faults };
+    this.applyFaults();
+  }
+
+  getState() {
+    return {
+      plant: this.mapping.plant,
+      emergencyStopActive: this.emergencyStopActive,
+      variables: [...this.variables.values()].map(variable => ({ ...variable })),
+      faults: this.getFaults()
+    };
+  }
+
+  private applyFaults(): void {
+    for (const variable of this.variables.values()) {
+      variable.stuck = this.faults.stuckVariables.includes(variable.controlVariable);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { CommandScheduler, CommandRejectedError } from './command-scheduler';
+import { COMMAND_SCHEDULER_CONFIG, CommandPriority } from '../config/constants';
+
+const command = (commandId: string, controlVariable: string = 'kiln_speed', priority: CommandPriority = 'normal') =>
+  ({ commandId, controlVariable, priority });
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// A task that finishes when the test says so
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('CommandScheduler', () => {
+  it('rejects a variable past its per-minute limit with a retry-after', async () => {
+    const scheduler = new CommandScheduler({ ...COMMAND_SCHEDULER_CONFIG, variableRateLimit: 2 });
+
+    await scheduler.schedule(command('cmd_1'), async () => 1);
+    await scheduler.schedule(command('cmd_2'), async () => 2);
+    const rejected = scheduler.schedule(command('cmd_3'), async () => 3);
+
+    await expect(rejected).rejects.toBeInstanceOf(CommandRejectedError);
+    await expect(rejected).rejects.toMatchObject({ reason: 'variable_rate_limit', retryAfterSeconds: 60 });
+    // Other variables keep their own budget
+    expect(await scheduler.schedule(command('cmd_4', 'fuel_flow'), async () => 4)).toBe(4);
+  });
+
+  it('runs one command per variable at a time and starts waiting ones by priority', async () => {
+    const scheduler = new CommandScheduler({ ...COMMAND_SCHEDULER_CONFIG, maxConcurrentCommands: 1 });
+    const started: string[] = [];
+    const first = deferred<void>();
+
+    const running = scheduler.schedule(command('cmd_running'), () => first.promise);
+    const queued = [
+      scheduler.schedule(command('cmd_low', 'fuel_flow', 'low'), async () => { started.push('cmd_low'); }),
+      scheduler.schedule(command('cmd_critical', 'feed_rate', 'critical'), async () => { started.push('cmd_critical'); })
+    ];
+    expect(scheduler.getStatus().queued.map(q => q.commandId)).toEqual(['cmd_critical', 'cmd_low']);
+
+    first.resolve();
+    await Promise.all([running, ...queued]);
+
+    expect(started).toEqual(['cmd_critical', 'cmd_low']);
+  });
+
+  it('keeps the write slot taken until a timed-out write settles', async () => {
+    const scheduler = new CommandScheduler({ ...COMMAND_SCHEDULER_CONFIG, maxQueueWait: 10000 });
+    const slowWrite = async () => {
+      await delay(1000);
+      return 3.6;
+    };
+
+    const slow = scheduler.schedule(command('cmd_slow'), slowWrite, { timeoutMs: 200 });
+    let nextStartedAt: number | null = null;
+    const next = scheduler.schedule(command('cmd_next'), async () => {
+      nextStartedAt = Date.now();
+      return 'next';
+    }, { timeoutMs: 2000 });
+
+    await expect(slow).rejects.toThrow('Command timeout');
+    const timedOutAt = Date.now();
+    expect(scheduler.getStatus().running.map(r => r.commandId)).toEqual(['cmd_slow']);
+
+    // The next command on the variable starts only once the slow write has landed
+    expect(await next).toBe('next');
+    expect(nextStartedAt! - timedOutAt).toBeGreaterThanOrEqual(700);
+    expect(scheduler.getStatus()).toMatchObject({ executed: 2, failed: 0 });
+  });
+
+  it('gives up on a command that waits too long for a slot without using its rate budget', async () => {
+    const scheduler = new CommandScheduler({ ...COMMAND_SCHEDULER_CONFIG, maxQueueWait: 100 });
+    const first = deferred<void>();
+
+    const running = scheduler.schedule(command('cmd_running'), () => first.promise);
+    await expect(scheduler.schedule(command('cmd_waiting'), async () => undefined))
+      .rejects.toMatchObject({ reason: 'queue_timeout' });
+    first.resolve();
+    await running;
+
+    expect(scheduler.getStatus().admittedLastMinute.perVariable).toEqual({ kiln_speed: 1 });
+  });
+});
@@ -0,0 +1,269 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from './logger';
+import {
+  COMMAND_SCHEDULER_CONFIG,
+  COMMAND_PRIORITY_RANK,
+  CommandPriority
+} from '../config/constants';
+
+export type CommandRejectionReason = 'variable_rate_limit' | 'rate_limit' | 'queue_full' | 'queue_timeout';
+
+export class CommandRejectedError extends Error {
+  readonly reason: CommandRejectionReason;
+  // When the caller may try again
+  readonly retryAfterSeconds: number;
+
+  constructor(reason: CommandRejectionReason, message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = 'CommandRejectedError';
+    this.reason = reason;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export interface ScheduledCommand {
+  commandId: string;
+  controlVariable: string;
+  priority: CommandPriority;
+}
+
+interface QueuedCommand extends ScheduledCommand {
+  sequence: number;
+  queuedAt: number;
+  start: () => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * OPC-UA Command Scheduler for Egress Agent
+ * Admits commands against overall and per-variable rate limits, queues them by priority
+ * and runs at most maxConcurrentCommands writes at once, one per control variable.
+ * Commands that cannot be admitted or wait too long are rejected with a retry-after
+ */
+export class CommandScheduler {
+  private config: typeof COMMAND_SCHEDULER_CONFIG;
+  private queue: QueuedCommand[] = [];
+  // Keyed by sequence; command ids from upstream are not guaranteed unique
+  private running: Map<number, ScheduledCommand & { startedAt: number }> = new Map();
+  private admissions: { sequence: number; controlVariable: string; at: number }[] = [];
+  private sequence = 0;
+  private stats = {
+    executed: 0,
+    failed: 0,
+    rejected: { variable_rate_limit: 0, rate_limit: 0, queue_full: 0, queue_timeout: 0 } as Record<CommandRejectionReason, number>
+  };
+
+  constructor(config: typeof COMMAND_SCHEDULER_CONFIG = COMMAND_SCHEDULER_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * Unknown or missing priorities are treated as normal
+   */
+  static normalizePriority(priority: unknown): CommandPriority {
+    return typeof priority === 'string' && priority in COMMAND_PRIORITY_RANK ? priority as CommandPriority : 'normal';
+  }
+
+  /**
+   * Run a command once it is admitted and a write slot is free; throws CommandRejectedError otherwise.
+   * With timeoutMs the caller stops waiting that long after the command starts, but the slot stays
+   * taken until the task itself settles, so a slow write never overlaps the next one on its variable
+   */
+  async schedule<T>(command: ScheduledCommand, task: () => Promise<T>, options: { timeoutMs?: number } = {}): Promise<T> {
+    const tracer = trace.getTracer('egress-agent');
+    const span = tracer.startSpan('schedule_opcua_command');
+    const queuedAt = Date.now();
+    const sequence = this.sequence++;
+
+    span.setAttributes({
+      'command.id': command.commandId,
+      'command.control_variable': command.controlVariable,
+      'command.priority': command.priority
+    });
+
+    try {
+      this.admit(command, sequence, queuedAt);
+      await this.waitForSlot(command, sequence, queuedAt);
+      span.setAttribute('command.queue_wait_ms', Date.now() - queuedAt);
+
+      const execution = this.run(sequence, task);
+      return options.timeoutMs ? await this.withTimeout(command, execution, options.timeoutMs) : await execution;
+
+    } catch (error) {
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  getStatus(now: number = Date.now()) {
+    this.pruneAdmissions(now);
+    const perVariable: Record<string, number> = {};
+    for (const admission of this.admissions) {
+      perVariable[admission.controlVariable] = (perVariable[admission.controlVariable] || 0) + 1;
+    }
+
+    return {
+      limits: {
+        maxConcurrentCommands: this.config.maxConcurrentCommands,
+        commandsPerMinute: this.config.commandRateLimit,
+        commandsPerMinutePerVariable: this.config.variableRateLimit,
+        maxQueueLength: this.config.maxQueueLength,
+        maxQueueWaitMs: this.config.maxQueueWait
+      },
+      running: [...this.running.values()].map(command => ({
+        commandId: command.commandId,
+        controlVariable: command.controlVariable,
+        priority: command.priority,
+        runningMs: now - command.startedAt
+      })),
+      queued: this.queue.map(command => ({
+        commandId: command.commandId,
+        controlVariable: command.controlVariable,
+        priority: command.priority,
+        waitingMs: now - command.queuedAt
+      })),
+      admittedLastMinute: { total: this.admissions.length, perVariable },
+      ...this.stats
+    };
+  }
+
+  queueDepth(): number {
+    return this.queue.length;
+  }
+
+  private async run<T>(sequence: number, task: () => Promise<T>): Promise<T> {
+    try {
+      const result = await task();
+      this.stats.executed++;
+      return result;
+    } catch (error) {
+      this.stats.failed++;
+      throw error;
+    } finally {
+      this.running.delete(sequence);
+      this.dispatch();
+    }
+  }
+
+  private async withTimeout<T>(command: ScheduledCommand, execution: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error('Command timeout'));
+        // The write may still land; record how it ended once it does
+        execution.then(
+          () => logger.warn('OPC-UA command completed after its timeout', { commandId: command.commandId }),
+          error => logger.warn('OPC-UA command failed after its timeout', {
+            commandId: command.commandId,
+            error: (error as Error).message
+          })
+        );
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([execution, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Sliding-window rate limits, per variable first, then overall, then queue capacity
+   */
+  private admit(command: ScheduledCommand, sequence: number, now: number): void {
+    this.pruneAdmissions(now);
+
+    const forVariable = this.admissions.filter(a => a.controlVariable === command.controlVariable);
+    if (forVariable.length >= this.config.variableRateLimit) {
+      this.reject(command, 'variable_rate_limit',
+        `${command.controlVariable} limited to ${this.config.variableRateLimit} commands per minute`,
+        forVariable[0].at + this.config.rateWindow - now);
+    }
+    if (this.admissions.length >= this.config.commandRateLimit) {
+      this.reject(command, 'rate_limit',
+        `Limited to ${this.config.commandRateLimit} commands per minute`,
+        this.admissions[0].at + this.config.rateWindow - now);
+    }
+    if (this.queue.length >= this.config.maxQueueLength) {
+      this.reject(command, 'queue_full',
+        `Command queue full (${this.config.maxQueueLength} waiting)`,
+        this.config.maxQueueWait);
+    }
+
+    this.admissions.push({ sequence, controlVariable: command.controlVariable, at: now });
+  }
+
+  private waitForSlot(command: ScheduledCommand, sequence: number, queuedAt: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const queued: QueuedCommand = {
+        ...command,
+        sequence,
+        queuedAt,
+        start: resolve,
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter(q => q !== queued);
+          // A command that never reached the DCS does not use up the rate budget
+          this.admissions = this.admissions.filter(a => a.sequence !== sequence);
+          try {
+            this.reject(command, 'queue_timeout',
+              `No write slot within ${this.config.maxQueueWait / 1000}s`,
+              this.config.maxQueueWait);
+          } catch (error) {
+            reject(error);
+          }
+        }, this.config.maxQueueWait)
+      };
+
+      const index = this.queue.findIndex(q =>
+        COMMAND_PRIORITY_RANK[q.priority] > COMMAND_PRIORITY_RANK[command.priority]);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, queued);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Start queued commands in priority order while slots are free, never two on one variable
+   */
+  private dispatch(): void {
+    while (this.running.size < this.config.maxConcurrentCommands) {
+      const busy = new Set([...this.running.values()].map(command => command.controlVariable));
+      const index = this.queue.findIndex(q => !busy.has(q.controlVariable));
+      if (index === -1) {
+        return;
+      }
+
+      const [next] = this.queue.splice(index, 1);
+      clearTimeout(next.timer);
+      this.running.set(next.sequence, {
+        commandId: next.commandId,
+        controlVariable: next.controlVariable,
+        priority: next.priority,
+        startedAt: Date.now()
+      });
+      next.start();
+    }
+  }
+
+  private pruneAdmissions(now: number): void {
+    const cutoff = now - this.config.rateWindow;
+    while (this.admissions.length > 0 && this.admissions[0].at <= cutoff) {
+      this.admissions.shift();
+    }
+  }
+
+  private reject(command: ScheduledCommand, reason: CommandRejectionReason, message: string, retryAfterMs: number): never {
+    const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    this.stats.rejected[reason]++;
+    logger.warn('OPC-UA command rejected by scheduler', {
+      commandId: command.commandId,
+      controlVariable: command.controlVariable,
+      priority: command.priority,
+      reason,
+      retryAfterSeconds
+    });
+    throw new CommandRejectedError(reason, message, retryAfterSeconds);
+  }
+}
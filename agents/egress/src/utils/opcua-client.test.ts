@@ -0,0 +1,98 @@
+import { OPCUAClientService } from './opcua-client';
+import { startSimulation, SimulationHandle } from '../simulation';
+import { DEFAULT_SIMULATION_FAULTS, SIMULATION_CONFIG, TAG_MAPPING } from '../config/constants';
+
+jest.setTimeout(30000);
+
+// Off the default ports, with a fast process so moves settle within the test
+const TEST_SIMULATION_CONFIG: typeof SIMULATION_CONFIG = {
+  ...SIMULATION_CONFIG,
+  port: 48440,
+  controlPort: 48441,
+  tickMs: 100,
+  timeConstantSeconds: {},
+  defaultTimeConstantSeconds: 0.5
+};
+
+const kilnSpeed = TAG_MAPPING.variables.kiln_speed;
+
+function verificationOptions(trackProcess: boolean = false) {
+  return {
+    setpointTolerance: kilnSpeed.verification.setpointTolerance,
+    processNodeId: trackProcess ? kilnSpeed.processNodeId : undefined,
+    processTolerance: kilnSpeed.verification.processTolerance,
+    settleTimeout: 5000,
+    dataType: kilnSpeed.dataType,
+    scaling: kilnSpeed.scaling
+  };
+}
+
+describe('OPC-UA command path against the plant simulator', () => {
+  let simulation: SimulationHandle;
+  let client: OPCUAClientService;
+
+  beforeAll(async () => {
+    simulation = await startSimulation(TEST_SIMULATION_CONFIG);
+    client = new OPCUAClientService(simulation.endpoint);
+    expect(await client.connect()).toBe(true);
+  });
+
+  afterAll(async () => {
+    await client.disconnect();
+    await simulation.stop();
+  });
+
+  beforeEach(() => {
+    simulation.model.reset();
+    simulation.server.setFaults(DEFAULT_SIMULATION_FAULTS);
+  });
+
+  it('writes a setpoint, reads it back and follows the process value to it', async () => {
+    const verification = await client.writeAndVerify(kilnSpeed.setpointNodeId, 3.6, verificationOptions(true));
+
+    expect(verification).toMatchObject({
+      requestedValue: 3.6,
+      previousValue: 3.5,
+      readbackValue: 3.6,
+      setpointAccepted: true,
+      clampedTo: null
+    });
+    expect(verification.process).toMatchObject({ outcome: 'reached', followed: true });
+    expect(simulation.model.get('kiln_speed')!.setpoint).toBe(3.6);
+  });
+
+  it('reports what the PLC clamped a setpoint to', async () => {
+    simulation.server.setFaults({ ...DEFAULT_SIMULATION_FAULTS, clampSetpoints: { kiln_speed: { max: 3.55 } } });
+
+    const verification = await client.writeAndVerify(kilnSpeed.setpointNodeId, 3.6, verificationOptions());
+
+    expect(verification).toMatchObject({ setpointAccepted: false, readbackValue: 3.55, clampedTo: 3.55 });
+  });
+
+  it('refuses writes while the emergency stop is engaged', async () => {
+    simulation.model.setEmergencyStop(true);
+
+    await expect(client.writeAndVerify(kilnSpeed.setpointNodeId, 3.6, verificationOptions()))
+      .rejects.toThrow('Write failed');
+    expect(simulation.model.get('kiln_speed')!.setpoint).toBe(3.5);
+  });
+
+  it('fails the write when the device reports a bad status', async () => {
+    simulation.server.setFaults({ ...DEFAULT_SIMULATION_FAULTS, badStatusRate: 1, badStatusVariables: ['kiln_speed'] });
+
+    await expect(client.writeAndVerify(kilnSpeed.setpointNodeId, 3.6, verificationOptions()))
+      .rejects.toThrow('Write failed');
+  });
+
+  it('flags a process value that does not follow its setpoint', async () => {
+    simulation.server.setFaults({ ...DEFAULT_SIMULATION_FAULTS, stuckVariables: ['kiln_speed'] });
+
+    const verification = await client.writeAndVerify(kilnSpeed.setpointNodeId, 3.6, {
+      ...verificationOptions(true),
+      settleTimeout: 1500
+    });
+
+    expect(verification.setpointAccepted).toBe(true);
+    expect(verification.process).toMatchObject({ outcome: 'not_following', followed: false });
+  });
+});
@@ -16,6 +16,51 @@ export interface OPCUACommand {
   priority: string;
 }
 
+export interface ProcessTracking {
+  nodeId: string;
+  target: number;
+  tolerance: number;
+  initialValue: number | null;
+  finalValue: number | null;
+  // reached: inside the band; moving: heading there when time ran out; not_following: no move toward it
+  outcome: 'reached' | 'moving' | 'not_following' | 'unavailable';
+  followed: boolean;
+  elapsedMs: number;
+  error?: string;
+}
+
+export interface SetpointVerification {
+  nodeId: string;
+  requestedValue: number;
+  previousValue: number | null;
+  readbackValue: number | null;
+  setpointAccepted: boolean;
+  // What the PLC holds instead when it clamped or otherwise changed the write
+  clampedTo: number | null;
+  // Null when no process value was tracked
+  process: ProcessTracking | null;
+  timestamp: string;
+}
+
+export interface VerificationOptions {
+  setpointTolerance: number;
+  processNodeId?: string;
+  processTolerance?: number;
+  settleTimeout?: number;
+  // From the tag mapping; values and tolerances are in engineering units
+  dataType?: string;
+  scaling?: { scale: number; offset: number };
+}
+
+export interface NodeInspection {
+  nodeId: string;
+  exists: boolean;
+  // Built-in type name, e.g. Double; null when not a variable
+  dataType: string | null;
+  writable: boolean | null;
+  error?: string;
+}
+
 export interface OPCUAConnectionStatus {
   connected: boolean;
   lastConnected?: Date;
@@ -243,13 +288,13 @@ export class OPCUAClientService {
     }
   }
 
-  async writeValue(nodeId: string, value: any): Promise<any> {
+  async writeValue(nodeId: string, value: any, dataTypeName?: string): Promise<any> {
     try {
       if (!this.session) {
         throw new Error('No active OPC-UA session');
       }
 
-      const dataType = this.getDataType(value);
+      const dataType = dataTypeName || this.getDataType(value);
       const statusCode = await this.session.write({
         nodeId: nodeId,
         attributeId: AttributeIds.Value,
@@ -282,6 +327,116 @@ export class OPCUAClientService {
     }
   }
 
+  /**
+   * Write a setpoint, read it back and, once accepted, watch the process value follow it
+   */
+  async writeAndVerify(nodeId: string, value: number, options: VerificationOptions): Promise<SetpointVerification> {
+    const scaling = options.scaling ?? { scale: 1, offset: 0 };
+    const toEngineering = (raw: unknown) => typeof raw === 'number' ? raw * scaling.scale + scaling.offset : null;
+    let raw = (value - scaling.offset) / scaling.scale;
+    if (options.dataType && !['Double', 'Float'].includes(options.dataType)) {
+      raw = Math.round(raw);
+    }
+
+    const previous = await this.readValue(nodeId).catch(() => null);
+    await this.writeValue(nodeId, raw, options.dataType);
+
+    const readback = await this.readValue(nodeId);
+    const readbackValue = readback.status === 'good' ? toEngineering(readback.value) : null;
+    const setpointAccepted = readbackValue !== null && Math.abs(readbackValue - value) <= options.setpointTolerance;
+
+    if (!setpointAccepted) {
+      logger.warn('Setpoint not accepted as written', {
+        nodeId,
+        requestedValue: value,
+        readbackValue,
+        readbackStatus: readback.status
+      });
+    }
+
+    const process = setpointAccepted && options.processNodeId
+      ? await this.trackProcessValue(
+        options.processNodeId,
+        value,
+        options.processTolerance ?? options.setpointTolerance,
+        options.settleTimeout ?? OPCUA_CONFIG.commandTimeout / 2,
+        scaling
+      )
+      : null;
+
+    return {
+      nodeId,
+      requestedValue: value,
+      previousValue: previous ? toEngineering(previous.value) : null,
+      readbackValue,
+      setpointAccepted,
+      clampedTo: !setpointAccepted && readbackValue !== null ? readbackValue : null,
+      process,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Monitor a process value until it is within tolerance of the target or the timeout passes
+   */
+  async trackProcessValue(
+    nodeId: string,
+    target: number,
+    tolerance: number,
+    timeoutMs: number,
+    scaling: { scale: number; offset: number } = { scale: 1, offset: 0 }
+  ): Promise<ProcessTracking> {
+    const startedAt = Date.now();
+    let initialValue: number | null = null;
+    let finalValue: number | null = null;
+
+    return new Promise<ProcessTracking>(resolve => {
+      let settled = false;
+      const finish = async (outcome: ProcessTracking['outcome'], error?: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        await this.stopMonitoringNode(nodeId);
+
+        const result: ProcessTracking = {
+          nodeId,
+          target,
+          tolerance,
+          initialValue,
+          finalValue,
+          outcome,
+          followed: outcome === 'reached',
+          elapsedMs: Date.now() - startedAt,
+          ...(error ? { error } : {})
+        };
+        if (outcome !== 'reached') {
+          logger.warn('Process value did not reach setpoint', { ...result });
+        }
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        if (initialValue === null || finalValue === null) {
+          finish('unavailable', 'No process value received');
+          return;
+        }
+        const movedToward = (finalValue - initialValue) * Math.sign(target - initialValue) >= tolerance;
+        finish(movedToward ? 'moving' : 'not_following');
+      }, timeoutMs);
+
+      this.monitorNode(nodeId, (dataValue: DataValue) => {
+        const raw = dataValue.value?.value;
+        if (typeof raw !== 'number' || !dataValue.statusCode.isGood()) return;
+        const value = raw * scaling.scale + scaling.offset;
+        if (initialValue === null) initialValue = value;
+        finalValue = value;
+        if (Math.abs(value - target) <= tolerance) {
+          finish('reached');
+        }
+      }).catch(error => finish('unavailable', (error as Error).message));
+    });
+  }
+
   async monitorNode(nodeId: string, callback: (data: DataValue) => void): Promise<void> {
     try {
       if (!this.subscription) {
@@ -425,6 +580,38 @@ export class OPCUAClientService {
     }
   }
 
+  /**
+   * Whether a node exists, its built-in data type and whether the session may write it
+   */
+  async inspectNode(nodeId: string): Promise<NodeInspection> {
+    if (!this.session) {
+      throw new Error('No active session');
+    }
+    try {
+      const [value, dataType, accessLevel] = await this.session.read([
+        { nodeId, attributeId: AttributeIds.Value },
+        { nodeId, attributeId: AttributeIds.DataType },
+        { nodeId, attributeId: AttributeIds.UserAccessLevel }
+      ]);
+      if (!value.statusCode.isGood() && !dataType.statusCode.isGood()) {
+        return { nodeId, exists: false, dataType: null, writable: null, error: value.statusCode.description };
+      }
+
+      const typeId = dataType.value?.value;
+      const access = accessLevel.value?.value;
+      return {
+        nodeId,
+        exists: true,
+        // Built-in types share their numeric ids with the DataType enum
+        dataType: typeof typeId?.value === 'number' && typeId.namespace === 0 ? DataType[typeId.value] ?? null : null,
+        // Bit 1 of the access level is CurrentWrite
+        writable: typeof access === 'number' ? (access & 0x02) !== 0 : null
+      };
+    } catch (error) {
+      return { nodeId, exists: false, dataType: null, writable: null, error: (error as Error).message };
+    }
+  }
+
   async getNodeAttributes(nodeId: string): Promise<any> {
     if (!this.session) {
       throw new Error('No active session');
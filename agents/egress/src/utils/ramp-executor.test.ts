@@ -0,0 +1,118 @@
+import { RampExecutor, RampRequest, RampState, RampStepWriter } from './ramp-executor';
+import { CommandRejectedError } from './command-scheduler';
+import { RAMP_CONFIG } from '../config/constants';
+
+const request = (fields: Partial<RampRequest> = {}): RampRequest => ({
+  commandId: 'cmd_1',
+  controlVariable: 'kiln_speed',
+  priority: 'normal',
+  startValue: 30,
+  targetValue: 34,
+  maxStep: 1,
+  durationMinutes: 30,
+  ...fields
+});
+
+// Writes that never land, for tests that only look at the plan
+const pendingWrite: RampStepWriter = () => new Promise<number>(() => undefined);
+const echoWrite: RampStepWriter = async (_ramp, _stepCommandId, setpoint) => setpoint;
+const qualityOk = async () => null;
+
+// Milliseconds between steps so a ramp runs within a test
+const fastConfig = { ...RAMP_CONFIG, stepIntervalSeconds: 0.01, minStepIntervalSeconds: 0.005 };
+
+async function finished(executor: RampExecutor, rampId: string): Promise<RampState> {
+  for (let i = 0; i < 200; i++) {
+    const ramp = executor.get(rampId)!;
+    if (ramp.status !== 'running' && ramp.status !== 'stopping') {
+      return ramp;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Ramp ${rampId} did not finish`);
+}
+
+describe('RampExecutor', () => {
+  describe('planning', () => {
+    const executor = () => new RampExecutor(pendingWrite, qualityOk);
+
+    it('spreads the steps over the requested duration at the configured interval', () => {
+      const ramp = executor().start(request());
+
+      expect(ramp).toMatchObject({ totalSteps: 30, stepIntervalSeconds: 60, durationMinutes: 30 });
+    });
+
+    it('stretches a ramp of many small steps to the variable rate limit', () => {
+      const ramp = executor().start(request({ targetValue: 230 }));
+
+      expect(RAMP_CONFIG.minStepIntervalSeconds).toBe(15);
+      expect(ramp).toMatchObject({ totalSteps: 200, stepIntervalSeconds: 15, durationMinutes: 50 });
+    });
+
+    it('rejects a ramp whose steps cannot fit in the longest duration at that rate', () => {
+      expect(() => executor().start(request({ targetValue: 1030 })))
+        .toThrow('Ramp of kiln_speed needs 1000 steps of at most 1, more than fit in 120 minutes at one step per 15s');
+    });
+
+    it('allows one ramp per variable at a time', () => {
+      const rampExecutor = executor();
+      const first = rampExecutor.start(request());
+
+      expect(() => rampExecutor.start(request({ commandId: 'cmd_2' })))
+        .toThrow(`Ramp ${first.rampId} is already moving kiln_speed`);
+      expect(rampExecutor.start(request({ commandId: 'cmd_3', controlVariable: 'fuel_flow' })).status).toBe('running');
+    });
+  });
+
+  it('writes evenly spaced steps and ends exactly on the target', async () => {
+    const executor = new RampExecutor(echoWrite, qualityOk, fastConfig);
+
+    const ramp = await finished(executor, executor.start(request({ durationMinutes: 0.0005 })).rampId);
+
+    expect(ramp).toMatchObject({ status: 'completed', completedSteps: 4, currentSetpoint: 34 });
+    expect(ramp.steps.map(s => s.setpoint)).toEqual([31, 32, 33, 34]);
+  });
+
+  it('retries a step the scheduler turned away', async () => {
+    let rejected = false;
+    const writeStep: RampStepWriter = async (ramp, stepCommandId, setpoint) => {
+      if (!rejected) {
+        rejected = true;
+        throw new CommandRejectedError('variable_rate_limit', 'Rate limit exceeded for kiln_speed', 0);
+      }
+      return echoWrite(ramp, stepCommandId, setpoint);
+    };
+    const executor = new RampExecutor(writeStep, qualityOk, fastConfig);
+
+    const ramp = await finished(executor, executor.start(request({ durationMinutes: 0.0005 })).rampId);
+
+    expect(ramp).toMatchObject({ status: 'completed', completedSteps: 4 });
+  });
+
+  it('stops on a quality alert and holds the last confirmed setpoint', async () => {
+    let checks = 0;
+    const checkQuality = async () => (++checks > 2 ? 'Guardian alert critical' : null);
+    const executor = new RampExecutor(echoWrite, checkQuality, fastConfig);
+
+    const ramp = await finished(executor, executor.start(request({ durationMinutes: 0.0005 })).rampId);
+
+    expect(ramp).toMatchObject({
+      status: 'aborted',
+      stopReason: 'Guardian alert critical',
+      completedSteps: 2,
+      currentSetpoint: 32
+    });
+  });
+
+  it('stops when a step reads back away from what was written', async () => {
+    const writeStep: RampStepWriter = async (_ramp, stepCommandId, setpoint) =>
+      stepCommandId.endsWith('_step2') ? setpoint - 0.5 : setpoint;
+    const executor = new RampExecutor(writeStep, qualityOk, fastConfig);
+
+    const ramp = await finished(executor, executor.start(request({ durationMinutes: 0.0005 })).rampId);
+
+    expect(ramp.status).toBe('aborted');
+    expect(ramp.completedSteps).toBe(1);
+    expect(ramp.currentSetpoint).toBe(31);
+  });
+});
@@ -0,0 +1,323 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from './logger';
+import { RAMP_CONFIG, CommandPriority } from '../config/constants';
+import { CommandRejectedError } from './command-scheduler';
+
+// stopping: a stop was requested and the ramp finishes its in-flight step first
+export type RampStatus = 'running' | 'stopping' | 'completed' | 'aborted' | 'cancelled' | 'failed';
+
+export interface RampStep {
+  step: number;
+  setpoint: number;
+  readback: number;
+  timestamp: string;
+}
+
+export interface RampState {
+  rampId: string;
+  commandId: string;
+  controlVariable: string;
+  priority: CommandPriority;
+  startValue: number;
+  targetValue: number;
+  durationMinutes: number;
+  stepIntervalSeconds: number;
+  totalSteps: number;
+  completedSteps: number;
+  // Last setpoint written and confirmed; where the variable is held if the ramp stops
+  currentSetpoint: number;
+  status: RampStatus;
+  stopReason: string | null;
+  cancelledBy: string | null;
+  startedAt: string;
+  nextStepAt: string | null;
+  finishedAt: string | null;
+  steps: RampStep[];
+}
+
+export interface RampRequest {
+  commandId: string;
+  controlVariable: string;
+  priority: CommandPriority;
+  startValue: number;
+  targetValue: number;
+  // Largest single move allowed for the variable
+  maxStep: number;
+  durationMinutes?: number;
+}
+
+/**
+ * Writes one ramp step and returns the value read back
+ */
+export type RampStepWriter = (ramp: RampState, stepCommandId: string, setpoint: number) => Promise<number>;
+
+/**
+ * Null while quality allows the ramp to continue, otherwise why it must stop
+ */
+export type RampQualityCheck = () => Promise<string | null>;
+
+interface RampControl {
+  maxStep: number;
+  stop: { status: 'aborted' | 'cancelled' | 'failed'; reason: string; by: string | null } | null;
+  wake: (() => void) | null;
+}
+
+/**
+ * Ramped Setpoint Executor for Egress Agent
+ * Moves a setpoint to its target in bounded steps spread over the ramp duration. Each
+ * step is checked against Guardian's quality alert and read back; a ramp that stops
+ * early holds the last confirmed setpoint rather than reverting
+ */
+export class RampExecutor {
+  private writeStep: RampStepWriter;
+  private checkQuality: RampQualityCheck;
+  private config: typeof RAMP_CONFIG;
+  private ramps: Map<string, RampState> = new Map();
+  private controls: Map<string, RampControl> = new Map();
+
+  constructor(writeStep: RampStepWriter, checkQuality: RampQualityCheck, config: typeof RAMP_CONFIG = RAMP_CONFIG) {
+    this.writeStep = writeStep;
+    this.checkQuality = checkQuality;
+    this.config = config;
+  }
+
+  /**
+   * Plan a ramp and start it in the background; one ramp per control variable at a time
+   */
+  start(request: RampRequest): RampState {
+    const active = this.activeRampFor(request.controlVariable);
+    if (active) {
+      throw new Error(`Ramp ${active.rampId} is already moving ${request.controlVariable}`);
+    }
+
+    const requestedMinutes = Math.min(
+      request.durationMinutes && request.durationMinutes > 0 ? request.durationMinutes : this.config.defaultDurationMinutes,
+      this.config.maxDurationMinutes
+    );
+    const distance = Math.abs(request.targetValue - request.startValue);
+    const minInterval = this.config.minStepIntervalSeconds;
+    const totalSteps = Math.max(
+      1,
+      Math.round(requestedMinutes * 60 / Math.max(this.config.stepIntervalSeconds, minInterval)),
+      Math.ceil(distance / request.maxStep)
+    );
+    // Many small steps stretch the ramp rather than outrun the variable's rate limit
+    const stepIntervalSeconds = Math.max(requestedMinutes * 60 / totalSteps, minInterval);
+    const durationMinutes = stepIntervalSeconds > minInterval ? requestedMinutes : totalSteps * minInterval / 60;
+    if (durationMinutes > this.config.maxDurationMinutes) {
+      throw new Error(
+        `Ramp of ${request.controlVariable} needs ${totalSteps} steps of at most ${request.maxStep}, ` +
+        `more than fit in ${this.config.maxDurationMinutes} minutes at one step per ${minInterval}s`
+      );
+    }
+
+    const ramp: RampState = {
+      rampId: `ramp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      commandId: request.commandId,
+      controlVariable: request.controlVariable,
+      priority: request.priority,
+      startValue: request.startValue,
+      targetValue: request.targetValue,
+      durationMinutes,
+      stepIntervalSeconds,
+      totalSteps,
+      completedSteps: 0,
+      currentSetpoint: request.startValue,
+      status: 'running',
+      stopReason: null,
+      cancelledBy: null,
+      startedAt: new Date().toISOString(),
+      nextStepAt: new Date().toISOString(),
+      finishedAt: null,
+      steps: []
+    };
+
+    this.ramps.set(ramp.rampId, ramp);
+    this.controls.set(ramp.rampId, { maxStep: request.maxStep, stop: null, wake: null });
+    this.prune();
+
+    logger.info('Setpoint ramp started', {
+      rampId: ramp.rampId,
+      commandId: ramp.commandId,
+      controlVariable: ramp.controlVariable,
+      startValue: ramp.startValue,
+      targetValue: ramp.targetValue,
+      totalSteps,
+      durationMinutes
+    });
+
+    this.run(ramp).catch(error => logger.error('Setpoint ramp crashed', { rampId: ramp.rampId, error: (error as Error).message }));
+    return this.snapshot(ramp);
+  }
+
+  /**
+   * Operator cancel; the ramp stops before its next step
+   */
+  cancel(rampId: string, cancelledBy: string | null, reason: string = 'Cancelled by operator'): RampState | null {
+    const ramp = this.ramps.get(rampId);
+    if (!ramp) {
+      return null;
+    }
+    if (ramp.status === 'running') {
+      this.requestStop(ramp, 'cancelled', reason, cancelledBy);
+    }
+    return this.snapshot(ramp);
+  }
+
+  /**
+   * Stop every running ramp, e.g. on emergency stop
+   */
+  cancelAll(reason: string, cancelledBy: string | null): RampState[] {
+    const running = [...this.ramps.values()].filter(ramp => ramp.status === 'running');
+    for (const ramp of running) {
+      this.requestStop(ramp, 'aborted', reason, cancelledBy);
+    }
+    return running.map(ramp => this.snapshot(ramp));
+  }
+
+  get(rampId: string): RampState | null {
+    const ramp = this.ramps.get(rampId);
+    return ramp ? this.snapshot(ramp) : null;
+  }
+
+  list(): RampState[] {
+    return [...this.ramps.values()].reverse().map(ramp => this.snapshot(ramp));
+  }
+
+  activeRampFor(controlVariable: string): RampState | null {
+    const ramp = [...this.ramps.values()].find(r => r.controlVariable === controlVariable && isActive(r));
+    return ramp ? this.snapshot(ramp) : null;
+  }
+
+  private async run(ramp: RampState): Promise<void> {
+    const tracer = trace.getTracer('egress-agent');
+    const span = tracer.startSpan('execute_setpoint_ramp');
+    const control = this.controls.get(ramp.rampId)!;
+    let rejections = 0;
+
+    try {
+      let step = 1;
+      while (step <= ramp.totalSteps) {
+        if (control.stop) break;
+
+        const qualityIssue = await this.checkQuality();
+        if (qualityIssue) {
+          this.requestStop(ramp, 'aborted', qualityIssue, null);
+          break;
+        }
+        if (control.stop) break;
+
+        const setpoint = step === ramp.totalSteps
+          ? ramp.targetValue
+          : ramp.startValue + (ramp.targetValue - ramp.startValue) * step / ramp.totalSteps;
+
+        let readback: number;
+        try {
+          readback = await this.writeStep(ramp, `${ramp.commandId}_step${step}`, setpoint);
+        } catch (error) {
+          if (error instanceof CommandRejectedError && ++rejections <= this.config.maxStepRejections) {
+            // The step slips until the scheduler has room; the ramp keeps its place
+            await this.sleep(ramp, control, error.retryAfterSeconds * 1000);
+            continue;
+          }
+          this.requestStop(ramp, 'failed', `Step ${step} failed: ${(error as Error).message}`, null);
+          break;
+        }
+        rejections = 0;
+
+        ramp.steps.push({ step, setpoint, readback, timestamp: new Date().toISOString() });
+        if (Math.abs(readback - setpoint) > this.config.readbackTolerance * control.maxStep) {
+          this.requestStop(ramp, 'aborted', `Step ${step} read back ${readback}, expected ${setpoint}`, null);
+          break;
+        }
+        ramp.completedSteps = step;
+        ramp.currentSetpoint = setpoint;
+
+        if (step < ramp.totalSteps) {
+          await this.sleep(ramp, control, ramp.stepIntervalSeconds * 1000);
+        }
+        step++;
+      }
+
+      ramp.status = control.stop ? control.stop.status : 'completed';
+      ramp.stopReason = control.stop ? control.stop.reason : null;
+      ramp.cancelledBy = control.stop ? control.stop.by : null;
+      ramp.nextStepAt = null;
+      ramp.finishedAt = new Date().toISOString();
+
+      span.setAttributes({
+        'ramp.id': ramp.rampId,
+        'ramp.control_variable': ramp.controlVariable,
+        'ramp.status': ramp.status,
+        'ramp.completed_steps': ramp.completedSteps,
+        'ramp.total_steps': ramp.totalSteps
+      });
+
+      if (ramp.status === 'completed') {
+        logger.info('Setpoint ramp completed', { rampId: ramp.rampId, controlVariable: ramp.controlVariable, totalSteps: ramp.totalSteps });
+      } else {
+        logger.warn('Setpoint ramp stopped', {
+          rampId: ramp.rampId,
+          controlVariable: ramp.controlVariable,
+          status: ramp.status,
+          reason: ramp.stopReason,
+          completedSteps: ramp.completedSteps,
+          totalSteps: ramp.totalSteps,
+          heldAt: ramp.currentSetpoint
+        });
+      }
+
+    } finally {
+      this.controls.delete(ramp.rampId);
+      span.end();
+    }
+  }
+
+  private requestStop(ramp: RampState, status: 'aborted' | 'cancelled' | 'failed', reason: string, by: string | null): void {
+    const control = this.controls.get(ramp.rampId);
+    if (!control || control.stop) {
+      return;
+    }
+    control.stop = { status, reason, by };
+    ramp.status = 'stopping';
+    ramp.stopReason = reason;
+    ramp.cancelledBy = by;
+    if (control.wake) {
+      control.wake();
+    }
+  }
+
+  /**
+   * Wait between steps; a stop request ends the wait early
+   */
+  private sleep(ramp: RampState, control: RampControl, ms: number): Promise<void> {
+    ramp.nextStepAt = new Date(Date.now() + ms).toISOString();
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        control.wake = null;
+        resolve();
+      }, ms);
+      control.wake = () => {
+        clearTimeout(timer);
+        control.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  private prune(): void {
+    const finished = [...this.ramps.values()].filter(ramp => !isActive(ramp));
+    const excess = this.ramps.size - this.config.maxRetainedRamps;
+    for (const ramp of finished.slice(0, Math.max(0, excess))) {
+      this.ramps.delete(ramp.rampId);
+    }
+  }
+
+  private snapshot(ramp: RampState): RampState {
+    return { ...ramp, steps: [...ramp.steps] };
+  }
+}
+
+function isActive(ramp: RampState): boolean {
+  return ramp.status === 'running' || ramp.status === 'stopping';
+}
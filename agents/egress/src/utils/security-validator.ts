@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { TAG_MAPPING } from '../config/constants';
 
 export class SecurityValidator {
   static validateCommandRequest(body: any): boolean {
@@ -14,11 +15,8 @@ export class SecurityValidator {
         return false;
       }
 
-      // Validate control variable names (prevent injection)
-      const validControlVariables = [
-        'kiln_speed', 'fuel_flow', 'feed_rate', 
-        'preheater_temp', 'mill_power'
-      ];
+      // Validate control variable names against the plant's tag mapping (prevent injection)
+      const validControlVariables = Object.keys(TAG_MAPPING.variables);
       
       if (!validControlVariables.includes(action.controlVariable)) {
         logger.warn('Invalid control variable attempted', { 
@@ -0,0 +1,97 @@
+import { logger } from './logger';
+import { OPCUAClientService, NodeInspection } from './opcua-client';
+import type { TagMapping } from '../config/tag-mapping';
+
+export interface TagValidation {
+  setpoint: NodeInspection;
+  process: NodeInspection | null;
+  // Commands are refused for variables with errors
+  errors: string[];
+  // Process-value problems only disable tracking
+  warnings: string[];
+  commandable: boolean;
+  processTracking: boolean;
+}
+
+export interface AddressSpaceReport {
+  plant: string;
+  checkedAt: string;
+  valid: boolean;
+  systemNodes: Record<string, NodeInspection>;
+  variables: Record<string, TagValidation>;
+  errors: string[];
+}
+
+/**
+ * Check every mapped node against the server's address space: existence, data type and write access
+ */
+export async function validateAddressSpace(client: OPCUAClientService, mapping: TagMapping): Promise<AddressSpaceReport> {
+  const errors: string[] = [];
+  const systemNodes: Record<string, NodeInspection> = {};
+  for (const [name, nodeId] of Object.entries(mapping.systemNodes)) {
+    systemNodes[name] = await client.inspectNode(nodeId);
+    if (!systemNodes[name].exists) {
+      errors.push(`systemNodes.${name}: node ${nodeId} not found`);
+    }
+  }
+
+  const variables: Record<string, TagValidation> = {};
+  for (const [variable, entry] of Object.entries(mapping.variables)) {
+    const setpoint = await client.inspectNode(entry.setpointNodeId);
+    const process = entry.processNodeId ? await client.inspectNode(entry.processNodeId) : null;
+    const tagErrors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!setpoint.exists) {
+      tagErrors.push(`setpoint node ${entry.setpointNodeId} not found`);
+    } else {
+      if (setpoint.dataType !== entry.dataType) {
+        tagErrors.push(`setpoint node is ${setpoint.dataType ?? 'not a built-in type'}, mapping says ${entry.dataType}`);
+      }
+      if (entry.writable && setpoint.writable === false) {
+        tagErrors.push('mapping allows writes but the server does not');
+      }
+    }
+
+    if (!entry.processNodeId) {
+      warnings.push('no process node mapped; process response is not tracked');
+    } else if (process && !process.exists) {
+      warnings.push(`process node ${entry.processNodeId} not found; process response is not tracked`);
+    }
+
+    variables[variable] = {
+      setpoint,
+      process,
+      errors: tagErrors,
+      warnings,
+      commandable: entry.writable && tagErrors.length === 0,
+      processTracking: Boolean(process?.exists)
+    };
+    errors.push(...tagErrors.map(error => `${variable}: ${error}`));
+  }
+
+  const report: AddressSpaceReport = {
+    plant: mapping.plant,
+    checkedAt: new Date().toISOString(),
+    valid: errors.length === 0,
+    systemNodes,
+    variables,
+    errors
+  };
+
+  if (report.valid) {
+    logger.info('Tag mapping validated against OPC-UA address space', {
+      plant: mapping.plant,
+      variables: Object.keys(variables).length
+    });
+  } else {
+    logger.error('Tag mapping does not match OPC-UA address space', { plant: mapping.plant, errors });
+  }
+  for (const [variable, validation] of Object.entries(variables)) {
+    for (const warning of validation.warnings) {
+      logger.warn('Tag mapping warning', { plant: mapping.plant, variable, warning });
+    }
+  }
+
+  return report;
+}
@@ -12,6 +12,94 @@ export const QUALITY_BAND_MIN = TARGET_LSF - QUALITY_BAND_TOLERANCE; // 98.0
 export const QUALITY_BAND_MAX = TARGET_LSF + QUALITY_BAND_TOLERANCE; // 102.0
 
 export const PREDICTION_HORIZON_MINUTES = 60;
+
+export type ForecastBackend = 'kalman' | 'vertex' | 'naive';
+
+export const FORECAST_CONFIG = {
+  // kalman runs offline; vertex needs a deployed endpoint; naive is the drift baseline
+  backend: (process.env.LSF_FORECAST_BACKEND || 'kalman') as ForecastBackend,
+  vertexTimeoutMs: process.env.VERTEX_AI_TIMEOUT_MS ? Number(process.env.VERTEX_AI_TIMEOUT_MS) : 10000,
+  // Default resolution of the forecast trajectory; requests may ask for a finer or coarser one
+  stepMinutes: process.env.FORECAST_STEP_MINUTES ? Number(process.env.FORECAST_STEP_MINUTES) : 5,
+  maxTrajectorySteps: 240,
+  // Residual spread and accuracy are shrunk toward this one-step std (LSF points), weighted as
+  // priorResidualWeight residuals, so a short window cannot report a near-perfect forecast
+  priorStepStd: 0.3,
+  priorResidualWeight: 10
+};
+
+// Lab results are joined to forecast steps whose target time lies within this of the sample time
+export const LAB_MATCH_TOLERANCE_MINUTES = 5;
+// Lead times are grouped into these horizons (upper bounds) for MAE/RMSE/bias reporting
+export const ACCURACY_HORIZON_BUCKETS_MINUTES = [15, 30, 60, 120];
+
+export const FORECAST_ERROR_TOLERANCE = 0.5; // LSF points; a forecast within this of the outcome counts as accurate
+export const DEVIATION_PROBABILITY_THRESHOLD = 0.6; // Probability of leaving the quality band that raises a deviation
+
+// A challenger is promoted only on lab-verified evidence over the evaluation window
+export const MODEL_PROMOTION_CONFIG = {
+  evaluationDays: 7,
+  minSamplesPerHorizon: 20,
+  minRmseImprovement: 0.05, // Relative RMSE gain over the active model
+  maxHorizonRegression: 0.1 // No horizon may get more than this much worse
+};
+
+// Registry parameters each backend accepts, as [min, max]; counts must also be whole numbers
+export const MODEL_PARAMETER_LIMITS: Record<Exclude<ForecastBackend, 'vertex'>, Record<string, [number, number]>> = {
+  kalman: {
+    trendDamping: [0.5, 1],
+    levelNoiseRatio: [0, 1],
+    trendNoiseRatio: [0, 1],
+    coefficientNoiseRatio: [0, 1],
+    minHistoryPoints: [2, 100],
+    burnInPoints: [0, 50]
+  },
+  naive: {
+    window: [2, 100]
+  }
+};
+export const MODEL_COUNT_PARAMETERS = ['minHistoryPoints', 'burnInPoints', 'window'];
+
+export const MODEL_REGISTRY_CACHE_TTL_MS = process.env.MODEL_REGISTRY_CACHE_TTL_MS
+  ? Number(process.env.MODEL_REGISTRY_CACHE_TTL_MS)
+  : 60000;
+
+// Noise ratios are relative to the observation noise estimated from the window
+export const KALMAN_FORECASTER_CONFIG = {
+  trendDamping: 0.98,
+  levelNoiseRatio: 0.05,
+  trendNoiseRatio: 0.001,
+  coefficientNoiseRatio: 0.0001,
+  minHistoryPoints: 3,
+  burnInPoints: 3 // Innovations skipped while the filter settles from its initial state
+};
+export type DataQualityMode = 'impute' | 'reject';
+
+// Sensor data-quality gate in front of every forecast
+export const DATA_QUALITY_CONFIG = {
+  // impute repairs impossible values and spikes from neighbouring points; reject drops the points carrying them
+  mode: (process.env.DATA_QUALITY_MODE || 'impute') as DataQualityMode,
+  maxStalenessMinutes: 10, // Newest point older than this is stale
+  maxFutureSkewSeconds: 60,
+  gapFactor: 3, // A gap is a spacing over this many median sample intervals
+  flatlineMinPoints: 6, // Identical consecutive readings that count as a stuck sensor
+  spikeThreshold: 4, // Hampel filter: robust deviations from the local median
+  spikeWindow: 2, // Neighbours on each side in the Hampel window
+  minUsablePoints: 3,
+  minScore: 0.5, // Below this the prediction is refused
+  proposalMinScore: 0.8 // Below this predictions are returned but no proposal is made
+};
+
+// Physically possible readings; anything outside is an instrument or transmission fault
+export const SENSOR_PHYSICAL_LIMITS: Record<string, { min: number; max: number; minSpike: number }> = {
+  lsf: { min: 70, max: 130, minSpike: 1.0 },
+  raw_meal_lsf: { min: 70, max: 130, minSpike: 1.0 },
+  kiln_speed: { min: 0, max: 6, minSpike: 0.3 },
+  fuel_flow: { min: 0, max: 15, minSpike: 0.5 },
+  feed_rate: { min: 0, max: 400, minSpike: 15 },
+  preheater_temperature: { min: 0, max: 1200, minSpike: 30 }
+};
+
 export const CONFIDENCE_THRESHOLD = 0.85;
 export const MIN_ADJUSTMENT_THRESHOLD = 0.05; // Minimum effective action threshold
 
@@ -22,6 +110,41 @@ export const CONTROL_VARIABLES = {
   preheater_temp: { min: 850, max: 950, step: 5 }
 };
 
+// The minimal effective action aims for the band narrowed by targetMargin on each side
+export const ACTION_OPTIMIZER_CONFIG = {
+  maxStepsPerAction: 5, // Largest move of one variable in a single proposal
+  targetMargin: 0.5, // LSF points
+  maxAlternatives: 3 // Runner-up combinations reported alongside the chosen one
+};
+
+export type EquipmentState = 'running' | 'starting' | 'stopping' | 'stopped' | 'tripped' | 'maintenance' | 'unknown';
+
+export const MONITORED_EQUIPMENT = ['kiln', 'preheater', 'mill'];
+
+// Equipment whose actuator moves each control variable
+export const CONTROL_VARIABLE_EQUIPMENT: Record<string, string> = {
+  kiln_speed: 'kiln',
+  fuel_flow: 'kiln',
+  feed_rate: 'kiln',
+  preheater_temp: 'preheater'
+};
+
+// How each state of actuator-carrying equipment shapes stability proposals
+export const EQUIPMENT_STATE_POLICY: Record<EquipmentState, {
+  actuatorsAvailable: boolean;
+  proposals: 'normal' | 'restricted' | 'suppressed';
+  maxSteps?: number; // Step cap on the equipment's variables while restricted
+}> = {
+  running: { actuatorsAvailable: true, proposals: 'normal' },
+  starting: { actuatorsAvailable: true, proposals: 'restricted', maxSteps: 1 },
+  stopping: { actuatorsAvailable: true, proposals: 'suppressed' },
+  stopped: { actuatorsAvailable: false, proposals: 'suppressed' },
+  tripped: { actuatorsAvailable: false, proposals: 'suppressed' },
+  maintenance: { actuatorsAvailable: false, proposals: 'suppressed' },
+  // No status received yet; behave as before equipment tracking
+  unknown: { actuatorsAvailable: true, proposals: 'normal' }
+};
+
 export const URGENCY_THRESHOLDS = {
   low: 0.5,    // <0.5% deviation
   medium: 1.0,  // 0.5-1.0% deviation
@@ -29,6 +152,14 @@ export const URGENCY_THRESHOLDS = {
   critical: 2.0 // >1.5% deviation
 };
 
+export const OPERATOR_AUTH_CONFIG = {
+  // HMAC-SHA256 key that signs operator bearer tokens; the same secret Master Control verifies
+  tokenSecret: process.env.OPERATOR_TOKEN_SECRET || '',
+  // Roles that may register and shadow model versions, and roles that may change the active one
+  approverRoles: ['operator', 'shift_supervisor', 'admin'],
+  adminRoles: ['admin']
+};
+
 export const AGENT_CONFIG = {
   name: 'guardian_agent',
   version: '1.0.0',
@@ -52,4 +183,30 @@ export const MASTER_CONTROL_ENDPOINT = process.env.MASTER_CONTROL_ENDPOINT ||
   'https://master-control-agent-us-central1-cemai-agents.a.run.app';
 
 export const PREDICTION_INTERVAL_SECONDS = 30;
+
+// Continuous predictions from the Pub/Sub subscriptions, every PREDICTION_INTERVAL_SECONDS
+export const STREAMING_CONFIG = {
+  enabled: process.env.STREAMING_PIPELINE_ENABLED !== 'false',
+  windowMinutes: 120, // Rolling window kept per tag
+  maxPointsPerTag: 1440,
+  predictionHorizonMinutes: PREDICTION_HORIZON_MINUTES
+};
+
+// Stability proposals stay open until superseded, executed or expired
+export const PROPOSAL_LIFECYCLE_CONFIG = {
+  ttlMinutes: 30, // Open proposals Master Control has not acted on expire after this
+  // An open proposal for the same deviation is only superseded when the deviation grows this much or its urgency rises
+  escalationLSF: 0.5,
+  // Hysteresis: a raised deviation clears only below this out-of-band probability...
+  exitProbability: 0.4,
+  // ...and once predicted LSF is back this far inside the quality band
+  bandHysteresis: 0.3,
+  // No new move on a variable this long after an executed change to it, while the process responds
+  cooldownMinutes: {
+    kiln_speed: 30,
+    fuel_flow: 20,
+    feed_rate: 20,
+    preheater_temp: 15
+  } as Record<string, number>
+};
 export const QUALITY_BAND_BUFFER = 0.1;
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Process-gain model for Guardian Agent
+ * Steady-state LSF response to a sustained move of each control variable, used by
+ * the minimal effective action optimizer. Override per site with PROCESS_GAIN_MODEL
+ * (JSON, merged over the defaults by control variable)
+ */
+import { logger } from '../utils/logger';
+
+export interface ProcessGain {
+  // Field carrying the current value in sensor data
+  sensorField: string;
+  unit: string;
+  // LSF points per engineering unit moved; the sign is the direction
+  lsfGain: number;
+  // Relative disruption of one step; the optimizer minimizes the weighted number of steps
+  costPerStep: number;
+  description: string;
+}
+
+export const DEFAULT_PROCESS_GAIN_MODEL: Record<string, ProcessGain> = {
+  kiln_speed: {
+    sensorField: 'kiln_speed',
+    unit: 'rpm',
+    lsfGain: -2.9,
+    costPerStep: 1.0,
+    description: 'Faster rotation shortens residence time in the burning zone'
+  },
+  fuel_flow: {
+    sensorField: 'fuel_flow',
+    unit: 't/h',
+    lsfGain: 1.4,
+    costPerStep: 1.2,
+    description: 'More fuel raises burning zone temperature and combination of lime'
+  },
+  feed_rate: {
+    sensorField: 'feed_rate',
+    unit: 't/h',
+    lsfGain: 0.025,
+    costPerStep: 1.5,
+    description: 'Feed changes shift the raw meal to fuel ratio and throughput'
+  },
+  preheater_temp: {
+    sensorField: 'preheater_temperature',
+    unit: '°C',
+    lsfGain: 0.004,
+    costPerStep: 0.8,
+    description: 'Hotter preheater raises calcination before the kiln inlet'
+  }
+};
+
+export function loadProcessGainModel(): Record<string, ProcessGain> {
+  if (!process.env.PROCESS_GAIN_MODEL) {
+    return DEFAULT_PROCESS_GAIN_MODEL;
+  }
+
+  try {
+    const overrides = JSON.parse(process.env.PROCESS_GAIN_MODEL) as Record<string, Partial<ProcessGain>>;
+    const model: Record<string, ProcessGain> = { ...DEFAULT_PROCESS_GAIN_MODEL };
+    for (const [variable, override] of Object.entries(overrides)) {
+      model[variable] = { ...model[variable], ...override } as ProcessGain;
+    }
+    return model;
+  } catch (error) {
+    logger.error('Invalid PROCESS_GAIN_MODEL, using defaults', { error: (error as Error).message });
+    return DEFAULT_PROCESS_GAIN_MODEL;
+  }
+}
+
+export const PROCESS_GAIN_MODEL = loadProcessGainModel();
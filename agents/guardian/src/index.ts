@@ -7,9 +7,28 @@ import { A2AClient } from './utils/a2a-client';
 import { SecurityValidator } from './utils/security-validator';
 import { AgentMetrics } from './utils/metrics';
 import { VertexAIForecastingService } from './services/vertex-ai-service';
+import { ModelRegistryService } from './services/model-registry-service';
+import { MinimalActionOptimizer, ActionPlan } from './services/action-optimizer';
+import { DataQualityService, DataQualityReport, applyDataQuality } from './services/data-quality-service';
+import { StreamingPredictionPipeline, PredictionCycleResult } from './services/streaming-pipeline';
+import { InProcessPubSub } from './services/in-process-pubsub';
+import { EquipmentStateService } from './services/equipment-state-service';
+import { ProposalLifecycleService } from './services/proposal-lifecycle-service';
+import type { ProposalStatus } from './services/alloydb-service';
+import type { LSFForecaster, PredictionRequest, SensorDataPoint } from './services/lsf-forecaster';
 import { AlloyDBService } from './services/alloydb-service';
-import { PubSubService } from './services/pubsub-service';
-import { LSF_PREDICTION_MODEL, QUALITY_BAND_TOLERANCE, CONTROL_VARIABLES } from './config/constants';
+import { PubSubService, LabAnalysisMessage } from './services/pubsub-service';
+import {
+  LSF_PREDICTION_MODEL,
+  CONTROL_VARIABLES,
+  TARGET_LSF,
+  QUALITY_BAND_MIN,
+  QUALITY_BAND_MAX,
+  QUALITY_BAND_TOLERANCE,
+  ACTION_OPTIMIZER_CONFIG,
+  STREAMING_CONFIG,
+  OPERATOR_AUTH_CONFIG
+} from './config/constants';
 
 const app = express();
 
@@ -46,7 +65,29 @@ const alloyDBService = new AlloyDBService(
   process.env.ALLOYDB_CONNECTION_STRING
 );
 
-const pubsubService = new PubSubService(projectId);
+// PUBSUB_MODE=in-process runs on the in-memory stand-in instead of GCP
+const pubsubService = new PubSubService(
+  projectId,
+  process.env.PUBSUB_MODE === 'in-process' ? new InProcessPubSub() : undefined
+);
+
+// Decides which forecaster version drives production and which run in shadow
+const modelRegistry = new ModelRegistryService(alloyDBService, vertexAIService);
+
+// Plans corrections from the process-gain model
+const actionOptimizer = new MinimalActionOptimizer();
+
+// Screens sensor data before it reaches a forecaster
+const dataQualityService = new DataQualityService();
+
+// Open, superseded, executed and expired proposals; cooldowns and deviation hysteresis
+const proposalLifecycle = new ProposalLifecycleService(alloyDBService);
+
+// Kiln, preheater and mill state from the equipment-status subscription
+const equipmentStateService = new EquipmentStateService();
+
+// Scheduled predictions from the process-data subscription
+const streamingPipeline = new StreamingPredictionPipeline(pubsubService, runPredictionCycle);
 
 // Prometheus metrics
 const register = new client.Registry();
@@ -68,6 +109,21 @@ const predictionAccuracy = new client.Gauge({
   registers: [register]
 });
 
+const forecastError = new client.Histogram({
+  name: 'cemai_forecast_absolute_error_lsf',
+  help: 'Absolute LSF forecast error against lab results',
+  labelNames: ['model_version', 'horizon_minutes'],
+  buckets: [0.1, 0.25, 0.5, 1.0, 1.5, 2.0, 3.0],
+  registers: [register]
+});
+
+const dataQualityScore = new client.Gauge({
+  name: 'cemai_sensor_data_quality_score',
+  help: 'Data-quality score of the latest sensor window (1 is clean)',
+  labelNames: ['source'],
+  registers: [register]
+});
+
 const proposalCount = new client.Counter({
   name: 'cemai_proposals_total',
   help: 'Total number of stability proposals generated',
@@ -89,6 +145,7 @@ app.get('/metrics', async (_req, res) => {
  */
 app.get('/status', async (req, res) => {
   try {
+    const activeForecaster = await modelRegistry.getActiveForecaster();
     const status = {
       agent: 'guardian',
       status: 'operational',
@@ -106,10 +163,14 @@ app.get('/status', async (req, res) => {
         deviationCount: await getDeviationCount()
       },
       model: {
-        version: '1.0.0',
+        version: activeForecaster.modelVersion,
+        backend: activeForecaster.backend,
+        shadowVersions: (await modelRegistry.getShadowForecasters()).map(f => f.modelVersion),
         status: 'active',
         lastRetrain: await getLastRetrainTime()
       },
+      equipment: equipmentStateService.getStates(),
+      streaming: streamingPipeline.getStatus(),
       timestamp: new Date().toISOString()
     };
     
@@ -130,21 +191,25 @@ app.get('/status', async (req, res) => {
  */
 app.get('/current-quality', async (req, res) => {
   try {
+    const status = await getQualityBandStatus();
+    const timeToDeviation = await getTimeToDeviation();
     const qualityMetrics = {
       agent: 'guardian',
       currentLSF: await getCurrentLSF(),
-      targetLSF: 100.0,
+      targetLSF: TARGET_LSF,
       qualityBand: {
-        min: 98.0,
-        max: 102.0,
-        tolerance: 2.0
+        min: QUALITY_BAND_MIN,
+        max: QUALITY_BAND_MAX,
+        tolerance: QUALITY_BAND_TOLERANCE
       },
-      status: await getQualityBandStatus(),
+      status,
       deviation: {
         magnitude: await getCurrentDeviation(),
         direction: await getDeviationDirection(),
-        timeToDeviation: await getTimeToDeviation()
+        timeToDeviation
       },
+      forecast: await getLatestForecast(),
+      alert: buildQualityAlert(status, timeToDeviation),
       trends: {
         lastHour: await getLSFTrend('1h'),
         lastDay: await getLSFTrend('24h'),
@@ -217,32 +282,16 @@ app.post('/receive-data', async (req, res) => {
     // Process incoming data
     const processedData = await processIncomingData(data);
     
-    // Trigger LSF prediction if LSF data is present
-    if (processedData.hasLSFData) {
-      const prediction = await vertexAIService.predictLSF({
-        sensorData: processedData.sensorData,
-        predictionHorizonMinutes: 60
-      });
-      
-      if (prediction.deviationDetected) {
-        const proposal = await calculateMinimalEffectiveAction(
-          prediction.currentLSF,
-          prediction.predictedLSF,
-          processedData.sensorData,
-          `req_${Date.now()}`
-        );
-        
-        if (proposal) {
-          await pubsubService.publishProposal(proposal);
-          proposalCount.labels('stability', 'sent').inc();
-        }
-      }
-    }
+    // Trigger LSF prediction if LSF data is present; the cycle screens it and sends proposals through the lifecycle
+    const cycle = processedData.hasLSFData
+      ? await runPredictionCycle(processedData.sensorData, { predictionHorizon: 60, source: 'receive_data' })
+      : null;
     
     res.status(200).json({
       agent: 'guardian',
       status: 'success',
       processed: processedData.count,
+      dataQuality: cycle ? cycle.dataQuality : null,
       timestamp: new Date().toISOString()
     });
   } catch (error: unknown) {
@@ -341,11 +390,14 @@ app.get('/v1/model/metrics', async (req, res) => {
     const days = parseInt(req.query.days as string) || 7;
     
     const metrics = await alloyDBService.getModelPerformanceMetrics(modelVersion, days);
+    // Measured against lab results, unlike the self-reported figures above
+    const forecastAccuracy = await alloyDBService.getForecastAccuracy(modelVersion, days);
     
     res.status(200).json({
       agent: 'guardian',
       status: 'success',
       metrics,
+      forecastAccuracy,
       timestamp: new Date().toISOString()
     });
   } catch (error: unknown) {
@@ -364,6 +416,15 @@ app.get('/v1/model/metrics', async (req, res) => {
  */
 app.post('/v1/model/retrain', async (req, res) => {
   try {
+    // Retraining registers a candidate version; the operator token names who asked
+    const operator = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.approverRoles);
+    if (!operator) {
+      return res.status(401).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Operator authentication required'
+      });
+    }
     const { trainingData } = req.body;
     
     if (!trainingData || !Array.isArray(trainingData)) {
@@ -374,12 +435,36 @@ app.post('/v1/model/retrain', async (req, res) => {
       });
     }
     
-    const result = await vertexAIService.retrainModel(trainingData);
+    // The retrained model is registered as a candidate; production keeps the active version
+    const activeForecaster = await modelRegistry.getActiveForecaster();
+    const backend = req.body.backend || activeForecaster.backend;
+    const result = backend === 'vertex'
+      ? await vertexAIService.retrainModel(trainingData)
+      : { jobId: `retrain_${Date.now()}`, status: 'COMPLETED', trainingDataPoints: trainingData.length };
+    
+    const registration = await modelRegistry.register({
+      version: req.body.version || `${backend}-${result.jobId}`,
+      backend,
+      parameters: req.body.parameters,
+      trainingMetadata: { ...result, requestedAt: new Date().toISOString() },
+      notes: req.body.notes,
+      registeredBy: operator.userId
+    });
+    if (registration.errors.length > 0) {
+      return res.status(400).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Invalid model registration',
+        validationErrors: registration.errors
+      });
+    }
     
     res.status(200).json({
       agent: 'guardian',
       status: 'success',
       retraining: result,
+      candidate: registration.entry,
+      activeVersion: activeForecaster.modelVersion,
       timestamp: new Date().toISOString()
     });
   } catch (error: unknown) {
@@ -394,7 +479,360 @@ app.post('/v1/model/retrain', async (req, res) => {
 });
 
 /**
- * Generate LSF prediction using real Vertex AI Forecasting
+ * Equipment state and the constraints it currently puts on stability proposals
+ */
+app.get('/v1/equipment/state', (_req, res) => {
+  const policy = equipmentStateService.proposalPolicy();
+  res.status(200).json({
+    agent: 'guardian',
+    status: 'success',
+    equipment: policy.equipment,
+    proposals: {
+      suppressed: policy.suppressed,
+      reason: policy.reason,
+      unavailableVariables: policy.unavailable,
+      stepLimits: policy.maxSteps
+    },
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * Stability proposals and their lifecycle state
+ */
+app.get('/v1/proposals', async (req, res) => {
+  try {
+    const statuses: ProposalStatus[] = ['open', 'superseded', 'executed', 'expired'];
+    const status = req.query.status as ProposalStatus | undefined;
+    if (status && !statuses.includes(status)) {
+      return res.status(400).json({
+        agent: 'guardian',
+        status: 'error',
+        error: `status must be one of ${statuses.join(', ')}`
+      });
+    }
+    
+    const limit = parseInt(req.query.limit as string) || 100;
+    const proposals = await alloyDBService.getProposals({ status }, limit);
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      proposals,
+      count: proposals.length,
+      deviationActive: await proposalLifecycle.isDeviationActive(),
+      cooldowns: await proposalLifecycle.cooldowns(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to get proposals', { error: err.message });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Failed to retrieve proposals'
+    });
+  }
+});
+
+/**
+ * Record that a proposal was carried out; its control variables enter cooldown
+ */
+app.post('/v1/proposals/:proposalId/executed', async (req, res) => {
+  try {
+    const executedAt = req.body?.executedAt ? new Date(req.body.executedAt) : new Date();
+    if (isNaN(executedAt.getTime())) {
+      return res.status(400).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'executedAt must be an ISO timestamp'
+      });
+    }
+    
+    const proposal = await proposalLifecycle.markExecuted(req.params.proposalId, executedAt);
+    if (!proposal) {
+      return res.status(404).json({
+        agent: 'guardian',
+        status: 'error',
+        error: `Proposal ${req.params.proposalId} not found or already executed`
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      proposal,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to mark proposal executed', { error: err.message, proposalId: req.params.proposalId });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Failed to update proposal'
+    });
+  }
+});
+
+/**
+ * Model registry: all versions with the active and shadow ones marked
+ */
+app.get('/v1/model/registry', async (_req, res) => {
+  try {
+    const versions = await modelRegistry.list();
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      activeVersion: versions.find(v => v.status === 'active')?.version ?? null,
+      shadowVersions: versions.filter(v => v.status === 'shadow').map(v => v.version),
+      versions,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to list model versions', { error: err.message });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Failed to retrieve model registry'
+    });
+  }
+});
+
+/**
+ * Register a candidate model version
+ */
+app.post('/v1/model/registry', async (req, res) => {
+  try {
+    // Registry changes need an operator token; the actor is whoever it names
+    const operator = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.approverRoles);
+    if (!operator) {
+      return res.status(401).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Operator authentication required'
+      });
+    }
+    const { version, backend, parameters, trainingMetadata, notes } = req.body;
+    const registration = await modelRegistry.register({
+      version,
+      backend,
+      parameters,
+      trainingMetadata,
+      notes,
+      registeredBy: operator.userId
+    });
+    
+    if (registration.errors.length > 0) {
+      return res.status(400).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Invalid model registration',
+        validationErrors: registration.errors
+      });
+    }
+    
+    res.status(201).json({
+      agent: 'guardian',
+      status: 'success',
+      model: registration.entry,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to register model version', { error: err.message });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Failed to register model version'
+    });
+  }
+});
+
+/**
+ * Put a version into shadow mode or take it out
+ */
+app.post('/v1/model/registry/:version/shadow', async (req, res) => {
+  try {
+    // Shadow runs cost forecast capacity but never drive the plant; operators may start them
+    const operator = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.approverRoles);
+    if (!operator) {
+      return res.status(401).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Operator authentication required'
+      });
+    }
+    if (typeof req.body.enabled !== 'boolean') {
+      return res.status(400).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'enabled must be a boolean'
+      });
+    }
+    
+    const entry = await modelRegistry.setShadow(req.params.version, req.body.enabled);
+    if (!entry) {
+      return res.status(404).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Model version not found or currently active'
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      model: entry,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to change shadow mode', { error: err.message, version: req.params.version });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Failed to change shadow mode'
+    });
+  }
+});
+
+/**
+ * Lab-verified accuracy of a version against the active one
+ */
+app.get('/v1/model/registry/:version/comparison', async (req, res) => {
+  try {
+    const days = parseInt(req.query.days as string) || undefined;
+    const comparison = await modelRegistry.compare(req.params.version, days);
+    
+    if (!comparison) {
+      return res.status(404).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'No active model version to compare against'
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      comparison,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to compare model versions', { error: err.message, version: req.params.version });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Failed to compare model versions'
+    });
+  }
+});
+
+/**
+ * Promote a version to active; refused unless it beats the active version on lab results or force is set
+ */
+app.post('/v1/model/promote', async (req, res) => {
+  try {
+    // Changing the model that drives the plant, forced or not, is admin only
+    const admin = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.adminRoles);
+    if (!admin) {
+      return res.status(401).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Admin authentication required'
+      });
+    }
+    const { version, force = false, days } = req.body;
+    if (typeof version !== 'string') {
+      return res.status(400).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'version is required'
+      });
+    }
+    
+    const result = await modelRegistry.promote(version, {
+      promotedBy: admin.userId,
+      force: force === true,
+      days: typeof days === 'number' && days > 0 ? days : undefined
+    });
+    
+    if (!result.entry) {
+      return res.status(result.comparison ? 409 : 404).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Model version not promoted',
+        reasons: result.errors,
+        comparison: result.comparison
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      model: result.entry,
+      comparison: result.comparison,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Model promotion failed', { error: err.message });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Model promotion failed'
+    });
+  }
+});
+
+/**
+ * Roll the active version back to the one it replaced
+ */
+app.post('/v1/model/rollback', async (req, res) => {
+  try {
+    // Changing the model that drives the plant is admin only
+    const admin = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.adminRoles);
+    if (!admin) {
+      return res.status(401).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Admin authentication required'
+      });
+    }
+    const result = await modelRegistry.rollback(admin.userId);
+    
+    if (!result.entry) {
+      return res.status(409).json({
+        agent: 'guardian',
+        status: 'error',
+        error: 'Model rollback not possible',
+        reasons: result.errors
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'guardian',
+      status: 'success',
+      model: result.entry,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Model rollback failed', { error: err.message });
+    res.status(500).json({
+      agent: 'guardian',
+      status: 'error',
+      error: 'Model rollback failed'
+    });
+  }
+});
+
+/**
+ * Generate LSF prediction with the configured forecasting backend
  * Implements minimal effective action principle
  */
 app.post('/v1/predict/lsf', async (req, res) => {
@@ -410,74 +848,31 @@ app.post('/v1/predict/lsf', async (req, res) => {
       });
     }
 
-    const { sensorData, predictionHorizon = 60 } = req.body;
-    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const { predictionHorizon = 60, stepMinutes } = req.body;
+    const { requestId, dataQuality, prediction, proposal: stabilityProposal } = await runPredictionCycle(
+      req.body.sensorData,
+      { predictionHorizon, stepMinutes, source: 'predict' }
+    );
     
-    // Generate prediction using real Vertex AI service
-    const prediction = await vertexAIService.predictLSF({
-      sensorData,
-      predictionHorizonMinutes: predictionHorizon
-    });
-    
-    // Store prediction in database
-    await alloyDBService.storePrediction({
-      requestId,
-      sensorData,
-      predictionHorizonMinutes: predictionHorizon,
-      currentLSF: prediction.currentLSF,
-      predictedLSF: prediction.predictedLSF,
-      confidence: prediction.confidence,
-      deviationDetected: prediction.deviationDetected,
-      deviationMagnitude: prediction.deviationMagnitude,
-      accuracy: prediction.accuracy,
-      modelVersion: prediction.modelVersion,
-      latency: prediction.latency
-    });
-    
-    // Calculate minimal effective action if deviation predicted
-    let stabilityProposal = null;
-    if (prediction.deviationDetected) {
-      stabilityProposal = await calculateMinimalEffectiveAction(
-        prediction.currentLSF,
-        prediction.predictedLSF,
-        sensorData,
-        requestId
-      );
-      
-      // Store proposal in database
-      if (stabilityProposal) {
-        await alloyDBService.storeProposal({
-          proposalId: stabilityProposal.proposalId || `prop_${Date.now()}`,
-          requestId,
-          proposalType: stabilityProposal.proposalType,
-          urgency: stabilityProposal.urgency,
-          title: stabilityProposal.title,
-          description: stabilityProposal.description,
-          rationale: stabilityProposal.rationale,
-          actions: stabilityProposal.actions,
-          expectedOutcomes: stabilityProposal.expectedOutcomes,
-          risks: stabilityProposal.risks,
-          mitigationStrategies: stabilityProposal.mitigationStrategies,
-          supportingData: stabilityProposal.supportingData,
-          confidence: stabilityProposal.confidence,
-          constraints: stabilityProposal.constraints,
-          prerequisites: stabilityProposal.prerequisites
-        });
-        
-        // Send proposal to Master Control Agent via Pub/Sub
-        await pubsubService.publishProposal(stabilityProposal);
-        proposalCount.labels('stability', 'sent').inc();
-      }
+    // Refuse rather than forecast from data that cannot be trusted
+    if (!prediction) {
+      span.setAttributes({ 'prediction.refused': true, 'request.id': requestId });
+      return res.status(422).json({
+        agent: 'guardian',
+        status: 'error',
+        requestId,
+        error: 'Sensor data quality too low for a prediction',
+        dataQuality
+      });
     }
 
-    // Update metrics
-    predictionLatency.labels('lsf_model', `${predictionHorizon}m`).observe(prediction.latency);
-    predictionAccuracy.labels('lsf_model').set(prediction.accuracy);
-
     span.setAttributes({
       'prediction.horizon_minutes': predictionHorizon,
       'prediction.confidence': prediction.confidence,
+      'prediction.out_of_band_probability': prediction.outOfBandProbability,
+      'prediction.breach_expected': prediction.expectedBreach !== null,
       'prediction.deviation_detected': prediction.deviationDetected,
+      'prediction.data_quality_score': dataQuality.score,
       'proposal.generated': !!stabilityProposal,
       'request.id': requestId
     });
@@ -493,8 +888,14 @@ app.post('/v1/predict/lsf', async (req, res) => {
         horizonMinutes: predictionHorizon,
         deviationDetected: prediction.deviationDetected,
         deviationMagnitude: prediction.deviationMagnitude,
+        outOfBandProbability: prediction.outOfBandProbability,
+        stepMinutes: prediction.stepMinutes,
+        trajectory: prediction.intervals,
+        expectedBreach: prediction.expectedBreach,
+        timeToDeviation: prediction.expectedBreach?.minutesAhead ?? null,
         accuracy: prediction.accuracy,
-        modelVersion: prediction.modelVersion
+        modelVersion: prediction.modelVersion,
+        dataQuality
       },
       proposal: stabilityProposal,
       timestamp: new Date().toISOString()
@@ -519,68 +920,170 @@ app.post('/v1/predict/lsf', async (req, res) => {
 });
 
 /**
- * Generate LSF prediction using Vertex AI Forecasting model
+ * Screen a sensor window, forecast, store and, on a deviation, propose the minimal effective action
+ * Shared by /v1/predict/lsf and the streaming pipeline; prediction is null when the data is refused
  */
-async function generateLSFPrediction(sensorData: any, horizonMinutes: number) {
-  const startTime = Date.now();
+async function runPredictionCycle(
+  rawSensorData: unknown[],
+  options: {
+    predictionHorizon: number;
+    stepMinutes?: number;
+    source: string;
+  }
+): Promise<PredictionCycleResult & { requestId: string; dataQuality: DataQualityReport }> {
+  const { predictionHorizon, stepMinutes } = options;
+  const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   
-  try {
-    // Prepare input data for Vertex AI Forecasting
-    const inputData = {
-      instances: [{
-        timeSeriesData: {
-          timeSeriesId: 'lsf_prediction',
-          values: sensorData.map((point: any) => ({
-            timestamp: point.timestamp,
-            value: point.lsf
-          }))
-        },
-        predictionHorizon: horizonMinutes
-      }]
-    };
-
-    // Call Vertex AI Forecasting model (mock implementation)
-    // In real implementation, this would use actual Vertex AI client
-    const currentLSF = sensorData[sensorData.length - 1].lsf;
-    
-    // Simple trend-based prediction for mock
-    const recentValues = sensorData.slice(-5).map((point: any) => point.lsf);
-    const trend = recentValues.reduce((sum: number, val: number, i: number) => {
-      if (i === 0) return 0;
-      return sum + (val - recentValues[i - 1]);
-    }, 0) / (recentValues.length - 1);
-    
-    const predictedLSF = currentLSF + (trend * horizonMinutes / 60);
-    
-    const response = {
-      predictions: [{
-        value: predictedLSF,
-        confidence: 0.95
-      }]
-    };
-    
-    const prediction = response.predictions[0];
-    
-    // Calculate deviation from quality band
-    const deviationDetected = Math.abs(predictedLSF - 100) > QUALITY_BAND_TOLERANCE;
-    const deviationMagnitude = Math.abs(predictedLSF - 100);
-    
-    const latency = (Date.now() - startTime) / 1000;
-    
-    return {
-      currentLSF,
-      predictedLSF,
-      confidence: prediction.confidence || 0.95,
-      deviationDetected,
-      deviationMagnitude,
-      latency,
-      accuracy: 0.92 // This would be calculated from model performance metrics
-    };
+  // Screen the sensor window; refuse rather than forecast from data that cannot be trusted
+  const { sensorData, report: dataQuality } = dataQualityService.assess(rawSensorData);
+  dataQualityScore.labels(options.source).set(dataQuality.score);
+  if (!dataQuality.accepted) {
+    logger.warn('Sensor data refused by data-quality gate', { requestId, source: options.source, reason: dataQuality.reason });
+    return { requestId, dataQuality, prediction: null, proposal: null, published: false };
+  }
+  
+  // Generate prediction using the configured forecaster
+  const forecaster = await modelRegistry.getActiveForecaster();
+  const predictionRequest: PredictionRequest = {
+    sensorData,
+    predictionHorizonMinutes: predictionHorizon,
+    stepMinutes
+  };
+  const prediction = applyDataQuality(await forecaster.predictLSF(predictionRequest), dataQuality);
+  
+  // Store prediction in database
+  await alloyDBService.storePrediction({
+    requestId,
+    sensorData,
+    predictionHorizonMinutes: predictionHorizon,
+    currentLSF: prediction.currentLSF,
+    predictedLSF: prediction.predictedLSF,
+    confidence: prediction.confidence,
+    deviationDetected: prediction.deviationDetected,
+    deviationMagnitude: prediction.deviationMagnitude,
+    accuracy: prediction.accuracy,
+    modelVersion: prediction.modelVersion,
+    latency: prediction.latency,
+    outOfBandProbability: prediction.outOfBandProbability,
+    intervals: prediction.intervals,
+    stepMinutes: prediction.stepMinutes,
+    expectedBreach: prediction.expectedBreach,
+    forecastOrigin: new Date(sensorData[sensorData.length - 1].timestamp).toISOString(),
+    dataQuality
+  });
+  
+  // Shadow versions see the same request; their predictions are only scored
+  runShadowPredictions(requestId, predictionRequest, await modelRegistry.getShadowForecasters(), dataQuality)
+    .catch(error => logger.error('Shadow predictions failed', { requestId, error: (error as Error).message }));
+  
+  // Calculate minimal effective action while a deviation is raised, from data good enough to act on
+  let stabilityProposal = null;
+  let published = false;
+  const deviationActive = await proposalLifecycle.trackDeviation(prediction);
+  if (deviationActive && !dataQualityService.allowsProposal(dataQuality)) {
+    logger.warn('Deviation predicted but data quality too low for a proposal', { requestId, score: dataQuality.score });
+  } else if (deviationActive) {
+    stabilityProposal = await calculateMinimalEffectiveAction(
+      prediction.currentLSF,
+      prediction.predictedLSF,
+      sensorData,
+      requestId,
+      await proposalLifecycle.cooldowns()
+    );
     
-  } catch (error: unknown) {
-    const err = error as Error;
-    logger.error('Vertex AI prediction failed', { error: err.message });
-    throw new Error(`Prediction service error: ${err.message}`);
+    // An equivalent open proposal is neither stored nor sent again; a changed plan supersedes it
+    const decision = stabilityProposal ? await proposalLifecycle.evaluate(stabilityProposal, prediction) : null;
+    if (stabilityProposal && decision && !decision.publish) {
+      logger.info('Stability proposal not sent', { requestId, reason: decision.reason });
+      proposalCount.labels('stability', 'deduplicated').inc();
+    } else if (stabilityProposal && decision) {
+      // Storing it open is the claim; another instance may have opened the same one first
+      const stored = await alloyDBService.storeProposal({
+        proposalId: stabilityProposal.proposalId || `prop_${Date.now()}`,
+        requestId,
+        proposalType: stabilityProposal.proposalType,
+        urgency: stabilityProposal.urgency,
+        title: stabilityProposal.title,
+        description: stabilityProposal.description,
+        rationale: stabilityProposal.rationale,
+        actions: stabilityProposal.actions,
+        expectedOutcomes: stabilityProposal.expectedOutcomes,
+        risks: stabilityProposal.risks,
+        mitigationStrategies: stabilityProposal.mitigationStrategies,
+        supportingData: stabilityProposal.supportingData,
+        confidence: stabilityProposal.confidence,
+        constraints: stabilityProposal.constraints,
+        prerequisites: stabilityProposal.prerequisites,
+        ...proposalLifecycle.lifecycleFields(stabilityProposal, prediction, decision)
+      }, decision.supersedes);
+      if (!stored) {
+        logger.info('Stability proposal not sent', { requestId, reason: 'Equivalent proposal opened concurrently' });
+        proposalCount.labels('stability', 'deduplicated').inc();
+      } else {
+        // /v1/predict/lsf returns the proposal to its caller, Master Control's collector, so only
+        // proposals raised by streaming or pushed data go to Master Control over A2A
+        if (options.source !== 'predict') {
+          try {
+            await sendStabilityProposal(stabilityProposal);
+          } catch (error: unknown) {
+            // Withdraw it so the next cycle does not take it for an equivalent open proposal
+            await alloyDBService.withdrawProposal(stabilityProposal.proposalId, 'Delivery to Master Control failed');
+            proposalCount.labels('stability', 'error').inc();
+            throw error;
+          }
+        }
+        
+        // Publish proposal to the Pub/Sub proposal feed
+        await pubsubService.publishProposal(stabilityProposal);
+        proposalCount.labels('stability', 'sent').inc();
+        published = true;
+      }
+    }
+  }
+
+  // Update metrics
+  predictionLatency.labels(forecaster.backend, `${predictionHorizon}m`).observe(prediction.latency);
+  predictionAccuracy.labels(forecaster.backend).set(prediction.accuracy);
+
+  return { requestId, dataQuality, prediction, proposal: stabilityProposal, published };
+}
+
+/**
+ * Run shadow versions on a request and store their predictions, flagged so nothing acts on them
+ */
+async function runShadowPredictions(
+  requestId: string,
+  request: PredictionRequest,
+  shadowForecasters: LSFForecaster[],
+  dataQuality: DataQualityReport
+): Promise<void> {
+  for (const forecaster of shadowForecasters) {
+    try {
+      const prediction = await forecaster.predictLSF(request);
+      await alloyDBService.storePrediction({
+        requestId: `${requestId}_shadow_${forecaster.modelVersion}`,
+        sensorData: request.sensorData,
+        predictionHorizonMinutes: request.predictionHorizonMinutes || 60,
+        currentLSF: prediction.currentLSF,
+        predictedLSF: prediction.predictedLSF,
+        confidence: prediction.confidence,
+        deviationDetected: prediction.deviationDetected,
+        deviationMagnitude: prediction.deviationMagnitude,
+        accuracy: prediction.accuracy,
+        modelVersion: prediction.modelVersion,
+        latency: prediction.latency,
+        outOfBandProbability: prediction.outOfBandProbability,
+        intervals: prediction.intervals,
+        stepMinutes: prediction.stepMinutes,
+        expectedBreach: prediction.expectedBreach,
+        forecastOrigin: new Date(request.sensorData[request.sensorData.length - 1].timestamp).toISOString(),
+        dataQuality,
+        shadow: true
+      });
+    } catch (error: unknown) {
+      const err = error as Error;
+      logger.warn('Shadow prediction failed', { requestId, modelVersion: forecaster.modelVersion, error: err.message });
+    }
   }
 }
 
@@ -591,11 +1094,13 @@ async function generateLSFPrediction(sensorData: any, horizonMinutes: number) {
 async function calculateMinimalEffectiveAction(
   currentLSF: number,
   predictedLSF: number,
-  sensorData: any[],
-  requestId: string
+  sensorData: SensorDataPoint[],
+  requestId: string,
+  // Variables held back by the proposal lifecycle, with the reason
+  cooldowns: Record<string, string> = {}
 ) {
   try {
-    const deviation = predictedLSF - 100; // Target LSF is 100
+    const deviation = predictedLSF - TARGET_LSF;
     const deviationMagnitude = Math.abs(deviation);
     
     // Determine urgency based on deviation magnitude
@@ -603,52 +1108,54 @@ async function calculateMinimalEffectiveAction(
     if (deviationMagnitude > 1.5) urgency = 'high';
     else if (deviationMagnitude > 1.0) urgency = 'medium';
     
-    // Select most effective control variable based on current process state
-    const currentState = sensorData[sensorData.length - 1];
-    const controlVariable = selectOptimalControlVariable(currentState, deviation);
-    
-    // Calculate minimal adjustment magnitude
-    const adjustmentMagnitude = calculateMinimalAdjustment(deviation, controlVariable);
-    
-    // Only propose action if adjustment is significant enough
-    if (Math.abs(adjustmentMagnitude) < 0.05) {
-      return null; // Adjustment too small to be effective
+    // No moves during start-up transients, shutdowns or planned stops
+    const equipmentPolicy = equipmentStateService.proposalPolicy();
+    if (equipmentPolicy.suppressed) {
+      logger.info('Stability proposal suppressed by equipment state', { requestId, reason: equipmentPolicy.reason });
+      return null;
     }
     
-    const currentValue = currentState[controlVariable];
-    const proposedValue = currentValue + adjustmentMagnitude;
-    
-    // Validate proposed action against safety constraints
-    const validation = await validateControlAction({
-      controlVariable,
-      currentValue,
-      proposedValue,
-      adjustmentMagnitude
+    // Smallest combination of moves on available actuators that brings predicted LSF back into band
+    const currentState = sensorData[sensorData.length - 1];
+    const plan = actionOptimizer.optimize(predictedLSF, currentState, {
+      unavailable: { ...cooldowns, ...equipmentPolicy.unavailable },
+      maxSteps: equipmentPolicy.maxSteps
     });
+    if (!plan) {
+      return null; // Already within the target range or nothing can move
+    }
     
-    if (!validation.isValid) {
-      logger.warn('Proposed action failed validation', { 
-        controlVariable, 
-        proposedValue, 
-        reason: validation.reason 
+    const actions = [];
+    for (const adjustment of plan.adjustments) {
+      // Validate proposed action against safety constraints
+      const validation = await validateControlAction(adjustment);
+      
+      if (!validation.isValid) {
+        logger.warn('Proposed action failed validation', { 
+          controlVariable: adjustment.controlVariable, 
+          proposedValue: adjustment.proposedValue, 
+          reason: validation.reason 
+        });
+        return null;
+      }
+      
+      actions.push({
+        controlVariable: adjustment.controlVariable,
+        currentValue: adjustment.currentValue,
+        proposedValue: adjustment.proposedValue,
+        adjustmentMagnitude: adjustment.adjustmentMagnitude,
+        unit: adjustment.unit,
+        expectedLSFEffect: adjustment.lsfEffect,
+        executionMethod: 'immediate',
+        safetyChecksRequired: true,
+        validation: validation
       });
-      return null;
     }
     
-    const action = {
-      controlVariable,
-      currentValue,
-      proposedValue,
-      adjustmentMagnitude,
-      executionMethod: 'immediate',
-      safetyChecksRequired: true,
-      validation: validation
-    };
-
     const outcome = {
       metric: 'lime_saturation_factor',
-      expectedValue: 100,
-      confidence: 0.85,
+      expectedValue: plan.correctedLSF,
+      confidence: plan.reachesBand ? 0.85 : 0.5,
       timeframe: '30_minutes'
     };
 
@@ -665,6 +1172,8 @@ async function calculateMinimalEffectiveAction(
       'Automatic rollback if adverse effects detected'
     ];
 
+    const timeToDeviation = await getTimeToDeviation();
+    
     const proposal = {
       agentId: 'guardian_agent', // Add missing agentId
       timestamp: new Date().toISOString(), // Add timestamp
@@ -673,9 +1182,9 @@ async function calculateMinimalEffectiveAction(
       proposalType: 'stability',
       urgency,
       title: 'Process Stability Adjustment',
-      description: `Adjust ${controlVariable} by ${adjustmentMagnitude}% to maintain LSF within targets`,
-      rationale: `Predicted LSF deviation of ${deviationMagnitude}% in ${await getTimeToDeviation() || 'unknown'} minutes. Minimal effective adjustment calculated to prevent quality issues.`,
-      actions: [action],
+      description: `${plan.adjustments.map(describeAdjustment).join(', ')} to maintain LSF within targets`,
+      rationale: buildActionRationale(plan, deviationMagnitude, timeToDeviation),
+      actions,
       expectedOutcomes: [outcome],
       risks: [risk],
       mitigationStrategies: mitigationStrategies,
@@ -683,7 +1192,11 @@ async function calculateMinimalEffectiveAction(
         currentLSF,
         predictedLSF,
         predictedDeviation: deviationMagnitude,
-        timeToDeviation: await getTimeToDeviation() ?? 'unknown',
+        correctedLSF: plan.correctedLSF,
+        targetRange: plan.targetRange,
+        alternativesConsidered: plan.alternatives,
+        equipmentState: equipmentPolicy.equipment,
+        timeToDeviation: timeToDeviation ?? 'unknown',
         lsfTrend: await getLSFTrend('1h'), // Placeholder, needs actual trend data
         confidence: 0.95 // Placeholder
       },
@@ -705,40 +1218,26 @@ async function calculateMinimalEffectiveAction(
   }
 }
 
-/**
- * Select optimal control variable based on current process state and deviation
- */
-function selectOptimalControlVariable(currentState: any, deviation: number): string {
-  // Simple heuristic: use kiln_speed for small deviations, fuel_flow for larger ones
-  const deviationMagnitude = Math.abs(deviation);
-  
-  if (deviationMagnitude < 0.5) {
-    return 'kiln_speed'; // Fine adjustment
-  } else if (deviationMagnitude < 1.0) {
-    return 'fuel_flow'; // Medium adjustment
-  } else {
-    return 'feed_rate'; // Coarse adjustment
-  }
+function describeAdjustment(adjustment: { controlVariable: string; adjustmentMagnitude: number; unit: string }): string {
+  const sign = adjustment.adjustmentMagnitude > 0 ? '+' : '';
+  return `Adjust ${adjustment.controlVariable} by ${sign}${adjustment.adjustmentMagnitude} ${adjustment.unit}`;
 }
 
 /**
- * Calculate minimal adjustment magnitude based on deviation and control variable
+ * Explain the chosen correction against the alternatives the optimizer weighed
  */
-function calculateMinimalAdjustment(deviation: number, controlVariable: string): number {
-  const deviationMagnitude = Math.abs(deviation);
-  
-  // Different control variables have different sensitivity
-  const sensitivity = {
-    kiln_speed: 0.1,    // High sensitivity
-    fuel_flow: 0.05,     // Medium sensitivity
-    feed_rate: 0.02,     // Low sensitivity
-    preheater_temp: 0.08 // Medium-high sensitivity
-  };
-  
-  const baseAdjustment = deviationMagnitude * (sensitivity[controlVariable as keyof typeof sensitivity] || 0.05);
-  
-  // Apply direction
-  return deviation > 0 ? baseAdjustment : -baseAdjustment;
+function buildActionRationale(plan: ActionPlan, deviationMagnitude: number, timeToDeviation: number | null): string {
+  const considered = plan.alternatives.map(alternative => {
+    const moves = alternative.adjustments.map(describeAdjustment).join(' + ') || 'no move';
+    const outcome = alternative.correctedLSF !== null ? ` -> LSF ${alternative.correctedLSF.toFixed(2)}, cost ${alternative.cost}` : '';
+    return `${alternative.label}: ${moves}${outcome}${alternative.reason ? ` (${alternative.reason})` : ''}`;
+  });
+
+  return `Predicted LSF deviation of ${deviationMagnitude.toFixed(2)} in ${timeToDeviation !== null ? timeToDeviation.toFixed(0) : 'unknown'} minutes. ` +
+    `Chosen: ${plan.adjustments.map(describeAdjustment).join(' + ')} -> LSF ${plan.correctedLSF.toFixed(2)} ` +
+    `(target ${plan.targetRange.min}-${plan.targetRange.max}, cost ${plan.cost})` +
+    `${plan.reachesBand ? '' : '; no combination within limits reaches the target range, this is the closest'}. ` +
+    `Alternatives considered: ${considered.join('; ')}.`;
 }
 
 /**
@@ -757,6 +1256,15 @@ async function validateControlAction(action: any): Promise<any> {
       };
     }
     
+    // Reject moves on equipment that is stopped, tripped or in maintenance
+    const unavailableReason = equipmentStateService.unavailableReason(controlVariable);
+    if (unavailableReason) {
+      return {
+        isValid: false,
+        reason: `Actuator for ${controlVariable} unavailable: ${unavailableReason}`
+      };
+    }
+    
     // Check if proposed value is within safe operating range
     if (proposedValue < limits.min || proposedValue > limits.max) {
       return {
@@ -767,7 +1275,7 @@ async function validateControlAction(action: any): Promise<any> {
     
     // Check for excessive adjustment
     const adjustmentMagnitude = Math.abs(action.adjustmentMagnitude);
-    const maxAdjustment = limits.step * 5; // Max 5 steps at once
+    const maxAdjustment = limits.step * ACTION_OPTIMIZER_CONFIG.maxStepsPerAction;
     
     if (adjustmentMagnitude > maxAdjustment) {
       return {
@@ -810,7 +1318,8 @@ async function processIncomingData(data: any[]): Promise<any> {
         kiln_speed: point.kiln_speed,
         fuel_flow: point.fuel_flow,
         feed_rate: point.feed_rate,
-        preheater_temperature: point.preheater_temperature
+        preheater_temperature: point.preheater_temperature,
+        raw_meal_lsf: point.raw_meal_lsf
       });
     }
     
@@ -929,9 +1438,76 @@ async function getDeviationDirection(): Promise<string> {
   }
 }
 
+/**
+ * Minutes until the latest forecast expects LSF to leave the quality band,
+ * counted from now; null when no breach is expected within its horizon
+ */
 async function getTimeToDeviation(): Promise<number | null> {
-  // This would be calculated from prediction models
-  return null;
+  try {
+    const history = await alloyDBService.getPredictionHistory(1);
+    const latest = history[0];
+    if (!latest?.expectedBreach || !latest.createdAt) {
+      return null;
+    }
+
+    const elapsedMinutes = (Date.now() - new Date(latest.createdAt).getTime()) / 60000;
+    // A forecast past its horizon says nothing about the band any more
+    if (elapsedMinutes > latest.predictionHorizonMinutes) {
+      return null;
+    }
+    return Math.max(0, latest.expectedBreach.minutesAhead - elapsedMinutes);
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to get time to deviation', { error: err.message });
+    return null;
+  }
+}
+
+/**
+ * Trajectory of the latest stored forecast
+ */
+async function getLatestForecast() {
+  try {
+    const history = await alloyDBService.getPredictionHistory(1);
+    const latest = history[0];
+    if (!latest?.intervals) {
+      return null;
+    }
+
+    return {
+      requestId: latest.requestId,
+      generatedAt: latest.createdAt,
+      horizonMinutes: latest.predictionHorizonMinutes,
+      stepMinutes: latest.stepMinutes,
+      modelVersion: latest.modelVersion,
+      outOfBandProbability: latest.outOfBandProbability,
+      trajectory: latest.intervals,
+      expectedBreach: latest.expectedBreach
+    };
+  } catch (error: unknown) {
+    const err = error as Error;
+    logger.error('Failed to get latest forecast', { error: err.message });
+    return null;
+  }
+}
+
+/**
+ * Quality alert in the glass cockpit's ProcessAlert shape
+ */
+function buildQualityAlert(bandStatus: string, timeToDeviation: number | null) {
+  let status: 'stable' | 'warning' | 'critical' = 'stable';
+  if (bandStatus === 'critical' || timeToDeviation === 0) {
+    status = 'critical';
+  } else if (bandStatus === 'warning' || timeToDeviation !== null) {
+    status = 'warning';
+  }
+
+  return {
+    system: 'clinker_lsf',
+    status,
+    etaMin: timeToDeviation !== null ? Math.round(timeToDeviation) : undefined,
+    timestamp: new Date().toISOString()
+  };
 }
 
 async function getLSFTrend(period: string): Promise<any> {
@@ -994,9 +1570,12 @@ async function sendStabilityProposal(proposal: any) {
 async function subscribeToProcessData() {
   try {
     await pubsubService.initializeSubscriptions();
+    await pubsubService.subscribeToLabAnalysis(handleLabAnalysis);
+    await pubsubService.subscribeToEquipmentStatus(data => equipmentStateService.update(data));
+    if (STREAMING_CONFIG.enabled) {
+      await streamingPipeline.start();
+    }
     
-    // In a real implementation, this would set up message handlers
-    // For now, we'll log that subscriptions are initialized
     logger.info('Pub/Sub subscriptions initialized successfully');
     
   } catch (error: unknown) {
@@ -1005,6 +1584,29 @@ async function subscribeToProcessData() {
   }
 }
 
+/**
+ * Score stored forecasts against an incoming lab analysis
+ */
+async function handleLabAnalysis(data: LabAnalysisMessage): Promise<void> {
+  const sampledAt = data.sampledAt || data.sampleTime || data.timestamp;
+  if (typeof data.lsf !== 'number' || !sampledAt || isNaN(Date.parse(sampledAt))) {
+    logger.warn('Lab analysis without LSF or sample time ignored', { sampleId: data.sampleId });
+    return;
+  }
+
+  const evaluations = await alloyDBService.recordLabResult({
+    sampleId: data.sampleId,
+    sampledAt: new Date(sampledAt).toISOString(),
+    lsf: data.lsf
+  });
+
+  for (const evaluation of evaluations) {
+    forecastError
+      .labels(evaluation.modelVersion, String(evaluation.horizonBucket))
+      .observe(Math.abs(evaluation.error));
+  }
+}
+
 // Authentication endpoints
 app.post('/api/v1/auth/login', (req, res) => {
   const { username, password } = req.body;
@@ -1052,6 +1654,7 @@ async function initializeAgent() {
   try {
     // Initialize AlloyDB schema
     await alloyDBService.initializeSchema();
+    await modelRegistry.initialize();
     
     // Initialize Pub/Sub subscriptions
     await subscribeToProcessData();
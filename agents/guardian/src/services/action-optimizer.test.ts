@@ -0,0 +1,78 @@
+import { MinimalActionOptimizer } from './action-optimizer';
+import { ProcessGain } from '../config/process-gains';
+
+function gain(sensorField: string, unit: string, lsfGain: number, costPerStep: number = 1): ProcessGain {
+  return { sensorField, unit, lsfGain, costPerStep, description: '' };
+}
+
+// Kiln speed moves LSF 0.2 per 0.1 rpm step, fuel 0.05 per 0.05 t/h step; feed and preheater have no gain
+const gains: Record<string, ProcessGain> = {
+  kiln_speed: gain('kiln_speed', 'rpm', -2.0),
+  fuel_flow: gain('fuel_flow', 't/h', 1.0),
+  feed_rate: gain('feed_rate', 't/h', 0),
+  preheater_temp: gain('preheater_temperature', '°C', 0)
+};
+
+const currentState = { kiln_speed: 3.5, fuel_flow: 5.0, feed_rate: 200, preheater_temperature: 900 };
+
+describe('MinimalActionOptimizer', () => {
+  const optimizer = new MinimalActionOptimizer(gains);
+
+  it('leaves a prediction inside the target range alone', () => {
+    expect(optimizer.optimize(99.0, currentState)).toBeNull();
+  });
+
+  it('picks the cheapest move that reaches the target range', () => {
+    const plan = optimizer.optimize(98.1, currentState);
+
+    expect(plan).toMatchObject({ correctedLSF: 98.5, cost: 2, reachesBand: true, targetRange: { min: 98.5, max: 101.5 } });
+    expect(plan?.adjustments).toEqual([{
+      controlVariable: 'kiln_speed',
+      currentValue: 3.5,
+      proposedValue: 3.3,
+      adjustmentMagnitude: -0.2,
+      steps: -2,
+      unit: 'rpm',
+      lsfEffect: 0.4
+    }]);
+  });
+
+  it('explains why each other lever cannot do the job alone', () => {
+    const plan = optimizer.optimize(98.1, currentState);
+    const reasons = Object.fromEntries((plan?.alternatives ?? []).map(a => [a.label, a.reason]));
+
+    expect(reasons).toMatchObject({
+      'kiln_speed only': undefined,
+      'fuel_flow only': 'Needs 8 steps; at most 5 are allowed per action',
+      'feed_rate only': 'No process gain configured'
+    });
+  });
+
+  it('combines levers when a limit stops the cheapest one short', () => {
+    const plan = optimizer.optimize(98.1, { ...currentState, kiln_speed: 2.9 });
+
+    expect(plan?.reachesBand).toBe(true);
+    expect(plan?.adjustments.map(a => [a.controlVariable, a.steps])).toEqual([['kiln_speed', -1], ['fuel_flow', 4]]);
+    expect(plan?.alternatives.find(a => a.label === 'kiln_speed only')?.reason)
+      .toBe('Needs 2 steps but only 1 fit before its min limit of 2.8 rpm');
+  });
+
+  it('returns the closest plan when held-back variables leave the band out of reach', () => {
+    const plan = optimizer.optimize(98.1, currentState, {
+      unavailable: { kiln_speed: 'Kiln is starting' },
+      maxSteps: { fuel_flow: 3 }
+    });
+
+    expect(plan).toMatchObject({ correctedLSF: 98.25, reachesBand: false });
+    expect(plan?.adjustments.map(a => [a.controlVariable, a.steps])).toEqual([['fuel_flow', 3]]);
+    expect(plan?.alternatives.find(a => a.label === 'kiln_speed only')).toMatchObject({
+      adjustments: [],
+      reachesBand: false,
+      reason: 'Kiln is starting'
+    });
+  });
+
+  it('proposes nothing when no variable can move', () => {
+    expect(optimizer.optimize(98.1, { feed_rate: 200 })).toBeNull();
+  });
+});
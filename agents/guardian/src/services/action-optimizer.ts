@@ -0,0 +1,309 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import {
+  CONTROL_VARIABLES,
+  ACTION_OPTIMIZER_CONFIG,
+  QUALITY_BAND_MIN,
+  QUALITY_BAND_MAX,
+  TARGET_LSF
+} from '../config/constants';
+import { ProcessGain, PROCESS_GAIN_MODEL } from '../config/process-gains';
+import type { SensorDataPoint } from './lsf-forecaster';
+
+export interface VariableAdjustment {
+  controlVariable: string;
+  currentValue: number;
+  proposedValue: number;
+  adjustmentMagnitude: number;
+  steps: number;
+  unit: string;
+  // Predicted LSF change from this move alone
+  lsfEffect: number;
+}
+
+export interface ActionAlternative {
+  label: string;
+  adjustments: VariableAdjustment[];
+  correctedLSF: number | null;
+  cost: number | null;
+  reachesBand: boolean;
+  // Why a single-lever option cannot do the job on its own
+  reason?: string;
+}
+
+export interface ActionConstraints {
+  // Variables that must not move, with the reason
+  unavailable?: Record<string, string>;
+  // Per-variable step caps tighter than maxStepsPerAction
+  maxSteps?: Record<string, number>;
+}
+
+export interface ActionPlan {
+  predictedLSF: number;
+  correctedLSF: number;
+  targetRange: { min: number; max: number };
+  adjustments: VariableAdjustment[];
+  cost: number;
+  // False when no combination within the limits gets back into the target range; the plan is the closest one
+  reachesBand: boolean;
+  alternatives: ActionAlternative[];
+}
+
+interface Lever {
+  controlVariable: string;
+  currentValue: number;
+  limits: { min: number; max: number; step: number };
+  gain: ProcessGain;
+  stepCap: number;
+  minSteps: number;
+  maxSteps: number;
+}
+
+interface Candidate {
+  steps: number[];
+  correctedLSF: number;
+  cost: number;
+  moved: number;
+  // LSF points still outside the target range
+  shortfall: number;
+}
+
+/**
+ * Minimal Effective Action Optimizer
+ * Searches every step combination of the control variables, within their step and
+ * min/max limits, for the least disruptive one that brings predicted LSF back into
+ * band under the linear process-gain model
+ */
+export class MinimalActionOptimizer {
+  private gainModel: Record<string, ProcessGain>;
+  private config: typeof ACTION_OPTIMIZER_CONFIG;
+
+  constructor(
+    gainModel: Record<string, ProcessGain> = PROCESS_GAIN_MODEL,
+    config: typeof ACTION_OPTIMIZER_CONFIG = ACTION_OPTIMIZER_CONFIG
+  ) {
+    this.gainModel = gainModel;
+    this.config = config;
+  }
+
+  /**
+   * Plan the smallest correction for a predicted LSF; null when nothing needs to or can move
+   */
+  optimize(
+    predictedLSF: number,
+    currentState: Partial<SensorDataPoint>,
+    constraints: ActionConstraints = {}
+  ): ActionPlan | null {
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('optimize_minimal_action');
+
+    try {
+      const targetRange = {
+        min: QUALITY_BAND_MIN + this.config.targetMargin,
+        max: QUALITY_BAND_MAX - this.config.targetMargin
+      };
+      if (predictedLSF >= targetRange.min && predictedLSF <= targetRange.max) {
+        return null;
+      }
+
+      const unavailable: ActionAlternative[] = [];
+      const levers: Lever[] = [];
+      for (const [controlVariable, limits] of Object.entries(CONTROL_VARIABLES)) {
+        const gain = this.gainModel[controlVariable];
+        const currentValue = Number(currentState[(gain?.sensorField ?? controlVariable) as keyof SensorDataPoint]);
+        const stepCap = Math.min(this.config.maxStepsPerAction, constraints.maxSteps?.[controlVariable] ?? Infinity);
+
+        if (constraints.unavailable?.[controlVariable]) {
+          unavailable.push(unavailableLever(controlVariable, constraints.unavailable[controlVariable]));
+        } else if (!gain || gain.lsfGain === 0) {
+          unavailable.push(unavailableLever(controlVariable, 'No process gain configured'));
+        } else if (!Number.isFinite(currentValue)) {
+          unavailable.push(unavailableLever(controlVariable, 'No current value in sensor data'));
+        } else if (currentValue < limits.min || currentValue > limits.max) {
+          unavailable.push(unavailableLever(controlVariable, `Current value ${currentValue} is outside [${limits.min}, ${limits.max}]`));
+        } else {
+          levers.push({
+            controlVariable,
+            currentValue,
+            limits,
+            gain,
+            stepCap,
+            minSteps: Math.max(-stepCap, Math.ceil((limits.min - currentValue) / limits.step - 1e-9)),
+            maxSteps: Math.min(stepCap, Math.floor((limits.max - currentValue) / limits.step + 1e-9))
+          });
+        }
+      }
+
+      if (levers.length === 0) {
+        logger.warn('No control variable available for minimal effective action', { predictedLSF });
+        return null;
+      }
+
+      const candidates = enumerate(levers, predictedLSF, targetRange);
+      candidates.sort(compareCandidates);
+      const best = candidates[0];
+      if (best.moved === 0) {
+        return null;
+      }
+
+      const alternatives = [
+        ...levers.map(lever => this.singleLever(lever, levers, predictedLSF, targetRange)),
+        ...unavailable,
+        ...candidates
+          .filter(c => c !== best && c.moved > 1 && c.shortfall === 0)
+          .slice(0, this.config.maxAlternatives)
+          .map(c => toAlternative('Combined move', c, levers))
+      ];
+
+      const plan: ActionPlan = {
+        predictedLSF,
+        correctedLSF: round(best.correctedLSF),
+        targetRange,
+        adjustments: toAdjustments(best.steps, levers),
+        cost: round(best.cost),
+        reachesBand: best.shortfall === 0,
+        alternatives
+      };
+
+      span.setAttributes({
+        'optimizer.predicted_lsf': predictedLSF,
+        'optimizer.corrected_lsf': plan.correctedLSF,
+        'optimizer.variables_moved': plan.adjustments.length,
+        'optimizer.reaches_band': plan.reachesBand,
+        'optimizer.candidates': candidates.length
+      });
+
+      logger.info('Minimal effective action optimized', {
+        predictedLSF,
+        correctedLSF: plan.correctedLSF,
+        adjustments: plan.adjustments.map(a => `${a.controlVariable}:${a.adjustmentMagnitude}`),
+        cost: plan.cost,
+        reachesBand: plan.reachesBand
+      });
+
+      return plan;
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Best this lever can do on its own, with the reason when it falls short
+   */
+  private singleLever(
+    lever: Lever,
+    levers: Lever[],
+    predictedLSF: number,
+    targetRange: { min: number; max: number }
+  ): ActionAlternative {
+    const candidates = enumerate([lever], predictedLSF, targetRange).sort(compareCandidates);
+    const best = candidates[0];
+    const steps = levers.map(l => (l === lever ? best.steps[0] : 0));
+    const alternative = toAlternative(`${lever.controlVariable} only`, { ...best, steps }, levers);
+
+    if (best.shortfall > 0) {
+      const needed = Math.ceil(shortfallFrom(predictedLSF, targetRange) / Math.abs(lever.gain.lsfGain * lever.limits.step) - 1e-9);
+      const raise = requiredChange(predictedLSF, targetRange) * lever.gain.lsfGain > 0;
+      const headroom = raise ? lever.maxSteps : -lever.minSteps;
+      alternative.reason = headroom < lever.stepCap
+        ? `Needs ${needed} steps but only ${Math.max(0, headroom)} fit before its ${raise ? 'max' : 'min'} limit of ` +
+          `${raise ? lever.limits.max : lever.limits.min} ${lever.gain.unit}`
+        : `Needs ${needed} steps; at most ${lever.stepCap} are allowed per action`;
+    }
+    return alternative;
+  }
+}
+
+function enumerate(
+  levers: Lever[],
+  predictedLSF: number,
+  targetRange: { min: number; max: number }
+): Candidate[] {
+  const candidates: Candidate[] = [];
+  const steps: number[] = new Array(levers.length).fill(0);
+
+  const visit = (index: number) => {
+    if (index === levers.length) {
+      let correctedLSF = predictedLSF;
+      let cost = 0;
+      let moved = 0;
+      levers.forEach((lever, i) => {
+        correctedLSF += steps[i] * lever.limits.step * lever.gain.lsfGain;
+        cost += Math.abs(steps[i]) * lever.gain.costPerStep;
+        if (steps[i] !== 0) moved++;
+      });
+      candidates.push({ steps: [...steps], correctedLSF, cost, moved, shortfall: shortfallFrom(correctedLSF, targetRange) });
+      return;
+    }
+    for (let s = levers[index].minSteps; s <= levers[index].maxSteps; s++) {
+      steps[index] = s;
+      visit(index + 1);
+    }
+  };
+  visit(0);
+
+  return candidates;
+}
+
+/**
+ * Closest to the target range first, then least disruptive, fewest variables and nearest the target
+ */
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return round(a.shortfall - b.shortfall) ||
+    round(a.cost - b.cost) ||
+    a.moved - b.moved ||
+    Math.abs(a.correctedLSF - TARGET_LSF) - Math.abs(b.correctedLSF - TARGET_LSF);
+}
+
+function shortfallFrom(lsf: number, targetRange: { min: number; max: number }): number {
+  const shortfall = lsf < targetRange.min ? targetRange.min - lsf : lsf > targetRange.max ? lsf - targetRange.max : 0;
+  return round(shortfall);
+}
+
+// +1 when LSF must rise to reach the target range, -1 when it must fall
+function requiredChange(predictedLSF: number, targetRange: { min: number; max: number }): number {
+  return predictedLSF < targetRange.min ? 1 : -1;
+}
+
+function toAdjustments(steps: number[], levers: Lever[]): VariableAdjustment[] {
+  return levers
+    .map((lever, i) => {
+      const adjustmentMagnitude = round(steps[i] * lever.limits.step);
+      return {
+        controlVariable: lever.controlVariable,
+        currentValue: lever.currentValue,
+        proposedValue: round(lever.currentValue + adjustmentMagnitude),
+        adjustmentMagnitude,
+        steps: steps[i],
+        unit: lever.gain.unit,
+        lsfEffect: round(adjustmentMagnitude * lever.gain.lsfGain)
+      };
+    })
+    .filter(adjustment => adjustment.steps !== 0);
+}
+
+function toAlternative(label: string, candidate: Candidate, levers: Lever[]): ActionAlternative {
+  return {
+    label,
+    adjustments: toAdjustments(candidate.steps, levers),
+    correctedLSF: round(candidate.correctedLSF),
+    cost: round(candidate.cost),
+    reachesBand: candidate.shortfall === 0
+  };
+}
+
+function unavailableLever(controlVariable: string, reason: string): ActionAlternative {
+  return {
+    label: `${controlVariable} only`,
+    adjustments: [],
+    correctedLSF: null,
+    cost: null,
+    reachesBand: false,
+    reason
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
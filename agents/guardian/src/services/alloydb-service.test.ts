@@ -0,0 +1,146 @@
+import { AlloyDBService, horizonBucket, matchLabResult } from './alloydb-service';
+import type { ForecastStep } from './lsf-forecaster';
+import { LAB_MATCH_TOLERANCE_MINUTES } from '../config/constants';
+
+const origin = '2026-10-01T08:00:00.000Z';
+const minutesAfter = (minutes: number) => new Date(Date.parse(origin) + minutes * 60000).toISOString();
+
+function steps(stepMinutes: number, count: number): ForecastStep[] {
+  return Array.from({ length: count }, (_, i) => {
+    const minutesAhead = (i + 1) * stepMinutes;
+    return { minutesAhead, p10: 99.5, p50: 100 + minutesAhead / 100, p90: 100.5 + minutesAhead / 100, outOfBandProbability: 0 };
+  });
+}
+
+describe('lab result matching', () => {
+  it('groups lead times into reporting horizons', () => {
+    expect([5, 15, 16, 60, 90, 120, 150].map(horizonBucket)).toEqual([15, 15, 30, 60, 120, 120, 150]);
+  });
+
+  it('joins a lab sample to the step targeting its time and records the error', () => {
+    const matches = matchLabResult(
+      { forecastOrigin: origin, stepMinutes: 15, intervals: steps(15, 8) },
+      { sampleId: 'lab_1', sampledAt: minutesAfter(31), lsf: 100.1 }
+    );
+
+    expect(matches).toEqual([{
+      horizonMinutes: 30,
+      horizonBucket: 30,
+      predictedLSF: 100.3,
+      p10: 99.5,
+      p90: 100.8,
+      error: expect.closeTo(0.2, 9),
+      withinInterval: true
+    }]);
+  });
+
+  it('keeps the match window inside half the step so a sample lands on one step only', () => {
+    const forecast = { forecastOrigin: new Date(origin), stepMinutes: 2, intervals: steps(2, 30) };
+
+    expect(matchLabResult(forecast, { sampledAt: minutesAfter(20.5), lsf: 100 }).map(m => m.horizonMinutes))
+      .toEqual([20]);
+    // Halfway between two steps belongs to neither
+    expect(matchLabResult(forecast, { sampledAt: minutesAfter(21), lsf: 100 })).toEqual([]);
+  });
+
+  it('ignores samples further than the tolerance from any step', () => {
+    const forecast = { forecastOrigin: origin, stepMinutes: 60, intervals: steps(60, 2) };
+
+    expect(matchLabResult(forecast, { sampledAt: minutesAfter(60 + LAB_MATCH_TOLERANCE_MINUTES), lsf: 97 }))
+      .toEqual([expect.objectContaining({ horizonMinutes: 60, withinInterval: false })]);
+    expect(matchLabResult(forecast, { sampledAt: minutesAfter(60 + LAB_MATCH_TOLERANCE_MINUTES + 1), lsf: 97 }))
+      .toEqual([]);
+  });
+});
+
+describe('AlloyDBService.recordLabResult', () => {
+  // Stands in for the pool: serves stored predictions and keeps forecast_evaluations unique per sample and step
+  function fakePool(predictions: Record<string, unknown>[]) {
+    const evaluations = new Set<string>();
+    const client = {
+      query: async (sql: string, params: unknown[]) => {
+        if (sql.includes('FROM predictions')) {
+          return { rows: predictions };
+        }
+        const key = `${params[0]}|${params[2]}|${params[5]}`;
+        const inserted = !evaluations.has(key);
+        evaluations.add(key);
+        return { rows: [], rowCount: inserted ? 1 : 0 };
+      },
+      release: () => undefined
+    };
+    return { connect: async () => client, on: () => undefined };
+  }
+
+  it('records each matched step once however often the sample is reported', async () => {
+    const service = new AlloyDBService('project', 'region', 'cluster', 'guardian', 'postgresql://localhost/test');
+    (service as unknown as { pool: unknown }).pool = fakePool([
+      { request_id: 'pred_1', model_version: 'kalman-llt-1.0.0', forecast_origin: new Date(origin), step_minutes: '15.00', forecast_intervals: steps(15, 8) },
+      { request_id: 'pred_2', model_version: 'kalman-llt-2.0.0', forecast_origin: new Date(minutesAfter(15)), step_minutes: '15.00', forecast_intervals: steps(15, 8) }
+    ]);
+    const lab = { sampleId: 'lab_1', sampledAt: minutesAfter(45), lsf: 100.2 };
+
+    const first = await service.recordLabResult(lab);
+    const repeated = await service.recordLabResult(lab);
+
+    expect(first.map(e => [e.requestId, e.modelVersion, e.horizonMinutes, e.horizonBucket])).toEqual([
+      ['pred_1', 'kalman-llt-1.0.0', 45, 60],
+      ['pred_2', 'kalman-llt-2.0.0', 30, 30]
+    ]);
+    expect(repeated).toEqual([]);
+  });
+});
+
+describe('AlloyDBService.storeProposal', () => {
+  // Stands in for the pool: records statements and keeps one open proposal per deviation key
+  function fakePool() {
+    const statements: string[] = [];
+    const openKeys = new Set<string>();
+    const client = {
+      query: async (sql: string, params: unknown[] = []) => {
+        statements.push(sql.trim().split(/\s+/)[0]);
+        if (sql.includes('INSERT INTO proposals')) {
+          const deviationKey = params[15] as string;
+          const inserted = !openKeys.has(deviationKey);
+          openKeys.add(deviationKey);
+          return { rows: [], rowCount: inserted ? 1 : 0 };
+        }
+        return { rows: [], rowCount: 0 };
+      },
+      release: () => undefined
+    };
+    return { pool: { connect: async () => client, on: () => undefined }, statements };
+  }
+
+  const proposal = (proposalId: string) => ({
+    proposalId,
+    requestId: 'req_1',
+    proposalType: 'stability',
+    urgency: 'medium',
+    title: 'Slow the kiln',
+    description: '',
+    rationale: '',
+    actions: [{ controlVariable: 'kiln_speed' }],
+    expectedOutcomes: [],
+    risks: [],
+    mitigationStrategies: [],
+    supportingData: {},
+    confidence: 0.9,
+    constraints: [],
+    prerequisites: [],
+    deviationKey: 'below:kiln_speed-'
+  });
+
+  it('supersedes and inserts in one transaction, and stores nothing when the deviation already has an open proposal', async () => {
+    const service = new AlloyDBService('project', 'region', 'cluster', 'guardian', 'postgresql://localhost/test');
+    const { pool, statements } = fakePool();
+    (service as unknown as { pool: unknown }).pool = pool;
+
+    expect(await service.storeProposal(proposal('prop_2'), ['prop_1'])).toBe(true);
+    expect(statements.splice(0)).toEqual(['BEGIN', 'UPDATE', 'INSERT', 'COMMIT']);
+
+    // Another instance raced to the same deviation; its supersede is undone with the insert
+    expect(await service.storeProposal(proposal('prop_3'), ['prop_1'])).toBe(false);
+    expect(statements).toEqual(['BEGIN', 'UPDATE', 'INSERT', 'ROLLBACK']);
+  });
+});
@@ -1,5 +1,13 @@
-import { Pool } from 'pg';
+import { Pool, QueryResultRow } from 'pg';
 import { logger } from '../utils/logger';
+import type { ForecastStep, BandBreach } from './lsf-forecaster';
+import type { DataQualityReport } from './data-quality-service';
+import type { ForecasterParameters } from './forecaster-factory';
+import {
+  LAB_MATCH_TOLERANCE_MINUTES,
+  ACCURACY_HORIZON_BUCKETS_MINUTES,
+  ForecastBackend
+} from '../config/constants';
 
 export interface PredictionRecord {
   requestId: string;
@@ -13,8 +21,75 @@ export interface PredictionRecord {
   accuracy: number;
   modelVersion: string;
   latency: number;
+  outOfBandProbability?: number;
+  intervals?: ForecastStep[];
+  stepMinutes?: number;
+  expectedBreach?: BandBreach | null;
+  // Timestamp of the last sensor point; forecast step target times count from here
+  forecastOrigin?: string;
+  // Shadow predictions come from a candidate model and are never acted on
+  shadow?: boolean;
+  dataQuality?: DataQualityReport;
+  createdAt?: Date;
 }
 
+export interface LabAnalysisRecord {
+  sampleId?: string;
+  sampledAt: string;
+  lsf: number;
+}
+
+export interface ForecastEvaluation {
+  requestId: string;
+  modelVersion: string;
+  horizonMinutes: number;
+  horizonBucket: number;
+  // Predicted minus actual
+  error: number;
+  withinInterval: boolean;
+}
+
+export interface ForecastStepMatch {
+  horizonMinutes: number;
+  horizonBucket: number;
+  predictedLSF: number;
+  p10: number;
+  p90: number;
+  // Predicted minus actual
+  error: number;
+  withinInterval: boolean;
+}
+
+export type ModelStatus = 'candidate' | 'shadow' | 'active' | 'retired';
+
+export interface ModelVersionRecord {
+  version: string;
+  backend: ForecastBackend;
+  parameters: ForecasterParameters;
+  trainingMetadata: Record<string, unknown>;
+  evaluation: Record<string, unknown> | null;
+  status: ModelStatus;
+  previousVersion: string | null;
+  notes: string | null;
+  registeredBy: string | null;
+  promotedBy: string | null;
+  promotedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ForecastAccuracy {
+  modelVersion: string;
+  horizonMinutes: number;
+  samples: number;
+  mae: number;
+  rmse: number;
+  bias: number;
+  // Share of lab results that fell inside the P10-P90 interval (0.8 when calibrated)
+  intervalCoverage: number;
+}
+
+export type ProposalStatus = 'open' | 'superseded' | 'executed' | 'expired';
+
 export interface ProposalRecord {
   proposalId: string;
   requestId: string;
@@ -31,6 +106,26 @@ export interface ProposalRecord {
   confidence: number;
   constraints: string[];
   prerequisites: string[];
+  // Lifecycle; stored proposals start open
+  deviationKey?: string;
+  deviationMagnitude?: number;
+  controlVariables?: string[];
+  expiresAt?: string;
+}
+
+export interface ProposalLifecycleRecord {
+  proposalId: string;
+  proposalType: string;
+  urgency: string;
+  status: ProposalStatus;
+  deviationKey: string | null;
+  deviationMagnitude: number | null;
+  controlVariables: string[];
+  supersededBy: string | null;
+  statusReason: string | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+  executedAt: Date | null;
 }
 
 export class AlloyDBService {
@@ -94,6 +189,66 @@ export class AlloyDBService {
         )
       `);
 
+      // Probabilistic forecast columns
+      await client.query(`
+        ALTER TABLE predictions
+          ADD COLUMN IF NOT EXISTS out_of_band_probability DECIMAL(4,3),
+          ADD COLUMN IF NOT EXISTS forecast_intervals JSONB,
+          ADD COLUMN IF NOT EXISTS step_minutes DECIMAL(6,2),
+          ADD COLUMN IF NOT EXISTS expected_breach JSONB,
+          ADD COLUMN IF NOT EXISTS forecast_origin TIMESTAMPTZ,
+          ADD COLUMN IF NOT EXISTS shadow BOOLEAN NOT NULL DEFAULT false
+      `);
+
+      // Sensor data-quality score and issues behind each prediction
+      await client.query(`
+        ALTER TABLE predictions
+          ADD COLUMN IF NOT EXISTS data_quality JSONB
+      `);
+
+      // Model registry: one active version, any number in shadow
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS model_versions (
+          version VARCHAR(50) PRIMARY KEY,
+          backend VARCHAR(20) NOT NULL,
+          parameters JSONB NOT NULL DEFAULT '{}',
+          training_metadata JSONB NOT NULL DEFAULT '{}',
+          evaluation JSONB,
+          status VARCHAR(20) NOT NULL CHECK (status IN ('candidate', 'shadow', 'active', 'retired')),
+          previous_version VARCHAR(50),
+          notes TEXT,
+          registered_by VARCHAR(255),
+          promoted_by VARCHAR(255),
+          promoted_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      await client.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_model_versions_active
+          ON model_versions(status) WHERE status = 'active'
+      `);
+
+      // Forecast steps joined to the lab results for their target time
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS forecast_evaluations (
+          id SERIAL PRIMARY KEY,
+          request_id VARCHAR(255) NOT NULL REFERENCES predictions(request_id),
+          model_version VARCHAR(50) NOT NULL,
+          horizon_minutes DECIMAL(6,2) NOT NULL,
+          horizon_bucket INTEGER NOT NULL,
+          target_time TIMESTAMPTZ NOT NULL,
+          sample_ref VARCHAR(255) NOT NULL,
+          predicted_lsf DECIMAL(6,3) NOT NULL,
+          p10 DECIMAL(6,3) NOT NULL,
+          p90 DECIMAL(6,3) NOT NULL,
+          actual_lsf DECIMAL(6,3) NOT NULL,
+          error DECIMAL(6,3) NOT NULL,
+          within_interval BOOLEAN NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (request_id, horizon_minutes, sample_ref)
+        )
+      `);
+
       // Create proposals table
       await client.query(`
         CREATE TABLE IF NOT EXISTS proposals (
@@ -118,12 +273,54 @@ export class AlloyDBService {
         )
       `);
 
+      // Proposal lifecycle: open until superseded, executed or expired
+      await client.query(`
+        ALTER TABLE proposals
+          ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'open'
+            CHECK (status IN ('open', 'superseded', 'executed', 'expired')),
+          ADD COLUMN IF NOT EXISTS deviation_key VARCHAR(255),
+          ADD COLUMN IF NOT EXISTS deviation_magnitude DECIMAL(6,3),
+          ADD COLUMN IF NOT EXISTS control_variables TEXT[] NOT NULL DEFAULT '{}',
+          ADD COLUMN IF NOT EXISTS superseded_by VARCHAR(255),
+          ADD COLUMN IF NOT EXISTS status_reason TEXT,
+          ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+          ADD COLUMN IF NOT EXISTS executed_at TIMESTAMPTZ,
+          ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ
+      `);
+
+      // Whether a deviation is raised, shared by every instance so hysteresis survives restarts
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS deviation_state (
+          proposal_type VARCHAR(50) PRIMARY KEY,
+          active BOOLEAN NOT NULL DEFAULT FALSE,
+          changed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Older releases could leave two open proposals for one deviation; keep the newest
+      await client.query(`
+        UPDATE proposals p
+        SET status = 'superseded', status_reason = 'Duplicate open proposal', status_changed_at = CURRENT_TIMESTAMP
+        WHERE p.status = 'open' AND p.deviation_key IS NOT NULL
+          AND EXISTS (
+            SELECT 1 FROM proposals q
+            WHERE q.status = 'open' AND q.proposal_type = p.proposal_type
+              AND q.deviation_key = p.deviation_key AND q.id > p.id
+          )
+      `);
+
       // Create indexes for performance
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_predictions_created_at ON predictions(created_at);
         CREATE INDEX IF NOT EXISTS idx_predictions_deviation_detected ON predictions(deviation_detected);
         CREATE INDEX IF NOT EXISTS idx_proposals_proposal_type ON proposals(proposal_type);
         CREATE INDEX IF NOT EXISTS idx_proposals_urgency ON proposals(urgency);
+        CREATE INDEX IF NOT EXISTS idx_predictions_forecast_origin ON predictions(forecast_origin);
+        CREATE INDEX IF NOT EXISTS idx_forecast_evaluations_model ON forecast_evaluations(model_version, target_time);
+        CREATE INDEX IF NOT EXISTS idx_proposals_status ON proposals(status, proposal_type);
+        CREATE INDEX IF NOT EXISTS idx_proposals_executed_at ON proposals(executed_at) WHERE status = 'executed';
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_proposals_open_deviation
+          ON proposals(proposal_type, deviation_key) WHERE status = 'open';
       `);
 
       client.release();
@@ -150,8 +347,10 @@ export class AlloyDBService {
         INSERT INTO predictions (
           request_id, sensor_data, prediction_horizon_minutes,
           current_lsf, predicted_lsf, confidence, deviation_detected,
-          deviation_magnitude, accuracy, model_version, latency
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          deviation_magnitude, accuracy, model_version, latency,
+          out_of_band_probability, forecast_intervals, step_minutes, expected_breach,
+          forecast_origin, shadow, data_quality
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
         ON CONFLICT (request_id) DO UPDATE SET
           sensor_data = EXCLUDED.sensor_data,
           prediction_horizon_minutes = EXCLUDED.prediction_horizon_minutes,
@@ -162,7 +361,14 @@ export class AlloyDBService {
           deviation_magnitude = EXCLUDED.deviation_magnitude,
           accuracy = EXCLUDED.accuracy,
           model_version = EXCLUDED.model_version,
-          latency = EXCLUDED.latency
+          latency = EXCLUDED.latency,
+          out_of_band_probability = EXCLUDED.out_of_band_probability,
+          forecast_intervals = EXCLUDED.forecast_intervals,
+          step_minutes = EXCLUDED.step_minutes,
+          expected_breach = EXCLUDED.expected_breach,
+          forecast_origin = EXCLUDED.forecast_origin,
+          shadow = EXCLUDED.shadow,
+          data_quality = EXCLUDED.data_quality
       `, [
         prediction.requestId,
         JSON.stringify(prediction.sensorData),
@@ -174,7 +380,14 @@ export class AlloyDBService {
         prediction.deviationMagnitude,
         prediction.accuracy,
         prediction.modelVersion,
-        prediction.latency
+        prediction.latency,
+        prediction.outOfBandProbability ?? null,
+        prediction.intervals ? JSON.stringify(prediction.intervals) : null,
+        prediction.stepMinutes ?? null,
+        prediction.expectedBreach ? JSON.stringify(prediction.expectedBreach) : null,
+        prediction.forecastOrigin ?? null,
+        prediction.shadow ?? false,
+        prediction.dataQuality ? JSON.stringify(prediction.dataQuality) : null
       ]);
 
       client.release();
@@ -193,31 +406,34 @@ export class AlloyDBService {
     }
   }
 
-  async storeProposal(proposal: ProposalRecord): Promise<void> {
+  /**
+   * Store a proposal as open and supersede the ones it replaces, in one transaction
+   * Only one proposal per deviation may be open, so of two instances raising the same
+   * one at once the second stores nothing and gets false
+   */
+  async storeProposal(proposal: ProposalRecord, supersedes: string[] = []): Promise<boolean> {
+    const client = await this.pool.connect();
+
     try {
-      const client = await this.pool.connect();
-      
-      await client.query(`
+      await client.query('BEGIN');
+
+      if (supersedes.length > 0) {
+        await client.query(`
+          UPDATE proposals
+          SET status = 'superseded', superseded_by = $2, status_reason = 'Superseded by a newer proposal',
+              status_changed_at = CURRENT_TIMESTAMP
+          WHERE proposal_id = ANY($1) AND status = 'open'
+        `, [supersedes, proposal.proposalId]);
+      }
+
+      const result = await client.query(`
         INSERT INTO proposals (
           proposal_id, request_id, proposal_type, urgency, title, description,
           rationale, actions, expected_outcomes, risks, mitigation_strategies,
-          supporting_data, confidence, constraints, prerequisites
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-        ON CONFLICT (proposal_id) DO UPDATE SET
-          request_id = EXCLUDED.request_id,
-          proposal_type = EXCLUDED.proposal_type,
-          urgency = EXCLUDED.urgency,
-          title = EXCLUDED.title,
-          description = EXCLUDED.description,
-          rationale = EXCLUDED.rationale,
-          actions = EXCLUDED.actions,
-          expected_outcomes = EXCLUDED.expected_outcomes,
-          risks = EXCLUDED.risks,
-          mitigation_strategies = EXCLUDED.mitigation_strategies,
-          supporting_data = EXCLUDED.supporting_data,
-          confidence = EXCLUDED.confidence,
-          constraints = EXCLUDED.constraints,
-          prerequisites = EXCLUDED.prerequisites
+          supporting_data, confidence, constraints, prerequisites,
+          deviation_key, deviation_magnitude, control_variables, expires_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+        ON CONFLICT DO NOTHING
       `, [
         proposal.proposalId,
         proposal.requestId,
@@ -233,23 +449,41 @@ export class AlloyDBService {
         JSON.stringify(proposal.supportingData),
         proposal.confidence,
         proposal.constraints,
-        proposal.prerequisites
+        proposal.prerequisites,
+        proposal.deviationKey ?? null,
+        proposal.deviationMagnitude ?? null,
+        proposal.controlVariables ?? proposal.actions.map(action => action.controlVariable),
+        proposal.expiresAt ?? null
       ]);
 
-      client.release();
-      
+      if (result.rowCount === 0) {
+        await client.query('ROLLBACK');
+        logger.info('Proposal not stored; an equivalent one is already open', {
+          proposalId: proposal.proposalId,
+          deviationKey: proposal.deviationKey
+        });
+        return false;
+      }
+
+      await client.query('COMMIT');
+
       logger.info('Proposal stored successfully', {
         proposalId: proposal.proposalId,
         proposalType: proposal.proposalType,
-        urgency: proposal.urgency
+        urgency: proposal.urgency,
+        supersedes
       });
-      
+      return true;
+
     } catch (error) {
-      logger.error('Failed to store proposal', { 
+      await client.query('ROLLBACK');
+      logger.error('Failed to store proposal', {
         error: (error as Error).message,
         proposalId: proposal.proposalId
       });
       throw error;
+    } finally {
+      client.release();
     }
   }
 
@@ -259,7 +493,7 @@ export class AlloyDBService {
       
       let query = `
         SELECT * FROM predictions 
-        WHERE 1=1
+        WHERE shadow = false
       `;
       const params: any[] = [];
       let paramCount = 0;
@@ -293,7 +527,16 @@ export class AlloyDBService {
         deviationMagnitude: row.deviation_magnitude,
         accuracy: row.accuracy,
         modelVersion: row.model_version,
-        latency: row.latency
+        latency: row.latency,
+        // DECIMAL columns come back as strings
+        outOfBandProbability: row.out_of_band_probability !== null ? Number(row.out_of_band_probability) : undefined,
+        intervals: row.forecast_intervals,
+        stepMinutes: row.step_minutes !== null ? Number(row.step_minutes) : undefined,
+        expectedBreach: row.expected_breach,
+        forecastOrigin: row.forecast_origin,
+        shadow: row.shadow,
+        dataQuality: row.data_quality ?? undefined,
+        createdAt: row.created_at
       }));
 
       logger.info('Retrieved prediction history', {
@@ -354,8 +597,541 @@ export class AlloyDBService {
     }
   }
 
+  /**
+   * Join a lab result to every stored forecast step targeting its sample time
+   * and record the error; a sample is matched at most once per step
+   */
+  async recordLabResult(lab: LabAnalysisRecord): Promise<ForecastEvaluation[]> {
+    try {
+      const client = await this.pool.connect();
+      const lookbackMinutes = Math.max(...ACCURACY_HORIZON_BUCKETS_MINUTES) + LAB_MATCH_TOLERANCE_MINUTES;
+      const sampleRef = lab.sampleId || lab.sampledAt;
+
+      const candidates = await client.query(`
+        SELECT request_id, model_version, forecast_origin, step_minutes, forecast_intervals
+        FROM predictions
+        WHERE forecast_origin BETWEEN $1::timestamptz - make_interval(mins => $2) AND $1::timestamptz
+          AND forecast_intervals IS NOT NULL
+      `, [lab.sampledAt, lookbackMinutes]);
+
+      const evaluations: ForecastEvaluation[] = [];
+      for (const row of candidates.rows) {
+        const matches = matchLabResult({
+          forecastOrigin: row.forecast_origin,
+          // DECIMAL columns come back as strings
+          stepMinutes: row.step_minutes !== null ? Number(row.step_minutes) : undefined,
+          intervals: row.forecast_intervals
+        }, lab);
+
+        for (const match of matches) {
+          const inserted = await client.query(`
+            INSERT INTO forecast_evaluations (
+              request_id, model_version, horizon_minutes, horizon_bucket, target_time, sample_ref,
+              predicted_lsf, p10, p90, actual_lsf, error, within_interval
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+            ON CONFLICT (request_id, horizon_minutes, sample_ref) DO NOTHING
+          `, [
+            row.request_id,
+            row.model_version,
+            match.horizonMinutes,
+            match.horizonBucket,
+            lab.sampledAt,
+            sampleRef,
+            match.predictedLSF,
+            match.p10,
+            match.p90,
+            lab.lsf,
+            match.error,
+            match.withinInterval
+          ]);
+
+          if (inserted.rowCount) {
+            evaluations.push({
+              requestId: row.request_id,
+              modelVersion: row.model_version,
+              horizonMinutes: match.horizonMinutes,
+              horizonBucket: match.horizonBucket,
+              error: match.error,
+              withinInterval: match.withinInterval
+            });
+          }
+        }
+      }
+
+      client.release();
+
+      logger.info('Lab result joined to forecasts', {
+        sampleId: lab.sampleId,
+        sampledAt: lab.sampledAt,
+        actualLSF: lab.lsf,
+        matchedSteps: evaluations.length
+      });
+
+      return evaluations;
+
+    } catch (error) {
+      logger.error('Failed to record lab result', {
+        error: (error as Error).message,
+        sampleId: lab.sampleId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * MAE, RMSE and bias against lab results per model version and horizon
+   */
+  async getForecastAccuracy(modelVersion?: string, days: number = 7): Promise<ForecastAccuracy[]> {
+    try {
+      const client = await this.pool.connect();
+
+      let query = `
+        SELECT
+          model_version,
+          horizon_bucket,
+          COUNT(*) AS samples,
+          AVG(ABS(error)) AS mae,
+          SQRT(AVG(error * error)) AS rmse,
+          AVG(error) AS bias,
+          AVG(CASE WHEN within_interval THEN 1 ELSE 0 END) AS interval_coverage
+        FROM forecast_evaluations
+        WHERE target_time >= NOW() - make_interval(days => $1)
+      `;
+      const params: (number | string)[] = [days];
+
+      if (modelVersion) {
+        query += ` AND model_version = $2`;
+        params.push(modelVersion);
+      }
+      query += ` GROUP BY model_version, horizon_bucket ORDER BY model_version, horizon_bucket`;
+
+      const result = await client.query(query, params);
+      client.release();
+
+      return result.rows.map(row => ({
+        modelVersion: row.model_version,
+        horizonMinutes: row.horizon_bucket,
+        samples: parseInt(row.samples),
+        mae: parseFloat(row.mae),
+        rmse: parseFloat(row.rmse),
+        bias: parseFloat(row.bias),
+        intervalCoverage: parseFloat(row.interval_coverage)
+      }));
+
+    } catch (error) {
+      logger.error('Failed to get forecast accuracy', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  async registerModelVersion(
+    entry: Pick<ModelVersionRecord, 'version' | 'backend' | 'parameters' | 'trainingMetadata' | 'notes' | 'registeredBy'>
+      & { status?: ModelStatus }
+  ): Promise<ModelVersionRecord | null> {
+    try {
+      const client = await this.pool.connect();
+
+      const result = await client.query(`
+        INSERT INTO model_versions (version, backend, parameters, training_metadata, status, notes, registered_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (version) DO NOTHING
+        RETURNING *
+      `, [
+        entry.version,
+        entry.backend,
+        JSON.stringify(entry.parameters),
+        JSON.stringify(entry.trainingMetadata),
+        entry.status || 'candidate',
+        entry.notes,
+        entry.registeredBy
+      ]);
+
+      client.release();
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      logger.info('Model version registered', {
+        version: entry.version,
+        backend: entry.backend,
+        status: result.rows[0].status
+      });
+      return this.mapModelVersionRow(result.rows[0]);
+
+    } catch (error) {
+      logger.error('Failed to register model version', {
+        error: (error as Error).message,
+        version: entry.version
+      });
+      throw error;
+    }
+  }
+
+  async getModelVersion(version: string): Promise<ModelVersionRecord | null> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query('SELECT * FROM model_versions WHERE version = $1', [version]);
+      client.release();
+
+      return result.rows.length > 0 ? this.mapModelVersionRow(result.rows[0]) : null;
+
+    } catch (error) {
+      logger.error('Failed to get model version', { error: (error as Error).message, version });
+      throw error;
+    }
+  }
+
+  async listModelVersions(): Promise<ModelVersionRecord[]> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query('SELECT * FROM model_versions ORDER BY created_at DESC');
+      client.release();
+
+      return result.rows.map(row => this.mapModelVersionRow(row));
+
+    } catch (error) {
+      logger.error('Failed to list model versions', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a non-active version between candidate, shadow and retired
+   */
+  async setModelStatus(version: string, status: Exclude<ModelStatus, 'active'>): Promise<ModelVersionRecord | null> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query(`
+        UPDATE model_versions SET status = $2
+        WHERE version = $1 AND status <> 'active'
+        RETURNING *
+      `, [version, status]);
+      client.release();
+
+      return result.rows.length > 0 ? this.mapModelVersionRow(result.rows[0]) : null;
+
+    } catch (error) {
+      logger.error('Failed to set model status', { error: (error as Error).message, version, status });
+      throw error;
+    }
+  }
+
+  /**
+   * Make a version active in one transaction; the outgoing version is retired
+   * and remembered as previous_version so it can be rolled back to
+   */
+  async activateModelVersion(
+    version: string,
+    promotedBy: string,
+    evaluation: Record<string, unknown> | null
+  ): Promise<ModelVersionRecord | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query(
+        `SELECT version FROM model_versions WHERE status = 'active' FOR UPDATE`
+      );
+      const previousVersion = current.rows[0]?.version ?? null;
+
+      await client.query(`UPDATE model_versions SET status = 'retired' WHERE status = 'active'`);
+      const result = await client.query(`
+        UPDATE model_versions
+        SET status = 'active',
+            previous_version = $2,
+            promoted_by = $3,
+            promoted_at = CURRENT_TIMESTAMP,
+            evaluation = COALESCE($4, evaluation)
+        WHERE version = $1
+        RETURNING *
+      `, [version, previousVersion, promotedBy, evaluation ? JSON.stringify(evaluation) : null]);
+
+      if (result.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      await client.query('COMMIT');
+
+      logger.info('Model version activated', { version, previousVersion, promotedBy });
+      return this.mapModelVersionRow(result.rows[0]);
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to activate model version', { error: (error as Error).message, version });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getProposals(
+    filters: { status?: ProposalStatus; proposalType?: string } = {},
+    limit: number = 100
+  ): Promise<ProposalLifecycleRecord[]> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query(`
+        SELECT * FROM proposals
+        WHERE ($1::text IS NULL OR status = $1)
+          AND ($2::text IS NULL OR proposal_type = $2)
+        ORDER BY created_at DESC
+        LIMIT $3
+      `, [filters.status ?? null, filters.proposalType ?? null, limit]);
+      client.release();
+
+      return result.rows.map(row => this.mapProposalLifecycleRow(row));
+
+    } catch (error) {
+      logger.error('Failed to get proposals', { error: (error as Error).message, ...filters });
+      throw error;
+    }
+  }
+
+  /**
+   * Close open proposals; all of them, or only those past their expiry when onlyPastExpiry is set
+   */
+  async expireProposals(reason: string, onlyPastExpiry: boolean, proposalType: string = 'stability'): Promise<string[]> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query(`
+        UPDATE proposals
+        SET status = 'expired', status_reason = $1, status_changed_at = CURRENT_TIMESTAMP
+        WHERE status = 'open' AND proposal_type = $2
+          AND (NOT $3 OR expires_at < CURRENT_TIMESTAMP)
+        RETURNING proposal_id
+      `, [reason, proposalType, onlyPastExpiry]);
+      client.release();
+
+      const expired = result.rows.map(row => row.proposal_id);
+      if (expired.length > 0) {
+        logger.info('Proposals expired', { proposalIds: expired, reason });
+      }
+      return expired;
+
+    } catch (error) {
+      logger.error('Failed to expire proposals', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Expire one open proposal, e.g. when it never reached Master Control
+   */
+  async withdrawProposal(proposalId: string, reason: string): Promise<void> {
+    try {
+      const client = await this.pool.connect();
+      await client.query(`
+        UPDATE proposals
+        SET status = 'expired', status_reason = $2, status_changed_at = CURRENT_TIMESTAMP
+        WHERE proposal_id = $1 AND status = 'open'
+      `, [proposalId, reason]);
+      client.release();
+
+      logger.info('Proposal withdrawn', { proposalId, reason });
+
+    } catch (error) {
+      logger.error('Failed to withdraw proposal', { error: (error as Error).message, proposalId });
+      throw error;
+    }
+  }
+
+  /**
+   * Raise the deviation; true only for the call that raised it
+   */
+  async raiseDeviation(proposalType: string = 'stability'): Promise<boolean> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query(`
+        INSERT INTO deviation_state (proposal_type, active) VALUES ($1, TRUE)
+        ON CONFLICT (proposal_type) DO UPDATE SET active = TRUE, changed_at = CURRENT_TIMESTAMP
+        WHERE NOT deviation_state.active
+      `, [proposalType]);
+      client.release();
+
+      return (result.rowCount ?? 0) > 0;
+
+    } catch (error) {
+      logger.error('Failed to raise deviation', { error: (error as Error).message, proposalType });
+      throw error;
+    }
+  }
+
+  async isDeviationActive(proposalType: string = 'stability'): Promise<boolean> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query('SELECT active FROM deviation_state WHERE proposal_type = $1', [proposalType]);
+      client.release();
+
+      return result.rows[0]?.active === true;
+
+    } catch (error) {
+      logger.error('Failed to get deviation state', { error: (error as Error).message, proposalType });
+      throw error;
+    }
+  }
+
+  /**
+   * Clear the deviation and expire its open proposals in one transaction; false when
+   * it was not raised, e.g. another instance cleared it first
+   */
+  async clearDeviation(reason: string, proposalType: string = 'stability'): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const cleared = await client.query(`
+        UPDATE deviation_state SET active = FALSE, changed_at = CURRENT_TIMESTAMP
+        WHERE proposal_type = $1 AND active
+      `, [proposalType]);
+      if (cleared.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      const expired = await client.query(`
+        UPDATE proposals
+        SET status = 'expired', status_reason = $1, status_changed_at = CURRENT_TIMESTAMP
+        WHERE status = 'open' AND proposal_type = $2
+        RETURNING proposal_id
+      `, [reason, proposalType]);
+
+      await client.query('COMMIT');
+
+      logger.info('Deviation cleared', { proposalType, expiredProposals: expired.rows.map(row => row.proposal_id) });
+      return true;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Failed to clear deviation', { error: (error as Error).message, proposalType });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record that Master Control executed a proposal; a superseded one may still have been acted on
+   */
+  async markProposalExecuted(proposalId: string, executedAt: Date): Promise<ProposalLifecycleRecord | null> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query(`
+        UPDATE proposals
+        SET status = 'executed', executed_at = $2, status_reason = NULL, status_changed_at = CURRENT_TIMESTAMP
+        WHERE proposal_id = $1 AND status IN ('open', 'superseded', 'expired')
+        RETURNING *
+      `, [proposalId, executedAt]);
+      client.release();
+
+      return result.rows.length > 0 ? this.mapProposalLifecycleRow(result.rows[0]) : null;
+
+    } catch (error) {
+      logger.error('Failed to mark proposal executed', { error: (error as Error).message, proposalId });
+      throw error;
+    }
+  }
+
+  /**
+   * Latest execution time per control variable since a point in time
+   */
+  async getRecentExecutions(since: Date): Promise<Record<string, Date>> {
+    try {
+      const client = await this.pool.connect();
+      const result = await client.query(`
+        SELECT variable, MAX(executed_at) AS executed_at
+        FROM proposals, unnest(control_variables) AS variable
+        WHERE status = 'executed' AND executed_at >= $1
+        GROUP BY variable
+      `, [since]);
+      client.release();
+
+      return Object.fromEntries(result.rows.map(row => [row.variable, new Date(row.executed_at)]));
+
+    } catch (error) {
+      logger.error('Failed to get recent executions', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private mapProposalLifecycleRow(row: QueryResultRow): ProposalLifecycleRecord {
+    return {
+      proposalId: row.proposal_id,
+      proposalType: row.proposal_type,
+      urgency: row.urgency,
+      status: row.status,
+      deviationKey: row.deviation_key,
+      // DECIMAL columns come back as strings
+      deviationMagnitude: row.deviation_magnitude !== null ? Number(row.deviation_magnitude) : null,
+      controlVariables: row.control_variables || [],
+      supersededBy: row.superseded_by,
+      statusReason: row.status_reason,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      executedAt: row.executed_at
+    };
+  }
+
+  private mapModelVersionRow(row: QueryResultRow): ModelVersionRecord {
+    return {
+      version: row.version,
+      backend: row.backend,
+      parameters: row.parameters,
+      trainingMetadata: row.training_metadata,
+      evaluation: row.evaluation,
+      status: row.status,
+      previousVersion: row.previous_version,
+      notes: row.notes,
+      registeredBy: row.registered_by,
+      promotedBy: row.promoted_by,
+      promotedAt: row.promoted_at,
+      createdAt: row.created_at
+    };
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
     logger.info('AlloyDB connection pool closed');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * SQL expression mapping a lead time to its reporting horizon
+ */
+/**
+ * Forecast steps of one prediction whose target time falls on a lab sample
+ * Matching stays inside half the step so a sample never lands on two neighbouring steps
+ */
+export function matchLabResult(
+  forecast: { forecastOrigin: string | Date; stepMinutes?: number; intervals: ForecastStep[] },
+  lab: LabAnalysisRecord
+): ForecastStepMatch[] {
+  const origin = new Date(forecast.forecastOrigin).getTime();
+  const sampledAt = new Date(lab.sampledAt).getTime();
+  const halfStepMs = (forecast.stepMinutes ?? Infinity) / 2 * 60000;
+
+  return forecast.intervals
+    .filter(step => {
+      const distanceMs = Math.abs(origin + step.minutesAhead * 60000 - sampledAt);
+      return distanceMs <= LAB_MATCH_TOLERANCE_MINUTES * 60000 && distanceMs < halfStepMs;
+    })
+    .map(step => ({
+      horizonMinutes: step.minutesAhead,
+      horizonBucket: horizonBucket(step.minutesAhead),
+      predictedLSF: step.p50,
+      p10: step.p10,
+      p90: step.p90,
+      error: step.p50 - lab.lsf,
+      withinInterval: lab.lsf >= step.p10 && lab.lsf <= step.p90
+    }));
+}
+
+/**
+ * Smallest reporting horizon covering a lead time; lead times past the largest keep their own
+ */
+export function horizonBucket(minutesAhead: number): number {
+  return ACCURACY_HORIZON_BUCKETS_MINUTES.find(bucket => minutesAhead <= bucket) ?? Math.ceil(minutesAhead);
+}
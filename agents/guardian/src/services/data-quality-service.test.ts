@@ -0,0 +1,112 @@
+import { DataQualityService, applyDataQuality } from './data-quality-service';
+import type { LSFPrediction, SensorDataPoint } from './lsf-forecaster';
+import { DATA_QUALITY_CONFIG } from '../config/constants';
+
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+const at = (minute: number) => new Date(T0 + minute * 60000).toISOString();
+
+// One reading a minute; LSF cycles 100.0, 100.1, 100.2 so nothing looks stuck
+function series(points: number = 12): SensorDataPoint[] {
+  return Array.from({ length: points }, (_, i) => ({
+    timestamp: at(i),
+    lsf: 100 + 0.1 * (i % 3),
+    kiln_speed: 3.5 + 0.01 * (i % 2)
+  }));
+}
+
+// Just after the newest reading of series()
+const now = T0 + 11.5 * 60000;
+
+describe('DataQualityService', () => {
+  const service = new DataQualityService({ ...DATA_QUALITY_CONFIG, mode: 'impute' });
+
+  it('scores clean data 1 and passes every point through', () => {
+    const { sensorData, report } = service.assess(series(), now);
+
+    expect(report).toMatchObject({ score: 1, accepted: true, reason: null, usablePoints: 12, issues: [] });
+    expect(sensorData).toHaveLength(12);
+    expect(service.allowsProposal(report)).toBe(true);
+  });
+
+  it('repairs a spike from its neighbours in impute mode', () => {
+    const data = series();
+    data[6].lsf = 110;
+
+    const { sensorData, report } = service.assess(data, now);
+
+    expect(report.issues.map(i => [i.type, i.sensor])).toEqual([['spike', 'lsf']]);
+    expect(report.imputedValues).toBe(1);
+    expect(report.accepted).toBe(true);
+    expect(sensorData[6].lsf).toBeCloseTo(100.15, 6);
+  });
+
+  it('drops readings outside physical limits in reject mode', () => {
+    const rejecting = new DataQualityService({ ...DATA_QUALITY_CONFIG, mode: 'reject' });
+    const data = series();
+    data[6].lsf = 150;
+
+    const { sensorData, report } = rejecting.assess(data, now);
+
+    expect(report.issues.map(i => i.type)).toEqual(['impossible_value']);
+    expect(report).toMatchObject({ rejectedValues: 1, usablePoints: 11 });
+    expect(sensorData.map(p => p.timestamp)).not.toContain(at(6));
+  });
+
+  it('drops unusable timestamps, re-sorts late readings and keeps the last copy of a repeated one', () => {
+    const data = series();
+    [data[3], data[4]] = [data[4], data[3]];
+    data.push(
+      { timestamp: at(11), lsf: 100.3 },
+      { timestamp: 'not a time', lsf: 100 },
+      { timestamp: at(20), lsf: 100 }
+    );
+
+    const { sensorData, report } = service.assess(data, now);
+
+    expect(report.issues.map(i => i.type)).toEqual([
+      'invalid_timestamp',
+      'future_timestamp',
+      'out_of_order',
+      'duplicate_timestamp'
+    ]);
+    expect(sensorData.map(p => p.timestamp)).toEqual(series().map(p => p.timestamp));
+    expect(sensorData[11].lsf).toBe(100.3);
+  });
+
+  it('refuses a forecast on a stuck LSF analyser', () => {
+    const data = series();
+    for (let i = 2; i < 10; i++) data[i].lsf = 100.5;
+
+    const { report } = service.assess(data, now);
+
+    expect(report.issues).toEqual([expect.objectContaining({ type: 'flatline', sensor: 'lsf', count: 8 })]);
+    expect(report).toMatchObject({ score: 0.4, accepted: false, reason: 'Data-quality score 0.4 is below 0.5' });
+  });
+
+  it('flags stale data and too few usable readings', () => {
+    const stale = service.assess(series(), T0 + 31 * 60000).report;
+    expect(stale.issues).toEqual([expect.objectContaining({ type: 'stale', detail: 'Newest reading is 20.0 minutes old' })]);
+
+    const short = service.assess(series(2), T0 + 60000).report;
+    expect(short).toMatchObject({ accepted: false, reason: 'Only 2 usable LSF readings; at least 3 are required' });
+  });
+
+  it('holds back proposals on accepted data below the proposal score', () => {
+    const { report } = service.assess(series(), now);
+
+    expect(service.allowsProposal({ ...report, score: 0.75 })).toBe(false);
+    expect(service.allowsProposal({ ...report, accepted: false })).toBe(false);
+  });
+});
+
+describe('applyDataQuality', () => {
+  it('scales the confidence by the score and attaches the report', () => {
+    const { report } = new DataQualityService().assess(series(), now);
+    const prediction = { predictedLSF: 100.2, confidence: 0.9 } as unknown as LSFPrediction;
+
+    const scored = applyDataQuality(prediction, { ...report, score: 0.5 });
+
+    expect(scored.confidence).toBeCloseTo(0.45, 6);
+    expect(scored.dataQuality?.score).toBe(0.5);
+  });
+});
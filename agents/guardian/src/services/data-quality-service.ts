@@ -0,0 +1,371 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import {
+  DATA_QUALITY_CONFIG,
+  SENSOR_PHYSICAL_LIMITS,
+  DataQualityMode
+} from '../config/constants';
+import type { LSFPrediction, SensorDataPoint } from './lsf-forecaster';
+
+export type DataQualityIssueType =
+  | 'invalid_timestamp'
+  | 'future_timestamp'
+  | 'out_of_order'
+  | 'duplicate_timestamp'
+  | 'impossible_value'
+  | 'spike'
+  | 'flatline'
+  | 'gap'
+  | 'stale';
+
+export interface DataQualityIssue {
+  type: DataQualityIssueType;
+  sensor?: string;
+  count: number;
+  severity: 'low' | 'medium' | 'high';
+  detail: string;
+  // Share of the score this issue takes away
+  penalty: number;
+}
+
+export interface DataQualityReport {
+  // 1 is clean data; predictions scale their confidence by it
+  score: number;
+  accepted: boolean;
+  reason: string | null;
+  mode: DataQualityMode;
+  inputPoints: number;
+  usablePoints: number;
+  imputedValues: number;
+  rejectedValues: number;
+  issues: DataQualityIssue[];
+}
+
+export interface DataQualityResult {
+  sensorData: SensorDataPoint[];
+  report: DataQualityReport;
+}
+
+const SENSOR_FIELDS = Object.keys(SENSOR_PHYSICAL_LIMITS) as (keyof SensorDataPoint)[];
+
+// A reading as it arrived, before any field is trusted
+type RawReading = Partial<Record<keyof SensorDataPoint, unknown>>;
+
+// A point whose sensor fields are being repaired or cleared
+type RepairablePoint = Record<keyof SensorDataPoint, number | string | undefined>;
+
+// Scale of the median absolute deviation to a normal standard deviation
+const MAD_SCALE = 1.4826;
+
+/**
+ * Sensor Data-Quality Gate for Guardian Agent
+ * Checks timestamps, physical limits, spikes, flatlines, gaps and staleness before a
+ * forecast, repairs or drops bad readings per DATA_QUALITY_MODE, and scores what is left
+ */
+export class DataQualityService {
+  private config: typeof DATA_QUALITY_CONFIG;
+
+  constructor(config: typeof DATA_QUALITY_CONFIG = DATA_QUALITY_CONFIG) {
+    this.config = config;
+  }
+
+  assess(data: unknown[], now: number = Date.now()): DataQualityResult {
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('assess_data_quality');
+
+    try {
+      const issues: DataQualityIssue[] = [];
+      const inputPoints = data.length;
+
+      const timed = this.checkTimestamps(data, now, issues);
+      const points: SensorDataPoint[] = timed.map(({ point, time }) => {
+        const cleaned: Partial<RepairablePoint> = { timestamp: new Date(time).toISOString() };
+        for (const field of SENSOR_FIELDS) {
+          if (point[field] !== undefined && point[field] !== null) {
+            cleaned[field] = Number(point[field]);
+          }
+        }
+        return cleaned as SensorDataPoint;
+      });
+      const times = timed.map(t => t.time);
+
+      let imputedValues = 0;
+      let rejectedValues = 0;
+      for (const field of SENSOR_FIELDS) {
+        const bad = this.findBadReadings(points, field, issues);
+        for (const index of bad) {
+          if (this.config.mode === 'impute') {
+            const estimate = interpolate(points, times, field, index, bad);
+            (points[index] as RepairablePoint)[field] = estimate;
+            if (estimate !== undefined) imputedValues++;
+            else rejectedValues++;
+          } else {
+            (points[index] as RepairablePoint)[field] = undefined;
+            rejectedValues++;
+          }
+        }
+      }
+
+      // Points whose LSF reading could not be kept are of no use to a forecaster
+      const sensorData = points.filter(p => p.lsf !== undefined && Number.isFinite(p.lsf));
+      const usableTimes = times.filter((_, i) => points[i].lsf !== undefined && Number.isFinite(points[i].lsf));
+
+      for (const field of SENSOR_FIELDS) {
+        this.checkFlatline(sensorData, field, issues);
+      }
+      this.checkGaps(usableTimes, issues);
+      if (usableTimes.length > 0) {
+        const ageMinutes = (now - usableTimes[usableTimes.length - 1]) / 60000;
+        if (ageMinutes > this.config.maxStalenessMinutes) {
+          issues.push(issue('stale', 1, 0.6, `Newest reading is ${ageMinutes.toFixed(1)} minutes old`));
+        }
+      }
+
+      const score = round(issues.reduce((product, i) => product * (1 - i.penalty), 1));
+      let reason: string | null = null;
+      if (sensorData.length < this.config.minUsablePoints) {
+        reason = `Only ${sensorData.length} usable LSF readings; at least ${this.config.minUsablePoints} are required`;
+      } else if (score < this.config.minScore) {
+        reason = `Data-quality score ${score} is below ${this.config.minScore}`;
+      }
+
+      const report: DataQualityReport = {
+        score,
+        accepted: reason === null,
+        reason,
+        mode: this.config.mode,
+        inputPoints,
+        usablePoints: sensorData.length,
+        imputedValues,
+        rejectedValues,
+        issues
+      };
+
+      span.setAttributes({
+        'data_quality.score': score,
+        'data_quality.accepted': report.accepted,
+        'data_quality.issues': issues.length,
+        'data_quality.input_points': inputPoints
+      });
+
+      if (issues.length > 0) {
+        logger.warn('Sensor data-quality issues found', {
+          score,
+          accepted: report.accepted,
+          issues: issues.map(i => `${i.type}${i.sensor ? `:${i.sensor}` : ''} x${i.count}`)
+        });
+      }
+
+      return { sensorData, report };
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Whether data of this quality may drive a stability proposal
+   */
+  allowsProposal(report: DataQualityReport): boolean {
+    return report.accepted && report.score >= this.config.proposalMinScore;
+  }
+
+  /**
+   * Drop unreadable and future timestamps, then sort and de-duplicate; the last copy of a timestamp wins
+   */
+  private checkTimestamps(data: unknown[], now: number, issues: DataQualityIssue[]): { point: RawReading; time: number }[] {
+    let invalid = 0;
+    let future = 0;
+    let outOfOrder = 0;
+    const timed: { point: RawReading; time: number }[] = [];
+
+    for (const entry of data) {
+      const point = (entry ?? {}) as RawReading;
+      const time = Date.parse(String(point.timestamp));
+      if (!Number.isFinite(time)) {
+        invalid++;
+      } else if (time > now + this.config.maxFutureSkewSeconds * 1000) {
+        future++;
+      } else {
+        if (timed.length > 0 && time < timed[timed.length - 1].time) outOfOrder++;
+        timed.push({ point, time });
+      }
+    }
+
+    const fraction = (count: number) => count / Math.max(1, data.length);
+    if (invalid > 0) {
+      issues.push(issue('invalid_timestamp', invalid, 0.5 * fraction(invalid), `${invalid} readings without a usable timestamp were dropped`));
+    }
+    if (future > 0) {
+      issues.push(issue('future_timestamp', future, 0.5 * fraction(future), `${future} readings stamped in the future were dropped`));
+    }
+    if (outOfOrder > 0) {
+      issues.push(issue('out_of_order', outOfOrder, 0.05, `${outOfOrder} readings arrived out of order and were re-sorted`));
+    }
+
+    // Stable sort keeps arrival order within a timestamp
+    timed.sort((a, b) => a.time - b.time);
+    const unique = timed.filter((t, i) => i === timed.length - 1 || timed[i + 1].time !== t.time);
+    const duplicates = timed.length - unique.length;
+    if (duplicates > 0) {
+      issues.push(issue('duplicate_timestamp', duplicates, 0.05, `${duplicates} repeated timestamps were collapsed to the latest reading`));
+    }
+
+    return unique;
+  }
+
+  /**
+   * Indexes of impossible readings and, among the rest, spikes by a Hampel filter
+   */
+  private findBadReadings(points: SensorDataPoint[], field: keyof SensorDataPoint, issues: DataQualityIssue[]): number[] {
+    const limits = SENSOR_PHYSICAL_LIMITS[field];
+    const weight = field === 'lsf' ? 2 : 1;
+    const present = points.map((p, i) => i).filter(i => points[i][field] !== undefined);
+    if (present.length === 0) {
+      return [];
+    }
+
+    const impossible = present.filter(i => {
+      const value = points[i][field] as number;
+      return !Number.isFinite(value) || value < limits.min || value > limits.max;
+    });
+    if (impossible.length > 0) {
+      issues.push(issue(
+        'impossible_value',
+        impossible.length,
+        weight * (0.05 + 0.25 * impossible.length / present.length),
+        `${impossible.length} readings outside [${limits.min}, ${limits.max}]`,
+        field
+      ));
+    }
+
+    const valid = present.filter(i => !impossible.includes(i));
+    const values = valid.map(i => points[i][field] as number);
+    const residuals = values.map((value, k) => {
+      const window = [
+        ...values.slice(Math.max(0, k - this.config.spikeWindow), k),
+        ...values.slice(k + 1, k + 1 + this.config.spikeWindow)
+      ];
+      return window.length > 0 ? value - median(window) : 0;
+    });
+    const scale = Math.max(MAD_SCALE * median(residuals.map(Math.abs)), limits.minSpike / this.config.spikeThreshold);
+    const spikes = valid.filter((_, k) => Math.abs(residuals[k]) > this.config.spikeThreshold * scale);
+    if (spikes.length > 0) {
+      issues.push(issue(
+        'spike',
+        spikes.length,
+        weight * (0.02 + 0.15 * spikes.length / present.length),
+        `${spikes.length} readings jump more than ${(this.config.spikeThreshold * scale).toFixed(2)} from their neighbours`,
+        field
+      ));
+    }
+
+    return [...impossible, ...spikes];
+  }
+
+  /**
+   * A stuck analyser repeats its last value; the LSF forecast cannot be trusted on one
+   */
+  private checkFlatline(points: SensorDataPoint[], field: keyof SensorDataPoint, issues: DataQualityIssue[]): void {
+    let longest = 1;
+    let run = 1;
+    for (let i = 1; i < points.length; i++) {
+      const value = points[i][field];
+      run = value !== undefined && value === points[i - 1][field] ? run + 1 : 1;
+      longest = Math.max(longest, run);
+    }
+    if (longest >= this.config.flatlineMinPoints) {
+      issues.push(issue(
+        'flatline',
+        longest,
+        field === 'lsf' ? 0.6 : 0.15,
+        `${longest} identical consecutive readings`,
+        field
+      ));
+    }
+  }
+
+  private checkGaps(times: number[], issues: DataQualityIssue[]): void {
+    const spacing = times.slice(1).map((t, i) => t - times[i]);
+    if (spacing.length < 2) {
+      return;
+    }
+    const threshold = this.config.gapFactor * median(spacing);
+    const gaps = spacing.filter(s => s > threshold);
+    if (gaps.length > 0) {
+      issues.push(issue(
+        'gap',
+        gaps.length,
+        Math.min(0.3, 0.1 * gaps.length),
+        `${gaps.length} gaps, the longest ${(Math.max(...gaps) / 60000).toFixed(1)} minutes`
+      ));
+    }
+  }
+}
+
+/**
+ * Scale a prediction's confidence by the quality of the data behind it and attach the report
+ */
+export function applyDataQuality(prediction: LSFPrediction, report: DataQualityReport): LSFPrediction {
+  return {
+    ...prediction,
+    confidence: prediction.confidence * report.score,
+    dataQuality: report
+  };
+}
+
+/**
+ * Linear interpolation in time between the nearest good readings; the nearest one at the edges
+ */
+function interpolate(
+  points: SensorDataPoint[],
+  times: number[],
+  field: keyof SensorDataPoint,
+  index: number,
+  bad: number[]
+): number | undefined {
+  const good = (i: number) => points[i][field] !== undefined && !bad.includes(i);
+  let before = index - 1;
+  while (before >= 0 && !good(before)) before--;
+  let after = index + 1;
+  while (after < points.length && !good(after)) after++;
+
+  const beforeValue = before >= 0 ? points[before][field] as number : undefined;
+  const afterValue = after < points.length ? points[after][field] as number : undefined;
+  if (beforeValue !== undefined && afterValue !== undefined) {
+    const fraction = (times[index] - times[before]) / (times[after] - times[before]);
+    return beforeValue + fraction * (afterValue - beforeValue);
+  }
+  return beforeValue ?? afterValue;
+}
+
+function issue(
+  type: DataQualityIssueType,
+  count: number,
+  penalty: number,
+  detail: string,
+  sensor?: string
+): DataQualityIssue {
+  const capped = Math.min(0.9, round(penalty));
+  return {
+    type,
+    ...(sensor ? { sensor } : {}),
+    count,
+    severity: capped >= 0.3 ? 'high' : capped >= 0.1 ? 'medium' : 'low',
+    detail,
+    penalty: capped
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
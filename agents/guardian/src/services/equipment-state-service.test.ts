@@ -0,0 +1,80 @@
+import { EquipmentStateService } from './equipment-state-service';
+
+const at = (minute: number) => new Date(Date.parse('2026-01-01T00:00:00Z') + minute * 60000).toISOString();
+
+describe('EquipmentStateService', () => {
+  let service: EquipmentStateService;
+
+  beforeEach(() => {
+    service = new EquipmentStateService();
+  });
+
+  const stateOf = (equipment: string) => service.getStates().find(s => s.equipment === equipment);
+
+  it('starts every monitored unit unknown and lets proposals through', () => {
+    expect(service.getStates().map(s => s.state)).toEqual(['unknown', 'unknown', 'unknown']);
+    expect(service.proposalPolicy()).toMatchObject({ suppressed: false, reason: null, unavailable: {}, maxSteps: {} });
+  });
+
+  it('maps DCS status vocabulary onto the state model', async () => {
+    await service.update({ equipment: 'Kiln', status: 'START_UP', timestamp: at(0) });
+    await service.update({ equipment: 'preheater', status: 'Interlock', timestamp: at(0) });
+    await service.update({ equipment: 'mill', status: 'planned stop', timestamp: at(0) });
+
+    expect(service.getStates().map(s => [s.equipment, s.state, s.reportedStatus])).toEqual([
+      ['kiln', 'starting', 'START_UP'],
+      ['preheater', 'tripped', 'Interlock'],
+      ['mill', 'maintenance', 'planned stop']
+    ]);
+  });
+
+  it('ignores unmonitored equipment, unrecognised statuses and out-of-date messages', async () => {
+    await service.update({ equipment: 'kiln', status: 'running', timestamp: at(10) });
+    await service.update({ equipment: 'cooler', status: 'tripped', timestamp: at(11) });
+    await service.update({ equipment: 'kiln', status: 'exploded', timestamp: at(11) });
+    await service.update({ equipment: 'kiln', status: 'tripped', timestamp: at(5) });
+
+    expect(service.getStates().map(s => s.equipment)).not.toContain('cooler');
+    expect(stateOf('kiln')).toMatchObject({ state: 'running', since: at(10) });
+  });
+
+  it('keeps the time a state was entered across repeated reports', async () => {
+    await service.update({ equipment: 'kiln', status: 'running', timestamp: at(0) });
+    await service.update({ equipment: 'kiln', status: 'run', timestamp: at(5) });
+
+    expect(stateOf('kiln')?.since).toBe(at(0));
+  });
+
+  it('caps steps on the kiln variables during start-up', async () => {
+    await service.update({ equipment: 'kiln', status: 'starting', timestamp: at(0) });
+
+    expect(service.proposalPolicy()).toMatchObject({
+      suppressed: false,
+      unavailable: {},
+      maxSteps: { kiln_speed: 1, fuel_flow: 1, feed_rate: 1 }
+    });
+  });
+
+  it('suppresses proposals and names the variables that cannot move while equipment is down', async () => {
+    await service.update({ equipment: 'kiln', status: 'tripped', reason: 'ID fan trip', timestamp: at(0) });
+    await service.update({ equipment: 'preheater', status: 'maintenance', timestamp: at(0) });
+
+    const policy = service.proposalPolicy();
+
+    expect(policy).toMatchObject({ suppressed: true, reason: 'kiln is tripped, preheater is in maintenance' });
+    expect(policy.unavailable).toEqual({
+      kiln_speed: 'kiln is tripped (ID fan trip)',
+      fuel_flow: 'kiln is tripped (ID fan trip)',
+      feed_rate: 'kiln is tripped (ID fan trip)',
+      preheater_temp: 'preheater is in maintenance'
+    });
+    expect(service.unavailableReason('kiln_speed')).toBe('kiln is tripped (ID fan trip)');
+  });
+
+  it('suppresses proposals during a controlled stop without locking the actuators', async () => {
+    await service.update({ equipment: 'kiln', status: 'shutting down', timestamp: at(0) });
+
+    expect(service.proposalPolicy()).toMatchObject({ suppressed: true, reason: 'kiln is stopping', unavailable: {} });
+    expect(service.unavailableReason('fuel_flow')).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { logger } from '../utils/logger';
+import {
+  MONITORED_EQUIPMENT,
+  CONTROL_VARIABLE_EQUIPMENT,
+  EQUIPMENT_STATE_POLICY,
+  EquipmentState
+} from '../config/constants';
+import type { ActionConstraints } from './action-optimizer';
+
+// An equipment-status message as the plant publishes it
+export interface EquipmentStatusMessage {
+  equipment?: string;
+  status?: string;
+  reason?: string;
+  message?: string;
+  timestamp?: string;
+}
+
+export interface EquipmentStatus {
+  equipment: string;
+  state: EquipmentState;
+  // Status as reported, before normalization
+  reportedStatus: string | null;
+  reason: string | null;
+  since: string | null;
+}
+
+export interface ProposalPolicy extends ActionConstraints {
+  suppressed: boolean;
+  reason: string | null;
+  equipment: EquipmentStatus[];
+}
+
+// Vocabulary seen from DCS gateways, mapped onto the state model
+const STATUS_ALIASES: Record<string, EquipmentState> = {
+  running: 'running',
+  run: 'running',
+  on: 'running',
+  normal: 'running',
+  starting: 'starting',
+  startup: 'starting',
+  'start-up': 'starting',
+  heating: 'starting',
+  stopping: 'stopping',
+  shutdown: 'stopping',
+  'shutting-down': 'stopping',
+  stopped: 'stopped',
+  off: 'stopped',
+  idle: 'stopped',
+  tripped: 'tripped',
+  trip: 'tripped',
+  fault: 'tripped',
+  interlock: 'tripped',
+  maintenance: 'maintenance',
+  maint: 'maintenance',
+  'planned-stop': 'maintenance'
+};
+
+/**
+ * Equipment State Model for Guardian Agent
+ * Tracks kiln, preheater and mill state from the equipment-status stream and turns
+ * it into the constraints stability proposals must respect
+ */
+export class EquipmentStateService {
+  private states: Map<string, EquipmentStatus> = new Map();
+
+  constructor() {
+    for (const equipment of MONITORED_EQUIPMENT) {
+      this.states.set(equipment, { equipment, state: 'unknown', reportedStatus: null, reason: null, since: null });
+    }
+  }
+
+  /**
+   * Apply an equipment-status message; older messages than the current state are ignored
+   */
+  async update(data: EquipmentStatusMessage): Promise<void> {
+    const equipment = String(data?.equipment || '').toLowerCase();
+    const current = this.states.get(equipment);
+    if (!current) {
+      logger.warn('Status for unmonitored equipment ignored', { equipment: data?.equipment });
+      return;
+    }
+
+    const reportedStatus = String(data.status || '').toLowerCase().replace(/[_\s]+/g, '-');
+    const state = STATUS_ALIASES[reportedStatus] ?? STATUS_ALIASES[reportedStatus.replace(/-/g, '')];
+    if (!state) {
+      logger.warn('Unrecognized equipment status ignored', { equipment, status: data.status });
+      return;
+    }
+
+    const parsedTime = Date.parse(data.timestamp ?? '');
+    const since = Number.isFinite(parsedTime) ? new Date(parsedTime).toISOString() : new Date().toISOString();
+    if (current.since && Date.parse(since) < Date.parse(current.since)) {
+      logger.info('Out-of-date equipment status ignored', { equipment, status: data.status, since });
+      return;
+    }
+
+    this.states.set(equipment, {
+      equipment,
+      state,
+      reportedStatus: data.status ?? null,
+      reason: data.reason || data.message || null,
+      since: current.state === state && current.since ? current.since : since
+    });
+
+    if (current.state !== state) {
+      logger.info('Equipment state changed', { equipment, from: current.state, to: state, reason: data.reason });
+    }
+  }
+
+  getStates(): EquipmentStatus[] {
+    return [...this.states.values()];
+  }
+
+  /**
+   * Why a control variable cannot be moved now, or null when its actuator is available
+   */
+  unavailableReason(controlVariable: string): string | null {
+    const status = this.statusFor(controlVariable);
+    if (status && !EQUIPMENT_STATE_POLICY[status.state].actuatorsAvailable) {
+      return `${describe(status)}${status.reason ? ` (${status.reason})` : ''}`;
+    }
+    return null;
+  }
+
+  /**
+   * Constraints on the next stability proposal: suppressed outright during shutdown, stops
+   * and maintenance of actuator-carrying equipment, step-limited during start-up
+   */
+  proposalPolicy(): ProposalPolicy {
+    const unavailable: Record<string, string> = {};
+    const maxSteps: Record<string, number> = {};
+    const suppressing: string[] = [];
+
+    for (const [controlVariable, equipment] of Object.entries(CONTROL_VARIABLE_EQUIPMENT)) {
+      const status = this.states.get(equipment);
+      if (!status) continue;
+      const policy = EQUIPMENT_STATE_POLICY[status.state];
+
+      const reason = this.unavailableReason(controlVariable);
+      if (reason) {
+        unavailable[controlVariable] = reason;
+      }
+      if (policy.proposals === 'restricted' && policy.maxSteps !== undefined) {
+        maxSteps[controlVariable] = policy.maxSteps;
+      }
+      if (policy.proposals === 'suppressed' && !suppressing.includes(describe(status))) {
+        suppressing.push(describe(status));
+      }
+    }
+
+    return {
+      suppressed: suppressing.length > 0,
+      reason: suppressing.length > 0 ? suppressing.join(', ') : null,
+      unavailable,
+      maxSteps,
+      equipment: this.getStates()
+    };
+  }
+
+  private statusFor(controlVariable: string): EquipmentStatus | undefined {
+    const equipment = CONTROL_VARIABLE_EQUIPMENT[controlVariable];
+    return equipment ? this.states.get(equipment) : undefined;
+  }
+}
+
+function describe(status: EquipmentStatus): string {
+  return `${status.equipment} is ${status.state === 'maintenance' ? 'in maintenance' : status.state}`;
+}
@@ -0,0 +1,40 @@
+import { logger } from '../utils/logger';
+import { ForecastBackend } from '../config/constants';
+import { LSFForecaster } from './lsf-forecaster';
+import { KalmanLSFForecaster, KalmanForecasterConfig } from './kalman-forecaster';
+import { NaiveLSFForecaster } from './naive-forecaster';
+import { VertexAIForecastingService } from './vertex-ai-service';
+
+// Backend-specific: Kalman tuning overrides, naive { window }, vertex { modelEndpoint }
+export type ForecasterParameters = Partial<KalmanForecasterConfig> & { window?: number; modelEndpoint?: string };
+
+export interface ForecasterOptions {
+  modelVersion?: string;
+  parameters?: ForecasterParameters;
+}
+
+/**
+ * Build an LSF forecaster for a backend
+ * Sites without a Vertex AI endpoint run the offline Kalman model
+ */
+export function createLSFForecaster(
+  backend: ForecastBackend,
+  vertexService: VertexAIForecastingService,
+  options: ForecasterOptions = {}
+): LSFForecaster {
+  const parameters = options.parameters || {};
+
+  switch (backend) {
+    case 'vertex':
+      return options.modelVersion
+        ? vertexService.forEndpoint(parameters.modelEndpoint, options.modelVersion)
+        : vertexService;
+    case 'naive':
+      return new NaiveLSFForecaster(parameters.window, options.modelVersion);
+    case 'kalman':
+      return new KalmanLSFForecaster({ modelVersion: options.modelVersion, config: parameters });
+    default:
+      logger.warn('Unknown LSF forecast backend, using kalman', { backend });
+      return new KalmanLSFForecaster({ modelVersion: options.modelVersion });
+  }
+}
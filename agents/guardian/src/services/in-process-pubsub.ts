@@ -0,0 +1,227 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+
+export interface PubSubMessage {
+  id: string;
+  data: Buffer;
+  attributes: Record<string, string>;
+  deliveryAttempt: number;
+  ack(): void;
+  nack(): void;
+}
+
+export interface PubSubSubscription {
+  exists(): Promise<[boolean]>;
+  on(event: 'message', listener: (message: PubSubMessage) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  close(): Promise<void>;
+}
+
+export interface PubSubTopic {
+  subscription(name: string): PubSubSubscription;
+  createSubscription(name: string, options?: { filter?: string }): Promise<unknown>;
+  publishMessage(message: { data: Buffer; attributes?: Record<string, string> }): Promise<string>;
+}
+
+/**
+ * The part of the @google-cloud/pubsub client Guardian uses
+ */
+export interface PubSubClient {
+  topic(name: string): PubSubTopic;
+  subscription(name: string): PubSubSubscription;
+}
+
+/**
+ * A message as it was published, with JSON data parsed
+ */
+export interface PublishedMessage {
+  id: string;
+  data: unknown;
+  attributes: Record<string, string>;
+}
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+class InProcessSubscription extends EventEmitter implements PubSubSubscription {
+  readonly name: string;
+  filter?: string;
+  created = false;
+  private backlog: PubSubMessage[] = [];
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+    // Deliver what was published before the first listener attached, like a real subscription
+    this.on('newListener', (event: string) => {
+      if (event === 'message') {
+        setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  async exists(): Promise<[boolean]> {
+    return [this.created];
+  }
+
+  async close(): Promise<void> {
+    this.removeAllListeners('message');
+  }
+
+  deliver(id: string, data: Buffer, attributes: Record<string, string>, deliveryAttempt: number = 1): void {
+    if (!matchesFilter(this.filter, attributes)) {
+      return;
+    }
+
+    let settled = false;
+    const message: PubSubMessage = {
+      id,
+      data,
+      attributes,
+      deliveryAttempt,
+      ack: () => { settled = true; },
+      nack: () => {
+        if (settled) return;
+        settled = true;
+        if (deliveryAttempt < MAX_DELIVERY_ATTEMPTS) {
+          setImmediate(() => this.deliver(id, data, attributes, deliveryAttempt + 1));
+        } else {
+          logger.warn('In-process message dropped after max delivery attempts', { subscription: this.name, id });
+        }
+      }
+    };
+
+    if (this.listenerCount('message') === 0) {
+      this.backlog.push(message);
+    } else {
+      setImmediate(() => this.emit('message', message));
+    }
+  }
+
+  private flush(): void {
+    const pending = this.backlog;
+    this.backlog = [];
+    for (const message of pending) {
+      this.emit('message', message);
+    }
+  }
+}
+
+class InProcessTopic implements PubSubTopic {
+  private bus: InProcessPubSub;
+  readonly name: string;
+
+  constructor(bus: InProcessPubSub, name: string) {
+    this.bus = bus;
+    this.name = name;
+  }
+
+  subscription(name: string): PubSubSubscription {
+    return this.bus.subscription(name);
+  }
+
+  async createSubscription(name: string, options: { filter?: string } = {}): Promise<unknown> {
+    return this.bus.attach(this.name, name, options.filter);
+  }
+
+  async publishMessage(message: { data: Buffer; attributes?: Record<string, string> }): Promise<string> {
+    return this.bus.publish(this.name, message.data, message.attributes || {});
+  }
+}
+
+/**
+ * In-process Pub/Sub stand-in
+ * Topics, filtered subscriptions, ack/nack with redelivery and a record of everything
+ * published, so the streaming pipeline runs in tests and on a laptop without GCP
+ */
+export class InProcessPubSub implements PubSubClient {
+  private subscriptions: Map<string, InProcessSubscription> = new Map();
+  private topicSubscriptions: Map<string, Set<string>> = new Map();
+  private messages: Map<string, PublishedMessage[]> = new Map();
+  private nextId = 1;
+
+  topic(name: string): PubSubTopic {
+    return new InProcessTopic(this, name);
+  }
+
+  subscription(name: string): PubSubSubscription {
+    return this.getSubscription(name);
+  }
+
+  attach(topic: string, name: string, filter?: string): PubSubSubscription {
+    const subscription = this.getSubscription(name);
+    subscription.filter = filter;
+    subscription.created = true;
+    if (!this.topicSubscriptions.has(topic)) {
+      this.topicSubscriptions.set(topic, new Set());
+    }
+    this.topicSubscriptions.get(topic)!.add(name);
+    return subscription;
+  }
+
+  async publish(topic: string, data: Buffer, attributes: Record<string, string> = {}): Promise<string> {
+    const id = String(this.nextId++);
+    if (!this.messages.has(topic)) {
+      this.messages.set(topic, []);
+    }
+    this.messages.get(topic)!.push({ id, data: parse(data), attributes });
+
+    for (const name of this.topicSubscriptions.get(topic) || []) {
+      this.subscriptions.get(name)!.deliver(id, data, attributes);
+    }
+    return id;
+  }
+
+  /**
+   * Publish a JSON payload, the way a plant gateway would
+   */
+  async publishJson(topic: string, payload: unknown, attributes: Record<string, string> = {}): Promise<string> {
+    return this.publish(topic, Buffer.from(JSON.stringify(payload)), attributes);
+  }
+
+  /**
+   * Everything published to a topic, parsed; for assertions
+   */
+  published(topic: string): PublishedMessage[] {
+    return [...(this.messages.get(topic) || [])];
+  }
+
+  private getSubscription(name: string): InProcessSubscription {
+    let subscription = this.subscriptions.get(name);
+    if (!subscription) {
+      subscription = new InProcessSubscription(name);
+      this.subscriptions.set(name, subscription);
+    }
+    return subscription;
+  }
+}
+
+/**
+ * Covers the filter forms Guardian uses: attributes.x="v" clauses joined by OR, and attributes.x IN ("a", "b")
+ */
+function matchesFilter(filter: string | undefined, attributes: Record<string, string>): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return filter.split(/\s+OR\s+/).some(clause => {
+    const equals = clause.match(/^\s*attributes\.(\w+)\s*=\s*["']([^"']*)["']\s*$/);
+    if (equals) {
+      return attributes[equals[1]] === equals[2];
+    }
+    const within = clause.match(/^\s*attributes\.(\w+)\s+IN\s*\(([^)]*)\)\s*$/);
+    if (within) {
+      const values = within[2].split(',').map(v => v.trim().replace(/^["']|["']$/g, ''));
+      return values.includes(attributes[within[1]]);
+    }
+    // Anything else is passed through rather than silently dropped
+    return true;
+  });
+}
+
+function parse(data: Buffer): unknown {
+  try {
+    return JSON.parse(data.toString());
+  } catch (error) {
+    return data.toString();
+  }
+}
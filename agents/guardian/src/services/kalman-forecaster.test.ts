@@ -0,0 +1,70 @@
+import { KalmanLSFForecaster } from './kalman-forecaster';
+import { KALMAN_FORECASTER_CONFIG } from '../config/constants';
+
+const start = Date.UTC(2026, 0, 1);
+
+function series(points: Array<Record<string, number>>) {
+  return points.map((point, i) => ({ timestamp: new Date(start + i * 60000).toISOString(), lsf: 100, ...point }));
+}
+
+// LSF rising 0.02 points a minute with a little alternating noise
+const rising = series(Array.from({ length: 60 }, (_, i) => ({ lsf: 99 + 0.02 * i + (i % 2 === 0 ? 0.01 : -0.01) })));
+
+describe('KalmanLSFForecaster', () => {
+  it('falls back to persistence when the window is too short to fit', async () => {
+    const prediction = await new KalmanLSFForecaster().predictLSF({
+      sensorData: series([{ lsf: 99.5 }, { lsf: 99.7 }]),
+      predictionHorizonMinutes: 30
+    });
+
+    expect(KALMAN_FORECASTER_CONFIG.minHistoryPoints).toBeGreaterThan(2);
+    expect(prediction.predictedLSF).toBe(99.7);
+  });
+
+  it('follows a trend and damps it over the horizon', async () => {
+    const prediction = await new KalmanLSFForecaster().predictLSF({ sensorData: rising, predictionHorizonMinutes: 60 });
+
+    const current = rising[rising.length - 1].lsf;
+    // 0.02 a minute for 60 minutes is 1.2 undamped; damping 0.98 per step leaves about 0.7
+    expect(prediction.predictedLSF - current).toBeGreaterThan(0.4);
+    expect(prediction.predictedLSF - current).toBeLessThan(1.2);
+    expect(prediction.modelVersion).toBe('kalman-llt-1.0.0');
+  });
+
+  it('applies configuration overrides from the registry', async () => {
+    const noTrend = new KalmanLSFForecaster({ modelVersion: 'kalman-llt-2.0.0', config: { trendDamping: 0 } });
+
+    const prediction = await noTrend.predictLSF({ sensorData: rising, predictionHorizonMinutes: 60 });
+
+    expect(prediction.predictedLSF - rising[rising.length - 1].lsf).toBeLessThan(0.1);
+    expect(prediction.modelVersion).toBe('kalman-llt-2.0.0');
+  });
+
+  it('regresses on inputs that vary across the window and drops constant ones', () => {
+    const sensorData = series(Array.from({ length: 30 }, (_, i) => ({
+      raw_meal_lsf: 100 + (i % 5),
+      lsf: 100 + 0.5 * (i % 5),
+      kiln_speed: 3.5
+    })));
+
+    const filter = new KalmanLSFForecaster().filter(sensorData);
+
+    expect(filter.inputs.map(input => input.name)).toEqual(['raw_meal_lsf']);
+    expect(filter.state).toHaveLength(3);
+    // A positive coefficient: LSF follows the raw meal
+    expect(filter.state[2]).toBeGreaterThan(0.3);
+  });
+
+  it('widens its intervals with lead time and uses the raw meal lead', async () => {
+    const withRawMeal = series(Array.from({ length: 40 }, (_, i) => ({
+      raw_meal_lsf: i < 35 ? 100 : 101.5,
+      lsf: 100 + (i % 3 === 0 ? 0.05 : -0.05) + (i >= 36 ? 0.75 : 0)
+    })));
+
+    const prediction = await new KalmanLSFForecaster().predictLSF({ sensorData: withRawMeal, predictionHorizonMinutes: 30 });
+
+    const widths = prediction.intervals.map(s => s.p90 - s.p10);
+    expect(widths.every((width, i) => i === 0 || width >= widths[i - 1])).toBe(true);
+    expect(prediction.intervals[0].p50).toBeGreaterThan(100.4);
+  });
+});
@@ -0,0 +1,313 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import { KALMAN_FORECASTER_CONFIG, FORECAST_CONFIG } from '../config/constants';
+import {
+  LSFForecaster,
+  LSFPrediction,
+  PredictionRequest,
+  SensorDataPoint,
+  ForecastDistribution,
+  buildPrediction,
+  persistenceResiduals,
+  residualStd,
+  sampleIntervalMinutes
+} from './lsf-forecaster';
+
+type Matrix = number[][];
+
+// Inputs regressed on when every point in the window carries them
+const EXOGENOUS_INPUTS = [
+  'raw_meal_lsf',
+  'kiln_speed',
+  'fuel_flow',
+  'feed_rate',
+  'preheater_temperature'
+] as const;
+
+type ExogenousInput = typeof EXOGENOUS_INPUTS[number];
+
+interface InputScaling {
+  name: ExogenousInput;
+  mean: number;
+  std: number;
+}
+
+export type KalmanForecasterConfig = typeof KALMAN_FORECASTER_CONFIG;
+
+export interface KalmanFilterState {
+  // [level, trend per step, one coefficient per input]
+  state: number[];
+  covariance: Matrix;
+  observationNoise: number;
+  inputs: InputScaling[];
+  lastInputs: number[];
+  innovations: number[];
+  innovationVariances: number[];
+}
+
+/**
+ * Offline Kalman filter forecaster
+ * Damped local-linear-trend model of LSF with time-varying regression on the
+ * raw-mix and kiln inputs present in the window; needs no cloud endpoint
+ */
+export class KalmanLSFForecaster implements LSFForecaster {
+  readonly backend = 'kalman' as const;
+  readonly modelVersion: string;
+  private config: KalmanForecasterConfig;
+
+  constructor(options: { modelVersion?: string; config?: Partial<KalmanForecasterConfig> } = {}) {
+    this.modelVersion = options.modelVersion || 'kalman-llt-1.0.0';
+    this.config = { ...KALMAN_FORECASTER_CONFIG, ...options.config };
+  }
+
+  async predictLSF(request: PredictionRequest): Promise<LSFPrediction> {
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('kalman_forecast');
+    const startTime = Date.now();
+
+    try {
+      const horizonMinutes = request.predictionHorizonMinutes || 60;
+      const sensorData = request.sensorData;
+      const currentLSF = sensorData[sensorData.length - 1].lsf;
+      const interval = sampleIntervalMinutes(sensorData);
+
+      let distributionAt: (minutesAhead: number) => ForecastDistribution;
+      let residuals: number[];
+      let inputs: string[] = [];
+
+      if (sensorData.length >= this.config.minHistoryPoints) {
+        const filter = this.filter(sensorData);
+        const path = this.projectSteps(filter, Math.ceil(horizonMinutes / interval));
+        const calibration = calibrationFactor(filter, this.config.burnInPoints);
+        // Trajectory steps need not fall on sample steps: interpolate between them
+        distributionAt = minutesAhead => {
+          const position = Math.min(path.length - 1, minutesAhead / interval);
+          const lower = path[Math.floor(position)];
+          const upper = path[Math.ceil(position)];
+          const fraction = position - Math.floor(position);
+          return {
+            mean: lower.mean + (upper.mean - lower.mean) * fraction,
+            std: Math.sqrt((lower.variance + (upper.variance - lower.variance) * fraction) * calibration)
+          };
+        };
+        residuals = filter.innovations.slice(this.config.burnInPoints);
+        inputs = filter.inputs.map(input => input.name);
+      } else {
+        // Too little history to fit: persistence with random-walk spread
+        residuals = persistenceResiduals(sensorData.map(p => p.lsf));
+        const stepStd = residualStd(residuals);
+        distributionAt = minutesAhead => ({ mean: currentLSF, std: stepStd * Math.sqrt(minutesAhead / interval) });
+      }
+
+      const result = buildPrediction({
+        currentLSF,
+        horizonMinutes,
+        stepMinutes: request.stepMinutes,
+        distributionAt,
+        residuals,
+        startTime,
+        modelVersion: this.modelVersion
+      });
+      const { predictedLSF, deviationDetected } = result;
+
+      span.setAttributes({
+        'forecast.backend': this.backend,
+        'forecast.horizon_minutes': horizonMinutes,
+        'forecast.inputs': inputs.join(','),
+        'forecast.confidence': result.confidence,
+        'forecast.out_of_band_probability': result.outOfBandProbability,
+        'forecast.deviation_detected': deviationDetected
+      });
+
+      logger.info('LSF prediction completed', {
+        backend: this.backend,
+        currentLSF,
+        predictedLSF,
+        inputs,
+        confidence: result.confidence,
+        outOfBandProbability: result.outOfBandProbability,
+        deviationDetected
+      });
+
+      return result;
+
+    } catch (error) {
+      span.recordException(error as Error);
+      logger.error('Kalman LSF prediction failed', { error: (error as Error).message });
+      throw new Error(`Prediction service error: ${(error as Error).message}`);
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Run the filter over the window and return the final state
+   */
+  filter(sensorData: SensorDataPoint[]): KalmanFilterState {
+    const inputs = scaleInputs(sensorData);
+    const lsf = sensorData.map(p => p.lsf);
+    const observationNoise = estimateObservationNoise(lsf);
+    const size = 2 + inputs.length;
+
+    const transition = this.transition(size);
+    const processNoise = diagonal([
+      observationNoise * this.config.levelNoiseRatio,
+      observationNoise * this.config.trendNoiseRatio,
+      ...inputs.map(() => this.config.coefficientNoiseRatio)
+    ]);
+
+    let state = [lsf[0], 0, ...inputs.map(() => 0)];
+    let covariance = diagonal([observationNoise * 10, observationNoise, ...inputs.map(() => 1)]);
+    const innovations: number[] = [];
+    const innovationVariances: number[] = [];
+    let observation: number[] = [];
+
+    for (let t = 0; t < sensorData.length; t++) {
+      if (t > 0) {
+        state = multiplyVector(transition, state);
+        covariance = add(multiply(multiply(transition, covariance), transpose(transition)), processNoise);
+      }
+
+      observation = [1, 0, ...inputs.map(input => ((sensorData[t][input.name] as number) - input.mean) / input.std)];
+      const innovation = lsf[t] - dot(observation, state);
+      const covarianceH = multiplyVector(covariance, observation);
+      const innovationVariance = dot(observation, covarianceH) + observationNoise;
+      const gain = covarianceH.map(v => v / innovationVariance);
+
+      state = state.map((v, i) => v + gain[i] * innovation);
+      covariance = covariance.map((row, i) => row.map((v, j) => v - gain[i] * covarianceH[j]));
+      covariance = symmetrize(covariance);
+      innovations.push(innovation);
+      innovationVariances.push(innovationVariance);
+    }
+
+    return {
+      state,
+      covariance,
+      observationNoise,
+      inputs,
+      // Inputs are held at their latest values over the horizon
+      lastInputs: observation.slice(2),
+      innovations,
+      innovationVariances
+    };
+  }
+
+  /**
+   * Mean and variance of LSF from the end of the window (index 0) to the given number of steps past it
+   */
+  projectSteps(filter: KalmanFilterState, steps: number): Array<{ mean: number; variance: number }> {
+    const size = filter.state.length;
+    const transition = this.transition(size);
+    const processNoise = diagonal([
+      filter.observationNoise * this.config.levelNoiseRatio,
+      filter.observationNoise * this.config.trendNoiseRatio,
+      ...filter.inputs.map(() => this.config.coefficientNoiseRatio)
+    ]);
+    const observation = [1, 0, ...filter.lastInputs];
+    let state = filter.state;
+    let covariance = filter.covariance;
+    const path = [{
+      mean: dot(observation, state),
+      variance: dot(observation, multiplyVector(covariance, observation)) + filter.observationNoise
+    }];
+
+    for (let h = 0; h < steps; h++) {
+      state = multiplyVector(transition, state);
+      covariance = add(multiply(multiply(transition, covariance), transpose(transition)), processNoise);
+      path.push({
+        mean: dot(observation, state),
+        variance: dot(observation, multiplyVector(covariance, observation)) + filter.observationNoise
+      });
+    }
+
+    return path;
+  }
+
+  private transition(size: number): Matrix {
+    const transition = identity(size);
+    transition[0][1] = 1;
+    transition[1][1] = this.config.trendDamping;
+    return transition;
+  }
+}
+
+/**
+ * Ratio of realised to predicted innovation variance after burn-in
+ * Widens (or narrows) the model's intervals to match how it has actually been erring;
+ * shrunk toward 1 so a handful of innovations cannot narrow them much
+ */
+function calibrationFactor(filter: KalmanFilterState, skip: number): number {
+  const ratios = filter.innovations
+    .slice(skip)
+    .map((innovation, i) => innovation * innovation / filter.innovationVariances[i + skip]);
+  const { priorResidualWeight } = FORECAST_CONFIG;
+  const mean = (ratios.reduce((sum, r) => sum + r, 0) + priorResidualWeight) / (ratios.length + priorResidualWeight);
+  return Math.min(16, Math.max(0.25, mean));
+}
+
+/**
+ * Standardise the inputs every point carries; constant inputs carry no information and are dropped
+ */
+function scaleInputs(sensorData: SensorDataPoint[]): InputScaling[] {
+  const scaled: InputScaling[] = [];
+
+  for (const name of EXOGENOUS_INPUTS) {
+    const values = sensorData.map(p => p[name]);
+    if (!values.every(v => typeof v === 'number' && Number.isFinite(v))) continue;
+
+    const numbers = values as number[];
+    const mean = numbers.reduce((sum, v) => sum + v, 0) / numbers.length;
+    const std = Math.sqrt(numbers.reduce((sum, v) => sum + (v - mean) ** 2, 0) / numbers.length);
+    if (std > 1e-9) {
+      scaled.push({ name, mean, std });
+    }
+  }
+
+  return scaled;
+}
+
+/**
+ * Half the variance of first differences, shrunk toward the prior one-step std so a short
+ * or flat window does not lock the filter
+ */
+function estimateObservationNoise(lsf: number[]): number {
+  const { priorStepStd, priorResidualWeight } = FORECAST_CONFIG;
+  const diffs = lsf.slice(1).map((v, i) => v - lsf[i]);
+  const mean = diffs.length > 0 ? diffs.reduce((sum, v) => sum + v, 0) / diffs.length : 0;
+  const sumOfSquares = diffs.reduce((sum, v) => sum + (v - mean) ** 2, 0) + priorResidualWeight * priorStepStd ** 2;
+  const variance = sumOfSquares / (Math.max(0, diffs.length - 1) + priorResidualWeight);
+  return Math.max(1e-4, variance / 2);
+}
+
+function identity(size: number): Matrix {
+  return Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+}
+
+function diagonal(values: number[]): Matrix {
+  return values.map((v, i) => values.map((_, j) => (i === j ? v : 0)));
+}
+
+function transpose(a: Matrix): Matrix {
+  return a[0].map((_, j) => a.map(row => row[j]));
+}
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map(row => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+}
+
+function multiplyVector(a: Matrix, x: number[]): number[] {
+  return a.map(row => dot(row, x));
+}
+
+function add(a: Matrix, b: Matrix): Matrix {
+  return a.map((row, i) => row.map((v, j) => v + b[i][j]));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+function symmetrize(a: Matrix): Matrix {
+  return a.map((row, i) => row.map((v, j) => (v + a[j][i]) / 2));
+}
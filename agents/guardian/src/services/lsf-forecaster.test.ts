@@ -0,0 +1,129 @@
+import {
+  Z_P90,
+  ForecastStep,
+  buildPrediction,
+  earliestBreach,
+  forecastMinutes,
+  outOfBandProbability,
+  residualStd,
+  sampleIntervalMinutes
+} from './lsf-forecaster';
+import { FORECAST_CONFIG, QUALITY_BAND_MAX } from '../config/constants';
+
+function step(minutesAhead: number, p50: number, probability: number): ForecastStep {
+  return { minutesAhead, p10: p50 - 0.5, p50, p90: p50 + 0.5, outOfBandProbability: probability };
+}
+
+describe('forecast intervals', () => {
+  it('spaces lead times at the step resolution and always ends on the horizon', () => {
+    expect(forecastMinutes(60, 25)).toEqual([25, 50, 60]);
+    expect(forecastMinutes(15, 5)).toEqual([5, 10, 15]);
+  });
+
+  it('gives the probability of leaving the quality band under a normal forecast', () => {
+    expect(outOfBandProbability(100, 0)).toBe(0);
+    expect(outOfBandProbability(103, 0)).toBe(1);
+    expect(outOfBandProbability(QUALITY_BAND_MAX, 1)).toBeCloseTo(0.5, 3);
+    expect(outOfBandProbability(100, 1)).toBeCloseTo(0.0455, 3);
+  });
+
+  it('shrinks residual spread toward the prior so a short window cannot look perfect', () => {
+    expect(residualStd([])).toBeCloseTo(FORECAST_CONFIG.priorStepStd);
+    expect(residualStd([0, 0])).toBeLessThan(FORECAST_CONFIG.priorStepStd);
+    expect(residualStd([0, 0])).toBeGreaterThan(0.25);
+  });
+
+  it('reads the sample interval as the median spacing', () => {
+    const at = (minute: number) => ({ timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString(), lsf: 100 });
+    expect(sampleIntervalMinutes([at(0), at(2), at(4), at(10)])).toBe(2);
+    expect(sampleIntervalMinutes([at(0)])).toBe(1);
+  });
+
+  it('builds p10/p50/p90 per step from the backend distribution', () => {
+    const prediction = buildPrediction({
+      currentLSF: 100,
+      horizonMinutes: 60,
+      distributionAt: minutesAhead => ({ mean: 100 + minutesAhead / 60, std: 0.1 * Math.sqrt(minutesAhead) }),
+      residuals: [],
+      startTime: Date.now(),
+      modelVersion: 'test-1'
+    });
+
+    expect(prediction.stepMinutes).toBe(FORECAST_CONFIG.stepMinutes);
+    expect(prediction.intervals).toHaveLength(60 / FORECAST_CONFIG.stepMinutes);
+    const horizon = prediction.intervals[prediction.intervals.length - 1];
+    expect(horizon.minutesAhead).toBe(60);
+    expect(horizon.p50).toBeCloseTo(101);
+    expect(horizon.p90 - horizon.p50).toBeCloseTo(Z_P90 * 0.1 * Math.sqrt(60));
+    expect(horizon.p50 - horizon.p10).toBeCloseTo(horizon.p90 - horizon.p50);
+    expect(prediction.predictedLSF).toBe(horizon.p50);
+    expect(prediction.modelVersion).toBe('test-1');
+  });
+
+  it('coarsens the trajectory instead of returning more steps than allowed', () => {
+    const prediction = buildPrediction({
+      currentLSF: 100,
+      horizonMinutes: 2400,
+      stepMinutes: 1,
+      distributionAt: () => ({ mean: 100, std: 0.1 }),
+      residuals: [],
+      startTime: Date.now(),
+      modelVersion: 'test-1'
+    });
+
+    expect(prediction.stepMinutes).toBe(2400 / FORECAST_CONFIG.maxTrajectorySteps);
+    expect(prediction.intervals).toHaveLength(FORECAST_CONFIG.maxTrajectorySteps);
+  });
+
+  it('calibrates confidence and accuracy from the spread and recent residuals', () => {
+    const base = {
+      currentLSF: 100,
+      horizonMinutes: 30,
+      startTime: Date.now(),
+      modelVersion: 'test-1'
+    };
+    const tight = buildPrediction({ ...base, distributionAt: () => ({ mean: 100, std: 0.1 }), residuals: [] });
+    const wide = buildPrediction({ ...base, distributionAt: () => ({ mean: 100, std: 1 }), residuals: [] });
+    const erring = buildPrediction({ ...base, distributionAt: () => ({ mean: 100, std: 0.1 }), residuals: Array(30).fill(1) });
+
+    expect(tight.confidence).toBeGreaterThan(0.99);
+    expect(wide.confidence).toBeCloseTo(0.383, 2);
+    // Only the prior weight of the model's own confidence remains when every residual missed
+    expect(erring.accuracy).toBeCloseTo(FORECAST_CONFIG.priorResidualWeight * erring.confidence / 40, 5);
+  });
+});
+
+describe('band breach', () => {
+  it('flags a deviation only when leaving the band becomes likely', () => {
+    const drifting = buildPrediction({
+      currentLSF: 100,
+      horizonMinutes: 60,
+      distributionAt: minutesAhead => ({ mean: 100 + minutesAhead / 15, std: 0.3 }),
+      residuals: [],
+      startTime: Date.now(),
+      modelVersion: 'test-1'
+    });
+
+    expect(drifting.deviationDetected).toBe(true);
+    expect(drifting.expectedBreach?.direction).toBe('above');
+    // The mean reaches the band edge at 30 minutes; more likely than 0.6 a little after
+    expect(drifting.expectedBreach!.minutesAhead).toBeGreaterThan(30);
+    expect(drifting.expectedBreach!.minutesAhead).toBeLessThan(35);
+  });
+
+  it('interpolates the lead time between the steps either side of the threshold', () => {
+    const breach = earliestBreach(100, [step(10, 101, 0.2), step(20, 101.5, 1)]);
+    expect(breach).toEqual({ minutesAhead: 15, direction: 'above', probability: 1 });
+  });
+
+  it('reports a breach below the band and none on a steady trajectory', () => {
+    expect(earliestBreach(100, [step(10, 98.5, 0.1), step(20, 97.9, 0.6)])).toEqual({
+      minutesAhead: 20, direction: 'below', probability: 0.6
+    });
+    expect(earliestBreach(100, [step(10, 100, 0.01), step(20, 100, 0.02)])).toBeNull();
+  });
+
+  it('reports an LSF already outside the band as a breach now', () => {
+    expect(earliestBreach(97.5, [step(10, 98, 0.4)])).toEqual({ minutesAhead: 0, direction: 'below', probability: 1 });
+  });
+});
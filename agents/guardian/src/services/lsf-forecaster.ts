@@ -0,0 +1,232 @@
+import {
+  TARGET_LSF,
+  QUALITY_BAND_MIN,
+  QUALITY_BAND_MAX,
+  FORECAST_CONFIG,
+  FORECAST_ERROR_TOLERANCE,
+  DEVIATION_PROBABILITY_THRESHOLD,
+  ForecastBackend
+} from '../config/constants';
+import type { DataQualityReport } from './data-quality-service';
+
+// z-score of the 90th percentile of the standard normal
+export const Z_P90 = 1.2816;
+
+export interface ForecastStep {
+  minutesAhead: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  outOfBandProbability: number;
+}
+
+export interface BandBreach {
+  // Interpolated lead time at which leaving the band becomes more likely than DEVIATION_PROBABILITY_THRESHOLD
+  minutesAhead: number;
+  direction: 'above' | 'below';
+  probability: number;
+}
+
+export interface LSFPrediction {
+  currentLSF: number;
+  // P50 at the horizon
+  predictedLSF: number;
+  // Probability the horizon forecast lands within FORECAST_ERROR_TOLERANCE of the outcome
+  confidence: number;
+  deviationDetected: boolean;
+  deviationMagnitude: number;
+  // Highest probability of being outside the quality band over the horizon
+  outOfBandProbability: number;
+  // Forecast trajectory, one entry per step up to the horizon
+  intervals: ForecastStep[];
+  stepMinutes: number;
+  expectedBreach: BandBreach | null;
+  latency: number;
+  // Share of recent residuals within FORECAST_ERROR_TOLERANCE
+  accuracy: number;
+  modelVersion: string;
+  // Quality of the sensor data behind the forecast, attached by the data-quality gate
+  dataQuality?: DataQualityReport;
+}
+
+export interface SensorDataPoint {
+  timestamp: string;
+  lsf: number;
+  kiln_speed?: number;
+  fuel_flow?: number;
+  feed_rate?: number;
+  preheater_temperature?: number;
+  // LSF of the raw meal from the cross-belt analyser, leads clinker LSF by the kiln residence time
+  raw_meal_lsf?: number;
+}
+
+export interface PredictionRequest {
+  sensorData: SensorDataPoint[];
+  predictionHorizonMinutes?: number;
+  // Trajectory resolution; FORECAST_CONFIG.stepMinutes when omitted
+  stepMinutes?: number;
+}
+
+export interface ForecastDistribution {
+  mean: number;
+  std: number;
+}
+
+/**
+ * LSF forecasting backend
+ * Implementations are selected per deployment with LSF_FORECAST_BACKEND
+ */
+export interface LSFForecaster {
+  readonly backend: ForecastBackend;
+  // Version stamped on every prediction; the key accuracy is tracked under
+  readonly modelVersion: string;
+  predictLSF(request: PredictionRequest): Promise<LSFPrediction>;
+}
+
+/**
+ * Turn a backend's forecast distribution into intervals, a residual-based
+ * confidence and a probabilistic deviation flag
+ */
+export function buildPrediction(input: {
+  currentLSF: number;
+  horizonMinutes: number;
+  stepMinutes?: number;
+  distributionAt: (minutesAhead: number) => ForecastDistribution;
+  residuals: number[];
+  startTime: number;
+  modelVersion: string;
+}): LSFPrediction {
+  // Coarsen the resolution rather than return an unbounded trajectory
+  const stepMinutes = Math.max(
+    input.stepMinutes || FORECAST_CONFIG.stepMinutes,
+    input.horizonMinutes / FORECAST_CONFIG.maxTrajectorySteps
+  );
+  const intervals = forecastMinutes(input.horizonMinutes, stepMinutes).map(minutesAhead => {
+    const { mean, std } = input.distributionAt(minutesAhead);
+    return {
+      minutesAhead,
+      p10: mean - Z_P90 * std,
+      p50: mean,
+      p90: mean + Z_P90 * std,
+      outOfBandProbability: outOfBandProbability(mean, std)
+    };
+  });
+
+  const horizon = intervals[intervals.length - 1];
+  const horizonStd = (horizon.p90 - horizon.p50) / Z_P90;
+  const peakOutOfBand = Math.max(...intervals.map(step => step.outOfBandProbability));
+  const confidence = probabilityWithin(FORECAST_ERROR_TOLERANCE, horizonStd);
+
+  return {
+    currentLSF: input.currentLSF,
+    predictedLSF: horizon.p50,
+    confidence,
+    deviationDetected: peakOutOfBand >= DEVIATION_PROBABILITY_THRESHOLD,
+    deviationMagnitude: Math.abs(horizon.p50 - TARGET_LSF),
+    outOfBandProbability: peakOutOfBand,
+    intervals,
+    stepMinutes,
+    expectedBreach: earliestBreach(input.currentLSF, intervals),
+    latency: (Date.now() - input.startTime) / 1000,
+    // The model's own confidence stands in for priorResidualWeight residuals, so few residuals score little
+    accuracy: (input.residuals.filter(r => Math.abs(r) <= FORECAST_ERROR_TOLERANCE).length +
+      FORECAST_CONFIG.priorResidualWeight * confidence) /
+      (input.residuals.length + FORECAST_CONFIG.priorResidualWeight),
+    modelVersion: input.modelVersion
+  };
+}
+
+/**
+ * Earliest expected band breach along a trajectory; lead time 0 when LSF is already outside the band
+ */
+export function earliestBreach(currentLSF: number, intervals: ForecastStep[]): BandBreach | null {
+  if (currentLSF < QUALITY_BAND_MIN || currentLSF > QUALITY_BAND_MAX) {
+    return { minutesAhead: 0, direction: currentLSF > QUALITY_BAND_MAX ? 'above' : 'below', probability: 1 };
+  }
+
+  let previous = { minutesAhead: 0, outOfBandProbability: 0 };
+  for (const step of intervals) {
+    if (step.outOfBandProbability >= DEVIATION_PROBABILITY_THRESHOLD) {
+      const fraction = (DEVIATION_PROBABILITY_THRESHOLD - previous.outOfBandProbability) /
+        (step.outOfBandProbability - previous.outOfBandProbability);
+      return {
+        minutesAhead: previous.minutesAhead + fraction * (step.minutesAhead - previous.minutesAhead),
+        direction: step.p50 >= TARGET_LSF ? 'above' : 'below',
+        probability: step.outOfBandProbability
+      };
+    }
+    previous = step;
+  }
+
+  return null;
+}
+
+/**
+ * Lead times at the step resolution, always ending on the horizon
+ */
+export function forecastMinutes(horizonMinutes: number, stepMinutes: number): number[] {
+  const minutes: number[] = [];
+  for (let m = stepMinutes; m < horizonMinutes; m += stepMinutes) {
+    minutes.push(m);
+  }
+  minutes.push(horizonMinutes);
+  return minutes;
+}
+
+/**
+ * Probability a normal forecast falls below QUALITY_BAND_MIN or above QUALITY_BAND_MAX
+ */
+export function outOfBandProbability(mean: number, std: number): number {
+  if (std <= 0) {
+    return mean < QUALITY_BAND_MIN || mean > QUALITY_BAND_MAX ? 1 : 0;
+  }
+  return normalCdf((QUALITY_BAND_MIN - mean) / std) + 1 - normalCdf((QUALITY_BAND_MAX - mean) / std);
+}
+
+/**
+ * Root-mean-square of residuals, shrunk toward FORECAST_CONFIG.priorStepStd; the prior alone when there are none
+ */
+export function residualStd(residuals: number[]): number {
+  const { priorStepStd, priorResidualWeight } = FORECAST_CONFIG;
+  const sumOfSquares = residuals.reduce((sum, r) => sum + r * r, 0) + priorResidualWeight * priorStepStd ** 2;
+  return Math.sqrt(sumOfSquares / (residuals.length + priorResidualWeight));
+}
+
+/**
+ * One-step errors of a persistence forecast over the window
+ */
+export function persistenceResiduals(lsf: number[]): number[] {
+  return lsf.slice(1).map((v, i) => v - lsf[i]);
+}
+
+/**
+ * Median spacing between sensor points in minutes; 1 when it cannot be derived
+ */
+export function sampleIntervalMinutes(sensorData: SensorDataPoint[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < sensorData.length; i++) {
+    const gap = (Date.parse(sensorData[i].timestamp) - Date.parse(sensorData[i - 1].timestamp)) / 60000;
+    if (Number.isFinite(gap) && gap > 0) {
+      gaps.push(gap);
+    }
+  }
+  if (gaps.length === 0) {
+    return 1;
+  }
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)];
+}
+
+function probabilityWithin(tolerance: number, std: number): number {
+  return std <= 0 ? 1 : 2 * normalCdf(tolerance / std) - 1;
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,211 @@
+import { ModelRegistryService } from './model-registry-service';
+import type { AlloyDBService, ForecastAccuracy, ModelStatus, ModelVersionRecord } from './alloydb-service';
+import type { VertexAIForecastingService } from './vertex-ai-service';
+import { MODEL_PROMOTION_CONFIG } from '../config/constants';
+
+// In-memory stand-in for the model_versions table and the lab-verified accuracy view
+class InMemoryModelVersions {
+  versions: ModelVersionRecord[] = [];
+  accuracy: Record<string, ForecastAccuracy[]> = {};
+
+  add(version: string, status: ModelStatus, previousVersion: string | null = null): void {
+    this.versions.push({
+      version,
+      backend: 'kalman',
+      parameters: {},
+      trainingMetadata: {},
+      evaluation: null,
+      status,
+      previousVersion,
+      notes: null,
+      registeredBy: 'test',
+      promotedBy: null,
+      promotedAt: null,
+      createdAt: new Date()
+    });
+  }
+
+  setRmse(version: string, rmseByHorizon: Record<number, number>): void {
+    this.accuracy[version] = Object.entries(rmseByHorizon).map(([horizon, rmse]) => ({
+      modelVersion: version,
+      horizonMinutes: Number(horizon),
+      samples: MODEL_PROMOTION_CONFIG.minSamplesPerHorizon,
+      mae: rmse,
+      rmse,
+      bias: 0,
+      intervalCoverage: 0.8
+    }));
+  }
+
+  status(version: string): ModelStatus | undefined {
+    return this.versions.find(v => v.version === version)?.status;
+  }
+
+  async listModelVersions(): Promise<ModelVersionRecord[]> {
+    return this.versions.map(v => ({ ...v }));
+  }
+
+  async getModelVersion(version: string): Promise<ModelVersionRecord | null> {
+    return this.versions.find(v => v.version === version) ?? null;
+  }
+
+  async registerModelVersion(
+    entry: Pick<ModelVersionRecord, 'version' | 'backend' | 'parameters' | 'trainingMetadata' | 'notes' | 'registeredBy'>
+  ): Promise<ModelVersionRecord | null> {
+    if (this.versions.some(v => v.version === entry.version)) {
+      return null;
+    }
+    this.add(entry.version, 'candidate');
+    return Object.assign(this.versions[this.versions.length - 1], entry);
+  }
+
+  async getForecastAccuracy(modelVersion: string): Promise<ForecastAccuracy[]> {
+    return this.accuracy[modelVersion] ?? [];
+  }
+
+  async activateModelVersion(
+    version: string,
+    promotedBy: string,
+    evaluation: Record<string, unknown> | null
+  ): Promise<ModelVersionRecord | null> {
+    const target = this.versions.find(v => v.version === version);
+    if (!target) {
+      return null;
+    }
+    const current = this.versions.find(v => v.status === 'active');
+    if (current) {
+      current.status = 'retired';
+    }
+    return Object.assign(target, {
+      status: 'active',
+      previousVersion: current?.version ?? null,
+      promotedBy,
+      promotedAt: new Date(),
+      evaluation: evaluation ?? target.evaluation
+    });
+  }
+}
+
+describe('ModelRegistryService', () => {
+  let store: InMemoryModelVersions;
+  let registry: ModelRegistryService;
+
+  beforeEach(() => {
+    store = new InMemoryModelVersions();
+    store.add('kalman-1', 'active');
+    store.add('kalman-2', 'candidate');
+    registry = new ModelRegistryService(
+      store as unknown as AlloyDBService,
+      {} as unknown as VertexAIForecastingService
+    );
+  });
+
+  describe('register', () => {
+    it('accepts known parameters within range for the backend', async () => {
+      const kalman = await registry.register({
+        version: 'kalman-3',
+        backend: 'kalman',
+        parameters: { trendDamping: 0.95, burnInPoints: 5 }
+      });
+      const naive = await registry.register({ version: 'naive-2', backend: 'naive', parameters: { window: 8 } });
+      const vertex = await registry.register({
+        version: 'vertex-2',
+        backend: 'vertex',
+        parameters: { modelEndpoint: 'projects/cemai/locations/us-central1/endpoints/1234' }
+      });
+
+      expect([kalman.errors, naive.errors, vertex.errors]).toEqual([[], [], []]);
+      expect(store.status('kalman-3')).toBe('candidate');
+    });
+
+    it('refuses parameters the backend does not use or cannot run with', async () => {
+      const result = await registry.register({
+        version: 'kalman-3',
+        backend: 'kalman',
+        parameters: { trendDamping: 1.5, burnInPoints: 2.5, window: 5 }
+      });
+
+      expect(result.entry).toBeNull();
+      expect(result.errors).toEqual([
+        'trendDamping must be a number from 0.5 to 1',
+        'burnInPoints must be a whole number',
+        'parameter window is not used by the kalman backend'
+      ]);
+      expect(store.status('kalman-3')).toBeUndefined();
+    });
+
+    it('refuses a vertex endpoint that is not an endpoint ID or resource name', async () => {
+      const result = await registry.register({
+        version: 'vertex-2',
+        backend: 'vertex',
+        parameters: { modelEndpoint: 'https://evil.example.com/predict', window: 5 }
+      });
+
+      expect(result.errors).toEqual([
+        'parameter window is not used by the vertex backend',
+        'modelEndpoint must be a Vertex AI endpoint ID or resource name'
+      ]);
+    });
+  });
+
+  describe('promote', () => {
+    it('promotes a challenger that beats the active version on every horizon', async () => {
+      store.setRmse('kalman-1', { 15: 1.0, 60: 2.0 });
+      store.setRmse('kalman-2', { 15: 0.8, 60: 1.8 });
+
+      const result = await registry.promote('kalman-2', { promotedBy: 'admin_1' });
+
+      expect(result.errors).toEqual([]);
+      expect(result.comparison?.eligible).toBe(true);
+      expect(result.entry).toMatchObject({ status: 'active', previousVersion: 'kalman-1', promotedBy: 'admin_1' });
+      expect(store.status('kalman-1')).toBe('retired');
+    });
+
+    it('refuses a challenger that regresses on one horizon and leaves the active version in place', async () => {
+      store.setRmse('kalman-1', { 15: 1.0, 60: 2.0 });
+      store.setRmse('kalman-2', { 15: 0.2, 60: 2.4 });
+
+      const result = await registry.promote('kalman-2', { promotedBy: 'admin_1' });
+
+      expect(result.entry).toBeNull();
+      expect(result.errors).toEqual(['RMSE at 60 min is 20.0% worse than the active model']);
+      expect(store.status('kalman-1')).toBe('active');
+    });
+
+    it('refuses a challenger without enough lab-matched samples unless forced', async () => {
+      const refused = await registry.promote('kalman-2', { promotedBy: 'admin_1' });
+      expect(refused.entry).toBeNull();
+      expect(refused.comparison?.eligible).toBe(false);
+
+      const forced = await registry.promote('kalman-2', { promotedBy: 'admin_1', force: true });
+      expect(forced.entry).toMatchObject({ status: 'active', evaluation: { forced: true } });
+    });
+
+    it('reports unknown and already active versions', async () => {
+      expect((await registry.promote('kalman-9', { promotedBy: 'admin_1' })).errors)
+        .toEqual(['version kalman-9 is not registered']);
+      expect((await registry.promote('kalman-1', { promotedBy: 'admin_1', force: true })).errors)
+        .toEqual(['version kalman-1 is already active']);
+    });
+  });
+
+  describe('rollback', () => {
+    it('reactivates the version the active one replaced', async () => {
+      await registry.promote('kalman-2', { promotedBy: 'admin_1', force: true });
+
+      const result = await registry.rollback('admin_2');
+
+      expect(result.entry).toMatchObject({ version: 'kalman-1', status: 'active', promotedBy: 'admin_2' });
+      expect(store.status('kalman-2')).toBe('retired');
+      expect((await registry.getActiveForecaster()).modelVersion).toBe('kalman-1');
+    });
+
+    it('refuses when the active version replaced nothing', async () => {
+      const result = await registry.rollback('admin_2');
+
+      expect(result.entry).toBeNull();
+      expect(result.errors).toEqual(['The active version has no previous version to roll back to']);
+      expect(store.status('kalman-1')).toBe('active');
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import {
+  FORECAST_CONFIG,
+  MODEL_PROMOTION_CONFIG,
+  MODEL_PARAMETER_LIMITS,
+  MODEL_COUNT_PARAMETERS,
+  MODEL_REGISTRY_CACHE_TTL_MS,
+  ForecastBackend
+} from '../config/constants';
+import { AlloyDBService, ModelVersionRecord, ForecastAccuracy } from './alloydb-service';
+import { VertexAIForecastingService } from './vertex-ai-service';
+import { LSFForecaster } from './lsf-forecaster';
+import { createLSFForecaster, ForecasterParameters } from './forecaster-factory';
+
+const FORECAST_BACKENDS: ForecastBackend[] = ['kalman', 'vertex', 'naive'];
+const VERSION_PATTERN = /^[A-Za-z0-9._-]{1,50}$/;
+// An endpoint ID, or its full resource name
+const VERTEX_ENDPOINT_PATTERN = /^(projects\/[\w-]+\/locations\/[\w-]+\/endpoints\/)?[\w-]{1,64}$/;
+
+export interface HorizonComparison {
+  horizonMinutes: number;
+  champion: ForecastAccuracy;
+  challenger: ForecastAccuracy;
+  rmseChange: number;
+}
+
+export interface ModelComparison {
+  champion: string;
+  challenger: string;
+  periodDays: number;
+  horizons: HorizonComparison[];
+  championRmse: number | null;
+  challengerRmse: number | null;
+  // Relative RMSE gain of the challenger; positive is better
+  improvement: number | null;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface ModelRegistration {
+  version: string;
+  backend: ForecastBackend;
+  parameters?: ForecasterParameters;
+  trainingMetadata?: Record<string, unknown>;
+  notes?: string;
+  registeredBy?: string;
+}
+
+/**
+ * Model Registry for Guardian Agent
+ * Tracks forecaster versions and decides which one drives production: exactly one
+ * active version, candidates that can run in shadow, and promotion or rollback on
+ * lab-verified accuracy. Registering or retraining never changes the active model
+ */
+export class ModelRegistryService {
+  private alloyDBService: AlloyDBService;
+  private vertexService: VertexAIForecastingService;
+  private cache: { versions: ModelVersionRecord[]; expiresAt: number } | null = null;
+  private forecasters: Map<string, LSFForecaster> = new Map();
+
+  constructor(alloyDBService: AlloyDBService, vertexService: VertexAIForecastingService) {
+    this.alloyDBService = alloyDBService;
+    this.vertexService = vertexService;
+  }
+
+  /**
+   * Seed the deployment's configured backend as the active version on first start
+   */
+  async initialize(): Promise<void> {
+    const versions = await this.alloyDBService.listModelVersions();
+    if (versions.some(v => v.status === 'active')) {
+      return;
+    }
+
+    const seed = createLSFForecaster(FORECAST_CONFIG.backend, this.vertexService);
+    const existing = versions.find(v => v.version === seed.modelVersion);
+    if (!existing) {
+      await this.alloyDBService.registerModelVersion({
+        version: seed.modelVersion,
+        backend: seed.backend,
+        parameters: {},
+        trainingMetadata: { source: 'deployment_default' },
+        notes: 'Seeded from LSF_FORECAST_BACKEND',
+        registeredBy: 'system'
+      });
+    }
+    await this.alloyDBService.activateModelVersion(seed.modelVersion, 'system', null);
+    this.invalidate();
+
+    logger.info('Model registry seeded', { version: seed.modelVersion, backend: seed.backend });
+  }
+
+  async list(): Promise<ModelVersionRecord[]> {
+    return this.loadVersions();
+  }
+
+  async getVersion(version: string): Promise<ModelVersionRecord | null> {
+    return this.alloyDBService.getModelVersion(version);
+  }
+
+  /**
+   * Forecaster for the active version; falls back to the deployment default if the registry is empty
+   */
+  async getActiveForecaster(): Promise<LSFForecaster> {
+    const active = (await this.loadVersions()).find(v => v.status === 'active');
+    return active
+      ? this.forecasterFor(active)
+      : createLSFForecaster(FORECAST_CONFIG.backend, this.vertexService);
+  }
+
+  async getShadowForecasters(): Promise<LSFForecaster[]> {
+    return (await this.loadVersions())
+      .filter(v => v.status === 'shadow')
+      .map(v => this.forecasterFor(v));
+  }
+
+  /**
+   * Register a candidate version; it does nothing until put in shadow or promoted
+   */
+  async register(registration: ModelRegistration): Promise<{ entry: ModelVersionRecord | null; errors: string[] }> {
+    const errors: string[] = [];
+    if (!VERSION_PATTERN.test(registration.version || '')) {
+      errors.push('version must be 1-50 characters of letters, digits, ".", "_" or "-"');
+    }
+    if (!FORECAST_BACKENDS.includes(registration.backend)) {
+      errors.push(`backend must be one of ${FORECAST_BACKENDS.join(', ')}`);
+    }
+    if (registration.parameters !== undefined &&
+        (typeof registration.parameters !== 'object' || registration.parameters === null ||
+         Array.isArray(registration.parameters))) {
+      errors.push('parameters must be an object');
+    } else if (registration.parameters && FORECAST_BACKENDS.includes(registration.backend)) {
+      errors.push(...parameterErrors(registration.backend, registration.parameters));
+    }
+    if (errors.length > 0) {
+      return { entry: null, errors };
+    }
+
+    const entry = await this.alloyDBService.registerModelVersion({
+      version: registration.version,
+      backend: registration.backend,
+      parameters: registration.parameters || {},
+      trainingMetadata: registration.trainingMetadata || {},
+      notes: registration.notes || null,
+      registeredBy: registration.registeredBy || null
+    });
+    if (!entry) {
+      return { entry: null, errors: [`version ${registration.version} is already registered`] };
+    }
+
+    this.invalidate();
+    return { entry, errors: [] };
+  }
+
+  /**
+   * Run a version alongside the active one; its predictions are stored but never acted on
+   */
+  async setShadow(version: string, enabled: boolean): Promise<ModelVersionRecord | null> {
+    const entry = await this.alloyDBService.setModelStatus(version, enabled ? 'shadow' : 'candidate');
+    this.invalidate();
+    if (entry) {
+      logger.info('Model shadow mode changed', { version, shadow: enabled });
+    }
+    return entry;
+  }
+
+  /**
+   * Compare a challenger's lab-verified accuracy with the active version's
+   */
+  async compare(challenger: string, days: number = MODEL_PROMOTION_CONFIG.evaluationDays): Promise<ModelComparison | null> {
+    const active = (await this.loadVersions()).find(v => v.status === 'active');
+    if (!active) {
+      return null;
+    }
+
+    const championRows = await this.alloyDBService.getForecastAccuracy(active.version, days);
+    const challengerRows = await this.alloyDBService.getForecastAccuracy(challenger, days);
+    const horizons: HorizonComparison[] = [];
+    const reasons: string[] = [];
+
+    for (const challengerRow of challengerRows) {
+      const championRow = championRows.find(r => r.horizonMinutes === challengerRow.horizonMinutes);
+      if (!championRow) continue;
+      if (Math.min(championRow.samples, challengerRow.samples) < MODEL_PROMOTION_CONFIG.minSamplesPerHorizon) continue;
+
+      horizons.push({
+        horizonMinutes: challengerRow.horizonMinutes,
+        champion: championRow,
+        challenger: challengerRow,
+        rmseChange: championRow.rmse > 0 ? (challengerRow.rmse - championRow.rmse) / championRow.rmse : 0
+      });
+    }
+
+    if (horizons.length === 0) {
+      reasons.push(
+        `No horizon has ${MODEL_PROMOTION_CONFIG.minSamplesPerHorizon} lab-matched samples for both models in ${days} days`
+      );
+      return {
+        champion: active.version,
+        challenger,
+        periodDays: days,
+        horizons,
+        championRmse: null,
+        challengerRmse: null,
+        improvement: null,
+        eligible: false,
+        reasons
+      };
+    }
+
+    const championRmse = horizons.reduce((sum, h) => sum + h.champion.rmse, 0) / horizons.length;
+    const challengerRmse = horizons.reduce((sum, h) => sum + h.challenger.rmse, 0) / horizons.length;
+    const improvement = championRmse > 0 ? (championRmse - challengerRmse) / championRmse : 0;
+
+    if (improvement < MODEL_PROMOTION_CONFIG.minRmseImprovement) {
+      reasons.push(
+        `RMSE improvement ${(improvement * 100).toFixed(1)}% is below the required ` +
+        `${MODEL_PROMOTION_CONFIG.minRmseImprovement * 100}%`
+      );
+    }
+    for (const horizon of horizons.filter(h => h.rmseChange > MODEL_PROMOTION_CONFIG.maxHorizonRegression)) {
+      reasons.push(
+        `RMSE at ${horizon.horizonMinutes} min is ${(horizon.rmseChange * 100).toFixed(1)}% worse than the active model`
+      );
+    }
+
+    return {
+      champion: active.version,
+      challenger,
+      periodDays: days,
+      horizons,
+      championRmse,
+      challengerRmse,
+      improvement,
+      eligible: reasons.length === 0,
+      reasons
+    };
+  }
+
+  /**
+   * Make a version active when its comparison with the active version allows it, or when forced
+   */
+  async promote(
+    version: string,
+    options: { promotedBy: string; force?: boolean; days?: number }
+  ): Promise<{ entry: ModelVersionRecord | null; comparison: ModelComparison | null; errors: string[] }> {
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('promote_model');
+
+    try {
+      const target = await this.alloyDBService.getModelVersion(version);
+      if (!target) {
+        return { entry: null, comparison: null, errors: [`version ${version} is not registered`] };
+      }
+      if (target.status === 'active') {
+        return { entry: null, comparison: null, errors: [`version ${version} is already active`] };
+      }
+
+      const comparison = await this.compare(version, options.days);
+      if (comparison && !comparison.eligible && !options.force) {
+        return { entry: null, comparison, errors: comparison.reasons };
+      }
+
+      const entry = await this.alloyDBService.activateModelVersion(version, options.promotedBy, {
+        promotion: comparison,
+        forced: Boolean(options.force && comparison && !comparison.eligible)
+      });
+      this.invalidate();
+
+      span.setAttributes({
+        'model.version': version,
+        'model.previous_version': entry?.previousVersion || '',
+        'model.forced': Boolean(options.force)
+      });
+
+      logger.info('Model version promoted', {
+        version,
+        previousVersion: entry?.previousVersion,
+        promotedBy: options.promotedBy,
+        improvement: comparison?.improvement,
+        forced: Boolean(options.force && comparison && !comparison.eligible)
+      });
+
+      return { entry, comparison, errors: [] };
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Reactivate the version the active one replaced; no evidence is required to back out
+   */
+  async rollback(promotedBy: string): Promise<{ entry: ModelVersionRecord | null; errors: string[] }> {
+    const active = (await this.loadVersions(true)).find(v => v.status === 'active');
+    if (!active?.previousVersion) {
+      return { entry: null, errors: ['The active version has no previous version to roll back to'] };
+    }
+
+    const entry = await this.alloyDBService.activateModelVersion(active.previousVersion, promotedBy, null);
+    this.invalidate();
+
+    logger.warn('Model version rolled back', {
+      from: active.version,
+      to: active.previousVersion,
+      promotedBy
+    });
+
+    return { entry, errors: [] };
+  }
+
+  private async loadVersions(fresh: boolean = false): Promise<ModelVersionRecord[]> {
+    if (!fresh && this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.versions;
+    }
+    const versions = await this.alloyDBService.listModelVersions();
+    this.cache = { versions, expiresAt: Date.now() + MODEL_REGISTRY_CACHE_TTL_MS };
+    return versions;
+  }
+
+  private forecasterFor(entry: ModelVersionRecord): LSFForecaster {
+    let forecaster = this.forecasters.get(entry.version);
+    if (!forecaster) {
+      forecaster = createLSFForecaster(entry.backend, this.vertexService, {
+        modelVersion: entry.version,
+        parameters: entry.parameters
+      });
+      this.forecasters.set(entry.version, forecaster);
+    }
+    return forecaster;
+  }
+
+  private invalidate(): void {
+    this.cache = null;
+  }
+}
+
+/**
+ * Reasons a backend's parameters cannot be used; unknown keys are refused so a typo never silently runs defaults
+ */
+function parameterErrors(backend: ForecastBackend, parameters: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (backend === 'vertex') {
+    for (const key of Object.keys(parameters).filter(k => k !== 'modelEndpoint')) {
+      errors.push(`parameter ${key} is not used by the vertex backend`);
+    }
+    const endpoint = parameters.modelEndpoint;
+    if (endpoint !== undefined && (typeof endpoint !== 'string' || !VERTEX_ENDPOINT_PATTERN.test(endpoint))) {
+      errors.push('modelEndpoint must be a Vertex AI endpoint ID or resource name');
+    }
+    return errors;
+  }
+
+  const limits = MODEL_PARAMETER_LIMITS[backend];
+  for (const [key, value] of Object.entries(parameters)) {
+    const range = limits[key];
+    if (!range) {
+      errors.push(`parameter ${key} is not used by the ${backend} backend`);
+      continue;
+    }
+    const [min, max] = range;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${key} must be a number from ${min} to ${max}`);
+    } else if (MODEL_COUNT_PARAMETERS.includes(key) && !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,50 @@
+import { NaiveLSFForecaster } from './naive-forecaster';
+
+const start = Date.UTC(2026, 0, 1);
+
+function series(values: number[], spacingMinutes: number = 1) {
+  return values.map((lsf, i) => ({ timestamp: new Date(start + i * spacingMinutes * 60000).toISOString(), lsf }));
+}
+
+describe('NaiveLSFForecaster', () => {
+  it('extrapolates the recent drift per sample interval', async () => {
+    const forecaster = new NaiveLSFForecaster(5);
+    const sensorData = series([99.0, 99.1, 99.2, 99.3, 99.4, 99.5]);
+
+    const prediction = await forecaster.predictLSF({ sensorData, predictionHorizonMinutes: 10, stepMinutes: 5 });
+
+    expect(prediction.currentLSF).toBe(99.5);
+    expect(prediction.intervals.map(s => s.p50)).toEqual([expect.closeTo(100, 5), expect.closeTo(100.5, 5)]);
+    expect(prediction.modelVersion).toBe('naive-drift-1.0.0');
+  });
+
+  it('scales the drift to the sample spacing', async () => {
+    const prediction = await new NaiveLSFForecaster(5).predictLSF({
+      sensorData: series([99.0, 99.1, 99.2, 99.3], 2),
+      predictionHorizonMinutes: 10
+    });
+
+    expect(prediction.predictedLSF).toBeCloseTo(99.8);
+  });
+
+  it('only looks at the last window of points', async () => {
+    const prediction = await new NaiveLSFForecaster(3, 'naive-drift-test').predictLSF({
+      sensorData: series([95, 97, 99, 100, 100, 100]),
+      predictionHorizonMinutes: 30
+    });
+
+    expect(prediction.predictedLSF).toBeCloseTo(100);
+    expect(prediction.deviationDetected).toBe(false);
+    expect(prediction.modelVersion).toBe('naive-drift-test');
+  });
+
+  it('widens its intervals with lead time', async () => {
+    const prediction = await new NaiveLSFForecaster().predictLSF({
+      sensorData: series([100, 100.2, 99.9, 100.1, 100, 99.8, 100.1]),
+      predictionHorizonMinutes: 60
+    });
+
+    const widths = prediction.intervals.map(s => s.p90 - s.p10);
+    expect(widths.every((width, i) => i === 0 || width > widths[i - 1])).toBe(true);
+  });
+});
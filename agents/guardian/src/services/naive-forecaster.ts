@@ -0,0 +1,101 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import {
+  LSFForecaster,
+  LSFPrediction,
+  PredictionRequest,
+  buildPrediction,
+  residualStd,
+  sampleIntervalMinutes
+} from './lsf-forecaster';
+
+/**
+ * Naive drift baseline
+ * Extrapolates the mean of the last few LSF deltas per sample interval; the yardstick the other backends must beat
+ */
+export class NaiveLSFForecaster implements LSFForecaster {
+  readonly backend = 'naive' as const;
+  readonly modelVersion: string;
+  private window: number;
+
+  constructor(window: number = 5, modelVersion: string = 'naive-drift-1.0.0') {
+    this.window = window;
+    this.modelVersion = modelVersion;
+  }
+
+  async predictLSF(request: PredictionRequest): Promise<LSFPrediction> {
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('naive_forecast');
+    const startTime = Date.now();
+
+    try {
+      const horizonMinutes = request.predictionHorizonMinutes || 60;
+      const lsf = request.sensorData.map(p => p.lsf);
+      const currentLSF = lsf[lsf.length - 1];
+      const interval = sampleIntervalMinutes(request.sensorData);
+
+      // Random-walk spread from the drift model's own one-step errors over the window
+      const residuals = driftResiduals(lsf, this.window);
+      const stepStd = residualStd(residuals);
+      const driftPerStep = drift(lsf.slice(-this.window));
+
+      const result = buildPrediction({
+        currentLSF,
+        horizonMinutes,
+        stepMinutes: request.stepMinutes,
+        distributionAt: minutesAhead => ({
+          mean: currentLSF + driftPerStep * minutesAhead / interval,
+          std: stepStd * Math.sqrt(Math.max(1, minutesAhead / interval))
+        }),
+        residuals,
+        startTime,
+        modelVersion: this.modelVersion
+      });
+      const { predictedLSF, deviationDetected } = result;
+
+      span.setAttributes({
+        'forecast.backend': this.backend,
+        'forecast.horizon_minutes': horizonMinutes,
+        'forecast.confidence': result.confidence,
+        'forecast.deviation_detected': deviationDetected
+      });
+
+      logger.info('LSF prediction completed', {
+        backend: this.backend,
+        currentLSF,
+        predictedLSF,
+        confidence: result.confidence,
+        outOfBandProbability: result.outOfBandProbability,
+        deviationDetected
+      });
+
+      return result;
+
+    } catch (error) {
+      span.recordException(error as Error);
+      logger.error('Naive LSF prediction failed', { error: (error as Error).message });
+      throw new Error(`Prediction service error: ${(error as Error).message}`);
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Mean delta per sample
+ */
+function drift(values: number[]): number {
+  return values.length > 1 ? (values[values.length - 1] - values[0]) / (values.length - 1) : 0;
+}
+
+/**
+ * One-step errors of the drift forecast, replayed over the window
+ */
+function driftResiduals(lsf: number[], window: number): number[] {
+  const residuals: number[] = [];
+  for (let t = 2; t < lsf.length; t++) {
+    const history = lsf.slice(Math.max(0, t - window), t);
+    residuals.push(lsf[t] - (history[history.length - 1] + drift(history)));
+  }
+  return residuals;
+}
@@ -0,0 +1,189 @@
+import { ProposalLifecycleService } from './proposal-lifecycle-service';
+import type { AlloyDBService, ProposalLifecycleRecord, ProposalStatus } from './alloydb-service';
+import type { LSFPrediction } from './lsf-forecaster';
+
+// In-memory stand-in for the proposals and deviation_state tables, shared like AlloyDB is between instances
+class InMemoryLifecycle {
+  deviationActive = false;
+  proposals: ProposalLifecycleRecord[] = [];
+  executions: Record<string, Date> = {};
+
+  open(proposalId: string, deviationKey: string, deviationMagnitude: number, urgency: string = 'medium'): void {
+    this.proposals.push({
+      proposalId,
+      proposalType: 'stability',
+      urgency,
+      status: 'open',
+      deviationKey,
+      deviationMagnitude,
+      controlVariables: [],
+      supersededBy: null,
+      statusReason: null,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      executedAt: null
+    });
+  }
+
+  statuses(): Record<string, ProposalStatus> {
+    return Object.fromEntries(this.proposals.map(p => [p.proposalId, p.status]));
+  }
+
+  async raiseDeviation(): Promise<boolean> {
+    const raised = !this.deviationActive;
+    this.deviationActive = true;
+    return raised;
+  }
+
+  async isDeviationActive(): Promise<boolean> {
+    return this.deviationActive;
+  }
+
+  async clearDeviation(reason: string): Promise<boolean> {
+    if (!this.deviationActive) {
+      return false;
+    }
+    this.deviationActive = false;
+    for (const proposal of this.proposals.filter(p => p.status === 'open')) {
+      Object.assign(proposal, { status: 'expired', statusReason: reason });
+    }
+    return true;
+  }
+
+  async expireProposals(reason: string, onlyPastExpiry: boolean): Promise<string[]> {
+    const expiring = this.proposals.filter(p =>
+      p.status === 'open' && (!onlyPastExpiry || (p.expiresAt?.getTime() ?? Infinity) < Date.now())
+    );
+    for (const proposal of expiring) {
+      Object.assign(proposal, { status: 'expired', statusReason: reason });
+    }
+    return expiring.map(p => p.proposalId);
+  }
+
+  async getProposals(filters: { status?: ProposalStatus; proposalType?: string }): Promise<ProposalLifecycleRecord[]> {
+    return this.proposals.filter(p =>
+      (!filters.status || p.status === filters.status) && (!filters.proposalType || p.proposalType === filters.proposalType)
+    );
+  }
+
+  async getRecentExecutions(since: Date): Promise<Record<string, Date>> {
+    return Object.fromEntries(Object.entries(this.executions).filter(([, at]) => at >= since));
+  }
+}
+
+function prediction(fields: Partial<LSFPrediction>): LSFPrediction {
+  return {
+    predictedLSF: 100,
+    deviationDetected: false,
+    deviationMagnitude: 0,
+    outOfBandProbability: 0,
+    ...fields
+  } as LSFPrediction;
+}
+
+const kilnSlowdown = { urgency: 'medium', actions: [{ controlVariable: 'kiln_speed', adjustmentMagnitude: -0.1 }] };
+
+describe('ProposalLifecycleService', () => {
+  let store: InMemoryLifecycle;
+  let lifecycle: ProposalLifecycleService;
+
+  beforeEach(() => {
+    store = new InMemoryLifecycle();
+    lifecycle = new ProposalLifecycleService(store as unknown as AlloyDBService);
+  });
+
+  describe('trackDeviation', () => {
+    it('keeps a raised deviation until the forecast is well back in band, then expires its proposals', async () => {
+      expect(await lifecycle.trackDeviation(prediction({ predictedLSF: 97.5, deviationDetected: true }))).toBe(true);
+      store.open('prop_1', 'below:kiln_speed-', 2.5);
+
+      // Back inside the band but not past the hysteresis margin
+      expect(await lifecycle.trackDeviation(prediction({ predictedLSF: 98.1, outOfBandProbability: 0.2 }))).toBe(true);
+      // Well inside but still likely to leave it
+      expect(await lifecycle.trackDeviation(prediction({ predictedLSF: 99.5, outOfBandProbability: 0.5 }))).toBe(true);
+      expect(store.statuses()).toEqual({ prop_1: 'open' });
+
+      expect(await lifecycle.trackDeviation(prediction({ predictedLSF: 99.5, outOfBandProbability: 0.1 }))).toBe(false);
+      expect(store.statuses()).toEqual({ prop_1: 'expired' });
+      expect(await lifecycle.isDeviationActive()).toBe(false);
+    });
+
+    it('shares the deviation between instances', async () => {
+      const other = new ProposalLifecycleService(store as unknown as AlloyDBService);
+
+      await lifecycle.trackDeviation(prediction({ predictedLSF: 97.5, deviationDetected: true }));
+
+      expect(await other.isDeviationActive()).toBe(true);
+      expect(await other.trackDeviation(prediction({ predictedLSF: 98.1, outOfBandProbability: 0.2 }))).toBe(true);
+    });
+
+    it('never raises a deviation on an in-band forecast', async () => {
+      expect(await lifecycle.trackDeviation(prediction({ predictedLSF: 99.5, outOfBandProbability: 0.5 }))).toBe(false);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('publishes when nothing is open', async () => {
+      const decision = await lifecycle.evaluate(kilnSlowdown, prediction({ predictedLSF: 97.5, deviationMagnitude: 2.5 }));
+
+      expect(decision).toEqual({
+        publish: true,
+        reason: 'No open proposal',
+        supersedes: [],
+        deviationKey: 'below:kiln_speed-'
+      });
+    });
+
+    it('holds back a proposal equivalent to the open one', async () => {
+      store.open('prop_1', 'below:kiln_speed-', 2.5);
+
+      const decision = await lifecycle.evaluate(kilnSlowdown, prediction({ predictedLSF: 97.3, deviationMagnitude: 2.7 }));
+
+      expect(decision).toMatchObject({ publish: false, reason: 'Equivalent proposal prop_1 is still open' });
+    });
+
+    it('supersedes the open proposal when the deviation grows, urgency rises or the plan changes', async () => {
+      store.open('prop_1', 'below:kiln_speed-', 2.5);
+
+      const grown = await lifecycle.evaluate(kilnSlowdown, prediction({ predictedLSF: 96.9, deviationMagnitude: 3.1 }));
+      const urgent = await lifecycle.evaluate(
+        { ...kilnSlowdown, urgency: 'high' },
+        prediction({ predictedLSF: 97.5, deviationMagnitude: 2.5 })
+      );
+      const changed = await lifecycle.evaluate(
+        { urgency: 'medium', actions: [{ controlVariable: 'fuel_flow', adjustmentMagnitude: 0.1 }] },
+        prediction({ predictedLSF: 97.5, deviationMagnitude: 2.5 })
+      );
+
+      for (const decision of [grown, urgent, changed]) {
+        expect(decision).toMatchObject({ publish: true, supersedes: ['prop_1'] });
+      }
+      expect(changed.deviationKey).toBe('below:fuel_flow+');
+    });
+
+    it('expires open proposals past their expiry before comparing', async () => {
+      store.open('prop_1', 'below:kiln_speed-', 2.5);
+      store.proposals[0].expiresAt = new Date(Date.now() - 1000);
+
+      const decision = await lifecycle.evaluate(kilnSlowdown, prediction({ predictedLSF: 97.5, deviationMagnitude: 2.5 }));
+
+      expect(decision).toMatchObject({ publish: true, supersedes: [] });
+      expect(store.statuses()).toEqual({ prop_1: 'expired' });
+    });
+  });
+
+  it('holds each variable back for its own cooldown after an executed change', async () => {
+    const now = Date.parse('2026-10-01T08:00:00Z');
+    store.executions = {
+      kiln_speed: new Date(now - 10 * 60000),
+      fuel_flow: new Date(now - 25 * 60000)
+    };
+
+    const cooling = await lifecycle.cooldowns(now);
+
+    expect(Object.keys(cooling)).toEqual(['kiln_speed']);
+    expect(cooling.kiln_speed).toBe(
+      'cooling down until 2026-10-01T08:20:00.000Z after the change executed at 2026-10-01T07:50:00.000Z'
+    );
+  });
+});
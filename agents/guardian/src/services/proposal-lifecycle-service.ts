@@ -0,0 +1,171 @@
+import { logger } from '../utils/logger';
+import {
+  PROPOSAL_LIFECYCLE_CONFIG,
+  QUALITY_BAND_MIN,
+  QUALITY_BAND_MAX,
+  TARGET_LSF
+} from '../config/constants';
+import { AlloyDBService, ProposalLifecycleRecord } from './alloydb-service';
+import type { LSFPrediction } from './lsf-forecaster';
+
+export interface ProposalDecision {
+  publish: boolean;
+  reason: string;
+  // Open proposals the new one replaces
+  supersedes: string[];
+  deviationKey: string;
+}
+
+/**
+ * The parts of a stability proposal its lifecycle compares
+ */
+export interface LifecycleProposal {
+  urgency: string;
+  actions?: Array<{ controlVariable: string; adjustmentMagnitude: number }>;
+}
+
+const URGENCY_RANK: Record<string, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/**
+ * Proposal Lifecycle for Guardian Agent
+ * Raises a deviation with hysteresis, holds variables in cooldown after an executed
+ * change, and publishes a proposal only when no equivalent one is open; an escalated
+ * or different plan supersedes the open one
+ */
+export class ProposalLifecycleService {
+  private alloyDBService: AlloyDBService;
+  private config: typeof PROPOSAL_LIFECYCLE_CONFIG;
+
+  constructor(alloyDBService: AlloyDBService, config: typeof PROPOSAL_LIFECYCLE_CONFIG = PROPOSAL_LIFECYCLE_CONFIG) {
+    this.alloyDBService = alloyDBService;
+    this.config = config;
+  }
+
+  /**
+   * Whether a deviation is in progress; raised by the forecaster's detection, cleared only
+   * once the forecast is well back inside the band. Clearing expires the open proposals.
+   * The state lives in AlloyDB so streaming and pushed data see the same deviation
+   */
+  async trackDeviation(prediction: LSFPrediction): Promise<boolean> {
+    if (prediction.deviationDetected) {
+      if (await this.alloyDBService.raiseDeviation()) {
+        logger.info('LSF deviation raised', {
+          predictedLSF: prediction.predictedLSF,
+          outOfBandProbability: prediction.outOfBandProbability
+        });
+      }
+      return true;
+    }
+    if (!(await this.alloyDBService.isDeviationActive())) {
+      return false;
+    }
+
+    const backInBand = prediction.predictedLSF >= QUALITY_BAND_MIN + this.config.bandHysteresis &&
+      prediction.predictedLSF <= QUALITY_BAND_MAX - this.config.bandHysteresis;
+    if (prediction.outOfBandProbability < this.config.exitProbability && backInBand) {
+      if (await this.alloyDBService.clearDeviation('Deviation cleared')) {
+        logger.info('LSF deviation cleared', {
+          predictedLSF: prediction.predictedLSF,
+          outOfBandProbability: prediction.outOfBandProbability
+        });
+      }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Variables still in cooldown after an executed change, with the reason; the optimizer leaves them alone
+   */
+  async cooldowns(now: number = Date.now()): Promise<Record<string, string>> {
+    const longest = Math.max(...Object.values(this.config.cooldownMinutes));
+    const executions = await this.alloyDBService.getRecentExecutions(new Date(now - longest * 60000));
+    const cooling: Record<string, string> = {};
+
+    for (const [variable, executedAt] of Object.entries(executions)) {
+      const until = executedAt.getTime() + (this.config.cooldownMinutes[variable] ?? 0) * 60000;
+      if (until > now) {
+        cooling[variable] = `cooling down until ${new Date(until).toISOString()} after the change executed at ${executedAt.toISOString()}`;
+      }
+    }
+    return cooling;
+  }
+
+  /**
+   * Decide whether a proposal goes to Master Control given the open ones
+   */
+  async evaluate(proposal: LifecycleProposal, prediction: LSFPrediction): Promise<ProposalDecision> {
+    await this.alloyDBService.expireProposals('Not acted on before expiry', true);
+    const open = await this.alloyDBService.getProposals({ status: 'open', proposalType: 'stability' });
+    const deviationKey = deviationKeyFor(proposal, prediction);
+
+    const equivalent = open.find(existing => isEquivalent(existing, deviationKey, proposal, prediction, this.config.escalationLSF));
+    if (equivalent) {
+      return {
+        publish: false,
+        reason: `Equivalent proposal ${equivalent.proposalId} is still open`,
+        supersedes: [],
+        deviationKey
+      };
+    }
+
+    return {
+      publish: true,
+      reason: open.length > 0 ? 'Escalated or different plan replaces the open proposals' : 'No open proposal',
+      supersedes: open.map(existing => existing.proposalId),
+      deviationKey
+    };
+  }
+
+  /**
+   * Lifecycle fields to store with a published proposal
+   */
+  lifecycleFields(proposal: LifecycleProposal, prediction: LSFPrediction, decision: ProposalDecision, now: number = Date.now()) {
+    return {
+      deviationKey: decision.deviationKey,
+      deviationMagnitude: prediction.deviationMagnitude,
+      controlVariables: (proposal.actions || []).map(action => action.controlVariable),
+      expiresAt: new Date(now + this.config.ttlMinutes * 60000).toISOString()
+    };
+  }
+
+  async markExecuted(proposalId: string, executedAt: Date = new Date()): Promise<ProposalLifecycleRecord | null> {
+    const record = await this.alloyDBService.markProposalExecuted(proposalId, executedAt);
+    if (record) {
+      logger.info('Proposal executed; cooldown started', {
+        proposalId,
+        controlVariables: record.controlVariables,
+        executedAt: executedAt.toISOString()
+      });
+    }
+    return record;
+  }
+
+  async isDeviationActive(): Promise<boolean> {
+    return this.alloyDBService.isDeviationActive();
+  }
+}
+
+/**
+ * Same direction of deviation and the same moves in the same directions count as the same proposal
+ */
+function deviationKeyFor(proposal: LifecycleProposal, prediction: LSFPrediction): string {
+  const direction = prediction.predictedLSF >= TARGET_LSF ? 'above' : 'below';
+  const moves = (proposal.actions || [])
+    .map(action => `${action.controlVariable}${action.adjustmentMagnitude >= 0 ? '+' : '-'}`)
+    .sort()
+    .join(',');
+  return `${direction}:${moves}`;
+}
+
+function isEquivalent(
+  existing: ProposalLifecycleRecord,
+  deviationKey: string,
+  proposal: LifecycleProposal,
+  prediction: LSFPrediction,
+  escalationLSF: number
+): boolean {
+  return existing.deviationKey === deviationKey &&
+    prediction.deviationMagnitude - (existing.deviationMagnitude ?? 0) < escalationLSF &&
+    (URGENCY_RANK[proposal.urgency] ?? 0) <= (URGENCY_RANK[existing.urgency] ?? 0);
+}
@@ -1,5 +1,6 @@
 import { PubSub } from '@google-cloud/pubsub';
 import { logger } from '../utils/logger';
+import type { PubSubClient, PubSubSubscription } from './in-process-pubsub';
 
 export interface ProposalMessage {
   proposalId: string;
@@ -20,14 +21,24 @@ export interface ProposalMessage {
   timestamp: string;
 }
 
+// A lab analysis as the LIMS publishes it; the sample time arrives under any of three names
+export interface LabAnalysisMessage {
+  sampleId?: string;
+  lsf?: number;
+  sampledAt?: string;
+  sampleTime?: string;
+  timestamp?: string;
+}
+
 export class PubSubService {
-  private pubsub: PubSub;
+  private pubsub: PubSubClient;
   private projectId: string;
-  private topics: Map<string, any> = new Map();
+  private subscriptions: Map<string, PubSubSubscription> = new Map();
 
-  constructor(projectId: string) {
+  // Pass an InProcessPubSub to run without GCP
+  constructor(projectId: string, client?: PubSubClient) {
     this.projectId = projectId;
-    this.pubsub = new PubSub({ projectId });
+    this.pubsub = client || new PubSub({ projectId });
   }
 
   async initializeSubscriptions(): Promise<void> {
@@ -149,6 +160,7 @@ export class PubSubService {
     try {
       const subscriptionName = 'guardian-process-data-subscription';
       const subscription = this.pubsub.subscription(subscriptionName);
+      this.subscriptions.set(subscriptionName, subscription);
 
       subscription.on('message', async (message) => {
         try {
@@ -188,10 +200,11 @@ export class PubSubService {
     }
   }
 
-  async subscribeToLabAnalysis(callback: (data: any) => Promise<void>): Promise<void> {
+  async subscribeToLabAnalysis(callback: (data: LabAnalysisMessage) => Promise<void>): Promise<void> {
     try {
       const subscriptionName = 'guardian-lab-analysis-subscription';
       const subscription = this.pubsub.subscription(subscriptionName);
+      this.subscriptions.set(subscriptionName, subscription);
 
       subscription.on('message', async (message) => {
         try {
@@ -231,6 +244,7 @@ export class PubSubService {
     try {
       const subscriptionName = 'guardian-equipment-status-subscription';
       const subscription = this.pubsub.subscription(subscriptionName);
+      this.subscriptions.set(subscriptionName, subscription);
 
       subscription.on('message', async (message) => {
         try {
@@ -297,7 +311,7 @@ export class PubSubService {
 
   async close(): Promise<void> {
     // Close all subscriptions
-    for (const [name, subscription] of this.topics) {
+    for (const [name, subscription] of this.subscriptions) {
       try {
         await subscription.close();
         logger.info('Closed subscription', { name });
@@ -0,0 +1,135 @@
+import { InProcessPubSub } from './in-process-pubsub';
+import { PubSubService } from './pubsub-service';
+import { StreamingPredictionPipeline, PredictionCycleResult, PredictionRunner, parseReadings } from './streaming-pipeline';
+import { NaiveLSFForecaster } from './naive-forecaster';
+import { STREAMING_CONFIG } from '../config/constants';
+
+const SENSOR_TOPIC = 'plant-sensor-data';
+
+// Let setImmediate deliveries and the async message handlers run
+async function settle(rounds: number = 5): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('StreamingPredictionPipeline on the in-process Pub/Sub', () => {
+  const start = Date.now() - 10 * 60000;
+  const at = (minute: number) => new Date(start + minute * 60000).toISOString();
+
+  let bus: InProcessPubSub;
+  let runner: jest.Mock<Promise<PredictionCycleResult>, Parameters<PredictionRunner>>;
+  let pipeline: StreamingPredictionPipeline;
+
+  beforeEach(async () => {
+    bus = new InProcessPubSub();
+    const pubsubService = new PubSubService('cemai-test', bus);
+    await pubsubService.initializeSubscriptions();
+    runner = jest.fn<Promise<PredictionCycleResult>, Parameters<PredictionRunner>>(async () => ({ prediction: null, proposal: null, published: false }));
+    // An hour between scheduled cycles, so only the test drives them
+    pipeline = new StreamingPredictionPipeline(pubsubService, runner, STREAMING_CONFIG, 3600);
+    await pipeline.start();
+  });
+
+  afterEach(() => {
+    pipeline.stop();
+  });
+
+  it('windows process and quality messages and ignores other types', async () => {
+    await bus.publishJson(SENSOR_TOPIC, { timestamp: at(0), variables: { lsf: 96.2, kiln_speed: 3.5 } }, { type: 'process' });
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96.4, timestamp: at(1) }, { type: 'quality' });
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 99, timestamp: at(2) }, { type: 'alarm' });
+    await settle();
+
+    expect(pipeline.getStatus().tags).toEqual({
+      lsf: { points: 2, latest: 96.4, latestAt: at(1) },
+      kiln_speed: { points: 1, latest: 3.5, latestAt: at(0) }
+    });
+  });
+
+  it('runs a stream cycle on the windowed data with other tags aligned to the LSF readings', async () => {
+    await bus.publishJson(SENSOR_TOPIC, { timestamp: at(0), variables: { lsf: 96, fuel_flow: 5.0 } }, { type: 'process' });
+    await bus.publishJson(SENSOR_TOPIC, { timestamp: at(2), variables: { fuel_flow: 5.4 } }, { type: 'process' });
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96.5, timestamp: at(1) }, { type: 'quality' });
+    await settle();
+
+    await pipeline.runCycle();
+
+    expect(runner).toHaveBeenCalledTimes(1);
+    const [sensorData, options] = runner.mock.calls[0];
+    // 'stream' is what sends a raised proposal on to Master Control over A2A
+    expect(options).toEqual({ predictionHorizon: STREAMING_CONFIG.predictionHorizonMinutes, source: 'stream' });
+    expect(sensorData).toHaveLength(2);
+    expect(sensorData[0]).toEqual({ timestamp: at(0), lsf: 96, fuel_flow: 5.0 });
+    expect(sensorData[1].lsf).toBe(96.5);
+    expect(sensorData[1].fuel_flow).toBeCloseTo(5.2);
+  });
+
+  it('skips cycles until a new LSF reading arrives', async () => {
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96, timestamp: at(0) }, { type: 'quality' });
+    await settle();
+
+    expect(await pipeline.runCycle()).not.toBeNull();
+    expect(await pipeline.runCycle()).toBeNull();
+
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'kiln_speed', value: 3.4, timestamp: at(1) }, { type: 'process' });
+    await settle();
+    expect(await pipeline.runCycle()).toBeNull();
+
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96.1, timestamp: at(1) }, { type: 'quality' });
+    await settle();
+    expect(await pipeline.runCycle()).not.toBeNull();
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(pipeline.getStatus()).toMatchObject({ cycles: 2, skippedCycles: 2 });
+  });
+
+  it('replaces a redelivered reading instead of duplicating it', async () => {
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96, timestamp: at(0) }, { type: 'quality' });
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96.3, timestamp: at(0) }, { type: 'quality' });
+    await settle();
+
+    expect(pipeline.snapshot()).toEqual([{ timestamp: at(0), lsf: 96.3 }]);
+  });
+
+  it('counts published proposals and records a failed cycle', async () => {
+    const forecaster = new NaiveLSFForecaster();
+    runner.mockImplementationOnce(async sensorData => ({
+      prediction: await forecaster.predictLSF({ sensorData, predictionHorizonMinutes: 60 }),
+      proposal: { proposalId: 'prop_test' },
+      published: true
+    }));
+    runner.mockRejectedValueOnce(new Error('A2A delivery failed'));
+
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96, timestamp: at(0) }, { type: 'quality' });
+    await settle();
+    await pipeline.runCycle();
+
+    expect(pipeline.getStatus()).toMatchObject({ proposalsPublished: 1, lastError: null });
+    expect(pipeline.getStatus().lastPrediction).toMatchObject({ predictedLSF: 96 });
+
+    await bus.publishJson(SENSOR_TOPIC, { tag: 'lsf', value: 96.1, timestamp: at(1) }, { type: 'quality' });
+    await settle();
+    await expect(pipeline.runCycle()).rejects.toThrow('A2A delivery failed');
+
+    // The failed cycle is retried on the same data rather than blocking the pipeline
+    expect(pipeline.getStatus()).toMatchObject({ cycles: 1, lastError: 'A2A delivery failed' });
+    expect(await pipeline.runCycle()).not.toBeNull();
+  });
+});
+
+describe('parseReadings', () => {
+  it('accepts reading lists, tagged readings, variable maps and flat sensor points', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(parseReadings([
+      { tag: 'lsf', value: 96, timestamp: '2026-01-01T00:00:00Z' },
+      { timestamp: '2026-01-01T00:01:00Z', variables: { kiln_speed: 3.5, status: 'ok' } },
+      { timestamp: 'not a time', fuel_flow: 5.1 }
+    ], now)).toEqual([
+      { tag: 'lsf', value: 96, timestamp: now },
+      { tag: 'kiln_speed', value: 3.5, timestamp: now + 60000 },
+      { tag: 'fuel_flow', value: 5.1, timestamp: now }
+    ]);
+  });
+});
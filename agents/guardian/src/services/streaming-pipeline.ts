@@ -0,0 +1,266 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import {
+  STREAMING_CONFIG,
+  PREDICTION_INTERVAL_SECONDS,
+  SENSOR_PHYSICAL_LIMITS
+} from '../config/constants';
+import { PubSubService } from './pubsub-service';
+import type { LSFPrediction, SensorDataPoint } from './lsf-forecaster';
+
+export interface TagReading {
+  tag: string;
+  value: number;
+  timestamp: number;
+}
+
+export interface PredictionCycleResult {
+  // Null when the data-quality gate refused the window
+  prediction: LSFPrediction | null;
+  // The stability proposal built in this cycle, whether or not it was published
+  proposal: { proposalId: string; [field: string]: unknown } | null;
+  published: boolean;
+}
+
+/**
+ * Runs one prediction on a sensor window; proposal de-duplication is the runner's job
+ */
+export type PredictionRunner = (
+  sensorData: SensorDataPoint[],
+  options: { predictionHorizon: number; source: string }
+) => Promise<PredictionCycleResult>;
+
+// Fields aligned onto the LSF time grid; LSF itself is the grid
+const EXOGENOUS_FIELDS = Object.keys(SENSOR_PHYSICAL_LIMITS).filter(field => field !== 'lsf');
+
+/**
+ * Streaming Prediction Pipeline for Guardian Agent
+ * Keeps a rolling window per tag from the process-data subscription and runs a
+ * prediction every PREDICTION_INTERVAL_SECONDS, publishing proposals through the proposal lifecycle
+ */
+export class StreamingPredictionPipeline {
+  private pubsubService: PubSubService;
+  private runPrediction: PredictionRunner;
+  private config: typeof STREAMING_CONFIG;
+  private intervalSeconds: number;
+  private windows: Map<string, { timestamp: number; value: number }[]> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight = false;
+  private lastCycleLSFAt: number | null = null;
+  private stats = {
+    cycles: 0,
+    skippedCycles: 0,
+    proposalsPublished: 0,
+    lastCycleAt: null as string | null,
+    lastPrediction: null as { predictedLSF: number; confidence: number; deviationDetected: boolean; dataQualityScore: number | null } | null,
+    lastError: null as string | null
+  };
+
+  constructor(
+    pubsubService: PubSubService,
+    runPrediction: PredictionRunner,
+    config: typeof STREAMING_CONFIG = STREAMING_CONFIG,
+    intervalSeconds: number = PREDICTION_INTERVAL_SECONDS
+  ) {
+    this.pubsubService = pubsubService;
+    this.runPrediction = runPrediction;
+    this.config = config;
+    this.intervalSeconds = intervalSeconds;
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+    await this.pubsubService.subscribeToProcessData(async data => this.ingest(data));
+    this.timer = setInterval(() => {
+      this.runCycle().catch(error => logger.error('Streaming prediction cycle failed', { error: (error as Error).message }));
+    }, this.intervalSeconds * 1000);
+
+    logger.info('Streaming prediction pipeline started', {
+      intervalSeconds: this.intervalSeconds,
+      windowMinutes: this.config.windowMinutes
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Streaming prediction pipeline stopped');
+    }
+  }
+
+  /**
+   * Add a process-data message to the per-tag windows; redelivered readings replace rather than duplicate
+   */
+  async ingest(data: unknown, now: number = Date.now()): Promise<void> {
+    const cutoff = now - this.config.windowMinutes * 60000;
+    for (const reading of parseReadings(data, now)) {
+      if (reading.timestamp < cutoff) continue;
+
+      let window = this.windows.get(reading.tag);
+      if (!window) {
+        window = [];
+        this.windows.set(reading.tag, window);
+      }
+
+      let index = window.length;
+      while (index > 0 && window[index - 1].timestamp > reading.timestamp) index--;
+      if (index > 0 && window[index - 1].timestamp === reading.timestamp) {
+        window[index - 1].value = reading.value;
+      } else {
+        window.splice(index, 0, { timestamp: reading.timestamp, value: reading.value });
+      }
+    }
+    this.trim(cutoff);
+  }
+
+  /**
+   * One scheduled prediction; skipped while the previous one runs or when no new LSF reading arrived
+   */
+  async runCycle(now: number = Date.now()): Promise<PredictionCycleResult | null> {
+    const lsfWindow = this.windows.get('lsf') || [];
+    const latestLSFAt = lsfWindow.length > 0 ? lsfWindow[lsfWindow.length - 1].timestamp : null;
+    if (this.inFlight || latestLSFAt === null || latestLSFAt === this.lastCycleLSFAt) {
+      this.stats.skippedCycles++;
+      return null;
+    }
+
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('streaming_prediction_cycle');
+    this.inFlight = true;
+
+    try {
+      this.trim(now - this.config.windowMinutes * 60000);
+      const sensorData = this.snapshot();
+      const result = await this.runPrediction(sensorData, {
+        predictionHorizon: this.config.predictionHorizonMinutes,
+        source: 'stream'
+      });
+
+      this.lastCycleLSFAt = latestLSFAt;
+      this.stats.cycles++;
+      this.stats.lastCycleAt = new Date(now).toISOString();
+      this.stats.lastError = null;
+      if (result.prediction) {
+        this.stats.lastPrediction = {
+          predictedLSF: result.prediction.predictedLSF,
+          confidence: result.prediction.confidence,
+          deviationDetected: result.prediction.deviationDetected,
+          dataQualityScore: result.prediction.dataQuality?.score ?? null
+        };
+      }
+      if (result.published) {
+        this.stats.proposalsPublished++;
+      }
+
+      span.setAttributes({
+        'stream.points': sensorData.length,
+        'stream.deviation_detected': result.prediction?.deviationDetected ?? false,
+        'stream.proposal_published': result.published
+      });
+
+      return result;
+
+    } catch (error) {
+      this.stats.lastError = (error as Error).message;
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      this.inFlight = false;
+      span.end();
+    }
+  }
+
+  /**
+   * The window as forecaster input: one point per LSF reading, other tags interpolated onto its timestamps
+   */
+  snapshot(): SensorDataPoint[] {
+    const lsfWindow = this.windows.get('lsf') || [];
+    return lsfWindow.map(({ timestamp, value }) => {
+      const point: SensorDataPoint & Record<string, number | string> = { timestamp: new Date(timestamp).toISOString(), lsf: value };
+      for (const field of EXOGENOUS_FIELDS) {
+        const estimate = valueAt(this.windows.get(field) || [], timestamp);
+        if (estimate !== undefined) {
+          point[field] = estimate;
+        }
+      }
+      return point;
+    });
+  }
+
+  getStatus() {
+    const tags: Record<string, { points: number; latest: number; latestAt: string }> = {};
+    for (const [tag, window] of this.windows) {
+      if (window.length === 0) continue;
+      const latest = window[window.length - 1];
+      tags[tag] = { points: window.length, latest: latest.value, latestAt: new Date(latest.timestamp).toISOString() };
+    }
+
+    return {
+      running: this.timer !== null,
+      intervalSeconds: this.intervalSeconds,
+      windowMinutes: this.config.windowMinutes,
+      tags,
+      ...this.stats
+    };
+  }
+
+  private trim(cutoff: number): void {
+    for (const [tag, window] of this.windows) {
+      let drop = 0;
+      while (drop < window.length && window[drop].timestamp < cutoff) drop++;
+      drop = Math.max(drop, window.length - this.config.maxPointsPerTag);
+      if (drop > 0) window.splice(0, drop);
+      if (window.length === 0) this.windows.delete(tag);
+    }
+  }
+}
+
+/**
+ * Accepts a reading list, { tag, value, timestamp }, { timestamp, variables: { tag: value } }
+ * or a flat sensor point like those posted to /receive-data
+ */
+export function parseReadings(data: unknown, now: number = Date.now()): TagReading[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(item => parseReadings(item, now));
+  }
+  if (!data || typeof data !== 'object') {
+    return [];
+  }
+  const message = data as Record<string, unknown>;
+  if (Array.isArray(message.data)) {
+    return parseReadings(message.data, now);
+  }
+
+  const parsedTime = Date.parse(String(message.timestamp));
+  const timestamp = Number.isFinite(parsedTime) ? parsedTime : now;
+  const reading = (tag: string, value: unknown): TagReading[] =>
+    typeof value === 'number' && Number.isFinite(value) ? [{ tag, value, timestamp }] : [];
+
+  if (typeof message.tag === 'string') {
+    return reading(message.tag, message.value);
+  }
+  const values = message.variables && typeof message.variables === 'object' ? message.variables : message;
+  return Object.entries(values)
+    .filter(([tag]) => tag !== 'timestamp')
+    .flatMap(([tag, value]) => reading(tag, value));
+}
+
+/**
+ * Linear interpolation between readings, holding the last one after it; undefined before the first
+ */
+function valueAt(window: { timestamp: number; value: number }[], timestamp: number): number | undefined {
+  if (window.length === 0 || timestamp < window[0].timestamp) {
+    return undefined;
+  }
+  for (let i = 1; i < window.length; i++) {
+    if (window[i].timestamp >= timestamp) {
+      const previous = window[i - 1];
+      const fraction = (timestamp - previous.timestamp) / (window[i].timestamp - previous.timestamp);
+      return previous.value + fraction * (window[i].value - previous.value);
+    }
+  }
+  return window[window.length - 1].value;
+}
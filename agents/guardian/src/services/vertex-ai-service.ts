@@ -1,113 +1,195 @@
-// Mock implementation for development - replace with actual Vertex AI when deployed
+import { trace } from '@opentelemetry/api';
 import { logger } from '../utils/logger';
+import { FORECAST_CONFIG } from '../config/constants';
+import {
+  LSFForecaster,
+  LSFPrediction,
+  PredictionRequest,
+  Z_P90,
+  buildPrediction,
+  persistenceResiduals,
+  residualStd,
+  sampleIntervalMinutes
+} from './lsf-forecaster';
 
-export interface LSFPrediction {
-  currentLSF: number;
-  predictedLSF: number;
-  confidence: number;
-  deviationDetected: boolean;
-  deviationMagnitude: number;
-  latency: number;
-  accuracy: number;
-  modelVersion: string;
+export type { LSFPrediction, PredictionRequest } from './lsf-forecaster';
+
+const METADATA_TOKEN_URL = 'http://metadata.google.internal/computeMetadata/v1/instance/service-accounts/default/token';
+
+// The parts of a :predict response Guardian reads
+interface PredictResponse {
+  predictions?: unknown[];
+  deployedModelId?: string;
 }
 
-export interface PredictionRequest {
-  sensorData: Array<{
-    timestamp: string;
-    lsf: number;
-    kiln_speed?: number;
-    fuel_flow?: number;
-    feed_rate?: number;
-    preheater_temperature?: number;
-  }>;
-  predictionHorizonMinutes?: number;
+interface MetadataTokenResponse {
+  access_token: string;
+  expires_in: number;
 }
 
-export class VertexAIForecastingService {
+/**
+ * Vertex AI endpoint client for the LSF forecasting model
+ * Sends the sensor window to the deployed endpoint's :predict method and reads
+ * the forecast back; authenticates with the runtime service account
+ */
+export class VertexAIForecastingService implements LSFForecaster {
+  readonly backend = 'vertex' as const;
+  readonly modelVersion: string;
   private modelEndpoint: string;
   private projectId: string;
   private region: string;
+  private accessToken: { token: string; expiresAt: number } | null = null;
 
-  constructor(projectId: string, region: string, modelEndpoint: string) {
+  constructor(projectId: string, region: string, modelEndpoint: string, modelVersion?: string) {
     this.projectId = projectId;
     this.region = region;
     this.modelEndpoint = modelEndpoint;
+    this.modelVersion = modelVersion || `vertex-${modelEndpoint.split('/').pop()}`;
+  }
+
+  /**
+   * Client under a registered model version, on its own endpoint or this one
+   */
+  forEndpoint(modelEndpoint: string | undefined, modelVersion: string): VertexAIForecastingService {
+    return new VertexAIForecastingService(this.projectId, this.region, modelEndpoint || this.modelEndpoint, modelVersion);
   }
 
   async predictLSF(request: PredictionRequest): Promise<LSFPrediction> {
+    const tracer = trace.getTracer('guardian-agent');
+    const span = tracer.startSpan('vertex_forecast');
     const startTime = Date.now();
-    
+    const horizonMinutes = request.predictionHorizonMinutes || 60;
+
     try {
-      logger.info('Starting LSF prediction (mock)', {
+      logger.info('Starting LSF prediction', {
+        backend: this.backend,
         sensorDataPoints: request.sensorData.length,
-        horizonMinutes: request.predictionHorizonMinutes || 60
+        horizonMinutes
       });
 
-      // Mock prediction logic - replace with actual Vertex AI call when deployed
       const currentLSF = request.sensorData[request.sensorData.length - 1].lsf;
-      
-      // Simple trend-based prediction
-      const recentValues = request.sensorData.slice(-5).map(p => p.lsf);
-      const trend = recentValues.reduce((sum, val, i) => {
-        if (i === 0) return 0;
-        return sum + (val - recentValues[i - 1]);
-      }, 0) / (recentValues.length - 1);
-      
-      const predictedLSF = currentLSF + (trend * (request.predictionHorizonMinutes || 60) / 60);
-      
-      // Calculate deviation from quality band with proper thresholds
-      const targetLSF = 100.0;
-      const qualityBandTolerance = 2.0;
-      const warningThreshold = 1.5;
-      const criticalThreshold = 2.5;
-      
-      const deviationMagnitude = Math.abs(predictedLSF - targetLSF);
-      const deviationDetected = deviationMagnitude > qualityBandTolerance;
-      
-      // Determine deviation severity
-      let deviationSeverity = 'none';
-      if (deviationMagnitude > criticalThreshold) {
-        deviationSeverity = 'critical';
-      } else if (deviationMagnitude > qualityBandTolerance) {
-        deviationSeverity = 'warning';
-      } else if (deviationMagnitude > warningThreshold) {
-        deviationSeverity = 'minor';
+      const response = await fetch(`https://${this.region}-aiplatform.googleapis.com/v1/${this.endpointPath()}:predict`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${await this.getAccessToken()}`
+        },
+        body: JSON.stringify({
+          instances: [{
+            timestamps: request.sensorData.map(p => p.timestamp),
+            lsf: request.sensorData.map(p => p.lsf),
+            kiln_speed: request.sensorData.map(p => p.kiln_speed ?? null),
+            fuel_flow: request.sensorData.map(p => p.fuel_flow ?? null),
+            feed_rate: request.sensorData.map(p => p.feed_rate ?? null),
+            preheater_temperature: request.sensorData.map(p => p.preheater_temperature ?? null),
+            raw_meal_lsf: request.sensorData.map(p => p.raw_meal_lsf ?? null),
+            horizonMinutes
+          }]
+        }),
+        signal: AbortSignal.timeout(FORECAST_CONFIG.vertexTimeoutMs)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Vertex AI endpoint returned ${response.status} ${response.statusText}`);
       }
-      
-      const latency = (Date.now() - startTime) / 1000;
-      
-      const result: LSFPrediction = {
+
+      const body = await response.json() as PredictResponse;
+      const forecast = readForecast(body.predictions?.[0]);
+      if (!forecast) {
+        throw new Error('Vertex AI response carried no LSF forecast');
+      }
+
+      // Spread from the endpoint's quantiles when it serves them, otherwise from the window's persistence residuals
+      const residuals = persistenceResiduals(request.sensorData.map(p => p.lsf));
+      const interval = sampleIntervalMinutes(request.sensorData);
+      const horizonStd = forecast.p10 !== undefined && forecast.p90 !== undefined
+        ? (forecast.p90 - forecast.p10) / (2 * Z_P90)
+        : residualStd(residuals) * Math.sqrt(Math.max(1, horizonMinutes / interval));
+
+      const result = buildPrediction({
         currentLSF,
-        predictedLSF,
-        confidence: 0.95,
-        deviationDetected,
-        deviationMagnitude,
-        latency,
-        accuracy: 0.92,
-        modelVersion: '1.0.0-mock'
-      };
+        horizonMinutes,
+        stepMinutes: request.stepMinutes,
+        // The endpoint forecasts the horizon only; intermediate steps are interpolated
+        distributionAt: minutesAhead => ({
+          mean: currentLSF + (forecast.value - currentLSF) * minutesAhead / horizonMinutes,
+          std: horizonStd * Math.sqrt(minutesAhead / horizonMinutes)
+        }),
+        residuals,
+        startTime,
+        modelVersion: this.modelVersion
+      });
+      const { deviationDetected } = result;
+
+      span.setAttributes({
+        'forecast.backend': this.backend,
+        'forecast.horizon_minutes': horizonMinutes,
+        'forecast.model_version': result.modelVersion,
+        'forecast.deployed_model_id': body.deployedModelId || 'unknown',
+        'forecast.confidence': result.confidence,
+        'forecast.deviation_detected': deviationDetected
+      });
 
-      logger.info('LSF prediction completed (mock)', {
+      logger.info('LSF prediction completed', {
+        backend: this.backend,
         currentLSF: result.currentLSF,
         predictedLSF: result.predictedLSF,
         confidence: result.confidence,
+        outOfBandProbability: result.outOfBandProbability,
         deviationDetected: result.deviationDetected,
-        deviationSeverity,
+        modelVersion: result.modelVersion,
+        deployedModelId: body.deployedModelId,
         latency: result.latency
       });
 
       return result;
-      
+
     } catch (error) {
-      logger.error('LSF prediction failed (mock)', { 
+      span.recordException(error as Error);
+      logger.error('LSF prediction failed', {
+        backend: this.backend,
         error: (error as Error).message,
         modelEndpoint: this.modelEndpoint
       });
       throw new Error(`Prediction service error: ${(error as Error).message}`);
+    } finally {
+      span.end();
     }
   }
 
+  /**
+   * Full resource name; a bare endpoint ID is expanded with the project and region
+   */
+  private endpointPath(): string {
+    return this.modelEndpoint.startsWith('projects/')
+      ? this.modelEndpoint
+      : `projects/${this.projectId}/locations/${this.region}/endpoints/${this.modelEndpoint}`;
+  }
+
+  /**
+   * OAuth token for the runtime service account from the metadata server, cached until shortly before expiry
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now()) {
+      return this.accessToken.token;
+    }
+
+    const response = await fetch(METADATA_TOKEN_URL, {
+      headers: { 'Metadata-Flavor': 'Google' },
+      signal: AbortSignal.timeout(5000)
+    });
+    if (!response.ok) {
+      throw new Error(`Metadata server token request failed: ${response.status}`);
+    }
+
+    const body = await response.json() as MetadataTokenResponse;
+    this.accessToken = {
+      token: body.access_token,
+      expiresAt: Date.now() + (body.expires_in - 60) * 1000
+    };
+    return this.accessToken.token;
+  }
+
   async retrainModel(trainingData: any[]): Promise<any> {
     try {
       logger.info('Starting model retraining', {
@@ -156,4 +238,28 @@ export class VertexAIForecastingService {
       throw new Error(`Metrics retrieval error: ${(error as Error).message}`);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Accept the prediction shapes the LSF model serves: a number, { predictedLSF }, { value } or
+ * { values: [...] } (last step), optionally with { p10, p90 } or { lower, upper } quantiles
+ */
+function readForecast(prediction: unknown): { value: number; p10?: number; p90?: number } | null {
+  const fields = (typeof prediction === 'object' && prediction !== null ? prediction : {}) as Record<string, unknown>;
+  let value: number | null = null;
+  if (typeof prediction === 'number') value = prediction;
+  else if (typeof fields.predictedLSF === 'number') value = fields.predictedLSF;
+  else if (typeof fields.value === 'number') value = fields.value;
+  else if (Array.isArray(fields.values) && typeof fields.values[fields.values.length - 1] === 'number') {
+    value = fields.values[fields.values.length - 1];
+  }
+  if (value === null) {
+    return null;
+  }
+
+  const p10 = fields.p10 ?? fields.lower;
+  const p90 = fields.p90 ?? fields.upper;
+  return typeof p10 === 'number' && typeof p90 === 'number' && p90 >= p10
+    ? { value, p10, p90 }
+    : { value };
+}
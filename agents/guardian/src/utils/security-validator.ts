@@ -1,4 +1,11 @@
+import { createHmac, timingSafeEqual } from 'crypto';
 import { logger } from './logger';
+import { OPERATOR_AUTH_CONFIG } from '../config/constants';
+
+export interface OperatorIdentity {
+  userId: string;
+  role: string;
+}
 
 export class SecurityValidator {
   /**
@@ -41,6 +48,15 @@ export class SecurityValidator {
         return false;
       }
 
+      // Validate trajectory resolution if provided
+      if (body.stepMinutes !== undefined &&
+          (typeof body.stepMinutes !== 'number' ||
+           body.stepMinutes < 1 ||
+           body.stepMinutes > 60)) {
+        logger.warn('Invalid forecast step', { stepMinutes: body.stepMinutes });
+        return false;
+      }
+
       return true;
     } catch (error) {
       logger.error('Error validating prediction request', { error: (error as Error).message });
@@ -244,6 +260,52 @@ export class SecurityValidator {
     }
   }
 
+  /**
+   * Verify an operator bearer token and its role; null when the caller is not authenticated
+   * Tokens are Master Control's: base64url(JSON { sub, role, exp }) + '.' + base64url(HMAC-SHA256 of that part)
+   */
+  static authenticateOperator(authorization: string | undefined, allowedRoles: string[]): OperatorIdentity | null {
+    try {
+      if (!OPERATOR_AUTH_CONFIG.tokenSecret) {
+        logger.error('Operator authentication is not configured - OPERATOR_TOKEN_SECRET is unset');
+        return null;
+      }
+      if (!authorization || !authorization.startsWith('Bearer ')) {
+        return null;
+      }
+
+      const [payloadPart, signaturePart] = authorization.substring(7).split('.');
+      if (!payloadPart || !signaturePart) {
+        return null;
+      }
+
+      const expected = createHmac('sha256', OPERATOR_AUTH_CONFIG.tokenSecret).update(payloadPart).digest();
+      const signature = Buffer.from(signaturePart, 'base64url');
+      if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+        logger.warn('Operator token signature rejected');
+        return null;
+      }
+
+      const claims = JSON.parse(Buffer.from(payloadPart, 'base64url').toString('utf8'));
+      if (typeof claims?.sub !== 'string' || !claims.sub || typeof claims.role !== 'string') {
+        return null;
+      }
+      if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+        logger.warn('Operator token expired', { userId: claims.sub });
+        return null;
+      }
+      if (!allowedRoles.includes(claims.role)) {
+        logger.warn('Operator role not allowed', { userId: claims.sub, role: claims.role });
+        return null;
+      }
+
+      return { userId: claims.sub, role: claims.role };
+    } catch (error) {
+      logger.warn('Operator token could not be verified', { error: (error as Error).message });
+      return null;
+    }
+  }
+
   /**
    * Validate authentication token (placeholder implementation)
    */
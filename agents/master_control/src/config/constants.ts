@@ -7,32 +7,38 @@ export const DECISION_TIMEOUT_MS = 60000; // 60 seconds SLA
 export const CONFLICT_RESOLUTION_TIMEOUT_MS = 30000; // 30 seconds
 export const DECISION_CACHE_TTL_SECONDS = 300; // 5 minutes
 
+export const PROPOSAL_BATCH_WINDOW_MS = process.env.PROPOSAL_BATCH_WINDOW_MS
+  ? Number(process.env.PROPOSAL_BATCH_WINDOW_MS)
+  : 15000; // Proposals arriving within this window share one orchestration run
+export const PROPOSAL_BATCH_MAX_SIZE = 50;
+export const IMMEDIATE_PROPOSAL_URGENCIES = ['high', 'critical'];
+export const IMMEDIATE_PROPOSAL_TYPES = ['emergency'];
+
+export const WORKFLOW_RESUME_WINDOW_MINUTES = 30; // Interrupted runs older than this are not resumed on startup
+
+// An instance leases a workflow thread while it runs it, so no other instance resumes it
+export const WORKFLOW_LEASE_CONFIG = {
+  instanceId: `${process.env.K_REVISION || 'master-control'}_${process.pid}_${Math.random().toString(36).substr(2, 6)}`,
+  leaseSeconds: 90,
+  renewIntervalMs: 30000
+};
+
 export const GEMINI_MODEL_NAME = 'gemini-2.5-pro';
 export const GEMINI_ENDPOINT = process.env.GEMINI_ENDPOINT || 
   'projects/cemai-agents/locations/us-central1/endpoints/gemini-reasoning';
 
-export const DECISION_CONSTITUTION = {
-  priorities: [
-    { level: 1, objective: 'Safety', description: 'Ensure plant and personnel safety' },
-    { level: 2, objective: 'Quality', description: 'Maintain product quality specifications' },
-    { level: 3, objective: 'Emissions', description: 'Minimize environmental impact' },
-    { level: 4, objective: 'Cost', description: 'Optimize operational costs' }
-  ],
-  
-  conflictResolutionRules: [
-    'Safety always takes precedence over all other objectives',
-    'Quality constraints cannot be violated for cost optimization',
-    'Emissions reductions should be pursued when cost-neutral',
-    'Cost optimization is acceptable within safety and quality bounds'
-  ],
-  
-  decisionProcess: [
-    'Summarize and verify all proposals and their goals',
-    'Identify explicit conflicts between proposals',
-    'Evaluate conflicts against constitutional priorities',
-    'Synthesize compromise solution respecting higher priorities',
-    'Document reasoning for audit trail'
-  ]
+// How long an instance serves the active constitution before re-reading it from AlloyDB
+export const CONSTITUTION_CACHE_TTL_MS = process.env.CONSTITUTION_CACHE_TTL_MS
+  ? Number(process.env.CONSTITUTION_CACHE_TTL_MS)
+  : 60000;
+
+export type ResolutionStrategy = 'rule_based' | 'llm' | 'hybrid';
+
+export const CONFLICT_RESOLUTION_CONFIG = {
+  // rule_based: constitution rule table only; llm: Gemini decides; hybrid: Gemini decides, rules validate
+  strategy: (process.env.CONFLICT_RESOLUTION_STRATEGY || 'rule_based') as ResolutionStrategy,
+  // gemini: Vertex AI Gemini; local: deterministic in-process reasoning (tests, offline sites)
+  reasoningBackend: (process.env.REASONING_BACKEND || 'gemini') as 'gemini' | 'local'
 };
 
 export const WORKFLOW_STATUS = {
@@ -41,11 +47,40 @@ export const WORKFLOW_STATUS = {
   ANALYZING: 'analyzing',
   RESOLVING: 'resolving',
   DECIDING: 'deciding',
+  AWAITING_APPROVAL: 'awaiting_approval',
+  CANCELLED: 'cancelled',
   EXECUTING: 'executing',
   COMPLETED: 'completed',
+  ROLLED_BACK: 'rolled_back',
   ERROR: 'error'
 } as const;
 
+export const RISK_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export const HUMAN_APPROVAL_CONFIG = {
+  // Decisions at or above this risk level pause for operator sign-off
+  riskThreshold: (process.env.APPROVAL_RISK_THRESHOLD || 'high') as RiskLevel,
+  // Plant autonomy mode; a request may tighten it to paused or manual but never loosen it
+  defaultAutonomy: (process.env.DEFAULT_AUTONOMY_MODE || 'on') as 'on' | 'paused' | 'manual',
+  // Setpoint moves larger than this percentage of the current value are high risk
+  largeMovePercent: process.env.LARGE_SETPOINT_MOVE_PERCENT
+    ? Number(process.env.LARGE_SETPOINT_MOVE_PERCENT)
+    : 5,
+  // Decisions older than this were made for a plant state that has moved on and can no longer be approved
+  maxApprovalAgeMinutes: process.env.APPROVAL_MAX_AGE_MINUTES
+    ? Number(process.env.APPROVAL_MAX_AGE_MINUTES)
+    : 15
+};
+
+export const OPERATOR_AUTH_CONFIG = {
+  // HMAC-SHA256 key that signs operator bearer tokens; without it every operator request is refused
+  tokenSecret: process.env.OPERATOR_TOKEN_SECRET || '',
+  // Roles that may sign off decisions, and roles that may change the constitution
+  approverRoles: ['operator', 'shift_supervisor', 'admin'],
+  adminRoles: ['admin']
+};
+
 export const AGENT_CONFIG = {
   name: 'master_control_agent',
   version: '1.0.0',
@@ -73,24 +108,56 @@ export const PUBSUB_CONFIG = {
   }
 };
 
-export const SPECIALIST_AGENTS = {
+export const PROPOSAL_COLLECTION_TIMEOUT_MS = process.env.PROPOSAL_COLLECTION_TIMEOUT_MS
+  ? Number(process.env.PROPOSAL_COLLECTION_TIMEOUT_MS)
+  : 20000; // Per-agent deadline when no agent-specific value is set
+
+export interface SpecialistAgentConfig {
+  name: string;
+  endpoint: string;
+  capabilities: string[];
+  proposalPath: string | null; // null for agents that do not produce proposals
+  proposalTimeoutMs: number;
+}
+
+export const SPECIALIST_AGENTS: Record<string, SpecialistAgentConfig> = {
   guardian: {
     name: 'guardian_agent',
     endpoint: process.env.GUARDIAN_ENDPOINT || 'https://guardian-agent-us-central1-cemai-agents.a.run.app',
-    capabilities: ['stability_monitoring', 'quality_prediction', 'minimal_action_calculation']
+    capabilities: ['stability_monitoring', 'quality_prediction', 'minimal_action_calculation'],
+    proposalPath: '/v1/predict/lsf',
+    proposalTimeoutMs: process.env.GUARDIAN_PROPOSAL_TIMEOUT_MS
+      ? Number(process.env.GUARDIAN_PROPOSAL_TIMEOUT_MS)
+      : 15000
   },
   optimizer: {
     name: 'optimizer_agent',
     endpoint: process.env.OPTIMIZER_ENDPOINT || 'https://optimizer-agent-us-central1-cemai-agents.a.run.app',
-    capabilities: ['fuel_optimization', 'cost_calculation', 'market_analysis']
+    capabilities: ['fuel_optimization', 'cost_calculation', 'market_analysis'],
+    proposalPath: '/v1/optimize',
+    proposalTimeoutMs: process.env.OPTIMIZER_PROPOSAL_TIMEOUT_MS
+      ? Number(process.env.OPTIMIZER_PROPOSAL_TIMEOUT_MS)
+      : PROPOSAL_COLLECTION_TIMEOUT_MS
   },
   egress: {
     name: 'egress_agent',
     endpoint: process.env.EGRESS_ENDPOINT || 'https://egress-agent-us-central1-cemai-agents.a.run.app',
-    capabilities: ['command_execution', 'opcua_communication', 'plant_control']
+    capabilities: ['command_execution', 'opcua_communication', 'plant_control'],
+    proposalPath: null,
+    proposalTimeoutMs: PROPOSAL_COLLECTION_TIMEOUT_MS
   }
 };
 
+export const EGRESS_COMMAND_CONFIG = {
+  transport: (process.env.EGRESS_COMMAND_TRANSPORT === 'a2a' ? 'a2a' : 'http') as 'http' | 'a2a',
+  acknowledgementTimeoutMs: 35000, // Egress allows 30 seconds per OPC-UA command
+  rollbackOnFailure: process.env.EGRESS_ROLLBACK_ON_FAILURE !== 'false',
+  // A gradual step completes when its ramp does; polled this often, for the ramp's duration plus the margin
+  rampPollIntervalMs: 5000,
+  rampCompletionMarginMs: 120000,
+  authToken: process.env.EGRESS_AUTH_TOKEN
+};
+
 export const PERFORMANCE_TARGETS = {
   decisionLatencySeconds: 60,
   conflictResolutionRate: 0.95,
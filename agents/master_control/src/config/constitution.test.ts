@@ -0,0 +1,86 @@
+import { DEFAULT_CONSTITUTION_POLICY, validateConstitutionPolicy } from './constitution';
+
+// Deep copy of the seed policy with one part replaced
+function policyWith(overrides: Record<string, unknown>): Record<string, unknown> {
+  return { ...JSON.parse(JSON.stringify(DEFAULT_CONSTITUTION_POLICY)), ...overrides };
+}
+
+describe('validateConstitutionPolicy', () => {
+  it('accepts the seed policy', () => {
+    expect(validateConstitutionPolicy(DEFAULT_CONSTITUTION_POLICY)).toEqual([]);
+  });
+
+  it('rejects anything that is not a policy object', () => {
+    expect(validateConstitutionPolicy(null)).toEqual(['policy must be an object']);
+    expect(validateConstitutionPolicy([])).toEqual(['policy must be an object']);
+  });
+
+  it('reports every missing section', () => {
+    expect(validateConstitutionPolicy({})).toEqual([
+      'priorities must be a non-empty array',
+      'hardConstraints must be an array',
+      'resolutionRules must be an array',
+      'proposalTypeLimits must be an object keyed by proposal type',
+      'decisionProcess must be an array of strings'
+    ]);
+  });
+
+  it('rejects duplicated priority levels and a proposal type ranked twice', () => {
+    const policy = policyWith({
+      priorities: [
+        { level: 1, objective: 'Safety', description: '', proposalTypes: ['stability'] },
+        { level: 1, objective: 'Quality', description: '', proposalTypes: ['stability'] }
+      ]
+    });
+
+    expect(validateConstitutionPolicy(policy)).toEqual([
+      'priorities[1].level 1 is duplicated',
+      'priorities[1].proposalTypes: stability is ranked more than once'
+    ]);
+  });
+
+  it('rejects hard constraints without bounds, with inverted bounds or with a repeated id', () => {
+    const policy = policyWith({
+      hardConstraints: [
+        { id: 'kiln_speed_bounds', controlVariable: 'kiln_speed', description: '' },
+        { id: 'kiln_speed_bounds', controlVariable: 'kiln_speed', min: 4.2, max: 2.8, description: '' },
+        { id: 'fuel_flow_bounds', controlVariable: 'fuel_flow', max: Infinity, description: '' }
+      ]
+    });
+
+    expect(validateConstitutionPolicy(policy)).toEqual([
+      'hardConstraints[0] must set min, max or both',
+      'hardConstraints[1].min must not exceed max',
+      'hardConstraints[2].max must be a finite number',
+      'hardConstraints: id kiln_speed_bounds is duplicated'
+    ]);
+  });
+
+  it('requires moderate rules to scale actions down and known execution methods', () => {
+    const policy = policyWith({
+      resolutionRules: [
+        { id: 'cost', proposalType: 'optimization', onConflict: 'moderate', magnitudeFactor: 1.5, description: '' },
+        { id: 'emissions', proposalType: 'emissions', onConflict: 'defer', executionMethod: 'later', description: '' },
+        { id: 'cost_again', proposalType: 'optimization', onConflict: 'approve', description: '' }
+      ]
+    });
+
+    expect(validateConstitutionPolicy(policy)).toEqual([
+      'resolutionRules[0].magnitudeFactor must be between 0 and 1 for moderate rules',
+      'resolutionRules[1].onConflict must be one of approve, moderate, reject',
+      'resolutionRules[1].executionMethod must be one of immediate, scheduled, conditional, gradual',
+      'resolutionRules[2].proposalType optimization already has a rule'
+    ]);
+  });
+
+  it('rejects proposal type limits that are not counts and positive percentages', () => {
+    const policy = policyWith({
+      proposalTypeLimits: { optimization: { maxActions: 1.5, maxAdjustmentPercent: 0 } }
+    });
+
+    expect(validateConstitutionPolicy(policy)).toEqual([
+      'proposalTypeLimits.optimization.maxActions must be a non-negative integer',
+      'proposalTypeLimits.optimization.maxAdjustmentPercent must be a positive number'
+    ]);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Decision constitution for Master Control Agent
+ * The constitution is a versioned policy document stored in AlloyDB; this module
+ * defines its shape, the validation schema and the seed policy (version 1)
+ */
+
+export type ConflictOutcome = 'approve' | 'moderate' | 'reject';
+
+export interface ConstitutionPolicy {
+  // Ordered objectives; proposals are ranked by the level of the first priority listing their type
+  priorities: Array<{
+    level: number;
+    objective: string;
+    description: string;
+    proposalTypes: string[];
+  }>;
+  // Absolute setpoint bounds no decision may cross, whatever its strategy
+  hardConstraints: Array<{
+    id: string;
+    controlVariable: string;
+    min?: number;
+    max?: number;
+    description: string;
+  }>;
+  // What happens to a proposal type's actions when the proposal is in conflict
+  resolutionRules: Array<{
+    id: string;
+    proposalType: string;
+    onConflict: ConflictOutcome;
+    magnitudeFactor?: number;
+    executionMethod?: 'immediate' | 'scheduled' | 'conditional' | 'gradual';
+    description: string;
+  }>;
+  proposalTypeLimits: Record<string, {
+    maxActions: number;
+    maxAdjustmentPercent: number;
+  }>;
+  decisionProcess: string[];
+}
+
+export interface ActiveConstitution {
+  version: number;
+  policy: ConstitutionPolicy;
+}
+
+export const CONFLICT_OUTCOMES: ConflictOutcome[] = ['approve', 'moderate', 'reject'];
+export const EXECUTION_METHODS = ['immediate', 'scheduled', 'conditional', 'gradual'];
+
+/**
+ * Seed policy, stored as version 1 when AlloyDB holds no constitution yet
+ */
+export const DEFAULT_CONSTITUTION_POLICY: ConstitutionPolicy = {
+  priorities: [
+    { level: 1, objective: 'Safety', description: 'Ensure plant and personnel safety', proposalTypes: ['stability', 'emergency'] },
+    { level: 2, objective: 'Quality', description: 'Maintain product quality specifications', proposalTypes: ['quality'] },
+    { level: 3, objective: 'Emissions', description: 'Minimize environmental impact', proposalTypes: ['emissions'] },
+    { level: 4, objective: 'Cost', description: 'Optimize operational costs', proposalTypes: ['optimization'] }
+  ],
+
+  hardConstraints: [
+    { id: 'kiln_speed_bounds', controlVariable: 'kiln_speed', min: 2.8, max: 4.2, description: 'Kiln speed operating envelope (rpm)' },
+    { id: 'fuel_flow_bounds', controlVariable: 'fuel_flow', min: 4.5, max: 6.8, description: 'Fuel flow operating envelope (t/h)' },
+    { id: 'feed_rate_bounds', controlVariable: 'feed_rate', min: 180, max: 220, description: 'Raw meal feed rate envelope (t/h)' },
+    { id: 'preheater_temp_bounds', controlVariable: 'preheater_temp', min: 850, max: 950, description: 'Preheater temperature envelope (°C)' },
+    { id: 'mill_power_bounds', controlVariable: 'mill_power', min: 1000, max: 5000, description: 'Mill power envelope (kW)' }
+  ],
+
+  resolutionRules: [
+    { id: 'safety_first', proposalType: 'emergency', onConflict: 'approve', description: 'Safety always takes precedence over all other objectives' },
+    { id: 'stability_first', proposalType: 'stability', onConflict: 'approve', description: 'Safety always takes precedence over all other objectives' },
+    { id: 'quality_over_cost', proposalType: 'quality', onConflict: 'approve', description: 'Quality constraints cannot be violated for cost optimization' },
+    { id: 'emissions_cost_neutral', proposalType: 'emissions', onConflict: 'moderate', magnitudeFactor: 0.5, executionMethod: 'gradual', description: 'Emissions reductions should be pursued when cost-neutral' },
+    { id: 'cost_within_bounds', proposalType: 'optimization', onConflict: 'moderate', magnitudeFactor: 0.5, executionMethod: 'gradual', description: 'Cost optimization is acceptable within safety and quality bounds' }
+  ],
+
+  proposalTypeLimits: {
+    emergency: { maxActions: 5, maxAdjustmentPercent: 20 },
+    stability: { maxActions: 3, maxAdjustmentPercent: 10 },
+    quality: { maxActions: 3, maxAdjustmentPercent: 10 },
+    emissions: { maxActions: 3, maxAdjustmentPercent: 5 },
+    optimization: { maxActions: 5, maxAdjustmentPercent: 5 }
+  },
+
+  decisionProcess: [
+    'Summarize and verify all proposals and their goals',
+    'Identify explicit conflicts between proposals',
+    'Evaluate conflicts against constitutional priorities',
+    'Synthesize compromise solution respecting higher priorities',
+    'Document reasoning for audit trail'
+  ]
+};
+
+/**
+ * Validate a policy document against the constitution schema
+ * Returns the list of violations; an empty list means the policy is valid
+ */
+export function validateConstitutionPolicy(input: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['policy must be an object'];
+  }
+  const policy = input as UncheckedFields;
+
+  // Priorities
+  if (!Array.isArray(policy.priorities) || policy.priorities.length === 0) {
+    errors.push('priorities must be a non-empty array');
+  } else {
+    const levels = new Set<number>();
+    const types = new Set<string>();
+    policy.priorities.map(fieldsOf).forEach((priority, i) => {
+      const { level, proposalTypes } = priority;
+      if (!isFiniteNumber(level) || !Number.isInteger(level) || level < 1) {
+        errors.push(`priorities[${i}].level must be a positive integer`);
+      } else if (levels.has(level)) {
+        errors.push(`priorities[${i}].level ${level} is duplicated`);
+      } else {
+        levels.add(level);
+      }
+      if (!isNonEmptyString(priority.objective)) {
+        errors.push(`priorities[${i}].objective must be a non-empty string`);
+      }
+      if (typeof priority.description !== 'string') {
+        errors.push(`priorities[${i}].description must be a string`);
+      }
+      if (!Array.isArray(proposalTypes) || !proposalTypes.every(isNonEmptyString)) {
+        errors.push(`priorities[${i}].proposalTypes must be an array of strings`);
+      } else {
+        for (const type of proposalTypes) {
+          if (types.has(type)) {
+            errors.push(`priorities[${i}].proposalTypes: ${type} is ranked more than once`);
+          }
+          types.add(type);
+        }
+      }
+    });
+  }
+
+  // Hard constraints
+  if (!Array.isArray(policy.hardConstraints)) {
+    errors.push('hardConstraints must be an array');
+  } else {
+    policy.hardConstraints.map(fieldsOf).forEach((constraint, i) => {
+      const { min, max } = constraint;
+      if (!isNonEmptyString(constraint.id)) {
+        errors.push(`hardConstraints[${i}].id must be a non-empty string`);
+      }
+      if (!isNonEmptyString(constraint.controlVariable)) {
+        errors.push(`hardConstraints[${i}].controlVariable must be a non-empty string`);
+      }
+      for (const bound of ['min', 'max']) {
+        if (constraint[bound] !== undefined && !Number.isFinite(constraint[bound])) {
+          errors.push(`hardConstraints[${i}].${bound} must be a finite number`);
+        }
+      }
+      if (min === undefined && max === undefined) {
+        errors.push(`hardConstraints[${i}] must set min, max or both`);
+      } else if (isFiniteNumber(min) && isFiniteNumber(max) && min > max) {
+        errors.push(`hardConstraints[${i}].min must not exceed max`);
+      }
+    });
+    checkUniqueIds(policy.hardConstraints, 'hardConstraints', errors);
+  }
+
+  // Resolution rules
+  if (!Array.isArray(policy.resolutionRules)) {
+    errors.push('resolutionRules must be an array');
+  } else {
+    const ruledTypes = new Set<string>();
+    policy.resolutionRules.map(fieldsOf).forEach((rule, i) => {
+      const { proposalType, magnitudeFactor } = rule;
+      if (!isNonEmptyString(rule.id)) {
+        errors.push(`resolutionRules[${i}].id must be a non-empty string`);
+      }
+      if (!isNonEmptyString(proposalType)) {
+        errors.push(`resolutionRules[${i}].proposalType must be a non-empty string`);
+      } else if (ruledTypes.has(proposalType)) {
+        errors.push(`resolutionRules[${i}].proposalType ${proposalType} already has a rule`);
+      } else {
+        ruledTypes.add(proposalType);
+      }
+      if (!isOneOf(CONFLICT_OUTCOMES, rule.onConflict)) {
+        errors.push(`resolutionRules[${i}].onConflict must be one of ${CONFLICT_OUTCOMES.join(', ')}`);
+      }
+      if (rule.onConflict === 'moderate' &&
+          !(isFiniteNumber(magnitudeFactor) && magnitudeFactor > 0 && magnitudeFactor < 1)) {
+        errors.push(`resolutionRules[${i}].magnitudeFactor must be between 0 and 1 for moderate rules`);
+      }
+      if (rule.executionMethod !== undefined && !isOneOf(EXECUTION_METHODS, rule.executionMethod)) {
+        errors.push(`resolutionRules[${i}].executionMethod must be one of ${EXECUTION_METHODS.join(', ')}`);
+      }
+      if (typeof rule.description !== 'string') {
+        errors.push(`resolutionRules[${i}].description must be a string`);
+      }
+    });
+    checkUniqueIds(policy.resolutionRules, 'resolutionRules', errors);
+  }
+
+  // Per-proposal-type limits
+  if (!policy.proposalTypeLimits || typeof policy.proposalTypeLimits !== 'object' || Array.isArray(policy.proposalTypeLimits)) {
+    errors.push('proposalTypeLimits must be an object keyed by proposal type');
+  } else {
+    for (const [type, limit] of Object.entries(policy.proposalTypeLimits)) {
+      const { maxActions, maxAdjustmentPercent } = fieldsOf(limit);
+      if (!isFiniteNumber(maxActions) || !Number.isInteger(maxActions) || maxActions < 0) {
+        errors.push(`proposalTypeLimits.${type}.maxActions must be a non-negative integer`);
+      }
+      if (!isFiniteNumber(maxAdjustmentPercent) || maxAdjustmentPercent <= 0) {
+        errors.push(`proposalTypeLimits.${type}.maxAdjustmentPercent must be a positive number`);
+      }
+    }
+  }
+
+  if (!Array.isArray(policy.decisionProcess) || !policy.decisionProcess.every(step => typeof step === 'string')) {
+    errors.push('decisionProcess must be an array of strings');
+  }
+
+  return errors;
+}
+
+// A policy part not yet validated; anything but an object reads as having no fields
+type UncheckedFields = Record<string, unknown>;
+
+function fieldsOf(value: unknown): UncheckedFields {
+  return value !== null && typeof value === 'object' ? value as UncheckedFields : {};
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return Number.isFinite(value);
+}
+
+function isOneOf(values: readonly string[], value: unknown): boolean {
+  return typeof value === 'string' && values.includes(value);
+}
+
+function checkUniqueIds(entries: unknown[], field: string, errors: string[]): void {
+  const seen = new Set<unknown>();
+  for (const { id } of entries.map(fieldsOf)) {
+    if (isNonEmptyString(id) && seen.has(id)) {
+      errors.push(`${field}: id ${id} is duplicated`);
+    }
+    seen.add(id);
+  }
+}
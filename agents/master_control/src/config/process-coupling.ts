@@ -0,0 +1,65 @@
+/**
+ * Process-coupling model for Master Control Agent
+ * Declares which control variables move which plant KPIs, in which direction and
+ * with what gain, so conflict analysis can see proposals that interact through
+ * the process rather than through a shared setpoint
+ */
+
+export interface ProcessKpi {
+  unit: string;
+  // Combined move beyond which the KPI leaves its comfortable operating band
+  tolerance: number;
+  description: string;
+}
+
+export interface ProcessCoupling {
+  controlVariable: string;
+  kpi: string;
+  // KPI change per +1% move of the control variable; the sign is the direction
+  gain: number;
+}
+
+export const PROCESS_KPIS: Record<string, ProcessKpi> = {
+  burning_zone_temp: { unit: '°C', tolerance: 20, description: 'Burning zone temperature' },
+  lsf: { unit: 'LSF points', tolerance: 1.0, description: 'Lime saturation factor of the clinker' },
+  free_lime: { unit: '%', tolerance: 0.3, description: 'Free lime in clinker' },
+  nox: { unit: 'mg/Nm³', tolerance: 50, description: 'Stack NOx emissions' },
+  specific_heat_consumption: { unit: 'kcal/kg', tolerance: 15, description: 'Specific heat consumption of clinker' }
+};
+
+/**
+ * Steady-state gains around the normal operating point
+ * fuel_mix is expressed as alternative-fuel substitution: a positive move burns more alternative fuel
+ */
+export const PROCESS_COUPLING_MODEL: ProcessCoupling[] = [
+  { controlVariable: 'kiln_speed', kpi: 'burning_zone_temp', gain: -4 },
+  { controlVariable: 'kiln_speed', kpi: 'lsf', gain: -0.1 },
+  { controlVariable: 'kiln_speed', kpi: 'free_lime', gain: 0.03 },
+
+  { controlVariable: 'fuel_flow', kpi: 'burning_zone_temp', gain: 6 },
+  { controlVariable: 'fuel_flow', kpi: 'lsf', gain: 0.08 },
+  { controlVariable: 'fuel_flow', kpi: 'free_lime', gain: -0.04 },
+  { controlVariable: 'fuel_flow', kpi: 'nox', gain: 8 },
+  { controlVariable: 'fuel_flow', kpi: 'specific_heat_consumption', gain: 6 },
+
+  { controlVariable: 'fuel_mix', kpi: 'burning_zone_temp', gain: -3 },
+  { controlVariable: 'fuel_mix', kpi: 'lsf', gain: -0.06 },
+  { controlVariable: 'fuel_mix', kpi: 'free_lime', gain: 0.02 },
+  { controlVariable: 'fuel_mix', kpi: 'nox', gain: -5 },
+  { controlVariable: 'fuel_mix', kpi: 'specific_heat_consumption', gain: 2 },
+
+  { controlVariable: 'feed_rate', kpi: 'burning_zone_temp', gain: -2.5 },
+  { controlVariable: 'feed_rate', kpi: 'lsf', gain: 0.05 },
+  { controlVariable: 'feed_rate', kpi: 'free_lime', gain: 0.02 },
+  { controlVariable: 'feed_rate', kpi: 'specific_heat_consumption', gain: -1.5 },
+
+  { controlVariable: 'preheater_temp', kpi: 'burning_zone_temp', gain: 2 },
+  { controlVariable: 'preheater_temp', kpi: 'free_lime', gain: -0.02 },
+  { controlVariable: 'preheater_temp', kpi: 'specific_heat_consumption', gain: 1.5 },
+
+  { controlVariable: 'mill_power', kpi: 'lsf', gain: 0.03 },
+  { controlVariable: 'mill_power', kpi: 'free_lime', gain: -0.01 }
+];
+
+// Per-proposal KPI impact below this share of the tolerance is treated as noise
+export const COUPLING_SIGNIFICANCE_RATIO = 0.1;
@@ -0,0 +1,150 @@
+import { Command, MemorySaver } from '@langchain/langgraph';
+import { buildGraph } from './graph';
+import type { WorkflowGraph } from './graph';
+import type { CommandDispatcher } from './services/egress-command-dispatcher';
+import type { ExecutionReporter } from './services/proposal-execution-reporter';
+import type { ProposalSource } from './services/proposal-collector';
+import { HUMAN_APPROVAL_CONFIG, WORKFLOW_STATUS } from './config/constants';
+
+const smallKilnSpeedMove = {
+  controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.52, adjustmentMagnitude: 0.57, executionMethod: 'immediate'
+};
+
+function proposalSource(urgency: string): ProposalSource {
+  return {
+    collect: async () => ({
+      proposals: [{ agentId: 'guardian_agent', proposalType: 'stability', urgency, actions: [smallKilnSpeedMove] }],
+      agentResponses: []
+    })
+  };
+}
+
+function initialState(requestId: string, context: Record<string, unknown> = {}) {
+  return {
+    requestId,
+    conversationId: `conv_${requestId}`,
+    timestamp: new Date().toISOString(),
+    trigger: 'test',
+    context,
+    proposals: [],
+    agentResponses: [],
+    conflicts: [],
+    approvedActions: [],
+    rejectedActions: [],
+    modifications: [],
+    status: WORKFLOW_STATUS.INITIALIZING
+  };
+}
+
+const thread = (requestId: string) => ({ configurable: { thread_id: requestId } });
+
+describe('workflow graph approval', () => {
+  const configuredAutonomy = HUMAN_APPROVAL_CONFIG.defaultAutonomy;
+  let dispatch: jest.Mock<ReturnType<CommandDispatcher['dispatch']>, Parameters<CommandDispatcher['dispatch']>>;
+  let commandDispatcher: CommandDispatcher;
+  let report: jest.Mock<ReturnType<ExecutionReporter['report']>, Parameters<ExecutionReporter['report']>>;
+
+  beforeEach(() => {
+    dispatch = jest.fn(async state => ({
+      executionResults: [{
+        commandId: `cmd_${state.decision!.decisionId}_s1`,
+        step: 1,
+        status: 'success' as const,
+        outcome: 'applied' as const,
+        action: smallKilnSpeedMove,
+        timestamp: new Date().toISOString()
+      }],
+      rollback: { triggered: false, results: [] }
+    }));
+    commandDispatcher = { dispatch };
+    report = jest.fn<Promise<void>, Parameters<ExecutionReporter['report']>>(async () => undefined);
+  });
+
+  afterEach(() => {
+    HUMAN_APPROVAL_CONFIG.defaultAutonomy = configuredAutonomy;
+  });
+
+  function graphFor(urgency: string) {
+    return buildGraph({
+      proposalSource: proposalSource(urgency),
+      commandDispatcher,
+      executionReporter: { report },
+      checkpointer: new MemorySaver(),
+      resolutionStrategy: 'rule_based'
+    });
+  }
+
+  async function pendingApproval(graph: WorkflowGraph, requestId: string) {
+    const snapshot = await graph.getState(thread(requestId));
+    return { next: snapshot.next, interrupt: snapshot.tasks.flatMap(task => task.interrupts)[0]?.value };
+  }
+
+  it('sends a low-risk decision without pausing when autonomy is on', async () => {
+    HUMAN_APPROVAL_CONFIG.defaultAutonomy = 'on';
+    const graph = graphFor('low');
+
+    const result = await graph.invoke(initialState('req_low'), thread('req_low'));
+
+    expect(result.decision!.humanApproval).toMatchObject({ required: false, status: 'not_required' });
+    expect(result.status).toBe(WORKFLOW_STATUS.COMPLETED);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(report.mock.calls[0][1]).toEqual(result.executionResults);
+  });
+
+  it('pauses a critical decision for sign-off and sends its commands once approved', async () => {
+    HUMAN_APPROVAL_CONFIG.defaultAutonomy = 'on';
+    const graph = graphFor('critical');
+
+    await graph.invoke(initialState('req_critical'), thread('req_critical'));
+
+    const pending = await pendingApproval(graph, 'req_critical');
+    expect(pending.next).toEqual(['await_approval']);
+    expect(pending.interrupt).toMatchObject({ type: 'human_approval', riskLevel: 'critical' });
+    expect(dispatch).not.toHaveBeenCalled();
+
+    const result = await graph.invoke(
+      new Command({ resume: { approved: true, approver: 'operator_1', rationale: 'checked kiln camera' } }),
+      thread('req_critical')
+    );
+
+    expect(result.decision!.humanApproval).toMatchObject({ status: 'approved', approver: 'operator_1' });
+    expect(result.status).toBe(WORKFLOW_STATUS.COMPLETED);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends a rejected decision without sending commands', async () => {
+    HUMAN_APPROVAL_CONFIG.defaultAutonomy = 'on';
+    const graph = graphFor('critical');
+    await graph.invoke(initialState('req_rejected'), thread('req_rejected'));
+
+    const result = await graph.invoke(
+      new Command({ resume: { approved: false, approver: 'operator_1', rationale: 'feed is unstable' } }),
+      thread('req_rejected')
+    );
+
+    expect(result.decision!.humanApproval.status).toBe('rejected');
+    expect(result.status).toBe(WORKFLOW_STATUS.CANCELLED);
+    expect(dispatch).not.toHaveBeenCalled();
+    expect(report).not.toHaveBeenCalled();
+  });
+
+  it('lets a request ask for sign-off the plant setting does not require', async () => {
+    HUMAN_APPROVAL_CONFIG.defaultAutonomy = 'on';
+    const graph = graphFor('low');
+
+    await graph.invoke(initialState('req_tightened', { autonomy: 'manual' }), thread('req_tightened'));
+
+    expect((await pendingApproval(graph, 'req_tightened')).interrupt).toMatchObject({ reason: 'Autonomy is manual' });
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it('does not let a request skip sign-off the plant setting requires', async () => {
+    HUMAN_APPROVAL_CONFIG.defaultAutonomy = 'paused';
+    const graph = graphFor('low');
+
+    await graph.invoke(initialState('req_loosened', { autonomy: 'on' }), thread('req_loosened'));
+
+    expect((await pendingApproval(graph, 'req_loosened')).interrupt).toMatchObject({ reason: 'Autonomy is paused' });
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
@@ -1,51 +1,194 @@
-import { StateGraph, START, END, Annotation } from '@langchain/langgraph';
+import { StateGraph, END, Annotation, BaseCheckpointSaver, interrupt } from '@langchain/langgraph';
+import type { Command } from '@langchain/langgraph';
 import { logger } from './utils/logger';
-import { DECISION_CONSTITUTION, WORKFLOW_STATUS } from './config/constants';
+import {
+  WORKFLOW_STATUS,
+  CONFLICT_RESOLUTION_CONFIG,
+  ResolutionStrategy,
+  HUMAN_APPROVAL_CONFIG,
+  RISK_LEVELS,
+  RiskLevel
+} from './config/constants';
+import {
+  ProposalCollector,
+  ProposalSource,
+  AgentResponseRecord,
+  AgentProposal,
+  ControlAction
+} from './services/proposal-collector';
+import {
+  EgressCommandDispatcher,
+  CommandDispatcher,
+  CommandExecutionResult,
+  RollbackReport,
+  executableActions
+} from './services/egress-command-dispatcher';
+import { ExecutionReporter, GuardianExecutionReporter } from './services/proposal-execution-reporter';
+import {
+  ConflictResolver,
+  ConflictAnalysisResult,
+  ConflictResolutionResult,
+  HybridValidation,
+  PolicyViolation,
+  ProposalConflict,
+  DecisionExplanation,
+  createReasoningService
+} from './services/conflict-resolver';
+import type { ReasoningService } from './services/gemini-reasoning-service';
+import { ConstitutionSource, BUILT_IN_CONSTITUTION } from './services/constitution-service';
+import type { ActiveConstitution } from './config/constitution';
+import type { KpiImpact } from './services/process-impact-model';
 
 export interface WorkflowState {
   requestId: string;
   conversationId: string;
   timestamp: string;
   trigger: string;
-  context: any;
-  proposals: any[];
-  conflicts: any[];
-  approvedActions: any[];
-  rejectedActions: any[];
-  modifications: any[];
+  context: Record<string, unknown>;
+  proposals: AgentProposal[];
+  agentResponses?: AgentResponseRecord[];
+  conflicts: ProposalConflict[];
+  // Constitution version pinned when conflicts are resolved; kept for the rest of the run
+  constitution?: ActiveConstitution;
+  conflictAnalysis?: ConflictAnalysisResult['analysis'];
+  resolution?: ConflictResolutionResult['resolution'];
+  approvedActions: ControlAction[];
+  rejectedActions: ControlAction[];
+  modifications: ControlAction[];
   status: (typeof WORKFLOW_STATUS)[keyof typeof WORKFLOW_STATUS];
-  decision?: any;
-  executionResults?: any[];
+  decision?: WorkflowDecision | null;
+  executionResults?: CommandExecutionResult[];
+  rollback?: RollbackReport;
+}
+
+type ThreadConfig = { configurable: { thread_id: string; checkpoint_id?: string } };
+
+/**
+ * A checkpointed step of a workflow thread
+ */
+export interface WorkflowSnapshot {
+  values: WorkflowState;
+  // Nodes still to run; empty once the thread has finished
+  next: string[];
+  tasks: Array<{ name: string; interrupts: Array<{ value?: unknown }> }>;
+  parentConfig?: { configurable?: { checkpoint_id?: string } };
+}
+
+/**
+ * The compiled workflow, run and inspected per thread
+ */
+export interface WorkflowGraph {
+  invoke(input: WorkflowState | Command | null, config: ThreadConfig): Promise<WorkflowState>;
+  getState(config: ThreadConfig): Promise<WorkflowSnapshot>;
+  getStateHistory(config: ThreadConfig): AsyncIterable<WorkflowSnapshot>;
+}
+
+export interface HumanApproval {
+  required: boolean;
+  reason: string | null;
+  status: 'pending' | 'not_required' | 'approved' | 'rejected';
+  // Set once an operator has signed off or rejected
+  approver?: string;
+  rationale?: string;
+  timestamp?: string;
+}
+
+/**
+ * The decision a run reaches, with its audit trail and execution plan
+ */
+export interface WorkflowDecision {
+  decisionId: string;
+  timestamp: string;
+  originalProposals: string[];
+  conflictAnalysis: WorkflowState['conflicts'];
+  processImpact: KpiImpact[];
+  approvedActions: ControlAction[];
+  rejectedActions: ControlAction[];
+  modifications: ControlAction[];
+  decisionMaker: string;
+  constitutionApplied: boolean;
+  policyVersion: number | null;
+  reasoning: string;
+  riskLevel: RiskLevel;
+  riskAssessment: string;
+  humanApproval: HumanApproval;
+  resolutionStrategy: ResolutionStrategy;
+  reasoningDetails: {
+    strategy: ResolutionStrategy;
+    applied: ConflictResolutionResult['resolution']['applied'];
+    ruleBased: string | null;
+    llm: { decisionRationale: string; compromiseExplanation: string; confidence: number } | null;
+    validation: HybridValidation | null;
+    policyViolations: PolicyViolation[];
+    explanation: DecisionExplanation | null;
+  };
+  executionPlan: {
+    executionOrder: Array<{ step: number; action: string; method: string; safetyChecks: boolean }>;
+    estimatedDuration: number;
+    rollbackPlan: {
+      strategy: string;
+      trigger: string;
+      steps: Array<{ step: number; controlVariable: string; expectedRestoreValue: unknown; method: string }>;
+    };
+  };
+}
+
+export interface GraphOptions {
+  proposalSource?: ProposalSource;
+  commandDispatcher?: CommandDispatcher;
+  executionReporter?: ExecutionReporter;
+  checkpointer?: BaseCheckpointSaver;
+  resolutionStrategy?: ResolutionStrategy;
+  // Defaults to the REASONING_BACKEND service; pass a deterministic stub for offline runs
+  reasoningService?: ReasoningService;
+  constitutionSource?: ConstitutionSource;
 }
 
 /**
  * Build the LangGraph workflow for Master Control Agent
  */
-export function buildGraph(): any {
+export function buildGraph(options: GraphOptions = {}): WorkflowGraph {
+  const proposalSource = options.proposalSource || new ProposalCollector();
+  const commandDispatcher = options.commandDispatcher || new EgressCommandDispatcher();
+  const executionReporter = options.executionReporter || new GuardianExecutionReporter();
+  const resolutionStrategy = options.resolutionStrategy || CONFLICT_RESOLUTION_CONFIG.strategy;
+  const constitutionSource = options.constitutionSource || BUILT_IN_CONSTITUTION;
+  const conflictResolver = new ConflictResolver(
+    resolutionStrategy,
+    options.reasoningService || createReasoningService(resolutionStrategy)
+  );
+
   const State = Annotation.Root({
     requestId: Annotation<string>(),
     conversationId: Annotation<string>(),
     timestamp: Annotation<string>(),
     trigger: Annotation<string>(),
-    context: Annotation<any>(),
-    proposals: Annotation<any[]>(),
-    conflicts: Annotation<any[]>(),
-    approvedActions: Annotation<any[]>(),
-    rejectedActions: Annotation<any[]>(),
-    modifications: Annotation<any[]>(),
+    context: Annotation<Record<string, unknown>>(),
+    proposals: Annotation<AgentProposal[]>(),
+    agentResponses: Annotation<AgentResponseRecord[]>(),
+    conflicts: Annotation<ProposalConflict[]>(),
+    constitution: Annotation<ActiveConstitution>(),
+    conflictAnalysis: Annotation<ConflictAnalysisResult['analysis']>(),
+    resolution: Annotation<ConflictResolutionResult['resolution']>(),
+    approvedActions: Annotation<ControlAction[]>(),
+    rejectedActions: Annotation<ControlAction[]>(),
+    modifications: Annotation<ControlAction[]>(),
     status: Annotation<(typeof WORKFLOW_STATUS)[keyof typeof WORKFLOW_STATUS]>(),
-    decision: Annotation<any>(),
-    executionResults: Annotation<any[]>()
+    decision: Annotation<WorkflowDecision | null>(),
+    executionResults: Annotation<CommandExecutionResult[]>(),
+    rollback: Annotation<RollbackReport>()
   });
 
   const workflow = new StateGraph(State);
 
   // Add workflow nodes
-  workflow.addNode('collect_proposals', collectProposals);
-  workflow.addNode('analyze_conflicts', analyzeConflicts);
-  workflow.addNode('resolve_conflicts', resolveConflicts);
-  workflow.addNode('generate_decision', generateDecision);
-  workflow.addNode('send_commands', sendCommands);
+  workflow.addNode('collect_proposals', (state: WorkflowState) => collectProposals(state, proposalSource));
+  workflow.addNode('analyze_conflicts', (state: WorkflowState) => analyzeConflicts(state, conflictResolver));
+  workflow.addNode('resolve_conflicts', (state: WorkflowState) =>
+    resolveConflicts(state, conflictResolver, constitutionSource));
+  workflow.addNode('generate_decision', (state: WorkflowState) => generateDecision(state, conflictResolver));
+  workflow.addNode('await_approval', awaitApproval);
+  workflow.addNode('send_commands', (state: WorkflowState) => sendCommands(state, commandDispatcher, executionReporter));
 
   // Set entry point
   (workflow as any).setEntryPoint('collect_proposals');
@@ -54,41 +197,41 @@ export function buildGraph(): any {
   (workflow as any).addEdge('collect_proposals', 'analyze_conflicts');
   (workflow as any).addEdge('analyze_conflicts', 'resolve_conflicts');
   (workflow as any).addEdge('resolve_conflicts', 'generate_decision');
-  (workflow as any).addEdge('generate_decision', 'send_commands');
+  (workflow as any).addEdge('generate_decision', 'await_approval');
+  (workflow as any).addConditionalEdges('await_approval', routeAfterApproval, ['send_commands', END]);
   (workflow as any).addEdge('send_commands', END);
 
-  return workflow.compile();
+  return workflow.compile({ checkpointer: options.checkpointer }) as unknown as WorkflowGraph;
 }
 
 /**
  * Collect proposals from specialist agents
  */
-async function collectProposals(state: WorkflowState): Promise<Partial<WorkflowState>> {
+async function collectProposals(
+  state: WorkflowState,
+  proposalSource: ProposalSource
+): Promise<Partial<WorkflowState>> {
   try {
     logger.info('Collecting proposals from specialist agents', {
       requestId: state.requestId,
       trigger: state.trigger
     });
 
-    const proposals: any[] = [];
-
-    // Simulate collecting proposals from agents
-    if (state.trigger === 'quality_deviation') {
-      proposals.push({
-        agentId: 'guardian_agent',
-        proposalType: 'stability',
-        urgency: 'medium',
-        actions: [{
-          controlVariable: 'kiln_speed',
-          currentValue: 3.2,
-          proposedValue: 3.3,
-          adjustmentMagnitude: 0.1
-        }]
-      });
-    }
+    const { proposals, agentResponses } = await proposalSource.collect(state);
+
+    // Proposals already attached to the state (e.g. queued A2A proposals) are kept
+    const collected = [...(state.proposals || []), ...proposals];
+
+    logger.info('Proposal collection completed', {
+      requestId: state.requestId,
+      proposalCount: collected.length,
+      timedOut: agentResponses.filter(r => r.status === 'timeout').map(r => r.agentId),
+      failed: agentResponses.filter(r => r.status === 'failed').map(r => r.agentId)
+    });
 
     return {
-      proposals,
+      proposals: collected,
+      agentResponses,
       status: WORKFLOW_STATUS.COLLECTING
     };
 
@@ -100,7 +243,8 @@ async function collectProposals(state: WorkflowState): Promise<Partial<WorkflowS
     
     return {
       status: WORKFLOW_STATUS.ERROR,
-      proposals: []
+      proposals: [],
+      agentResponses: []
     };
   }
 }
@@ -108,15 +252,17 @@ async function collectProposals(state: WorkflowState): Promise<Partial<WorkflowS
 /**
  * Analyze conflicts between proposals
  */
-async function analyzeConflicts(state: WorkflowState): Promise<Partial<WorkflowState>> {
+async function analyzeConflicts(
+  state: WorkflowState,
+  conflictResolver: ConflictResolver
+): Promise<Partial<WorkflowState>> {
   try {
     logger.info('Analyzing conflicts between proposals', {
       requestId: state.requestId,
-      proposalCount: state.proposals.length
+      proposalCount: state.proposals.length,
+      strategy: conflictResolver.getStrategy()
     });
 
-    const conflicts: any[] = [];
-
     if (state.proposals.length <= 1) {
       logger.info('No conflicts detected - single or no proposals');
       return {
@@ -125,37 +271,19 @@ async function analyzeConflicts(state: WorkflowState): Promise<Partial<WorkflowS
       };
     }
 
-    // Simple conflict detection logic
-    for (let i = 0; i < state.proposals.length; i++) {
-      for (let j = i + 1; j < state.proposals.length; j++) {
-        const proposal1 = state.proposals[i];
-        const proposal2 = state.proposals[j];
-
-        // Check for conflicting control variables
-        const actions1 = proposal1.actions.map((a: any) => a.controlVariable);
-        const actions2 = proposal2.actions.map((a: any) => a.controlVariable);
-        
-        const conflictingVariables = actions1.filter((v: string) => actions2.includes(v));
-        
-        if (conflictingVariables.length > 0) {
-          conflicts.push({
-            type: 'control_variable_conflict',
-            severity: 'high',
-            description: `Conflicting control variables: ${conflictingVariables.join(', ')}`,
-            affectedProposals: [proposal1.agentId, proposal2.agentId],
-            conflictingParameters: conflictingVariables
-          });
-        }
-      }
-    }
+    const { conflicts, analysis } = await conflictResolver.analyze(state.proposals);
 
     logger.info('Conflict analysis completed', {
       requestId: state.requestId,
-      conflictCount: conflicts.length
+      conflictCount: conflicts.length,
+      ruleBasedCount: analysis.ruleBased.conflictCount,
+      couplingCount: analysis.ruleBased.couplingConflictCount,
+      llmCount: analysis.llm?.conflictCount
     });
 
     return {
       conflicts,
+      conflictAnalysis: analysis,
       status: WORKFLOW_STATUS.ANALYZING
     };
 
@@ -175,71 +303,40 @@ async function analyzeConflicts(state: WorkflowState): Promise<Partial<WorkflowS
 /**
  * Resolve conflicts using Constitutional AI framework
  */
-async function resolveConflicts(state: WorkflowState): Promise<Partial<WorkflowState>> {
+async function resolveConflicts(
+  state: WorkflowState,
+  conflictResolver: ConflictResolver,
+  constitutionSource: ConstitutionSource
+): Promise<Partial<WorkflowState>> {
   try {
+    const constitution = state.constitution || await constitutionSource.getActive();
+
     logger.info('Resolving conflicts using Constitutional AI', {
       requestId: state.requestId,
-      conflictCount: state.conflicts.length
+      conflictCount: state.conflicts.length,
+      strategy: conflictResolver.getStrategy(),
+      policyVersion: constitution.version
     });
 
-    if (state.conflicts.length === 0) {
-      logger.info('No conflicts to resolve');
-      return {
-        status: WORKFLOW_STATUS.RESOLVING,
-        approvedActions: state.proposals.flatMap((p: any) => p.actions),
-        rejectedActions: [],
-        modifications: []
-      };
-    }
-
-    // Apply Constitutional AI framework
-    const approvedActions: any[] = [];
-    const rejectedActions: any[] = [];
-    const modifications: any[] = [];
-
-    // Sort proposals by constitutional priority (Safety > Quality > Emissions > Cost)
-    const sortedProposals = state.proposals.sort((a: any, b: any) => {
-      const priorityA = getConstitutionalPriority(a);
-      const priorityB = getConstitutionalPriority(b);
-      return priorityA - priorityB;
-    });
-
-    // Process proposals in priority order
-    for (const proposal of sortedProposals) {
-      if (proposal.proposalType === 'stability') {
-        // Safety and Quality (Priority 1 & 2) - Always approve
-        approvedActions.push(...proposal.actions);
-      } else if (proposal.proposalType === 'optimization') {
-        // Cost optimization (Priority 4) - Only approve if no conflicts
-        const hasConflicts = state.conflicts.some((c: any) => 
-          c.affectedProposals.includes(proposal.agentId)
-        );
-        
-        if (!hasConflicts) {
-          approvedActions.push(...proposal.actions);
-        } else {
-          // Modify optimization to reduce conflicts
-          const modifiedActions = proposal.actions.map((action: any) => ({
-            ...action,
-            executionMethod: 'gradual',
-            adjustmentMagnitude: action.adjustmentMagnitude * 0.5
-          }));
-          modifications.push(...modifiedActions);
-        }
-      }
-    }
+    const { approvedActions, rejectedActions, modifications, resolution } =
+      await conflictResolver.resolve(state.proposals, state.conflicts, constitution);
 
     logger.info('Conflict resolution completed', {
       requestId: state.requestId,
+      applied: resolution.applied,
       approvedActions: approvedActions.length,
-      modifications: modifications.length
+      modifications: modifications.length,
+      validationViolations: resolution.validation?.violations.length,
+      policyViolations: resolution.policyViolations.length
     });
 
     return {
       status: WORKFLOW_STATUS.RESOLVING,
+      constitution,
       approvedActions,
       rejectedActions,
-      modifications
+      modifications,
+      resolution
     };
 
   } catch (error) {
@@ -260,7 +357,10 @@ async function resolveConflicts(state: WorkflowState): Promise<Partial<WorkflowS
 /**
  * Generate final decision with complete audit trail
  */
-async function generateDecision(state: WorkflowState): Promise<Partial<WorkflowState>> {
+async function generateDecision(
+  state: WorkflowState,
+  conflictResolver: ConflictResolver
+): Promise<Partial<WorkflowState>> {
   try {
     logger.info('Generating final decision', {
       requestId: state.requestId,
@@ -268,39 +368,83 @@ async function generateDecision(state: WorkflowState): Promise<Partial<WorkflowS
       rejectedActions: state.rejectedActions.length
     });
 
-    const decision = {
+    const actions = executableActions(state);
+    const riskLevel = assessRiskLevel(state);
+    const approvalReason = getApprovalReason(state, riskLevel);
+
+    const decision: WorkflowDecision = {
       decisionId: `decision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: new Date().toISOString(),
-      originalProposals: state.proposals.map((p: any) => p.agentId),
+      originalProposals: state.proposals.map(p => p.agentId),
       conflictAnalysis: state.conflicts,
+      processImpact: state.conflictAnalysis?.processImpact.combined || [],
       approvedActions: state.approvedActions,
       rejectedActions: state.rejectedActions,
       modifications: state.modifications,
       decisionMaker: 'master_control_agent',
       constitutionApplied: true,
-      reasoning: `Decision based on ${state.proposals.length} proposals with ${state.conflicts.length} conflicts. Constitutional AI framework applied.`,
-      riskAssessment: `Risk level: ${state.conflicts.length > 0 ? 'medium' : 'low'}. ${state.conflicts.length} conflicts detected and resolved.`,
+      policyVersion: state.constitution?.version ?? null,
+      reasoning: `Decision based on ${state.proposals.length} proposals with ${state.conflicts.length} conflicts. Constitutional AI framework applied (policy version ${state.constitution?.version ?? 'n/a'}).`,
+      riskLevel,
+      riskAssessment: `Risk level: ${riskLevel}. ${state.conflicts.length} conflicts detected and resolved.`,
+      humanApproval: {
+        required: approvalReason !== null,
+        reason: approvalReason,
+        status: approvalReason !== null ? 'pending' : 'not_required'
+      },
+      resolutionStrategy: conflictResolver.getStrategy(),
+      reasoningDetails: {
+        strategy: conflictResolver.getStrategy(),
+        applied: state.resolution?.applied || 'rule_based',
+        ruleBased: state.resolution?.ruleBased?.reasoning || null,
+        llm: state.resolution?.llm
+          ? {
+            decisionRationale: state.resolution.llm.decisionRationale,
+            compromiseExplanation: state.resolution.llm.compromiseExplanation,
+            confidence: state.resolution.llm.confidence
+          }
+          : null,
+        validation: state.resolution?.validation || null,
+        policyViolations: state.resolution?.policyViolations || [],
+        explanation: null
+      },
       executionPlan: {
-        executionOrder: state.approvedActions.map((action: any, index: number) => ({
+        executionOrder: actions.map((action, index) => ({
           step: index + 1,
           action: action.controlVariable,
           method: action.executionMethod || 'immediate',
           safetyChecks: action.safetyChecksRequired || true
         })),
-        estimatedDuration: state.approvedActions.length * 5,
-        rollbackPlan: 'Automatic rollback if any action fails'
+        estimatedDuration: actions.length * 5,
+        rollbackPlan: {
+          strategy: 'restore_previous_setpoints',
+          trigger: 'any_step_failure',
+          // Egress reports the setpoint it found before each write; that, not this estimate, is restored
+          steps: actions.map((action, index) => ({
+            step: index + 1,
+            controlVariable: action.controlVariable,
+            expectedRestoreValue: action.currentValue,
+            method: action.executionMethod || 'immediate'
+          })).reverse()
+        }
       }
     };
 
+    decision.reasoningDetails.explanation = await conflictResolver.explain(state.proposals, state.conflicts, decision);
+
     logger.info('Final decision generated', {
       requestId: state.requestId,
       decisionId: decision.decisionId,
-      actionCount: state.approvedActions.length
+      actionCount: actions.length,
+      riskLevel,
+      resolutionStrategy: decision.resolutionStrategy,
+      policyVersion: decision.policyVersion,
+      approvalRequired: decision.humanApproval.required
     });
 
     return {
       decision,
-      status: WORKFLOW_STATUS.DECIDING
+      status: decision.humanApproval.required ? WORKFLOW_STATUS.AWAITING_APPROVAL : WORKFLOW_STATUS.DECIDING
     };
 
   } catch (error) {
@@ -316,59 +460,90 @@ async function generateDecision(state: WorkflowState): Promise<Partial<WorkflowS
   }
 }
 
+/**
+ * Pause the run for operator sign-off when the decision requires it
+ * Resumed with { approved, approver, rationale } from the approve/reject endpoints
+ */
+async function awaitApproval(state: WorkflowState): Promise<Partial<WorkflowState>> {
+  if (!state.decision?.humanApproval?.required) {
+    return {};
+  }
+
+  const response = interrupt<Record<string, unknown>, { approved: boolean; approver: string; rationale?: string }>({
+    type: 'human_approval',
+    decisionId: state.decision.decisionId,
+    riskLevel: state.decision.riskLevel,
+    reason: state.decision.humanApproval.reason,
+    approvedActions: state.approvedActions,
+    modifications: state.modifications
+  });
+
+  const humanApproval: HumanApproval = {
+    ...state.decision.humanApproval,
+    status: response.approved ? 'approved' : 'rejected',
+    approver: response.approver,
+    rationale: response.rationale,
+    timestamp: new Date().toISOString()
+  };
+
+  logger.info('Human approval received', {
+    requestId: state.requestId,
+    decisionId: state.decision.decisionId,
+    status: humanApproval.status,
+    approver: humanApproval.approver
+  });
+
+  return {
+    decision: { ...state.decision, humanApproval },
+    status: response.approved ? WORKFLOW_STATUS.EXECUTING : WORKFLOW_STATUS.CANCELLED
+  };
+}
+
+function routeAfterApproval(state: WorkflowState): string {
+  const approval = state.decision?.humanApproval;
+  if (!state.decision || approval?.status === 'rejected') {
+    return END;
+  }
+  return 'send_commands';
+}
+
 /**
  * Send commands to Egress Agent
  */
-async function sendCommands(state: WorkflowState): Promise<Partial<WorkflowState>> {
+async function sendCommands(
+  state: WorkflowState,
+  commandDispatcher: CommandDispatcher,
+  executionReporter: ExecutionReporter
+): Promise<Partial<WorkflowState>> {
   try {
     logger.info('Sending commands to Egress Agent', {
       requestId: state.requestId,
-      commandCount: state.approvedActions.length
+      commandCount: executableActions(state).length
     });
 
-    const executionResults: any[] = [];
-
-    for (const action of state.approvedActions) {
-      try {
-        // In a real implementation, this would send HTTP requests to the Egress Agent
-        const commandResult = {
-          commandId: `cmd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          status: 'success',
-          action,
-          decisionId: state.decision?.decisionId,
-          timestamp: new Date().toISOString()
-        };
-        
-        executionResults.push(commandResult);
-        
-        logger.info('Command sent successfully', {
-          commandId: commandResult.commandId,
-          action: action.controlVariable
-        });
-      } catch (error) {
-        logger.error('Failed to send command', {
-          action: action.controlVariable,
-          error: (error as Error).message
-        });
-        
-        executionResults.push({
-          commandId: `failed_${Date.now()}`,
-          status: 'failed',
-          error: (error as Error).message,
-          action
-        });
-      }
-    }
+    const { executionResults, rollback } = await commandDispatcher.dispatch(state);
 
     logger.info('All commands processed', {
       requestId: state.requestId,
       successCount: executionResults.filter(r => r.status === 'success').length,
-      failureCount: executionResults.filter(r => r.status === 'failed').length
+      failureCount: executionResults.filter(r => r.status === 'failed').length,
+      rollbackTriggered: rollback.triggered
     });
 
+    const failed = executionResults.some(r => r.status === 'failed');
+    const rolledBack = rollback.triggered && rollback.results.every(r => r.status === 'restored');
+
+    // Only a fully applied decision starts the proposing agents' cooldowns
+    if (!failed) {
+      await executionReporter.report(state, executionResults);
+    }
+
     return {
       executionResults,
-      status: WORKFLOW_STATUS.COMPLETED
+      rollback,
+      status: !failed
+        ? WORKFLOW_STATUS.COMPLETED
+        : rolledBack ? WORKFLOW_STATUS.ROLLED_BACK : WORKFLOW_STATUS.ERROR
     };
 
   } catch (error) {
@@ -384,19 +559,55 @@ async function sendCommands(state: WorkflowState): Promise<Partial<WorkflowState
   }
 }
 
-// Helper function
-function getConstitutionalPriority(proposal: any): number {
-  switch (proposal.proposalType) {
-    case 'stability':
-    case 'emergency':
-      return 1; // Safety priority
-    case 'quality':
-      return 2; // Quality priority
-    case 'emissions':
-      return 3; // Emissions priority
-    case 'optimization':
-      return 4; // Cost priority
-    default:
-      return 5;
+/**
+ * Highest risk implied by conflicts, proposal urgency and setpoint move size
+ */
+function assessRiskLevel(state: WorkflowState): RiskLevel {
+  let level = state.conflicts.length > 0 ? 1 : 0;
+
+  // Proposals compounding beyond a KPI tolerance are a process risk even when each is small
+  if (state.conflicts.some(c => c.type === 'kpi_coupling_conflict' && c.effect === 'compounding')) {
+    level = Math.max(level, 2);
+  }
+
+  for (const proposal of state.proposals) {
+    if (proposal.urgency === 'critical' || proposal.proposalType === 'emergency') {
+      level = Math.max(level, 3);
+    }
+  }
+
+  for (const action of executableActions(state)) {
+    if (typeof action.currentValue === 'number' && typeof action.proposedValue === 'number' && action.currentValue !== 0) {
+      const movePercent = Math.abs(action.proposedValue - action.currentValue) / Math.abs(action.currentValue) * 100;
+      if (movePercent > HUMAN_APPROVAL_CONFIG.largeMovePercent) {
+        level = Math.max(level, 2);
+      }
+    }
+  }
+
+  return RISK_LEVELS[level];
+}
+
+/**
+ * Why the decision needs operator sign-off, or null when it can run autonomously
+ */
+function getApprovalReason(state: WorkflowState, riskLevel: RiskLevel): string | null {
+  if (executableActions(state).length === 0) {
+    return null;
+  }
+
+  // A request may ask for sign-off the plant setting does not require, never skip one it does
+  const requested = state.context?.autonomy;
+  const autonomy = HUMAN_APPROVAL_CONFIG.defaultAutonomy === 'on' && (requested === 'paused' || requested === 'manual')
+    ? requested
+    : HUMAN_APPROVAL_CONFIG.defaultAutonomy;
+  if (autonomy !== 'on') {
+    return `Autonomy is ${autonomy}`;
+  }
+
+  if (RISK_LEVELS.indexOf(riskLevel) >= RISK_LEVELS.indexOf(HUMAN_APPROVAL_CONFIG.riskThreshold)) {
+    return `Risk level ${riskLevel} at or above approval threshold ${HUMAN_APPROVAL_CONFIG.riskThreshold}`;
   }
-}
\ No newline at end of file
+
+  return null;
+}
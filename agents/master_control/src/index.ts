@@ -1,23 +1,94 @@
 import express from 'express';
 import client from 'prom-client';
 import { trace } from '@opentelemetry/api';
+import { Command } from '@langchain/langgraph';
 import { logger } from './utils/logger';
 import { A2AClient } from './utils/a2a-client';
 import { SecurityValidator } from './utils/security-validator';
 import { AgentMetrics } from './utils/metrics';
+import { AlloyDBStateManager } from './services/alloydb-state-manager';
+import { AlloyDBCheckpointSaver } from './services/alloydb-checkpoint-saver';
+import { ProposalInbox } from './services/proposal-inbox';
+import { ConstitutionService } from './services/constitution-service';
+import { WorkflowReplayer, ReplayOptions } from './services/workflow-replay';
+import { EgressCommandDispatcher } from './services/egress-command-dispatcher';
 import { buildGraph } from './graph';
-import { DECISION_TIMEOUT_MS, WORKFLOW_STATUS } from './config/constants';
+import type { WorkflowState } from './graph';
+import type { AgentProposal } from './services/proposal-collector';
+import {
+  DECISION_TIMEOUT_MS,
+  WORKFLOW_STATUS,
+  ALLOYDB_CONFIG,
+  WORKFLOW_RESUME_WINDOW_MINUTES,
+  WORKFLOW_LEASE_CONFIG,
+  HUMAN_APPROVAL_CONFIG,
+  OPERATOR_AUTH_CONFIG,
+  SPECIALIST_AGENTS,
+  ResolutionStrategy
+} from './config/constants';
+
+/**
+ * Another live instance holds the thread's lease
+ */
+class WorkflowLeaseHeldError extends Error {
+  constructor(threadId: string) {
+    super(`Workflow ${threadId} is being run by another instance`);
+    this.name = 'WorkflowLeaseHeldError';
+  }
+}
 
 const app = express();
 app.use(express.json());
 
 const port = process.env.PORT ? Number(process.env.PORT) : 8080;
 const projectId = process.env.GOOGLE_CLOUD_PROJECT || 'cemai-agents';
+const region = process.env.GOOGLE_CLOUD_REGION || 'us-central1';
 
 // Initialize services
 const metrics = new AgentMetrics('master_control_agent', projectId);
 const a2aClient = new A2AClient('master_control_agent');
 
+const stateManager = new AlloyDBStateManager(
+  projectId,
+  region,
+  ALLOYDB_CONFIG.clusterId,
+  ALLOYDB_CONFIG.database,
+  ALLOYDB_CONFIG.connectionString
+);
+
+const constitutionService = new ConstitutionService(stateManager);
+
+// LangGraph workflow with AlloyDB checkpointing; each run is a thread keyed by its request id
+// Commands are recorded in AlloyDB before they are sent, so a resumed run never repeats one
+const graph = buildGraph({
+  checkpointer: new AlloyDBCheckpointSaver(stateManager),
+  commandDispatcher: new EgressCommandDispatcher(stateManager),
+  constitutionSource: constitutionService
+});
+
+const workflowReplayer = new WorkflowReplayer(stateManager, constitutionService);
+
+// Threads this instance is running; never resumed from here while in flight
+const activeThreads = new Set<string>();
+
+const proposalInbox = new ProposalInbox(stateManager, async (requestId, proposals) => {
+  const result = await runWorkflow(createInitialState(
+    requestId,
+    'agent_proposal',
+    { source: 'a2a_inbox' },
+    proposals
+  ));
+
+  logger.info('Queued proposals processed', {
+    requestId,
+    proposalCount: proposals.length,
+    status: result.status,
+    decisionId: result.decision?.decisionId
+  });
+
+  return result;
+});
+
 // Prometheus metrics
 const register = new client.Registry();
 client.collectDefaultMetrics({ register });
@@ -82,45 +153,11 @@ app.post('/v1/orchestrate', async (req, res) => {
     
     // Generate unique identifiers
     const workflowRequestId = requestId || `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Initialize workflow state
-    const initialState = {
-      requestId: workflowRequestId,
-      conversationId,
-      timestamp: new Date().toISOString(),
-      trigger,
-      context,
-      proposals: [],
-      conflicts: [],
-      approvedActions: [],
-      rejectedActions: [],
-      modifications: [],
-      status: WORKFLOW_STATUS.INITIALIZING
-    };
+    const initialState = createInitialState(workflowRequestId, trigger, context);
+    const conversationId = initialState.conversationId;
     
-    // Execute LangGraph workflow with timeout
-    const graph = buildGraph();
-    const result = await Promise.race([
-      graph.invoke(initialState),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Decision timeout')), DECISION_TIMEOUT_MS)
-      )
-    ]) as any;
-    
-    // Update metrics
+    const result = await runWorkflow(initialState);
     const latency = (Date.now() - new Date(initialState.timestamp).getTime()) / 1000;
-    decisionLatency.labels('orchestration', result.proposals?.length?.toString() || '0').observe(latency);
-    workflowCount.labels(result.status).inc();
-    
-    if (result.status === 'completed') {
-      proposalAcceptanceRate.labels('guardian', 'stability').set(
-        result.guardianProposal ? 1 : 0
-      );
-      proposalAcceptanceRate.labels('optimizer', 'optimization').set(
-        result.optimizerProposal ? 1 : 0
-      );
-    }
     
     span.setAttributes({
       'workflow.request_id': workflowRequestId,
@@ -140,11 +177,14 @@ app.post('/v1/orchestrate', async (req, res) => {
         conversationId,
         status: result.status,
         proposals: result.proposals,
+        agentResponses: result.agentResponses,
         conflicts: result.conflicts,
         decision: result.decision,
         approvedActions: result.approvedActions,
         rejectedActions: result.rejectedActions,
         modifications: result.modifications,
+        executionResults: result.executionResults,
+        rollback: result.rollback,
         latency: latency
       },
       timestamp: new Date().toISOString()
@@ -167,6 +207,920 @@ app.post('/v1/orchestrate', async (req, res) => {
   }
 });
 
+/**
+ * Get workflow status, pending nodes and decision for a request
+ */
+app.get('/v1/workflow-status/:requestId', async (req, res) => {
+  const { requestId } = req.params;
+  
+  try {
+    const state = await stateManager.loadWorkflowState(requestId);
+    if (!state) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        agent: 'master_control'
+      });
+    }
+    
+    const snapshot = await graph.getState({ configurable: { thread_id: requestId } });
+    const pendingNodes: string[] = snapshot?.next ? [...snapshot.next] : [];
+    const awaitingApproval = !!snapshot?.tasks?.some(task => task.interrupts?.length > 0);
+    const decision = state.decision?.decisionId
+      ? await stateManager.getDecision(state.decision.decisionId)
+      : null;
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      workflow: {
+        ...state,
+        pendingNodes,
+        awaitingApproval,
+        resumable: !awaitingApproval && (pendingNodes.length > 0 || state.status === WORKFLOW_STATUS.ERROR)
+      },
+      decision,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to get workflow status', { requestId, error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to retrieve workflow status'
+    });
+  }
+});
+
+/**
+ * Resume a paused or errored workflow from its last good checkpoint
+ */
+app.post('/v1/workflow-resume/:requestId', async (req, res) => {
+  const tracer = trace.getTracer('master-control-agent');
+  const span = tracer.startSpan('resume_workflow');
+  const { requestId } = req.params;
+  
+  try {
+    const state = await stateManager.loadWorkflowState(requestId);
+    if (!state) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        agent: 'master_control'
+      });
+    }
+    
+    const snapshot = await graph.getState({ configurable: { thread_id: requestId } });
+    if (snapshot?.tasks?.some(task => task.interrupts?.length > 0)) {
+      return res.status(409).json({
+        error: 'Workflow is awaiting operator approval; use the decision approve or reject endpoint',
+        agent: 'master_control',
+        decisionId: state.decision?.decisionId
+      });
+    }
+    
+    let result;
+    if (snapshot?.next?.length > 0) {
+      result = await resumeWorkflow(requestId);
+    } else if (state.status === WORKFLOW_STATUS.ERROR) {
+      const retryFrom = await findRetryCheckpoint(requestId);
+      if (!retryFrom) {
+        return res.status(409).json({
+          error: 'No checkpoint available to retry from',
+          agent: 'master_control'
+        });
+      }
+      
+      // Commands may have run or been rolled back; re-sending them needs a new decision and approval
+      const retrySnapshot = await graph.getState({ configurable: { thread_id: requestId, checkpoint_id: retryFrom } });
+      if (retrySnapshot?.next?.includes('send_commands')) {
+        return res.status(409).json({
+          error: 'Workflow failed while dispatching commands and cannot be retried; start a new orchestration',
+          agent: 'master_control',
+          decisionId: state.decision?.decisionId
+        });
+      }
+      result = await executeThread(requestId, null, new Date().toISOString(), retryFrom);
+    } else {
+      return res.status(409).json({
+        error: 'Workflow is not paused or errored',
+        agent: 'master_control',
+        workflowStatus: state.status
+      });
+    }
+    
+    span.setAttributes({
+      'workflow.request_id': requestId,
+      'workflow.previous_status': state.status,
+      'workflow.status': result.status
+    });
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      workflow: {
+        requestId,
+        previousStatus: state.status,
+        status: result.status,
+        decision: result.decision,
+        executionResults: result.executionResults,
+        rollback: result.rollback
+      },
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to resume workflow', { requestId, error: (error as Error).message });
+    span.recordException(error as Error);
+    span.setStatus({ code: 2, message: (error as Error).message });
+    
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to resume workflow'
+    });
+  } finally {
+    span.end();
+  }
+});
+
+/**
+ * Decision history with filters and pagination
+ */
+app.get('/v1/decision-history', async (req, res) => {
+  try {
+    const { from, to, status, decisionType, requestId, policyVersion, q, page, size } = req.query;
+    
+    for (const [name, value] of Object.entries({ page, size, policyVersion })) {
+      if (value !== undefined && !(Number.isInteger(Number(value)) && Number(value) >= 1)) {
+        return res.status(400).json({
+          error: `Invalid ${name}: must be a positive integer`,
+          agent: 'master_control'
+        });
+      }
+    }
+    
+    if (status && !['approved', 'rejected', 'pending'].includes(status as string)) {
+      return res.status(400).json({
+        error: 'Invalid status filter',
+        agent: 'master_control'
+      });
+    }
+    
+    for (const date of [from, to]) {
+      if (date && isNaN(Date.parse(date as string))) {
+        return res.status(400).json({
+          error: 'Invalid date filter',
+          agent: 'master_control'
+        });
+      }
+    }
+    
+    const history = await stateManager.listDecisionHistory({
+      from: from as string | undefined,
+      to: to as string | undefined,
+      status: status as 'approved' | 'rejected' | 'pending' | undefined,
+      decisionType: decisionType as string | undefined,
+      requestId: requestId as string | undefined,
+      policyVersion: policyVersion ? Number(policyVersion) : undefined,
+      q: q ? SecurityValidator.sanitizeString(q as string) : undefined,
+      page: page ? Number(page) : undefined,
+      size: size ? Number(size) : undefined
+    });
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      data: history,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to get decision history', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to retrieve decision history'
+    });
+  }
+});
+
+/**
+ * Active constitution and the list of stored versions
+ */
+app.get('/v1/admin/constitution', async (_req, res) => {
+  try {
+    const [active, versions] = await Promise.all([
+      constitutionService.getActive(),
+      constitutionService.listVersions()
+    ]);
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      active,
+      versions,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to get constitution', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to retrieve constitution'
+    });
+  }
+});
+
+/**
+ * Structured diff between two constitution versions
+ */
+app.get('/v1/admin/constitution/diff', async (req, res) => {
+  try {
+    const from = Number(req.query.from);
+    const to = Number(req.query.to);
+    
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({
+        error: 'from and to must be version numbers',
+        agent: 'master_control'
+      });
+    }
+    
+    const changes = await constitutionService.diff(from, to);
+    if (!changes) {
+      return res.status(404).json({
+        error: 'Constitution version not found',
+        agent: 'master_control'
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      from,
+      to,
+      changes,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to diff constitution versions', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to diff constitution versions'
+    });
+  }
+});
+
+/**
+ * One constitution version with its policy document (which rules were in force)
+ */
+app.get('/v1/admin/constitution/versions/:version', async (req, res) => {
+  try {
+    const version = await constitutionService.getVersion(Number(req.params.version));
+    if (!version) {
+      return res.status(404).json({
+        error: 'Constitution version not found',
+        agent: 'master_control'
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      version,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to get constitution version', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to retrieve constitution version'
+    });
+  }
+});
+
+/**
+ * Propose a new constitution version; it is validated and stored inactive
+ */
+app.post('/v1/admin/constitution/versions', async (req, res) => {
+  try {
+    // Policy changes need an admin token; the author is whoever it names
+    const admin = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.adminRoles);
+    if (!admin) {
+      return res.status(401).json({
+        error: 'Admin authentication required',
+        agent: 'master_control'
+      });
+    }
+    const author = admin.userId;
+    
+    const changeSummary = typeof req.body?.changeSummary === 'string'
+      ? SecurityValidator.sanitizeString(req.body.changeSummary)
+      : undefined;
+    
+    const { version, errors } = await constitutionService.propose(req.body?.policy, author, changeSummary);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid constitution policy',
+        agent: 'master_control',
+        validationErrors: errors
+      });
+    }
+    
+    res.status(201).json({
+      agent: 'master_control',
+      status: 'success',
+      version,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to propose constitution version', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to propose constitution version'
+    });
+  }
+});
+
+/**
+ * Activate a constitution version; runs started afterwards decide under it
+ */
+app.post('/v1/admin/constitution/versions/:version/activate', async (req, res) => {
+  try {
+    const admin = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.adminRoles);
+    if (!admin) {
+      return res.status(401).json({
+        error: 'Admin authentication required',
+        agent: 'master_control'
+      });
+    }
+    const version = Number(req.params.version);
+    const activatedBy = admin.userId;
+    
+    const { activated, errors } = await constitutionService.activate(version, activatedBy);
+    if (errors.length > 0) {
+      return res.status(422).json({
+        error: 'Stored policy no longer passes validation',
+        agent: 'master_control',
+        validationErrors: errors
+      });
+    }
+    if (!activated) {
+      return res.status(404).json({
+        error: 'Constitution version not found',
+        agent: 'master_control'
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      active: await constitutionService.getActive(),
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Failed to activate constitution version', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Failed to activate constitution version'
+    });
+  }
+});
+
+/**
+ * Replay one stored run through the current graph and constitution (or a given version)
+ */
+app.post('/v1/replay/:requestId', async (req, res) => {
+  try {
+    // Replays run stored plant data through the reasoning backend; admin only, like policy changes
+    const admin = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.adminRoles);
+    if (!admin) {
+      return res.status(401).json({
+        error: 'Admin authentication required',
+        agent: 'master_control'
+      });
+    }
+    
+    const options = await resolveReplayOptions(req.body);
+    if ('error' in options) {
+      return res.status(400).json({ error: options.error, agent: 'master_control' });
+    }
+    
+    const report = await workflowReplayer.replay(req.params.requestId, options);
+    if (!report) {
+      return res.status(404).json({
+        error: 'Workflow not found',
+        agent: 'master_control'
+      });
+    }
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      report,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Workflow replay failed', { requestId: req.params.requestId, error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Workflow replay failed'
+    });
+  }
+});
+
+/**
+ * Replay the decided runs in a time range and summarize which decisions would change
+ */
+app.post('/v1/replay', async (req, res) => {
+  try {
+    const admin = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.adminRoles);
+    if (!admin) {
+      return res.status(401).json({
+        error: 'Admin authentication required',
+        agent: 'master_control'
+      });
+    }
+    
+    const { from, to, limit } = req.body || {};
+    
+    for (const date of [from, to]) {
+      if (date && isNaN(Date.parse(date))) {
+        return res.status(400).json({
+          error: 'Invalid date filter',
+          agent: 'master_control'
+        });
+      }
+    }
+    
+    const options = await resolveReplayOptions(req.body);
+    if ('error' in options) {
+      return res.status(400).json({ error: options.error, agent: 'master_control' });
+    }
+    
+    const { reports, failed } = await workflowReplayer.replayRange(
+      { from, to, limit: limit ? Number(limit) : undefined },
+      options
+    );
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      summary: {
+        replayed: reports.length,
+        changed: reports.filter(r => r.diff.changed).length,
+        failed: failed.length
+      },
+      reports,
+      failed,
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Batch workflow replay failed', { error: (error as Error).message });
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Batch workflow replay failed'
+    });
+  }
+});
+
+const RESOLUTION_STRATEGIES: ResolutionStrategy[] = ['rule_based', 'llm', 'hybrid'];
+
+async function resolveReplayOptions(
+  body: { strategy?: unknown; constitutionVersion?: unknown } | undefined
+): Promise<ReplayOptions | { error: string }> {
+  const options: ReplayOptions = {};
+  
+  if (body?.strategy !== undefined) {
+    if (!RESOLUTION_STRATEGIES.includes(body.strategy as ResolutionStrategy)) {
+      return { error: 'Invalid resolution strategy' };
+    }
+    options.strategy = body.strategy as ResolutionStrategy;
+  }
+  
+  if (body?.constitutionVersion !== undefined) {
+    const stored = await constitutionService.getVersion(Number(body.constitutionVersion));
+    if (!stored) {
+      return { error: 'Constitution version not found' };
+    }
+    options.constitution = { version: stored.version, policy: stored.policy };
+  }
+  
+  return options;
+}
+
+/**
+ * Approve a decision awaiting operator sign-off and resume its workflow
+ */
+app.post('/api/v1/decisions/:id/approve', async (req, res) => {
+  await handleHumanApproval(req, res, true);
+});
+
+/**
+ * Reject a decision awaiting operator sign-off and cancel its workflow
+ */
+app.post('/api/v1/decisions/:id/reject', async (req, res) => {
+  await handleHumanApproval(req, res, false);
+});
+
+async function handleHumanApproval(req: express.Request, res: express.Response, approved: boolean) {
+  const tracer = trace.getTracer('master-control-agent');
+  const span = tracer.startSpan(approved ? 'approve_decision' : 'reject_decision');
+  const decisionId = req.params.id;
+  
+  try {
+    // The approver is whoever the operator token names, never a body field or header
+    const operator = SecurityValidator.authenticateOperator(req.get('Authorization'), OPERATOR_AUTH_CONFIG.approverRoles);
+    if (!operator) {
+      return res.status(401).json({
+        error: 'Operator authentication required',
+        agent: 'master_control'
+      });
+    }
+    const approver = operator.userId;
+    const rationale = req.body?.rationale;
+    
+    if (!approved && (!rationale || typeof rationale !== 'string')) {
+      return res.status(400).json({
+        error: 'Rationale is required to reject a decision',
+        agent: 'master_control'
+      });
+    }
+    
+    const decision = await stateManager.getDecision(decisionId);
+    if (!decision) {
+      return res.status(404).json({
+        error: 'Decision not found',
+        agent: 'master_control'
+      });
+    }
+    
+    const config = { configurable: { thread_id: decision.requestId } };
+    const snapshot = await graph.getState(config);
+    if (decision.humanApprovalStatus !== 'pending' || !snapshot?.next?.includes('await_approval')) {
+      return res.status(409).json({
+        error: 'Decision is not awaiting approval',
+        agent: 'master_control',
+        approvalStatus: decision.humanApprovalStatus
+      });
+    }
+    
+    // A stale decision is closed instead of executed; rejecting one is always allowed
+    const ageMinutes = (Date.now() - new Date(decision.createdAt).getTime()) / 60000;
+    if (approved && ageMinutes > HUMAN_APPROVAL_CONFIG.maxApprovalAgeMinutes) {
+      const expiry = `Approval window of ${HUMAN_APPROVAL_CONFIG.maxApprovalAgeMinutes} minutes has passed`;
+      if (await stateManager.recordHumanApproval(decisionId, 'expired', approver, expiry)) {
+        await executeThread(
+          decision.requestId,
+          new Command({ resume: { approved: false, approver: 'system', rationale: expiry } }),
+          new Date().toISOString()
+        ).catch((error: unknown) => logger.error('Failed to close expired decision', {
+          decisionId,
+          error: (error as Error).message
+        }));
+      }
+      return res.status(409).json({
+        error: 'Decision approval has expired',
+        agent: 'master_control',
+        approvalStatus: 'expired',
+        ageMinutes: Math.round(ageMinutes)
+      });
+    }
+    
+    const cleanRationale = rationale ? SecurityValidator.sanitizeString(rationale) : undefined;
+    const status = approved ? 'approved' : 'rejected';
+    const recorded = await stateManager.recordHumanApproval(decisionId, status, approver, cleanRationale);
+    if (!recorded) {
+      return res.status(409).json({
+        error: 'Decision was already signed off',
+        agent: 'master_control'
+      });
+    }
+    
+    let result: WorkflowState;
+    try {
+      result = await executeThread(
+        decision.requestId,
+        new Command({ resume: { approved, approver, rationale: cleanRationale } }),
+        new Date().toISOString()
+      );
+    } catch (error: unknown) {
+      // Still paused at sign-off: nothing ran, so the decision can be signed off again
+      const after = await graph.getState(config).catch(() => null);
+      if (after?.next?.includes('await_approval')) {
+        await stateManager.revertHumanApproval(decisionId, status);
+      }
+      if (error instanceof WorkflowLeaseHeldError) {
+        return res.status(409).json({
+          error: 'Decision workflow is being run by another instance',
+          agent: 'master_control'
+        });
+      }
+      throw error;
+    }
+    
+    span.setAttributes({
+      'decision.id': decisionId,
+      'decision.approval_status': status,
+      'decision.approver_role': operator.role,
+      'workflow.request_id': decision.requestId,
+      'workflow.status': result.status
+    });
+    
+    res.status(200).json({
+      agent: 'master_control',
+      status: 'success',
+      decision: {
+        id: decisionId,
+        status,
+        timestamp: new Date().toISOString(),
+        userId: approver,
+        rationale: cleanRationale
+      },
+      workflow: {
+        requestId: decision.requestId,
+        status: result.status,
+        executionResults: result.executionResults,
+        rollback: result.rollback
+      },
+      timestamp: new Date().toISOString()
+    });
+    
+  } catch (error: unknown) {
+    logger.error('Decision sign-off failed', { decisionId, error: (error as Error).message });
+    span.recordException(error as Error);
+    span.setStatus({ code: 2, message: (error as Error).message });
+    
+    res.status(500).json({
+      agent: 'master_control',
+      status: 'error',
+      error: 'Decision sign-off failed'
+    });
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Create the initial LangGraph state for a workflow run
+ */
+function createInitialState(
+  requestId: string,
+  trigger: string,
+  context: Record<string, unknown>,
+  proposals: AgentProposal[] = []
+): WorkflowState {
+  return {
+    requestId,
+    conversationId: `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: new Date().toISOString(),
+    trigger,
+    context,
+    proposals,
+    agentResponses: [],
+    conflicts: [],
+    approvedActions: [],
+    rejectedActions: [],
+    modifications: [],
+    status: WORKFLOW_STATUS.INITIALIZING
+  };
+}
+
+/**
+ * Execute the LangGraph workflow with the decision SLA timeout and record metrics
+ */
+async function runWorkflow(initialState: WorkflowState): Promise<WorkflowState> {
+  await persistWorkflowState(initialState);
+  return executeThread(initialState.requestId, initialState, initialState.timestamp);
+}
+
+/**
+ * Continue an interrupted workflow thread from its last checkpoint
+ */
+async function resumeWorkflow(requestId: string): Promise<WorkflowState> {
+  return executeThread(requestId, null, new Date().toISOString());
+}
+
+async function executeThread(
+  requestId: string,
+  input: WorkflowState | Command | null,
+  startedAt: string,
+  fromCheckpointId?: string
+): Promise<WorkflowState> {
+  const config = {
+    configurable: {
+      thread_id: requestId,
+      ...(fromCheckpointId ? { checkpoint_id: fromCheckpointId } : {})
+    }
+  };
+  const invocation = withWorkflowLease(requestId, () => graph.invoke(input, config));
+  let timeoutTimer: NodeJS.Timeout | undefined;
+  const result = await Promise.race([
+    invocation,
+    new Promise<WorkflowState>((resolve, reject) => {
+      timeoutTimer = setTimeout(() => {
+        // The SLA covers reaching a decision; commands already going out (a ramp runs for its full duration) are waited for
+        graph.getState({ configurable: { thread_id: requestId } })
+          .then(snapshot => snapshot?.next?.includes('send_commands') ? resolve(invocation) : reject(new Error('Decision timeout')))
+          .catch(reject);
+      }, DECISION_TIMEOUT_MS);
+    })
+  ]).finally(() => clearTimeout(timeoutTimer));
+  
+  await persistWorkflowState(result);
+  await persistDecision(result);
+  
+  // Update metrics
+  const latency = (Date.now() - new Date(startedAt).getTime()) / 1000;
+  decisionLatency.labels('orchestration', result.proposals?.length?.toString() || '0').observe(latency);
+  workflowCount.labels(result.status).inc();
+  
+  if (result.status === 'completed') {
+    proposalAcceptanceRate.labels('guardian', 'stability').set(
+      proposalAccepted(result, SPECIALIST_AGENTS.guardian.name) ? 1 : 0
+    );
+    proposalAcceptanceRate.labels('optimizer', 'optimization').set(
+      proposalAccepted(result, SPECIALIST_AGENTS.optimizer.name) ? 1 : 0
+    );
+  }
+  
+  return result;
+}
+
+/**
+ * Whether the run approved or moderated a move on any variable the agent proposed to change
+ */
+function proposalAccepted(result: WorkflowState, agentName: string): boolean {
+  const decided = new Set([...result.approvedActions, ...result.modifications].map(a => a.controlVariable));
+  return result.proposals.some(p => p.agentId === agentName && (p.actions || []).some(a => decided.has(a.controlVariable)));
+}
+
+/**
+ * Run a thread under this instance's lease, renewed until the run settles (not just until the
+ * decision timeout), so no other instance resumes a thread that is still running
+ */
+async function withWorkflowLease<T>(threadId: string, run: () => Promise<T>): Promise<T> {
+  const { instanceId, leaseSeconds, renewIntervalMs } = WORKFLOW_LEASE_CONFIG;
+  if (activeThreads.has(threadId) || !await stateManager.acquireWorkflowLease(threadId, instanceId, leaseSeconds)) {
+    throw new WorkflowLeaseHeldError(threadId);
+  }
+  
+  activeThreads.add(threadId);
+  const renewTimer = setInterval(() => {
+    stateManager.acquireWorkflowLease(threadId, instanceId, leaseSeconds).then(renewed => {
+      if (!renewed) {
+        logger.error('Workflow lease lost to another instance', { requestId: threadId });
+      }
+    }).catch(() => undefined);
+  }, renewIntervalMs);
+  
+  try {
+    return await run();
+  } finally {
+    clearInterval(renewTimer);
+    activeThreads.delete(threadId);
+    await stateManager.releaseWorkflowLease(threadId, instanceId).catch(() => undefined);
+  }
+}
+
+/**
+ * Record the workflow in workflow_states; failures are logged, not fatal
+ */
+async function persistWorkflowState(state: WorkflowState): Promise<void> {
+  try {
+    await stateManager.saveWorkflowState(state);
+  } catch (error: unknown) {
+    logger.error('Failed to persist workflow state', {
+      requestId: state.requestId,
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Record the run's decision in decision_history once; failures are logged, not fatal
+ */
+async function persistDecision(state: WorkflowState): Promise<void> {
+  const decision = state.decision;
+  if (!decision?.decisionId) {
+    return;
+  }
+  
+  try {
+    const confidences = (state.proposals || [])
+      .map(p => p.confidence)
+      .filter((c): c is number => typeof c === 'number');
+    
+    await stateManager.saveDecision({
+      decisionId: decision.decisionId,
+      requestId: state.requestId,
+      decisionType: decision.modifications?.length > 0
+        ? 'modified'
+        : decision.approvedActions?.length > 0 ? 'approved' : 'deferred',
+      decisionRationale: decision.reasoning,
+      riskEvaluation: decision.riskAssessment,
+      confidence: confidences.length > 0
+        ? confidences.reduce((a: number, b: number) => a + b, 0) / confidences.length
+        : 0.5,
+      executionPriority: decision.riskLevel || 'medium',
+      executionTimeline: `${decision.executionPlan?.estimatedDuration ?? 0} minutes`,
+      monitoringRequirements: [],
+      constitutionalCompliance: decision.constitutionApplied !== false,
+      humanApprovalRequired: decision.humanApproval?.required || false,
+      policyVersion: decision.policyVersion ?? undefined
+    });
+  } catch (error: unknown) {
+    logger.error('Failed to persist decision', {
+      requestId: state.requestId,
+      decisionId: decision.decisionId,
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Checkpoint just before the node that put an errored workflow into the error state
+ */
+async function findRetryCheckpoint(requestId: string): Promise<string | undefined> {
+  let retryFrom: string | undefined;
+  
+  // History is newest first; walk back through the snapshots that already carry the error
+  for await (const snapshot of graph.getStateHistory({ configurable: { thread_id: requestId } })) {
+    if (snapshot.values?.status !== WORKFLOW_STATUS.ERROR) {
+      break;
+    }
+    retryFrom = snapshot.parentConfig?.configurable?.checkpoint_id;
+  }
+  
+  return retryFrom;
+}
+
+/**
+ * Resume workflow threads left unfinished by a previous instance
+ */
+async function resumeInterruptedWorkflows(): Promise<void> {
+  const threadIds = await stateManager.listRecentCheckpointThreads(WORKFLOW_RESUME_WINDOW_MINUTES);
+  
+  for (const threadId of threadIds) {
+    await resumeInterruptedThread(threadId, true);
+  }
+}
+
+/**
+ * Resume one unfinished thread unless a live instance holds its lease; a lease left by a
+ * crashed instance is checked again once it has had time to expire
+ */
+async function resumeInterruptedThread(threadId: string, recheckWhenHeld: boolean): Promise<void> {
+  const snapshot = await graph.getState({ configurable: { thread_id: threadId } });
+  if (!snapshot?.next || snapshot.next.length === 0) {
+    return;
+  }
+  
+  // Runs paused for operator sign-off wait for the approve/reject endpoints
+  if (snapshot.tasks?.some(task => task.interrupts?.length > 0)) {
+    return;
+  }
+  
+  logger.warn('Resuming interrupted workflow', {
+    requestId: threadId,
+    nextNodes: snapshot.next
+  });
+  
+  resumeWorkflow(threadId).catch((error: unknown) => {
+    if (error instanceof WorkflowLeaseHeldError) {
+      logger.info('Interrupted workflow is leased by another instance', { requestId: threadId });
+      if (recheckWhenHeld) {
+        setTimeout(() => {
+          resumeInterruptedThread(threadId, false).catch((recheckError: unknown) => {
+            logger.error('Failed to resume interrupted workflow', {
+              requestId: threadId,
+              error: (recheckError as Error).message
+            });
+          });
+        }, WORKFLOW_LEASE_CONFIG.leaseSeconds * 1000);
+      }
+      return;
+    }
+    logger.error('Failed to resume interrupted workflow', {
+      requestId: threadId,
+      error: (error as Error).message
+    });
+  });
+}
+
 /**
  * Handle A2A message reception
  */
@@ -234,8 +1188,12 @@ async function handleProposal(message: any): Promise<any> {
       urgency: message.payload.urgency
     });
     
-    // Store proposal for processing
-    // In a real implementation, this would be stored in AlloyDB for LangGraph checkpointing
+    if (!message.payload.proposalType || !message.payload.urgency) {
+      throw new Error('Proposal payload missing proposalType or urgency');
+    }
+    
+    // Store proposal in the durable inbox; it is processed in the next batch run
+    const { queued, immediate } = await proposalInbox.submit(message);
     
     return {
       messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -246,8 +1204,12 @@ async function handleProposal(message: any): Promise<any> {
       recipientAgent: message.senderAgent,
       messageType: 'status',
       payload: {
-        status: 'proposal_received',
-        message: 'Proposal received and queued for processing'
+        status: queued ? 'proposal_received' : 'proposal_duplicate',
+        message: !queued
+          ? 'Proposal already received'
+          : immediate
+            ? 'Proposal received - orchestration started immediately'
+            : 'Proposal received and queued for processing'
       },
       protocolVersion: '1.0',
       priority: 'normal'
@@ -326,6 +1288,11 @@ async function handleData(message: any): Promise<any> {
 // Initialize agent
 async function initializeAgent() {
   try {
+    await stateManager.initializeSchema();
+    await constitutionService.initialize();
+    await resumeInterruptedWorkflows();
+    await proposalInbox.recover();
+    
     logger.info('Master Control Agent initialized successfully', {
       agent: 'master_control',
       version: '1.0.0',
@@ -0,0 +1,192 @@
+import { Annotation, StateGraph, emptyCheckpoint } from '@langchain/langgraph';
+import { AlloyDBCheckpointSaver } from './alloydb-checkpoint-saver';
+import type { AlloyDBStateManager, CheckpointRecord, CheckpointWriteRecord, StoredCheckpointValue } from './alloydb-state-manager';
+
+type CheckpointRow = Omit<CheckpointRecord, 'createdAt'>;
+
+type WriteRow = CheckpointWriteRecord & { threadId: string; checkpointNs: string; checkpointId: string };
+
+// Round-trips through JSON the way the JSONB columns do
+const stored = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+// In-memory stand-in for the langgraph_checkpoints and langgraph_checkpoint_writes tables
+class InMemoryCheckpoints {
+  checkpoints: CheckpointRow[] = [];
+  writes: WriteRow[] = [];
+
+  async saveCheckpoint(
+    checkpointId: string,
+    threadId: string,
+    checkpointNs: string,
+    checkpointData: StoredCheckpointValue,
+    metadata?: StoredCheckpointValue,
+    parentCheckpointId?: string
+  ): Promise<void> {
+    const existing = this.checkpoints.find(row => row.checkpointId === checkpointId);
+    if (existing) {
+      Object.assign(existing, { checkpointData: stored(checkpointData), metadata: stored(metadata || {}) });
+      return;
+    }
+    this.checkpoints.push({
+      checkpointId,
+      threadId,
+      checkpointNs,
+      checkpointData: stored(checkpointData),
+      metadata: stored(metadata || {}),
+      parentCheckpointId
+    });
+  }
+
+  async loadCheckpointById(threadId: string, checkpointNs: string, checkpointId: string) {
+    return this.checkpoints.find(row =>
+      row.threadId === threadId && row.checkpointNs === checkpointNs && row.checkpointId === checkpointId
+    ) ?? null;
+  }
+
+  async listCheckpoints(options: {
+    threadId?: string;
+    checkpointNs?: string;
+    checkpointId?: string;
+    beforeCheckpointId?: string;
+    limit?: number;
+  } = {}) {
+    const rows = this.checkpoints
+      .filter(row =>
+        (options.threadId === undefined || row.threadId === options.threadId) &&
+        (options.checkpointNs === undefined || row.checkpointNs === options.checkpointNs) &&
+        (options.checkpointId === undefined || row.checkpointId === options.checkpointId) &&
+        (options.beforeCheckpointId === undefined || row.checkpointId < options.beforeCheckpointId))
+      .sort((a, b) => (a.checkpointId < b.checkpointId ? 1 : -1));
+    return options.limit === undefined ? rows : rows.slice(0, options.limit);
+  }
+
+  async saveCheckpointWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    taskId: string,
+    writes: Array<Omit<CheckpointWriteRecord, 'taskId'>>
+  ): Promise<void> {
+    for (const write of writes) {
+      const existing = this.writes.find(row =>
+        row.threadId === threadId && row.checkpointNs === checkpointNs && row.checkpointId === checkpointId &&
+        row.taskId === taskId && row.idx === write.idx
+      );
+      if (!existing) {
+        this.writes.push({ threadId, checkpointNs, checkpointId, taskId, idx: write.idx, channel: write.channel, value: stored(write.value) });
+      } else if (existing.idx < 0) {
+        Object.assign(existing, { channel: write.channel, value: stored(write.value) });
+      }
+    }
+  }
+
+  async loadCheckpointWrites(threadId: string, checkpointNs: string, checkpointId: string) {
+    return this.writes
+      .filter(row => row.threadId === threadId && row.checkpointNs === checkpointNs && row.checkpointId === checkpointId)
+      .sort((a, b) => a.taskId.localeCompare(b.taskId) || a.idx - b.idx)
+      .map(({ taskId, idx, channel, value }) => ({ taskId, idx, channel, value }));
+  }
+}
+
+function checkpointWithId(id: string) {
+  return { ...emptyCheckpoint(), id, channel_values: { status: id } };
+}
+
+const config = (checkpointId?: string) => ({
+  configurable: { thread_id: 'req_test', checkpoint_ns: '', ...(checkpointId ? { checkpoint_id: checkpointId } : {}) }
+});
+
+describe('AlloyDBCheckpointSaver', () => {
+  let store: InMemoryCheckpoints;
+  let saver: AlloyDBCheckpointSaver;
+
+  beforeEach(() => {
+    store = new InMemoryCheckpoints();
+    saver = new AlloyDBCheckpointSaver(store as unknown as AlloyDBStateManager);
+  });
+
+  it('returns the latest checkpoint for a thread, or the one named in the config', async () => {
+    const first = await saver.put(config(), checkpointWithId('0001'), { source: 'input', step: -1, writes: null, parents: {} });
+    await saver.put(first, checkpointWithId('0002'), { source: 'loop', step: 0, writes: null, parents: {} });
+
+    const latest = await saver.getTuple(config());
+    expect(latest?.checkpoint.channel_values).toEqual({ status: '0002' });
+    expect(latest?.parentConfig?.configurable?.checkpoint_id).toBe('0001');
+    expect(latest?.metadata).toMatchObject({ source: 'loop', step: 0 });
+
+    const named = await saver.getTuple(config('0001'));
+    expect(named?.checkpoint.channel_values).toEqual({ status: '0001' });
+    expect(named?.parentConfig).toBeUndefined();
+
+    expect(await saver.getTuple({ configurable: { thread_id: 'req_other' } })).toBeUndefined();
+  });
+
+  it('lists checkpoints newest first with before, limit and metadata filters', async () => {
+    for (const [id, source] of [['0001', 'input'], ['0002', 'loop'], ['0003', 'loop']] as const) {
+      await saver.put(config(), checkpointWithId(id), { source, step: 0, writes: null, parents: {} });
+    }
+
+    const ids = async (options?: Parameters<AlloyDBCheckpointSaver['list']>[1]) => {
+      const listed: string[] = [];
+      for await (const tuple of saver.list(config(), options)) {
+        listed.push(tuple.config.configurable?.checkpoint_id);
+      }
+      return listed;
+    };
+
+    expect(await ids()).toEqual(['0003', '0002', '0001']);
+    expect(await ids({ limit: 2 })).toEqual(['0003', '0002']);
+    expect(await ids({ before: config('0003') })).toEqual(['0002', '0001']);
+    expect(await ids({ filter: { source: 'input' } })).toEqual(['0001']);
+  });
+
+  it('keeps the first copy of a regular write and replaces special writes', async () => {
+    await saver.put(config(), checkpointWithId('0001'), { source: 'loop', step: 0, writes: null, parents: {} });
+
+    await saver.putWrites(config('0001'), [['status', 'validated']], 'task_1');
+    await saver.putWrites(config('0001'), [['status', 'overwritten']], 'task_1');
+    await saver.putWrites(config('0001'), [['__error__', 'first failure']], 'task_2');
+    await saver.putWrites(config('0001'), [['__error__', 'second failure']], 'task_2');
+
+    const tuple = await saver.getTuple(config('0001'));
+    expect(tuple?.pendingWrites).toEqual([
+      ['task_1', 'status', 'validated'],
+      ['task_2', '__error__', 'second failure']
+    ]);
+  });
+
+  it('resumes an interrupted run from its last completed node with a fresh saver', async () => {
+    const State = Annotation.Root({
+      steps: Annotation<string[]>({ reducer: (current, update) => [...current, ...update], default: () => [] })
+    });
+    const calls = { collect: 0, execute: 0 };
+    let instanceDies = true;
+
+    const buildGraph = (checkpointer: AlloyDBCheckpointSaver) => new StateGraph(State)
+      .addNode('collect', async () => {
+        calls.collect += 1;
+        return { steps: ['collect'] };
+      })
+      .addNode('execute', async () => {
+        calls.execute += 1;
+        if (instanceDies) {
+          throw new Error('instance terminated');
+        }
+        return { steps: ['execute'] };
+      })
+      .addEdge('__start__', 'collect')
+      .addEdge('collect', 'execute')
+      .addEdge('execute', '__end__')
+      .compile({ checkpointer });
+
+    await expect(buildGraph(saver).invoke({ steps: [] }, config())).rejects.toThrow('instance terminated');
+
+    // A new instance picks the thread up from AlloyDB alone
+    instanceDies = false;
+    const resumed = await buildGraph(new AlloyDBCheckpointSaver(store as unknown as AlloyDBStateManager))
+      .invoke(null, config());
+
+    expect(resumed.steps).toEqual(['collect', 'execute']);
+    expect(calls).toEqual({ collect: 1, execute: 2 });
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointMetadata,
+  CheckpointTuple,
+  copyCheckpoint
+} from '@langchain/langgraph';
+import { logger } from '../utils/logger';
+import { AlloyDBStateManager } from './alloydb-state-manager';
+import type { CheckpointRecord, StoredCheckpointValue } from './alloydb-state-manager';
+
+type RunnableConfig = Parameters<BaseCheckpointSaver['getTuple']>[0];
+type CheckpointListOptions = Parameters<BaseCheckpointSaver['list']>[1];
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+
+// Mirrors the channel and write index constants of @langchain/langgraph-checkpoint
+const TASKS_CHANNEL = '__pregel_tasks';
+const WRITES_IDX_MAP: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4
+};
+
+/**
+ * LangGraph checkpoint saver backed by AlloyDB
+ * Persists every super-step of a workflow thread so a run interrupted by an
+ * instance restart can resume from its last completed node
+ */
+export class AlloyDBCheckpointSaver extends BaseCheckpointSaver {
+  private stateManager: AlloyDBStateManager;
+
+  constructor(stateManager: AlloyDBStateManager) {
+    super();
+    this.stateManager = stateManager;
+  }
+
+  /**
+   * Get the checkpoint named in the config, or the latest one for the thread
+   */
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (threadId === undefined) {
+      return undefined;
+    }
+
+    const row = checkpointId
+      ? await this.stateManager.loadCheckpointById(threadId, checkpointNs, checkpointId)
+      : (await this.stateManager.listCheckpoints({ threadId, checkpointNs, limit: 1 }))[0];
+
+    if (!row) {
+      return undefined;
+    }
+
+    return this.toTuple(row);
+  }
+
+  /**
+   * List checkpoints newest first, honouring before/limit/metadata filters
+   */
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+
+    const rows = await this.stateManager.listCheckpoints({
+      threadId: config.configurable?.thread_id,
+      checkpointNs: config.configurable?.checkpoint_ns,
+      checkpointId: config.configurable?.checkpoint_id,
+      beforeCheckpointId: before?.configurable?.checkpoint_id
+    });
+
+    for (const row of rows) {
+      const metadata = await this.deserialize(row.metadata) as Record<string, unknown> | undefined;
+
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata?.[key] === value)) {
+        continue;
+      }
+
+      if (limit !== undefined) {
+        if (limit <= 0) break;
+        limit -= 1;
+      }
+
+      yield this.toTuple(row);
+    }
+  }
+
+  /**
+   * Store a checkpoint and return the config that points at it
+   */
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+    if (threadId === undefined) {
+      throw new Error('Failed to put checkpoint: config is missing configurable.thread_id');
+    }
+
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+
+    await this.stateManager.saveCheckpoint(
+      checkpoint.id,
+      threadId,
+      checkpointNs,
+      this.serialize(prepared),
+      this.serialize(metadata),
+      config.configurable?.checkpoint_id
+    );
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id
+      }
+    };
+  }
+
+  /**
+   * Store the writes a task produced against a checkpoint
+   */
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error('Failed to put writes: config is missing configurable.thread_id or checkpoint_id');
+    }
+
+    await this.stateManager.saveCheckpointWrites(
+      threadId,
+      checkpointNs,
+      checkpointId,
+      taskId,
+      writes.map(([channel, value], idx) => ({
+        idx: WRITES_IDX_MAP[channel] ?? idx,
+        channel,
+        value: this.serialize(value)
+      }))
+    );
+  }
+
+  private async toTuple(row: CheckpointRecord): Promise<CheckpointTuple> {
+    const { threadId, checkpointNs, checkpointId, parentCheckpointId } = row;
+
+    const writes = await this.stateManager.loadCheckpointWrites(threadId, checkpointNs, checkpointId);
+    const pendingWrites = await Promise.all(writes.map(async write =>
+      [write.taskId, write.channel, await this.deserialize(write.value)] as [string, string, unknown]
+    ));
+
+    // Sends scheduled by the parent step are replayed into this checkpoint
+    let pendingSends: Checkpoint['pending_sends'] = [];
+    if (parentCheckpointId) {
+      const parentWrites = await this.stateManager.loadCheckpointWrites(threadId, checkpointNs, parentCheckpointId);
+      pendingSends = await Promise.all(parentWrites
+        .filter(write => write.channel === TASKS_CHANNEL)
+        .map(write => this.deserialize(write.value))) as Checkpoint['pending_sends'];
+    }
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpointId
+        }
+      },
+      checkpoint: {
+        ...(await this.deserialize(row.checkpointData) as Checkpoint),
+        pending_sends: pendingSends
+      },
+      metadata: await this.deserialize(row.metadata) as CheckpointMetadata,
+      pendingWrites
+    };
+
+    if (parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: parentCheckpointId
+        }
+      };
+    }
+
+    return tuple;
+  }
+
+  private serialize(value: unknown): StoredCheckpointValue {
+    const [type, bytes] = this.serde.dumpsTyped(value);
+    const buffer = Buffer.from(bytes);
+    return type === 'json'
+      ? { type, data: JSON.parse(buffer.toString('utf8')) }
+      : { type, data: buffer.toString('base64') };
+  }
+
+  private async deserialize(stored: StoredCheckpointValue | null | undefined): Promise<unknown> {
+    if (!stored) {
+      return undefined;
+    }
+    try {
+      return await this.serde.loadsTyped(
+        stored.type,
+        stored.type === 'json' ? JSON.stringify(stored.data) : Buffer.from(stored.data as string, 'base64')
+      );
+    } catch (error: unknown) {
+      logger.error('Failed to deserialize LangGraph checkpoint value', {
+        type: stored.type,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,134 @@
-import { Pool } from 'pg';
+import { Pool, QueryResultRow } from 'pg';
 import { logger } from '../utils/logger';
 import { trace } from '@opentelemetry/api';
+import type { ConstitutionPolicy } from '../config/constitution';
+import type { WorkflowState, WorkflowDecision } from '../graph';
+import type { AgentProposal, AgentResponseRecord, ControlAction } from './proposal-collector';
+import type { ConflictAnalysisResult, ConflictResolutionResult } from './conflict-resolver';
+import type { EgressAcknowledgement } from './egress-command-dispatcher';
+
+/**
+ * Agent responses, conflict analysis and resolution recorded with a run for audit and replay
+ */
+export interface WorkflowAnalysisRecord {
+  agentResponses?: AgentResponseRecord[];
+  conflictAnalysis?: ConflictAnalysisResult['analysis'];
+  resolution?: ConflictResolutionResult['resolution'];
+}
+
+/**
+ * A workflow run as stored in workflow_states
+ */
+export interface StoredWorkflowState extends Pick<
+  WorkflowState,
+  'requestId' | 'conversationId' | 'trigger' | 'context' | 'proposals' | 'conflicts'
+  | 'approvedActions' | 'rejectedActions' | 'modifications' | 'status'
+> {
+  timestamp: Date;
+  analysis: WorkflowAnalysisRecord | null;
+  decision: WorkflowDecision | null;
+  error: string | null;
+  traceId: string | null;
+  spanId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A command Master Control sent, or was about to send, to Egress
+ */
+export interface DispatchedCommandRecord {
+  commandId: string;
+  requestId: string;
+  decisionId: string | null;
+  step: number;
+  controlVariable: string;
+  // sent: no answer recorded yet, so the command may or may not have reached the plant
+  status: 'sent' | 'acknowledged' | 'rejected' | 'unknown';
+  acknowledgement: EgressAcknowledgement | null;
+  error: string | null;
+  sentAt: string;
+}
+
+/**
+ * A run's decision as recorded in decision_history
+ */
+export interface DecisionRecord {
+  decisionId: string;
+  requestId: string;
+  decisionType: string;
+  decisionRationale: string;
+  riskEvaluation: string;
+  confidence: number;
+  executionPriority: string;
+  humanApprovalRequired: boolean;
+  // pending, approved, rejected or expired once an operator is involved
+  humanApprovalStatus: string | null;
+  humanApprover: string | null;
+  humanApprovalRationale: string | null;
+  humanApprovalTimestamp: Date | null;
+  policyVersion: number | null;
+  createdAt: Date;
+}
+
+/**
+ * A decision_history entry with the run it came from
+ */
+export interface DecisionHistoryItem extends DecisionRecord {
+  trigger: string | null;
+  constitutionalCompliance: boolean;
+  workflowStatus: string | null;
+  approvedActions: ControlAction[];
+}
+
+/**
+ * A LangGraph checkpoint value as serialized for JSONB: JSON payloads stay readable, anything else is base64
+ */
+export interface StoredCheckpointValue {
+  type: string;
+  data: unknown;
+}
+
+/**
+ * A row of langgraph_checkpoints
+ */
+export interface CheckpointRecord {
+  checkpointId: string;
+  threadId: string;
+  checkpointNs: string;
+  checkpointData: StoredCheckpointValue;
+  metadata: StoredCheckpointValue;
+  parentCheckpointId?: string;
+  createdAt: Date;
+}
+
+/**
+ * A pending write stored against a checkpoint
+ */
+export interface CheckpointWriteRecord {
+  taskId: string;
+  idx: number;
+  channel: string;
+  value: StoredCheckpointValue;
+}
+
+/**
+ * A stored constitution version without its policy document
+ */
+export interface ConstitutionVersionSummary {
+  version: number;
+  status: 'proposed' | 'active' | 'superseded';
+  changeSummary: string | null;
+  proposedBy: string;
+  activatedBy: string | null;
+  activatedAt: string | null;
+  createdAt: string;
+}
+
+export interface ConstitutionVersionRecord extends ConstitutionVersionSummary {
+  // Stored as proposed; validated again before activation
+  policy: ConstitutionPolicy;
+}
 
 /**
  * AlloyDB State Manager for Master Control Agent
@@ -98,6 +226,27 @@ export class AlloyDBStateManager {
           )
         `);
 
+        await client.query(`
+          ALTER TABLE langgraph_checkpoints
+          ADD COLUMN IF NOT EXISTS parent_checkpoint_id VARCHAR(255)
+        `);
+
+        // Create LangGraph pending writes table
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS langgraph_checkpoint_writes (
+            id SERIAL PRIMARY KEY,
+            thread_id VARCHAR(255) NOT NULL,
+            checkpoint_ns VARCHAR(255) NOT NULL,
+            checkpoint_id VARCHAR(255) NOT NULL,
+            task_id VARCHAR(255) NOT NULL,
+            write_idx INTEGER NOT NULL,
+            channel VARCHAR(255) NOT NULL,
+            value JSONB,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            UNIQUE (thread_id, checkpoint_ns, checkpoint_id, task_id, write_idx)
+          )
+        `);
+
         // Create decision history table
         await client.query(`
           CREATE TABLE IF NOT EXISTS decision_history (
@@ -121,6 +270,30 @@ export class AlloyDBStateManager {
           )
         `);
 
+        await client.query(`
+          ALTER TABLE decision_history
+          ADD COLUMN IF NOT EXISTS human_approval_rationale TEXT
+        `);
+
+        await client.query(`
+          ALTER TABLE decision_history
+          ADD COLUMN IF NOT EXISTS policy_version INTEGER
+        `);
+
+        // Create constitution versions table (versioned decision policy)
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS constitution_versions (
+            version SERIAL PRIMARY KEY,
+            policy JSONB NOT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'proposed',
+            change_summary TEXT,
+            proposed_by VARCHAR(255) NOT NULL,
+            activated_by VARCHAR(255),
+            activated_at TIMESTAMP WITH TIME ZONE,
+            created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+
         // Create agent communication log table
         await client.query(`
           CREATE TABLE IF NOT EXISTS agent_communication_log (
@@ -138,6 +311,55 @@ export class AlloyDBStateManager {
           )
         `);
 
+        // Create proposal inbox table for proposals received over A2A
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS proposal_inbox (
+            id SERIAL PRIMARY KEY,
+            message_id VARCHAR(255) UNIQUE NOT NULL,
+            conversation_id VARCHAR(255) NOT NULL,
+            sender_agent VARCHAR(100) NOT NULL,
+            proposal_type VARCHAR(50) NOT NULL,
+            urgency VARCHAR(20) NOT NULL,
+            payload JSONB NOT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'queued',
+            request_id VARCHAR(255),
+            received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            claimed_at TIMESTAMP WITH TIME ZONE,
+            processed_at TIMESTAMP WITH TIME ZONE
+          )
+        `);
+
+        await client.query(`
+          ALTER TABLE proposal_inbox
+          ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE
+        `);
+
+        // Create workflow lease table; the owning instance renews its lease while a thread runs
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS workflow_leases (
+            thread_id VARCHAR(255) PRIMARY KEY,
+            owner VARCHAR(255) NOT NULL,
+            lease_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+            updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+
+        // Create dispatched command ledger; a commandId is recorded before it is sent to Egress
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS dispatched_commands (
+            command_id VARCHAR(255) PRIMARY KEY,
+            request_id VARCHAR(255) NOT NULL,
+            decision_id VARCHAR(255),
+            step INTEGER NOT NULL,
+            control_variable VARCHAR(100) NOT NULL,
+            status VARCHAR(20) NOT NULL DEFAULT 'sent',
+            acknowledgement JSONB,
+            error TEXT,
+            sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+          )
+        `);
+
         // Create performance metrics table
         await client.query(`
           CREATE TABLE IF NOT EXISTS performance_metrics (
@@ -182,6 +404,11 @@ export class AlloyDBStateManager {
           ON langgraph_checkpoints(checkpoint_ns)
         `);
         
+        await client.query(`
+          CREATE INDEX IF NOT EXISTS idx_langgraph_checkpoint_writes_checkpoint 
+          ON langgraph_checkpoint_writes(thread_id, checkpoint_ns, checkpoint_id)
+        `);
+        
         await client.query(`
           CREATE INDEX IF NOT EXISTS idx_decision_history_request_id 
           ON decision_history(request_id)
@@ -192,6 +419,16 @@ export class AlloyDBStateManager {
           ON agent_communication_log(conversation_id)
         `);
         
+        await client.query(`
+          CREATE INDEX IF NOT EXISTS idx_proposal_inbox_status 
+          ON proposal_inbox(status, received_at)
+        `);
+        
+        await client.query(`
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_constitution_versions_active 
+          ON constitution_versions(status) WHERE status = 'active'
+        `);
+        
         await client.query(`
           CREATE INDEX IF NOT EXISTS idx_performance_metrics_timestamp 
           ON performance_metrics(timestamp DESC)
@@ -216,7 +453,12 @@ export class AlloyDBStateManager {
   /**
    * Save workflow state for LangGraph checkpointing
    */
-  async saveWorkflowState(state: any): Promise<void> {
+  async saveWorkflowState(state: WorkflowState & {
+    analysis?: WorkflowAnalysisRecord;
+    error?: string;
+    traceId?: string;
+    spanId?: string;
+  }): Promise<void> {
     const tracer = trace.getTracer('master-control-agent');
     const span = tracer.startSpan('alloydb_save_workflow_state');
     
@@ -257,7 +499,12 @@ export class AlloyDBStateManager {
           JSON.stringify(state.context),
           JSON.stringify(state.proposals || []),
           JSON.stringify(state.conflicts || []),
-          JSON.stringify(state.analysis),
+          // Agent responses, conflict analysis and resolution (incl. LLM output) for audit and replay
+          JSON.stringify(state.analysis ?? {
+            agentResponses: state.agentResponses,
+            conflictAnalysis: state.conflictAnalysis,
+            resolution: state.resolution
+          }),
           JSON.stringify(state.decision),
           JSON.stringify(state.approvedActions || []),
           JSON.stringify(state.rejectedActions || []),
@@ -302,7 +549,7 @@ export class AlloyDBStateManager {
   /**
    * Load workflow state for LangGraph checkpointing
    */
-  async loadWorkflowState(requestId: string): Promise<any> {
+  async loadWorkflowState(requestId: string): Promise<StoredWorkflowState | null> {
     const tracer = trace.getTracer('master-control-agent');
     const span = tracer.startSpan('alloydb_load_workflow_state');
     
@@ -322,23 +569,25 @@ export class AlloyDBStateManager {
         
         const row = result.rows[0];
         
-        const state = {
+        const state: StoredWorkflowState = {
           requestId: row.request_id,
           conversationId: row.conversation_id,
           timestamp: row.timestamp,
           trigger: row.trigger,
-          context: JSON.parse(row.context),
-          proposals: JSON.parse(row.proposals),
-          conflicts: JSON.parse(row.conflicts),
-          analysis: row.analysis ? JSON.parse(row.analysis) : null,
-          decision: row.decision ? JSON.parse(row.decision) : null,
-          approvedActions: JSON.parse(row.approved_actions),
-          rejectedActions: JSON.parse(row.rejected_actions),
-          modifications: JSON.parse(row.modifications),
+          context: parseJsonColumn(row.context),
+          proposals: parseJsonColumn(row.proposals),
+          conflicts: parseJsonColumn(row.conflicts),
+          analysis: row.analysis ? parseJsonColumn(row.analysis) : null,
+          decision: row.decision ? parseJsonColumn(row.decision) : null,
+          approvedActions: parseJsonColumn(row.approved_actions),
+          rejectedActions: parseJsonColumn(row.rejected_actions),
+          modifications: parseJsonColumn(row.modifications),
           status: row.status,
           error: row.error,
           traceId: row.trace_id,
-          spanId: row.span_id
+          spanId: row.span_id,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at
         };
         
         span.setAttributes({
@@ -370,6 +619,46 @@ export class AlloyDBStateManager {
     }
   }
 
+  /**
+   * Request ids of runs that reached a decision within a time range, oldest first
+   */
+  async listDecidedWorkflowIds(filters: { from?: string; to?: string; limit?: number } = {}): Promise<string[]> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const conditions = ['decision IS NOT NULL', "decision <> 'null'::jsonb"];
+        const values: Array<string | number> = [];
+        
+        if (filters.from) {
+          values.push(filters.from);
+          conditions.push(`timestamp >= $${values.length}`);
+        }
+        if (filters.to) {
+          values.push(filters.to);
+          conditions.push(`timestamp <= $${values.length}`);
+        }
+        values.push(Math.min(200, Math.max(1, filters.limit || 50)));
+        
+        const result = await client.query(`
+          SELECT request_id FROM workflow_states
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY timestamp ASC
+          LIMIT $${values.length}
+        `, values);
+        
+        return result.rows.map(row => row.request_id);
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to list decided workflows', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
   /**
    * Save LangGraph checkpoint
    */
@@ -377,8 +666,9 @@ export class AlloyDBStateManager {
     checkpointId: string,
     threadId: string,
     checkpointNs: string,
-    checkpointData: any,
-    metadata?: any
+    checkpointData: StoredCheckpointValue,
+    metadata?: StoredCheckpointValue,
+    parentCheckpointId?: string
   ): Promise<void> {
     const tracer = trace.getTracer('master-control-agent');
     const span = tracer.startSpan('alloydb_save_checkpoint');
@@ -389,8 +679,8 @@ export class AlloyDBStateManager {
       try {
         const query = `
           INSERT INTO langgraph_checkpoints (
-            checkpoint_id, thread_id, checkpoint_ns, checkpoint_data, metadata
-          ) VALUES ($1, $2, $3, $4, $5)
+            checkpoint_id, thread_id, checkpoint_ns, checkpoint_data, metadata, parent_checkpoint_id
+          ) VALUES ($1, $2, $3, $4, $5, $6)
           ON CONFLICT (checkpoint_id) DO UPDATE SET
             checkpoint_data = EXCLUDED.checkpoint_data,
             metadata = EXCLUDED.metadata
@@ -401,7 +691,8 @@ export class AlloyDBStateManager {
           threadId,
           checkpointNs,
           JSON.stringify(checkpointData),
-          JSON.stringify(metadata || {})
+          JSON.stringify(metadata || {}),
+          parentCheckpointId || null
         ];
         
         await client.query(query, values);
@@ -441,7 +732,7 @@ export class AlloyDBStateManager {
   async loadCheckpoint(
     threadId: string,
     checkpointNs: string
-  ): Promise<any> {
+  ): Promise<CheckpointRecord | null> {
     const tracer = trace.getTracer('master-control-agent');
     const span = tracer.startSpan('alloydb_load_checkpoint');
     
@@ -452,7 +743,7 @@ export class AlloyDBStateManager {
         const query = `
           SELECT * FROM langgraph_checkpoints 
           WHERE thread_id = $1 AND checkpoint_ns = $2
-          ORDER BY created_at DESC LIMIT 1
+          ORDER BY created_at DESC, id DESC LIMIT 1
         `;
         
         const result = await client.query(query, [threadId, checkpointNs]);
@@ -461,16 +752,7 @@ export class AlloyDBStateManager {
           return null;
         }
         
-        const row = result.rows[0];
-        
-        const checkpoint = {
-          checkpointId: row.checkpoint_id,
-          threadId: row.thread_id,
-          checkpointNs: row.checkpoint_ns,
-          checkpointData: JSON.parse(row.checkpoint_data),
-          metadata: JSON.parse(row.metadata),
-          createdAt: row.created_at
-        };
+        const checkpoint = this.mapCheckpointRow(result.rows[0]);
         
         span.setAttributes({
           'checkpoint.thread_id': threadId,
@@ -503,131 +785,143 @@ export class AlloyDBStateManager {
   }
 
   /**
-   * Save decision to history
+   * Load a specific LangGraph checkpoint
    */
-  async saveDecision(decisionData: {
-    decisionId: string;
-    requestId: string;
-    decisionType: string;
-    decisionRationale: string;
-    riskEvaluation: string;
-    compromiseExplanation?: string;
-    confidence: number;
-    executionPriority: string;
-    executionTimeline: string;
-    monitoringRequirements: string[];
-    constitutionalCompliance: boolean;
-    humanApprovalRequired?: boolean;
-  }): Promise<void> {
-    const tracer = trace.getTracer('master-control-agent');
-    const span = tracer.startSpan('alloydb_save_decision');
-    
+  async loadCheckpointById(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<CheckpointRecord | null> {
     try {
       const client = await this.pool.connect();
       
       try {
-        const query = `
-          INSERT INTO decision_history (
-            decision_id, request_id, decision_type, decision_rationale,
-            risk_evaluation, compromise_explanation, confidence, execution_priority,
-            execution_timeline, monitoring_requirements, constitutional_compliance,
-            human_approval_required
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-        `;
+        const result = await client.query(`
+          SELECT * FROM langgraph_checkpoints 
+          WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+        `, [threadId, checkpointNs, checkpointId]);
         
-        const values = [
-          decisionData.decisionId,
-          decisionData.requestId,
-          decisionData.decisionType,
-          decisionData.decisionRationale,
-          decisionData.riskEvaluation,
-          decisionData.compromiseExplanation,
-          decisionData.confidence,
-          decisionData.executionPriority,
-          decisionData.executionTimeline,
-          JSON.stringify(decisionData.monitoringRequirements),
-          decisionData.constitutionalCompliance,
-          decisionData.humanApprovalRequired || false
-        ];
+        return result.rows.length > 0 ? this.mapCheckpointRow(result.rows[0]) : null;
         
-        await client.query(query, values);
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to load LangGraph checkpoint by id', { 
+        error: (error as Error).message,
+        threadId,
+        checkpointId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List LangGraph checkpoints, newest first
+   */
+  async listCheckpoints(options: {
+    threadId?: string;
+    checkpointNs?: string;
+    checkpointId?: string;
+    beforeCheckpointId?: string;
+    limit?: number;
+  } = {}): Promise<CheckpointRecord[]> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const conditions: string[] = [];
+        const values: Array<string | number> = [];
         
-        span.setAttributes({
-          'decision.id': decisionData.decisionId,
-          'decision.type': decisionData.decisionType,
-          'decision.confidence': decisionData.confidence,
-          'decision.priority': decisionData.executionPriority
-        });
+        if (options.threadId !== undefined) {
+          values.push(options.threadId);
+          conditions.push(`thread_id = $${values.length}`);
+        }
+        if (options.checkpointNs !== undefined) {
+          values.push(options.checkpointNs);
+          conditions.push(`checkpoint_ns = $${values.length}`);
+        }
+        if (options.checkpointId !== undefined) {
+          values.push(options.checkpointId);
+          conditions.push(`checkpoint_id = $${values.length}`);
+        }
+        if (options.beforeCheckpointId !== undefined) {
+          values.push(options.beforeCheckpointId);
+          conditions.push(`checkpoint_id < $${values.length}`);
+        }
         
-        logger.info('Decision saved to history', {
-          decisionId: decisionData.decisionId,
-          requestId: decisionData.requestId,
-          decisionType: decisionData.decisionType
-        });
+        let query = `SELECT * FROM langgraph_checkpoints`;
+        if (conditions.length > 0) {
+          query += ` WHERE ${conditions.join(' AND ')}`;
+        }
+        query += ` ORDER BY checkpoint_id DESC`;
+        if (options.limit !== undefined) {
+          values.push(options.limit);
+          query += ` LIMIT $${values.length}`;
+        }
+        
+        const result = await client.query(query, values);
+        return result.rows.map(row => this.mapCheckpointRow(row));
         
       } finally {
         client.release();
       }
       
     } catch (error: unknown) {
-      logger.error('Failed to save decision to history', { 
+      logger.error('Failed to list LangGraph checkpoints', { 
         error: (error as Error).message,
-        decisionId: decisionData.decisionId
+        threadId: options.threadId
       });
-      span.recordException(error as Error);
-      span.setStatus({ code: 2, message: (error as Error).message });
       throw error;
-    } finally {
-      span.end();
     }
   }
 
   /**
-   * Log agent communication
+   * Save pending writes for a LangGraph checkpoint
+   * Regular writes are kept on first insert; special writes (negative index) are replaced
    */
-  async logAgentCommunication(messageData: {
-    messageId: string;
-    conversationId: string;
-    senderAgent: string;
-    recipientAgent: string;
-    messageType: string;
-    payload: any;
-    status: string;
-    responseTimeMs?: number;
-  }): Promise<void> {
+  async saveCheckpointWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    taskId: string,
+    writes: Array<Omit<CheckpointWriteRecord, 'taskId'>>
+  ): Promise<void> {
     const tracer = trace.getTracer('master-control-agent');
-    const span = tracer.startSpan('alloydb_log_communication');
+    const span = tracer.startSpan('alloydb_save_checkpoint_writes');
     
     try {
       const client = await this.pool.connect();
       
       try {
         const query = `
-          INSERT INTO agent_communication_log (
-            message_id, conversation_id, sender_agent, recipient_agent,
-            message_type, payload, status, response_time_ms
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          INSERT INTO langgraph_checkpoint_writes (
+            thread_id, checkpoint_ns, checkpoint_id, task_id, write_idx, channel, value
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          ON CONFLICT (thread_id, checkpoint_ns, checkpoint_id, task_id, write_idx) DO UPDATE SET
+            channel = EXCLUDED.channel,
+            value = EXCLUDED.value
+          WHERE langgraph_checkpoint_writes.write_idx < 0
         `;
         
-        const values = [
-          messageData.messageId,
-          messageData.conversationId,
-          messageData.senderAgent,
-          messageData.recipientAgent,
-          messageData.messageType,
-          JSON.stringify(messageData.payload),
-          messageData.status,
-          messageData.responseTimeMs
-        ];
-        
-        await client.query(query, values);
+        for (const write of writes) {
+          await client.query(query, [
+            threadId,
+            checkpointNs,
+            checkpointId,
+            taskId,
+            write.idx,
+            write.channel,
+            JSON.stringify(write.value)
+          ]);
+        }
         
         span.setAttributes({
-          'communication.message_id': messageData.messageId,
-          'communication.sender': messageData.senderAgent,
-          'communication.recipient': messageData.recipientAgent,
-          'communication.type': messageData.messageType,
-          'communication.status': messageData.status
+          'checkpoint.id': checkpointId,
+          'checkpoint.thread_id': threadId,
+          'checkpoint.task_id': taskId,
+          'checkpoint.write_count': writes.length
         });
         
       } finally {
@@ -635,9 +929,10 @@ export class AlloyDBStateManager {
       }
       
     } catch (error: unknown) {
-      logger.error('Failed to log agent communication', { 
+      logger.error('Failed to save LangGraph checkpoint writes', { 
         error: (error as Error).message,
-        messageId: messageData.messageId
+        checkpointId,
+        taskId
       });
       span.recordException(error as Error);
       span.setStatus({ code: 2, message: (error as Error).message });
@@ -648,22 +943,1075 @@ export class AlloyDBStateManager {
   }
 
   /**
-   * Record performance metrics
+   * Load pending writes for a LangGraph checkpoint
    */
-  async recordPerformanceMetric(
-    metricName: string,
-    metricValue: number,
-    metricUnit?: string,
-    labels?: any
-  ): Promise<void> {
-    const tracer = trace.getTracer('master-control-agent');
-    const span = tracer.startSpan('alloydb_record_metric');
-    
+  async loadCheckpointWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<CheckpointWriteRecord[]> {
     try {
       const client = await this.pool.connect();
       
       try {
-        const query = `
+        const result = await client.query(`
+          SELECT * FROM langgraph_checkpoint_writes
+          WHERE thread_id = $1 AND checkpoint_ns = $2 AND checkpoint_id = $3
+          ORDER BY task_id, write_idx
+        `, [threadId, checkpointNs, checkpointId]);
+        
+        return result.rows.map(row => ({
+          taskId: row.task_id,
+          idx: row.write_idx,
+          channel: row.channel,
+          value: parseJsonColumn(row.value)
+        }));
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to load LangGraph checkpoint writes', { 
+        error: (error as Error).message,
+        threadId,
+        checkpointId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Thread ids with checkpoints written in the recent past
+   */
+  async listRecentCheckpointThreads(withinMinutes: number): Promise<string[]> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          SELECT thread_id, MAX(created_at) AS last_checkpoint_at
+          FROM langgraph_checkpoints
+          WHERE checkpoint_ns = '' AND created_at >= NOW() - ($1 || ' minutes')::INTERVAL
+          GROUP BY thread_id
+          ORDER BY last_checkpoint_at ASC
+        `, [withinMinutes.toString()]);
+        
+        return result.rows.map(row => row.thread_id);
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to list recent checkpoint threads', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Take or renew the lease on a workflow thread; false while another owner's lease is live
+   */
+  async acquireWorkflowLease(threadId: string, owner: string, leaseSeconds: number): Promise<boolean> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          INSERT INTO workflow_leases (thread_id, owner, lease_expires_at, updated_at)
+          VALUES ($1, $2, NOW() + ($3 || ' seconds')::INTERVAL, NOW())
+          ON CONFLICT (thread_id) DO UPDATE
+            SET owner = EXCLUDED.owner,
+                lease_expires_at = EXCLUDED.lease_expires_at,
+                updated_at = NOW()
+            WHERE workflow_leases.owner = EXCLUDED.owner
+               OR workflow_leases.lease_expires_at < NOW()
+          RETURNING thread_id
+        `, [threadId, owner, leaseSeconds.toString()]);
+        
+        return (result.rowCount || 0) > 0;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to acquire workflow lease', { error: (error as Error).message, threadId });
+      throw error;
+    }
+  }
+
+  /**
+   * Give up a workflow lease held by this owner
+   */
+  async releaseWorkflowLease(threadId: string, owner: string): Promise<void> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        await client.query(`
+          DELETE FROM workflow_leases WHERE thread_id = $1 AND owner = $2
+        `, [threadId, owner]);
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to release workflow lease', { error: (error as Error).message, threadId });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a command as sent before it goes to Egress. A command only Egress's answer
+   * rejected may be sent again; otherwise the earlier record is returned and the caller
+   * must not send it, since it may already have reached the plant
+   */
+  async reserveCommand(command: {
+    commandId: string;
+    requestId: string;
+    decisionId?: string;
+    step: number;
+    controlVariable: string;
+  }): Promise<{ reserved: boolean; existing: DispatchedCommandRecord | null }> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          INSERT INTO dispatched_commands (command_id, request_id, decision_id, step, control_variable)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (command_id) DO UPDATE
+            SET status = 'sent', acknowledgement = NULL, error = NULL, sent_at = NOW(), updated_at = NOW()
+            WHERE dispatched_commands.status = 'rejected'
+          RETURNING command_id
+        `, [command.commandId, command.requestId, command.decisionId || null, command.step, command.controlVariable]);
+        
+        if ((result.rowCount || 0) > 0) {
+          return { reserved: true, existing: null };
+        }
+        
+        const existing = await client.query(`
+          SELECT * FROM dispatched_commands WHERE command_id = $1
+        `, [command.commandId]);
+        
+        return { reserved: false, existing: existing.rows[0] ? mapDispatchedCommandRow(existing.rows[0]) : null };
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to reserve command', { error: (error as Error).message, commandId: command.commandId });
+      throw error;
+    }
+  }
+
+  /**
+   * Record how Egress answered a reserved command
+   */
+  async recordCommandOutcome(
+    commandId: string,
+    status: 'acknowledged' | 'rejected' | 'unknown',
+    acknowledgement: unknown = null,
+    error: string | null = null
+  ): Promise<void> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        await client.query(`
+          UPDATE dispatched_commands
+          SET status = $2, acknowledgement = $3, error = $4, updated_at = NOW()
+          WHERE command_id = $1
+        `, [commandId, status, acknowledgement === null ? null : JSON.stringify(acknowledgement), error]);
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to record command outcome', { error: (error as Error).message, commandId });
+      throw error;
+    }
+  }
+
+  private mapCheckpointRow(row: QueryResultRow): CheckpointRecord {
+    return {
+      checkpointId: row.checkpoint_id,
+      threadId: row.thread_id,
+      checkpointNs: row.checkpoint_ns,
+      checkpointData: parseJsonColumn(row.checkpoint_data),
+      metadata: parseJsonColumn(row.metadata),
+      parentCheckpointId: row.parent_checkpoint_id || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Save decision to history
+   */
+  async saveDecision(decisionData: {
+    decisionId: string;
+    requestId: string;
+    decisionType: string;
+    decisionRationale: string;
+    riskEvaluation: string;
+    compromiseExplanation?: string;
+    confidence: number;
+    executionPriority: string;
+    executionTimeline: string;
+    monitoringRequirements: string[];
+    constitutionalCompliance: boolean;
+    humanApprovalRequired?: boolean;
+    policyVersion?: number;
+  }): Promise<void> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_save_decision');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const query = `
+          INSERT INTO decision_history (
+            decision_id, request_id, decision_type, decision_rationale,
+            risk_evaluation, compromise_explanation, confidence, execution_priority,
+            execution_timeline, monitoring_requirements, constitutional_compliance,
+            human_approval_required, human_approval_status, policy_version
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+          ON CONFLICT (decision_id) DO NOTHING
+        `;
+        
+        const values = [
+          decisionData.decisionId,
+          decisionData.requestId,
+          decisionData.decisionType,
+          decisionData.decisionRationale,
+          decisionData.riskEvaluation,
+          decisionData.compromiseExplanation,
+          decisionData.confidence,
+          decisionData.executionPriority,
+          decisionData.executionTimeline,
+          JSON.stringify(decisionData.monitoringRequirements),
+          decisionData.constitutionalCompliance,
+          decisionData.humanApprovalRequired || false,
+          decisionData.humanApprovalRequired ? 'pending' : null,
+          decisionData.policyVersion ?? null
+        ];
+        
+        await client.query(query, values);
+        
+        span.setAttributes({
+          'decision.id': decisionData.decisionId,
+          'decision.type': decisionData.decisionType,
+          'decision.confidence': decisionData.confidence,
+          'decision.priority': decisionData.executionPriority,
+          'decision.policy_version': decisionData.policyVersion ?? 0
+        });
+        
+        logger.info('Decision saved to history', {
+          decisionId: decisionData.decisionId,
+          requestId: decisionData.requestId,
+          decisionType: decisionData.decisionType,
+          policyVersion: decisionData.policyVersion
+        });
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to save decision to history', { 
+        error: (error as Error).message,
+        decisionId: decisionData.decisionId
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get a decision from history
+   */
+  async getDecision(decisionId: string): Promise<DecisionRecord | null> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(
+          `SELECT * FROM decision_history WHERE decision_id = $1`,
+          [decisionId]
+        );
+        
+        if (result.rows.length === 0) {
+          return null;
+        }
+        
+        const row = result.rows[0];
+        
+        return {
+          decisionId: row.decision_id,
+          requestId: row.request_id,
+          decisionType: row.decision_type,
+          decisionRationale: row.decision_rationale,
+          riskEvaluation: row.risk_evaluation,
+          confidence: parseFloat(row.confidence),
+          executionPriority: row.execution_priority,
+          humanApprovalRequired: row.human_approval_required,
+          humanApprovalStatus: row.human_approval_status,
+          humanApprover: row.human_approver,
+          humanApprovalRationale: row.human_approval_rationale,
+          humanApprovalTimestamp: row.human_approval_timestamp,
+          policyVersion: row.policy_version,
+          createdAt: row.created_at
+        };
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to get decision from history', { 
+        error: (error as Error).message,
+        decisionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List decision history with filters and pagination, newest first
+   */
+  async listDecisionHistory(filters: {
+    from?: string;
+    to?: string;
+    status?: 'approved' | 'rejected' | 'pending';
+    decisionType?: string;
+    requestId?: string;
+    policyVersion?: number;
+    q?: string;
+    page?: number;
+    size?: number;
+  } = {}): Promise<{ items: DecisionHistoryItem[]; total: number; page: number; size: number }> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_list_decision_history');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const page = Number.isInteger(filters.page) ? Math.max(1, filters.page!) : 1;
+        const size = Number.isInteger(filters.size) ? Math.min(100, Math.max(1, filters.size!)) : 20;
+        const conditions: string[] = [];
+        const values: Array<string | number> = [];
+        
+        if (filters.from) {
+          values.push(filters.from);
+          conditions.push(`d.created_at >= $${values.length}`);
+        }
+        if (filters.to) {
+          values.push(filters.to);
+          conditions.push(`d.created_at <= $${values.length}`);
+        }
+        if (filters.status === 'pending' || filters.status === 'rejected') {
+          values.push(filters.status);
+          conditions.push(`d.human_approval_status = $${values.length}`);
+        } else if (filters.status === 'approved') {
+          conditions.push(`(d.human_approval_status = 'approved' OR
+            (d.human_approval_required = false AND d.decision_type IN ('approved', 'modified')))`);
+        }
+        if (filters.decisionType) {
+          values.push(filters.decisionType);
+          conditions.push(`d.decision_type = $${values.length}`);
+        }
+        if (filters.requestId) {
+          values.push(filters.requestId);
+          conditions.push(`d.request_id = $${values.length}`);
+        }
+        if (filters.policyVersion !== undefined) {
+          values.push(filters.policyVersion);
+          conditions.push(`d.policy_version = $${values.length}`);
+        }
+        if (filters.q) {
+          // Backslash is ILIKE's default escape character; the term matches literally
+          values.push(`%${filters.q.replace(/[\\%_]/g, '\\$&')}%`);
+          conditions.push(`(d.decision_id ILIKE $${values.length} OR d.request_id ILIKE $${values.length}
+            OR d.decision_rationale ILIKE $${values.length})`);
+        }
+        
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        
+        const countResult = await client.query(
+          `SELECT COUNT(*) AS total FROM decision_history d ${where}`,
+          values
+        );
+        
+        const result = await client.query(`
+          SELECT d.*, w.status AS workflow_status, w.trigger, w.decision
+          FROM decision_history d
+          LEFT JOIN workflow_states w ON w.request_id = d.request_id
+          ${where}
+          ORDER BY d.created_at DESC
+          LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+        `, [...values, size, (page - 1) * size]);
+        
+        const items = result.rows.map((row): DecisionHistoryItem => {
+          const decision: WorkflowDecision | null = row.decision ? parseJsonColumn(row.decision) : null;
+          return {
+            decisionId: row.decision_id,
+            requestId: row.request_id,
+            trigger: row.trigger,
+            decisionType: row.decision_type,
+            decisionRationale: row.decision_rationale,
+            riskEvaluation: row.risk_evaluation,
+            confidence: parseFloat(row.confidence),
+            executionPriority: row.execution_priority,
+            constitutionalCompliance: row.constitutional_compliance,
+            humanApprovalRequired: row.human_approval_required,
+            humanApprovalStatus: row.human_approval_status,
+            humanApprover: row.human_approver,
+            humanApprovalRationale: row.human_approval_rationale,
+            humanApprovalTimestamp: row.human_approval_timestamp,
+            policyVersion: row.policy_version,
+            workflowStatus: row.workflow_status,
+            approvedActions: decision?.approvedActions || [],
+            createdAt: row.created_at
+          };
+        });
+        
+        const total = parseInt(countResult.rows[0].total);
+        
+        span.setAttributes({
+          'history.page': page,
+          'history.size': size,
+          'history.total': total
+        });
+        
+        return { items, total, page, size };
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to list decision history', { error: (error as Error).message });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Record an operator approval or rejection; only a pending decision can be signed off
+   */
+  async recordHumanApproval(
+    decisionId: string,
+    status: 'approved' | 'rejected' | 'expired',
+    approver: string,
+    rationale?: string
+  ): Promise<boolean> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_record_human_approval');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          UPDATE decision_history SET
+            human_approval_status = $2,
+            human_approver = $3,
+            human_approval_rationale = $4,
+            human_approval_timestamp = NOW()
+          WHERE decision_id = $1 AND human_approval_status = 'pending'
+        `, [decisionId, status, approver, rationale || null]);
+        
+        span.setAttributes({
+          'decision.id': decisionId,
+          'decision.approval_status': status
+        });
+        
+        logger.info('Human approval recorded', { decisionId, status, approver });
+        
+        return (result.rowCount || 0) > 0;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to record human approval', { 
+        error: (error as Error).message,
+        decisionId
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Return a sign-off to pending when its workflow could not be resumed
+   */
+  async revertHumanApproval(decisionId: string, status: 'approved' | 'rejected'): Promise<boolean> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          UPDATE decision_history SET
+            human_approval_status = 'pending',
+            human_approver = NULL,
+            human_approval_rationale = NULL,
+            human_approval_timestamp = NULL
+          WHERE decision_id = $1 AND human_approval_status = $2
+        `, [decisionId, status]);
+        
+        logger.warn('Human approval reverted to pending', { decisionId, status });
+        
+        return (result.rowCount || 0) > 0;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to revert human approval', { 
+        error: (error as Error).message,
+        decisionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a proposal received over A2A in the inbox
+   * Returns false when the message was already queued (redelivery)
+   */
+  async enqueueProposal(proposalData: {
+    messageId: string;
+    conversationId: string;
+    senderAgent: string;
+    proposalType?: string;
+    urgency?: string;
+    payload: Partial<AgentProposal>;
+  }): Promise<boolean> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_enqueue_proposal');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const query = `
+          INSERT INTO proposal_inbox (
+            message_id, conversation_id, sender_agent, proposal_type, urgency, payload
+          ) VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (message_id) DO NOTHING
+        `;
+        
+        const values = [
+          proposalData.messageId,
+          proposalData.conversationId,
+          proposalData.senderAgent,
+          proposalData.proposalType,
+          proposalData.urgency,
+          JSON.stringify(proposalData.payload)
+        ];
+        
+        const result = await client.query(query, values);
+        const inserted = (result.rowCount || 0) > 0;
+        
+        span.setAttributes({
+          'proposal.message_id': proposalData.messageId,
+          'proposal.sender': proposalData.senderAgent,
+          'proposal.type': proposalData.proposalType,
+          'proposal.urgency': proposalData.urgency,
+          'proposal.duplicate': !inserted
+        });
+        
+        logger.info('Proposal stored in inbox', {
+          messageId: proposalData.messageId,
+          senderAgent: proposalData.senderAgent,
+          duplicate: !inserted
+        });
+        
+        return inserted;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to store proposal in inbox', { 
+        error: (error as Error).message,
+        messageId: proposalData.messageId
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Claim all queued proposals for one orchestration run
+   * Uses SKIP LOCKED so concurrent instances never claim the same proposal
+   */
+  async claimQueuedProposals(requestId: string, limit: number = 50): Promise<Array<{
+    messageId: string;
+    conversationId: string;
+    senderAgent: string;
+    proposalType: string;
+    urgency: string;
+    payload: AgentProposal;
+    receivedAt: string;
+  }>> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_claim_proposals');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const query = `
+          UPDATE proposal_inbox SET status = 'processing', request_id = $1, claimed_at = NOW()
+          WHERE id IN (
+            SELECT id FROM proposal_inbox
+            WHERE status = 'queued'
+            ORDER BY received_at ASC
+            LIMIT $2
+            FOR UPDATE SKIP LOCKED
+          )
+          RETURNING *
+        `;
+        
+        const result = await client.query(query, [requestId, limit]);
+        
+        const proposals = result.rows.map(row => ({
+          messageId: row.message_id,
+          conversationId: row.conversation_id,
+          senderAgent: row.sender_agent,
+          proposalType: row.proposal_type,
+          urgency: row.urgency,
+          payload: parseJsonColumn<AgentProposal>(row.payload),
+          receivedAt: row.received_at
+        }));
+        
+        span.setAttributes({
+          'workflow.request_id': requestId,
+          'proposal.claimed_count': proposals.length
+        });
+        
+        return proposals;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to claim queued proposals', { 
+        error: (error as Error).message,
+        requestId
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Mark the proposals claimed by a run as processed, or return them to the queue
+   */
+  async completeClaimedProposals(requestId: string, status: 'processed' | 'failed' | 'queued'): Promise<void> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_complete_proposals');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const query = status === 'queued'
+          ? `UPDATE proposal_inbox SET status = 'queued', request_id = NULL, claimed_at = NULL
+             WHERE request_id = $1 AND status = 'processing'`
+          : `UPDATE proposal_inbox SET status = $2, processed_at = NOW()
+             WHERE request_id = $1 AND status = 'processing'`;
+        
+        await client.query(query, status === 'queued' ? [requestId] : [requestId, status]);
+        
+        span.setAttributes({
+          'workflow.request_id': requestId,
+          'proposal.status': status
+        });
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to complete claimed proposals', { 
+        error: (error as Error).message,
+        requestId
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Return proposals stuck in processing (e.g. after an instance restart) to the queue
+   * Staleness counts from the claim, so an old proposal another instance just claimed stays with it
+   */
+  async requeueStaleProposals(olderThanMinutes: number = 5): Promise<number> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          UPDATE proposal_inbox SET status = 'queued', request_id = NULL, claimed_at = NULL
+          WHERE status = 'processing'
+            AND COALESCE(claimed_at, received_at) < NOW() - ($1 || ' minutes')::INTERVAL
+        `, [olderThanMinutes.toString()]);
+        
+        return result.rowCount || 0;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to requeue stale proposals', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Store version 1 of the constitution when no version exists yet
+   */
+  async seedConstitution(policy: ConstitutionPolicy, proposedBy: string): Promise<boolean> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        // Instances starting together may all pass the NOT EXISTS check; the partial
+        // unique index on the active status lets one insert win and the rest do nothing
+        const result = await client.query(`
+          INSERT INTO constitution_versions (policy, status, change_summary, proposed_by, activated_by, activated_at)
+          SELECT $1, 'active', 'Initial constitution', $2, $2, NOW()
+          WHERE NOT EXISTS (SELECT 1 FROM constitution_versions)
+          ON CONFLICT (status) WHERE status = 'active' DO NOTHING
+        `, [JSON.stringify(policy), proposedBy]);
+        
+        return (result.rowCount || 0) > 0;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to seed constitution', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a proposed constitution version and return it
+   */
+  async insertConstitutionVersion(policy: unknown, proposedBy: string, changeSummary?: string): Promise<ConstitutionVersionRecord> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_insert_constitution_version');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          INSERT INTO constitution_versions (policy, status, change_summary, proposed_by)
+          VALUES ($1, 'proposed', $2, $3)
+          RETURNING *
+        `, [JSON.stringify(policy), changeSummary || null, proposedBy]);
+        
+        const version = this.mapConstitutionRow(result.rows[0]);
+        
+        span.setAttributes({ 'constitution.version': version.version });
+        
+        logger.info('Constitution version proposed', {
+          version: version.version,
+          proposedBy
+        });
+        
+        return version;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to insert constitution version', { error: (error as Error).message });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get the active constitution version, or null when none is active
+   */
+  async getActiveConstitution(): Promise<ConstitutionVersionRecord | null> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(
+          `SELECT * FROM constitution_versions WHERE status = 'active'`
+        );
+        
+        return result.rows.length > 0 ? this.mapConstitutionRow(result.rows[0]) : null;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to get active constitution', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get one constitution version with its policy document
+   */
+  async getConstitutionVersion(version: number): Promise<ConstitutionVersionRecord | null> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(
+          `SELECT * FROM constitution_versions WHERE version = $1`,
+          [version]
+        );
+        
+        return result.rows.length > 0 ? this.mapConstitutionRow(result.rows[0]) : null;
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to get constitution version', { 
+        error: (error as Error).message,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List constitution versions newest first, without their policy documents
+   */
+  async listConstitutionVersions(): Promise<ConstitutionVersionSummary[]> {
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const result = await client.query(`
+          SELECT version, status, change_summary, proposed_by, activated_by, activated_at, created_at
+          FROM constitution_versions
+          ORDER BY version DESC
+        `);
+        
+        return result.rows.map(row => this.mapConstitutionSummaryRow(row));
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to list constitution versions', { error: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Make a proposed or superseded version the active one; the previous active version is superseded
+   * Returns false when the version does not exist
+   */
+  async activateConstitutionVersion(version: number, activatedBy: string): Promise<boolean> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_activate_constitution_version');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        await client.query('BEGIN');
+        
+        const target = await client.query(
+          `SELECT status FROM constitution_versions WHERE version = $1 FOR UPDATE`,
+          [version]
+        );
+        
+        if (target.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return false;
+        }
+        
+        await client.query(`
+          UPDATE constitution_versions SET status = 'superseded'
+          WHERE status = 'active' AND version <> $1
+        `, [version]);
+        
+        await client.query(`
+          UPDATE constitution_versions SET status = 'active', activated_by = $2, activated_at = NOW()
+          WHERE version = $1 AND status <> 'active'
+        `, [version, activatedBy]);
+        
+        await client.query('COMMIT');
+        
+        span.setAttributes({ 'constitution.version': version });
+        
+        logger.info('Constitution version activated', { version, activatedBy });
+        
+        return true;
+        
+      } catch (error: unknown) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to activate constitution version', { 
+        error: (error as Error).message,
+        version
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private mapConstitutionRow(row: QueryResultRow): ConstitutionVersionRecord {
+    return {
+      ...this.mapConstitutionSummaryRow(row),
+      policy: parseJsonColumn(row.policy)
+    };
+  }
+
+  private mapConstitutionSummaryRow(row: QueryResultRow): ConstitutionVersionSummary {
+    return {
+      version: row.version,
+      status: row.status,
+      changeSummary: row.change_summary,
+      proposedBy: row.proposed_by,
+      activatedBy: row.activated_by,
+      activatedAt: row.activated_at,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Log agent communication
+   */
+  async logAgentCommunication(messageData: {
+    messageId: string;
+    conversationId: string;
+    senderAgent: string;
+    recipientAgent: string;
+    messageType: string;
+    payload: any;
+    status: string;
+    responseTimeMs?: number;
+  }): Promise<void> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_log_communication');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const query = `
+          INSERT INTO agent_communication_log (
+            message_id, conversation_id, sender_agent, recipient_agent,
+            message_type, payload, status, response_time_ms
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `;
+        
+        const values = [
+          messageData.messageId,
+          messageData.conversationId,
+          messageData.senderAgent,
+          messageData.recipientAgent,
+          messageData.messageType,
+          JSON.stringify(messageData.payload),
+          messageData.status,
+          messageData.responseTimeMs
+        ];
+        
+        await client.query(query, values);
+        
+        span.setAttributes({
+          'communication.message_id': messageData.messageId,
+          'communication.sender': messageData.senderAgent,
+          'communication.recipient': messageData.recipientAgent,
+          'communication.type': messageData.messageType,
+          'communication.status': messageData.status
+        });
+        
+      } finally {
+        client.release();
+      }
+      
+    } catch (error: unknown) {
+      logger.error('Failed to log agent communication', { 
+        error: (error as Error).message,
+        messageId: messageData.messageId
+      });
+      span.recordException(error as Error);
+      span.setStatus({ code: 2, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Record performance metrics
+   */
+  async recordPerformanceMetric(
+    metricName: string,
+    metricValue: number,
+    metricUnit?: string,
+    labels?: any
+  ): Promise<void> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('alloydb_record_metric');
+    
+    try {
+      const client = await this.pool.connect();
+      
+      try {
+        const query = `
           INSERT INTO performance_metrics (
             metric_name, metric_value, metric_unit, labels
           ) VALUES ($1, $2, $3, $4)
@@ -800,3 +2148,24 @@ export class AlloyDBStateManager {
     }
   }
 }
+
+/**
+ * pg returns JSONB columns already parsed; older rows may hold JSON text
+ */
+function parseJsonColumn<T>(value: unknown): T {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
+function mapDispatchedCommandRow(row: QueryResultRow): DispatchedCommandRecord {
+  return {
+    commandId: row.command_id,
+    requestId: row.request_id,
+    decisionId: row.decision_id,
+    step: row.step,
+    controlVariable: row.control_variable,
+    status: row.status,
+    acknowledgement: parseJsonColumn(row.acknowledgement),
+    error: row.error,
+    sentAt: row.sent_at
+  };
+}
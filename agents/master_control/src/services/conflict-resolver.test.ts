@@ -0,0 +1,227 @@
+import { ConflictResolver, LlmResolution, detectRuleBasedConflicts } from './conflict-resolver';
+import { DeterministicReasoningService } from './deterministic-reasoning-service';
+import type { ReasoningService } from './gemini-reasoning-service';
+import { ActiveConstitution, DEFAULT_CONSTITUTION_POLICY } from '../config/constitution';
+
+const constitution: ActiveConstitution = { version: 1, policy: DEFAULT_CONSTITUTION_POLICY };
+
+const stabilityKilnSpeed = {
+  controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.6, adjustmentMagnitude: 2.86, executionMethod: 'immediate'
+};
+const optimizationKilnSpeed = {
+  controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.4, adjustmentMagnitude: -2.86, executionMethod: 'immediate'
+};
+const optimizationFuelFlow = {
+  controlVariable: 'fuel_flow', currentValue: 5.0, proposedValue: 5.2, adjustmentMagnitude: 4, executionMethod: 'immediate'
+};
+
+const proposals = [
+  { agentId: 'guardian_agent', proposalType: 'stability', actions: [stabilityKilnSpeed] },
+  { agentId: 'optimizer_agent', proposalType: 'optimization', actions: [optimizationKilnSpeed, optimizationFuelFlow] }
+];
+
+// Reasoning service answering every resolution with a fixed LLM result
+function scriptedReasoningService(resolution: LlmResolution): ReasoningService {
+  const local = new DeterministicReasoningService();
+  return {
+    analyzeConflicts: proposals => local.analyzeConflicts(proposals),
+    resolveConflictsUsingConstitution: async () => resolution,
+    generateDecisionReasoning: (proposals, conflicts, decision) => local.generateDecisionReasoning(proposals, conflicts, decision)
+  };
+}
+
+function llmResolution(overrides: Partial<LlmResolution>): LlmResolution {
+  return {
+    decisionType: 'modified',
+    approvedActions: [],
+    rejectedActions: [],
+    modifications: [],
+    decisionRationale: 'scripted',
+    riskEvaluation: 'scripted',
+    compromiseExplanation: 'scripted',
+    confidence: 0.9,
+    executionPriority: 'medium',
+    executionTimeline: 'immediate',
+    monitoringRequirements: [],
+    ...overrides
+  };
+}
+
+describe('ConflictResolver', () => {
+  const conflicts = detectRuleBasedConflicts(proposals);
+
+  it('requires a reasoning service for the llm and hybrid strategies', () => {
+    expect(() => new ConflictResolver('llm', null)).toThrow('requires a reasoning service');
+    expect(() => new ConflictResolver('hybrid', null)).toThrow('requires a reasoning service');
+  });
+
+  describe('rule_based', () => {
+    it('approves the stability action and moderates the conflicting optimization', async () => {
+      const result = await new ConflictResolver('rule_based').resolve(proposals, conflicts, constitution);
+
+      expect(result.resolution.applied).toBe('rule_based');
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+      expect(result.modifications.map(m => [m.controlVariable, m.executionMethod])).toEqual([
+        ['kiln_speed', 'gradual'],
+        ['fuel_flow', 'gradual']
+      ]);
+      expect(result.modifications[0].proposedValue).toBeCloseTo(3.45);
+      expect(result.modifications[1].proposedValue).toBeCloseTo(5.1);
+      expect(result.resolution.ruleBased.protectedVariables).toEqual(['kiln_speed']);
+    });
+
+    it('approves everything when there is no conflict', async () => {
+      const result = await new ConflictResolver('rule_based').resolve([proposals[1]], [], constitution);
+
+      expect(result.approvedActions).toEqual([optimizationKilnSpeed, optimizationFuelFlow]);
+      expect(result.modifications).toEqual([]);
+    });
+
+    it('rejects actions outside the hard constraints', async () => {
+      const outOfBounds = { ...stabilityKilnSpeed, proposedValue: 4.5 };
+      const result = await new ConflictResolver('rule_based').resolve(
+        [{ agentId: 'guardian_agent', proposalType: 'stability', actions: [outOfBounds] }],
+        [],
+        constitution
+      );
+
+      expect(result.approvedActions).toEqual([]);
+      expect(result.resolution.policyViolations).toEqual([
+        expect.objectContaining({ controlVariable: 'kiln_speed', rule: 'kiln_speed_bounds' })
+      ]);
+    });
+  });
+
+  describe('llm', () => {
+    it('reaches the rule table decision on the deterministic reasoning service', async () => {
+      const resolver = new ConflictResolver('llm', new DeterministicReasoningService());
+      const { conflicts: llmConflicts } = await resolver.analyze(proposals);
+      const result = await resolver.resolve(proposals, llmConflicts, constitution);
+      const rules = await new ConflictResolver('rule_based').resolve(proposals, conflicts, constitution);
+
+      expect(result.resolution.applied).toBe('llm');
+      expect(result.approvedActions).toEqual(rules.approvedActions);
+      expect(result.modifications).toEqual(rules.modifications);
+    });
+
+    it('falls back to the rule table when the reasoning service returned its fallback', async () => {
+      const resolver = new ConflictResolver('llm', scriptedReasoningService(llmResolution({
+        decisionType: 'approved',
+        approvedActions: proposals.flatMap(p => p.actions),
+        fallback: true
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.resolution.applied).toBe('rule_based_fallback');
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+      expect(result.modifications).toHaveLength(2);
+    });
+
+    it('falls back to the rule table on a malformed resolution', async () => {
+      const resolver = new ConflictResolver('llm', scriptedReasoningService({ decisionType: 'approved' } as LlmResolution));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.resolution.applied).toBe('rule_based_fallback');
+    });
+
+    it('rejects actions on variables no proposal submitted', async () => {
+      const invented = { controlVariable: 'mill_power', currentValue: 3000, proposedValue: 3100 };
+      const resolver = new ConflictResolver('llm', scriptedReasoningService(llmResolution({
+        approvedActions: [stabilityKilnSpeed, invented]
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.resolution.applied).toBe('llm');
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+      expect(result.rejectedActions).toEqual([expect.objectContaining({ controlVariable: 'mill_power' })]);
+      expect(result.resolution.policyViolations).toEqual([
+        expect.objectContaining({ controlVariable: 'mill_power', rule: 'proposals' })
+      ]);
+    });
+
+    it('measures the move from the proposal, not the current value the LLM returns', async () => {
+      const rewritten = { ...optimizationFuelFlow, currentValue: 6.0, proposedValue: 6.0 };
+      const resolver = new ConflictResolver('llm', scriptedReasoningService(llmResolution({
+        approvedActions: [rewritten]
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.approvedActions).toEqual([]);
+      expect(result.resolution.policyViolations).toEqual([
+        expect.objectContaining({ rule: 'proposalTypeLimits.optimization.maxAdjustmentPercent' })
+      ]);
+    });
+  });
+
+  describe('hybrid', () => {
+    it('validates the deterministic reasoning service without corrections', async () => {
+      const resolver = new ConflictResolver('hybrid', new DeterministicReasoningService());
+      const { conflicts: hybridConflicts } = await resolver.analyze(proposals);
+      const result = await resolver.resolve(proposals, hybridConflicts, constitution);
+
+      expect(result.resolution.applied).toBe('llm_validated');
+      expect(result.resolution.validation).toEqual({ valid: true, violations: [] });
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+    });
+
+    it('moderates an action the LLM approved in full', async () => {
+      const resolver = new ConflictResolver('hybrid', scriptedReasoningService(llmResolution({
+        approvedActions: [stabilityKilnSpeed, optimizationFuelFlow]
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+      expect(result.modifications).toHaveLength(1);
+      expect(result.modifications[0]).toMatchObject({ controlVariable: 'fuel_flow', executionMethod: 'gradual' });
+      expect(result.modifications[0].proposedValue).toBeCloseTo(5.1);
+      expect(result.resolution.validation?.valid).toBe(false);
+    });
+
+    it('clamps a rule-approved action the LLM pushed further than proposed', async () => {
+      const resolver = new ConflictResolver('hybrid', scriptedReasoningService(llmResolution({
+        approvedActions: [{ ...stabilityKilnSpeed, proposedValue: 3.9 }]
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+      expect(result.resolution.validation?.violations).toEqual([
+        expect.objectContaining({ controlVariable: 'kiln_speed', violation: expect.stringContaining('clamped to 3.6') })
+      ]);
+    });
+
+    it('keeps a smaller LLM modification and scales its magnitude', async () => {
+      const resolver = new ConflictResolver('hybrid', scriptedReasoningService(llmResolution({
+        approvedActions: [stabilityKilnSpeed],
+        modifications: [{ ...optimizationFuelFlow, proposedValue: 5.05, executionMethod: 'immediate' }]
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.modifications).toHaveLength(1);
+      expect(result.modifications[0]).toMatchObject({ controlVariable: 'fuel_flow', proposedValue: 5.05, executionMethod: 'gradual' });
+      expect(result.modifications[0].adjustmentMagnitude).toBeCloseTo(1);
+      expect(result.resolution.validation).toEqual({ valid: true, violations: [] });
+    });
+
+    it('clamps an LLM modification beyond the moderated value', async () => {
+      const resolver = new ConflictResolver('hybrid', scriptedReasoningService(llmResolution({
+        approvedActions: [stabilityKilnSpeed],
+        modifications: [{ ...optimizationKilnSpeed, proposedValue: 3.2 }]
+      })));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.modifications).toHaveLength(1);
+      expect(result.modifications[0].proposedValue).toBeCloseTo(3.45);
+      expect(result.resolution.validation?.valid).toBe(false);
+    });
+
+    it('restores a protected action the LLM dropped', async () => {
+      const resolver = new ConflictResolver('hybrid', scriptedReasoningService(llmResolution({})));
+      const result = await resolver.resolve(proposals, conflicts, constitution);
+
+      expect(result.approvedActions).toEqual([stabilityKilnSpeed]);
+      expect(result.resolution.validation?.violations).toEqual([
+        expect.objectContaining({ controlVariable: 'kiln_speed' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,664 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import { GeminiReasoningService, ReasoningService } from './gemini-reasoning-service';
+import { DeterministicReasoningService } from './deterministic-reasoning-service';
+import { CONFLICT_RESOLUTION_CONFIG, ResolutionStrategy } from '../config/constants';
+import { ActiveConstitution, ConstitutionPolicy } from '../config/constitution';
+import type { AgentProposal, ControlAction } from './proposal-collector';
+import type { WorkflowDecision } from '../graph';
+import {
+  KpiImpact,
+  KpiCouplingConflict,
+  detectCouplingConflicts,
+  estimateKpiImpact,
+  describeKpiImpact
+} from './process-impact-model';
+
+// Delimits the machine-readable policy inside the constitutional prompt
+const POLICY_BLOCK_START = '<<CONSTITUTION_POLICY>>';
+const POLICY_BLOCK_END = '<</CONSTITUTION_POLICY>>';
+
+export interface ControlVariableConflict {
+  type: 'control_variable_conflict';
+  severity: 'high';
+  description: string;
+  affectedProposals: string[];
+  conflictingParameters: string[];
+  source: 'rule_based';
+}
+
+export type RuleBasedConflict = ControlVariableConflict | KpiCouplingConflict;
+
+// A conflict as the reasoning service reports it, keyed like the rule-based ones
+export type LlmConflict = Awaited<ReturnType<ReasoningService['analyzeConflicts']>>['conflicts'][number] & {
+  affectedProposals: string[];
+  source: 'llm';
+};
+
+export type ProposalConflict = RuleBasedConflict | LlmConflict;
+
+export type LlmResolution = Awaited<ReturnType<ReasoningService['resolveConflictsUsingConstitution']>>;
+
+export type DecisionExplanation = Awaited<ReturnType<ReasoningService['generateDecisionReasoning']>>;
+
+// The three action lists every resolution path produces
+type DecidedActions = Pick<RuleResolution, 'approvedActions' | 'rejectedActions' | 'modifications'>;
+
+export interface ConflictAnalysisResult {
+  conflicts: ProposalConflict[];
+  analysis: {
+    strategy: ResolutionStrategy;
+    ruleBased: { conflictCount: number; couplingConflictCount: number };
+    // Estimated KPI moves from the process-coupling model, per proposal and for all proposals together
+    processImpact: {
+      byProposal: Record<string, KpiImpact[]>;
+      combined: KpiImpact[];
+    };
+    llm: { conflictCount: number; severity: LlmConflict['severity']; confidence: number; summary: string } | null;
+  };
+}
+
+export interface RuleResolution {
+  approvedActions: ControlAction[];
+  rejectedActions: ControlAction[];
+  modifications: ControlAction[];
+  // Control variables of actions whose proposal type the constitution always approves
+  protectedVariables: string[];
+  reasoning: string;
+}
+
+export interface HybridValidation {
+  valid: boolean;
+  violations: Array<{ controlVariable: string; violation: string }>;
+}
+
+export interface PolicyViolation {
+  controlVariable: string;
+  rule: string;
+  violation: string;
+}
+
+export interface ConflictResolutionResult {
+  approvedActions: ControlAction[];
+  rejectedActions: ControlAction[];
+  modifications: ControlAction[];
+  resolution: {
+    strategy: ResolutionStrategy;
+    applied: 'rule_based' | 'llm' | 'llm_validated' | 'rule_based_fallback';
+    policyVersion: number;
+    ruleBased: RuleResolution;
+    llm: LlmResolution | null;
+    validation: HybridValidation | null;
+    policyViolations: PolicyViolation[];
+  };
+}
+
+/**
+ * Conflict Resolver for Master Control Agent
+ * Detects and resolves conflicts between proposals with the constitution rule
+ * table, the reasoning service, or both (hybrid: rules validate the LLM output)
+ */
+export class ConflictResolver {
+  private strategy: ResolutionStrategy;
+  private reasoningService: ReasoningService | null;
+
+  constructor(
+    strategy: ResolutionStrategy = CONFLICT_RESOLUTION_CONFIG.strategy,
+    reasoningService: ReasoningService | null = null
+  ) {
+    if (strategy !== 'rule_based' && !reasoningService) {
+      throw new Error(`Conflict resolution strategy ${strategy} requires a reasoning service`);
+    }
+    this.strategy = strategy;
+    this.reasoningService = reasoningService;
+  }
+
+  getStrategy(): ResolutionStrategy {
+    return this.strategy;
+  }
+
+  /**
+   * Detect conflicts; rule-based conflicts are always computed for the audit trail
+   */
+  async analyze(proposals: AgentProposal[]): Promise<ConflictAnalysisResult> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('analyze_proposal_conflicts');
+
+    try {
+      const ruleConflicts = detectRuleBasedConflicts(proposals);
+      let llmConflicts: LlmConflict[] = [];
+      let llm: ConflictAnalysisResult['analysis']['llm'] = null;
+
+      if (this.reasoningService && this.strategy !== 'rule_based' && proposals.length > 1) {
+        const result = await this.reasoningService.analyzeConflicts(proposals);
+        llmConflicts = (result.conflicts || []).map(conflict => ({
+          ...conflict,
+          affectedProposals: conflict.proposals || [],
+          source: 'llm' as const
+        }));
+        llm = {
+          conflictCount: llmConflicts.length,
+          severity: result.severity,
+          confidence: result.confidence,
+          summary: result.summary
+        };
+      }
+
+      const conflicts: ProposalConflict[] = this.strategy === 'rule_based'
+        ? ruleConflicts
+        : this.strategy === 'llm'
+          ? llmConflicts
+          : [...ruleConflicts, ...llmConflicts];
+
+      span.setAttributes({
+        'conflict.strategy': this.strategy,
+        'conflict.rule_based_count': ruleConflicts.length,
+        'conflict.llm_count': llmConflicts.length
+      });
+
+      return {
+        conflicts,
+        analysis: {
+          strategy: this.strategy,
+          ruleBased: {
+            conflictCount: ruleConflicts.length,
+            couplingConflictCount: ruleConflicts.filter(c => c.type === 'kpi_coupling_conflict').length
+          },
+          processImpact: {
+            byProposal: Object.fromEntries(proposals.map(p =>
+              [p.agentId, describeKpiImpact(estimateKpiImpact(p.actions || []))]
+            )),
+            combined: describeKpiImpact(estimateKpiImpact(proposals.flatMap(p => p.actions || [])))
+          },
+          llm
+        }
+      };
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Resolve conflicts under the configured strategy, then enforce the policy's
+   * hard constraints and per-proposal-type limits on whatever was decided
+   */
+  async resolve(
+    proposals: AgentProposal[],
+    conflicts: ProposalConflict[],
+    constitution: ActiveConstitution
+  ): Promise<ConflictResolutionResult> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('resolve_proposal_conflicts');
+
+    try {
+      const { policy, version } = constitution;
+      const ruleBased = resolveByRules(proposals, conflicts, policy);
+      let applied: ConflictResolutionResult['resolution']['applied'] = 'rule_based';
+      let decided: DecidedActions = ruleBased;
+      let llm: LlmResolution | null = null;
+      let validation: HybridValidation | null = null;
+
+      if (this.reasoningService && this.strategy !== 'rule_based') {
+        llm = await this.reasoningService.resolveConflictsUsingConstitution(
+          proposals,
+          conflicts,
+          buildConstitutionalPrompt(constitution)
+        );
+
+        if (llm.fallback || !isWellFormedResolution(llm)) {
+          logger.warn('LLM resolution unavailable or malformed - falling back to rule-based resolution', {
+            strategy: this.strategy,
+            reasoningServiceFallback: llm.fallback === true
+          });
+          applied = 'rule_based_fallback';
+        } else if (this.strategy === 'llm') {
+          applied = 'llm';
+          decided = llm;
+        } else {
+          const validated = validateAgainstRules(llm, ruleBased, policy);
+          applied = 'llm_validated';
+          decided = validated;
+          validation = validated.validation;
+
+          if (!validation.valid) {
+            logger.warn('LLM resolution corrected by constitution rules', {
+              violations: validation.violations
+            });
+          }
+        }
+      }
+
+      const enforced = enforcePolicy(decided, proposals, policy);
+
+      if (enforced.policyViolations.length > 0) {
+        logger.warn('Actions rejected by constitution policy', {
+          policyVersion: version,
+          violations: enforced.policyViolations
+        });
+      }
+
+      span.setAttributes({
+        'resolution.applied': applied,
+        'resolution.policy_version': version,
+        'resolution.policy_violations': enforced.policyViolations.length,
+        'resolution.validation_violations': validation?.violations.length ?? 0
+      });
+
+      return {
+        approvedActions: enforced.approvedActions,
+        rejectedActions: enforced.rejectedActions,
+        modifications: enforced.modifications,
+        resolution: {
+          strategy: this.strategy,
+          applied,
+          policyVersion: version,
+          ruleBased,
+          llm,
+          validation,
+          policyViolations: enforced.policyViolations
+        }
+      };
+
+    } finally {
+      span.setAttribute('resolution.strategy', this.strategy);
+      span.end();
+    }
+  }
+
+  /**
+   * LLM explanation of the final decision; null under the rule-based strategy
+   */
+  async explain(
+    proposals: AgentProposal[],
+    conflicts: ProposalConflict[],
+    decision: WorkflowDecision
+  ): Promise<DecisionExplanation | null> {
+    if (!this.reasoningService || this.strategy === 'rule_based') {
+      return null;
+    }
+    return this.reasoningService.generateDecisionReasoning(proposals, conflicts, decision);
+  }
+}
+
+/**
+ * Reasoning service for the configured backend, or null when the strategy needs none
+ */
+export function createReasoningService(
+  strategy: ResolutionStrategy = CONFLICT_RESOLUTION_CONFIG.strategy,
+  backend: 'gemini' | 'local' = CONFLICT_RESOLUTION_CONFIG.reasoningBackend
+): ReasoningService | null {
+  if (strategy === 'rule_based') {
+    return null;
+  }
+  if (backend === 'local') {
+    return new DeterministicReasoningService();
+  }
+  return new GeminiReasoningService(
+    process.env.GOOGLE_CLOUD_PROJECT || 'cemai-dev',
+    process.env.GOOGLE_CLOUD_REGION || 'us-central1'
+  );
+}
+
+/**
+ * Proposals conflict when they touch the same control variable, or when the
+ * process-coupling model shows them opposing or compounding on a shared KPI
+ */
+export function detectRuleBasedConflicts(proposals: AgentProposal[]): RuleBasedConflict[] {
+  const conflicts: RuleBasedConflict[] = [];
+
+  for (let i = 0; i < proposals.length; i++) {
+    for (let j = i + 1; j < proposals.length; j++) {
+      const proposal1 = proposals[i];
+      const proposal2 = proposals[j];
+
+      // Check for conflicting control variables
+      const actions1 = (proposal1.actions || []).map(a => a.controlVariable);
+      const actions2 = (proposal2.actions || []).map(a => a.controlVariable);
+
+      const conflictingVariables = actions1.filter(v => actions2.includes(v));
+
+      if (conflictingVariables.length > 0) {
+        conflicts.push({
+          type: 'control_variable_conflict',
+          severity: 'high',
+          description: `Conflicting control variables: ${conflictingVariables.join(', ')}`,
+          affectedProposals: [proposal1.agentId, proposal2.agentId],
+          conflictingParameters: conflictingVariables,
+          source: 'rule_based'
+        });
+      }
+
+      conflicts.push(...detectCouplingConflicts(proposal1, proposal2));
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Apply the constitution's resolution rules in priority order
+ * Proposals outside any conflict are approved; conflicting ones follow the rule for their type
+ */
+export function resolveByRules(
+  proposals: AgentProposal[],
+  conflicts: ProposalConflict[],
+  policy: ConstitutionPolicy
+): RuleResolution {
+  if (conflicts.length === 0) {
+    return {
+      approvedActions: proposals.flatMap(p => p.actions || []),
+      rejectedActions: [],
+      modifications: [],
+      protectedVariables: [],
+      reasoning: `No conflicts between ${proposals.length} proposals - all actions approved`
+    };
+  }
+
+  const approvedActions: ControlAction[] = [];
+  const rejectedActions: ControlAction[] = [];
+  const modifications: ControlAction[] = [];
+  const protectedVariables: string[] = [];
+
+  const sortedProposals = [...proposals].sort((a, b) =>
+    getConstitutionalPriority(a, policy) - getConstitutionalPriority(b, policy)
+  );
+
+  for (const proposal of sortedProposals) {
+    const actions = proposal.actions || [];
+    const rule = policy.resolutionRules.find(r => r.proposalType === proposal.proposalType);
+    const inConflict = conflicts.some(c =>
+      (c.affectedProposals || []).includes(proposal.agentId)
+    );
+
+    if (rule?.onConflict === 'approve') {
+      approvedActions.push(...actions);
+      protectedVariables.push(...actions.map(a => a.controlVariable));
+    } else if (!inConflict) {
+      approvedActions.push(...actions);
+    } else if (rule?.onConflict === 'moderate') {
+      // Scale the move down to reduce the conflict
+      modifications.push(...actions.map(action => moderateAction(action, rule.magnitudeFactor ?? 0.5, rule.executionMethod)));
+    } else {
+      rejectedActions.push(...actions.map(action => ({
+        ...action,
+        rejectionReason: rule ? `Rule ${rule.id}: ${rule.description}` : `No resolution rule for ${proposal.proposalType} proposals in conflict`
+      })));
+    }
+  }
+
+  return {
+    approvedActions,
+    rejectedActions,
+    modifications,
+    protectedVariables,
+    reasoning: `${conflicts.length} conflicts resolved by constitutional priority: ` +
+      `${approvedActions.length} actions approved, ${modifications.length} moderated, ${rejectedActions.length} rejected`
+  };
+}
+
+/**
+ * Priority level of a proposal under the policy (1 = highest); unranked types come last
+ */
+export function getConstitutionalPriority(proposal: AgentProposal, policy: ConstitutionPolicy): number {
+  const priority = policy.priorities.find(p => proposal.proposalType !== undefined && p.proposalTypes.includes(proposal.proposalType));
+  return priority ? priority.level : Number.MAX_SAFE_INTEGER;
+}
+
+function moderateAction(action: ControlAction, factor: number, executionMethod?: string): ControlAction {
+  const moderated: ControlAction = {
+    ...action,
+    executionMethod: executionMethod || action.executionMethod,
+    adjustmentMagnitude: typeof action.adjustmentMagnitude === 'number' ? action.adjustmentMagnitude * factor : action.adjustmentMagnitude
+  };
+  if (typeof action.currentValue === 'number' && typeof action.proposedValue === 'number') {
+    moderated.proposedValue = action.currentValue + (action.proposedValue - action.currentValue) * factor;
+  }
+  return moderated;
+}
+
+/**
+ * Reject decided actions that break a hard constraint or their proposal type's limits
+ */
+function enforcePolicy(
+  decided: DecidedActions,
+  proposals: AgentProposal[],
+  policy: ConstitutionPolicy
+): DecidedActions & { policyViolations: PolicyViolation[] } {
+  const policyViolations: PolicyViolation[] = [];
+  const rejectedActions = [...decided.rejectedActions];
+  const actionCounts = new Map<AgentProposal, number>();
+
+  const check = (action: ControlAction): PolicyViolation | null => {
+    const source = proposals.find(p => (p.actions || []).some(a => a.controlVariable === action.controlVariable));
+    if (!source) {
+      return {
+        controlVariable: action.controlVariable,
+        rule: 'proposals',
+        violation: 'Control variable is not part of any submitted proposal'
+      };
+    }
+
+    const { proposedValue } = action;
+    const constraint = policy.hardConstraints.find(c =>
+      c.controlVariable === action.controlVariable &&
+      typeof proposedValue === 'number' &&
+      ((c.min !== undefined && proposedValue < c.min) || (c.max !== undefined && proposedValue > c.max))
+    );
+    if (constraint) {
+      return {
+        controlVariable: action.controlVariable,
+        rule: constraint.id,
+        violation: `Proposed value ${action.proposedValue} outside [${constraint.min ?? '-inf'}, ${constraint.max ?? 'inf'}]`
+      };
+    }
+
+    const limit = source.proposalType !== undefined ? policy.proposalTypeLimits[source.proposalType] : undefined;
+    if (!limit) {
+      return null;
+    }
+
+    const count = (actionCounts.get(source) || 0) + 1;
+    actionCounts.set(source, count);
+    if (count > limit.maxActions) {
+      return {
+        controlVariable: action.controlVariable,
+        rule: `proposalTypeLimits.${source.proposalType}.maxActions`,
+        violation: `More than ${limit.maxActions} actions from one ${source.proposalType} proposal`
+      };
+    }
+
+    // Measure the move from the proposal's own reading, not one the resolver may have rewritten
+    const currentValue = source.actions.find(a => a.controlVariable === action.controlVariable)!.currentValue;
+    if (typeof currentValue === 'number' && typeof proposedValue === 'number' && currentValue !== 0) {
+      const movePercent = Math.abs(proposedValue - currentValue) / Math.abs(currentValue) * 100;
+      if (movePercent > limit.maxAdjustmentPercent) {
+        return {
+          controlVariable: action.controlVariable,
+          rule: `proposalTypeLimits.${source.proposalType}.maxAdjustmentPercent`,
+          violation: `Move of ${movePercent.toFixed(2)}% exceeds ${limit.maxAdjustmentPercent}% for ${source.proposalType} proposals`
+        };
+      }
+    }
+
+    return null;
+  };
+
+  const keep = (actions: ControlAction[]) => actions.filter(action => {
+    const violation = check(action);
+    if (violation) {
+      policyViolations.push(violation);
+      rejectedActions.push({ ...action, rejectionReason: `Policy ${violation.rule}: ${violation.violation}` });
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    approvedActions: keep(decided.approvedActions),
+    modifications: keep(decided.modifications),
+    rejectedActions,
+    policyViolations
+  };
+}
+
+/**
+ * Check the LLM resolution against the rule table: the LLM may drop, reorder or
+ * shrink moves, but it may not approve what the rules reject, move a variable further
+ * than the rules allow, nor drop a protected action
+ */
+function validateAgainstRules(
+  llm: DecidedActions,
+  rules: RuleResolution,
+  policy: ConstitutionPolicy
+): DecidedActions & { validation: HybridValidation } {
+  const violations: HybridValidation['violations'] = [];
+  const ruleApproved = new Map(rules.approvedActions.map(a => [a.controlVariable, a]));
+  const ruleModified = new Map(rules.modifications.map(a => [a.controlVariable, a]));
+
+  const approvedActions: ControlAction[] = [];
+  const rejectedActions: ControlAction[] = [...llm.rejectedActions];
+  const modifications: ControlAction[] = [];
+
+  for (const action of llm.approvedActions) {
+    if (ruleApproved.has(action.controlVariable)) {
+      const bounded = boundToRuleAction(action, ruleApproved.get(action.controlVariable)!, policy);
+      approvedActions.push(bounded.action);
+      if (bounded.violation) {
+        violations.push({ controlVariable: action.controlVariable, violation: bounded.violation });
+      }
+    } else if (ruleModified.has(action.controlVariable)) {
+      modifications.push(boundToRuleAction(action, ruleModified.get(action.controlVariable)!, policy).action);
+      violations.push({
+        controlVariable: action.controlVariable,
+        violation: 'Approved in full where the constitution only allows a moderated action'
+      });
+    } else {
+      rejectedActions.push(action);
+      violations.push({
+        controlVariable: action.controlVariable,
+        violation: 'Approved an action not backed by a rule-approved proposal'
+      });
+    }
+  }
+
+  for (const modification of llm.modifications) {
+    const ruleAction = ruleModified.get(modification.controlVariable) || ruleApproved.get(modification.controlVariable);
+    if (!ruleAction) {
+      rejectedActions.push(modification);
+      violations.push({
+        controlVariable: modification.controlVariable,
+        violation: 'Modified an action not backed by any proposal the rules accept'
+      });
+    } else if (!modifications.some(m => m.controlVariable === modification.controlVariable)) {
+      const bounded = boundToRuleAction(modification, ruleAction, policy);
+      modifications.push(bounded.action);
+      if (bounded.violation) {
+        violations.push({ controlVariable: modification.controlVariable, violation: bounded.violation });
+      }
+    }
+  }
+
+  for (const variable of rules.protectedVariables) {
+    if (!approvedActions.some(a => a.controlVariable === variable)) {
+      approvedActions.push(ruleApproved.get(variable)!);
+      violations.push({
+        controlVariable: variable,
+        violation: 'Dropped a safety/quality action the constitution always approves'
+      });
+    }
+  }
+
+  return {
+    approvedActions,
+    rejectedActions,
+    modifications,
+    validation: { valid: violations.length === 0, violations }
+  };
+}
+
+/**
+ * Rebuild an LLM action on the rule-decided action: its proposed value is kept only
+ * between the current value and the rule's value, and within the hard constraints
+ */
+function boundToRuleAction(
+  action: ControlAction,
+  ruleAction: ControlAction,
+  policy: ConstitutionPolicy
+): { action: ControlAction; violation: string | null } {
+  if (action.proposedValue === ruleAction.proposedValue) {
+    return { action: ruleAction, violation: null };
+  }
+
+  const { currentValue, proposedValue: ruleValue } = ruleAction;
+  if (typeof action.proposedValue !== 'number' || typeof currentValue !== 'number' || typeof ruleValue !== 'number') {
+    return {
+      action: ruleAction,
+      violation: `Changed the rule-decided value ${ruleValue} to ${action.proposedValue}`
+    };
+  }
+
+  let value = Math.min(Math.max(action.proposedValue, Math.min(currentValue, ruleValue)), Math.max(currentValue, ruleValue));
+  const constraint = policy.hardConstraints.find(c => c.controlVariable === ruleAction.controlVariable);
+  if (constraint) {
+    value = Math.min(Math.max(value, constraint.min ?? -Infinity), constraint.max ?? Infinity);
+  }
+
+  const bounded: ControlAction = { ...ruleAction, proposedValue: value };
+  if (ruleValue !== currentValue && typeof ruleAction.adjustmentMagnitude === 'number') {
+    bounded.adjustmentMagnitude = ruleAction.adjustmentMagnitude * (value - currentValue) / (ruleValue - currentValue);
+  }
+
+  return {
+    action: bounded,
+    violation: value === action.proposedValue
+      ? null
+      : `Proposed value ${action.proposedValue} clamped to ${value} (rule-decided ${ruleValue}, current ${currentValue})`
+  };
+}
+
+function isWellFormedResolution(result: LlmResolution): boolean {
+  return Array.isArray(result?.approvedActions) &&
+    Array.isArray(result?.rejectedActions) &&
+    Array.isArray(result?.modifications) &&
+    [...result.approvedActions, ...result.modifications].every(a => typeof a?.controlVariable === 'string');
+}
+
+function buildConstitutionalPrompt(constitution: ActiveConstitution): string {
+  const { policy, version } = constitution;
+  return [
+    `You are the Master Control Agent for a cement plant. Resolve the conflicts below under constitution version ${version}.`,
+    '',
+    'PRIORITIES:',
+    ...policy.priorities.map(p => `${p.level}. ${p.objective}: ${p.description} (proposal types: ${p.proposalTypes.join(', ')})`),
+    '',
+    'HARD CONSTRAINTS (never violate):',
+    ...policy.hardConstraints.map(c => `- ${c.controlVariable} within [${c.min ?? '-inf'}, ${c.max ?? 'inf'}]: ${c.description}`),
+    '',
+    'CONFLICT RESOLUTION RULES:',
+    ...policy.resolutionRules.map(rule => `- ${rule.proposalType} in conflict: ${rule.onConflict}. ${rule.description}`),
+    '',
+    'DECISION PROCESS:',
+    ...policy.decisionProcess.map((step, index) => `${index + 1}. ${step}`),
+    '',
+    POLICY_BLOCK_START,
+    JSON.stringify(policy),
+    POLICY_BLOCK_END
+  ].join('\n');
+}
+
+/**
+ * Recover the policy document embedded in a constitutional prompt
+ */
+export function extractPolicyFromPrompt(prompt: string): ConstitutionPolicy | null {
+  const start = prompt.indexOf(POLICY_BLOCK_START);
+  const end = prompt.indexOf(POLICY_BLOCK_END);
+  if (start < 0 || end < start) {
+    return null;
+  }
+  try {
+    return JSON.parse(prompt.slice(start + POLICY_BLOCK_START.length, end));
+  } catch {
+    return null;
+  }
+}
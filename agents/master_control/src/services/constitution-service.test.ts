@@ -0,0 +1,148 @@
+import { ConstitutionService, diffPolicies } from './constitution-service';
+import type { AlloyDBStateManager, ConstitutionVersionRecord } from './alloydb-state-manager';
+import { ConstitutionPolicy, DEFAULT_CONSTITUTION_POLICY } from '../config/constitution';
+
+// In-memory stand-in for the constitution_versions table
+class InMemoryConstitutions {
+  versions: ConstitutionVersionRecord[] = [];
+  failReads = false;
+
+  async seedConstitution(policy: ConstitutionPolicy, proposedBy: string): Promise<boolean> {
+    if (this.versions.length > 0) {
+      return false;
+    }
+    this.insert(policy, proposedBy, 'active');
+    return true;
+  }
+
+  async insertConstitutionVersion(policy: unknown, proposedBy: string, changeSummary?: string) {
+    return this.insert(policy as ConstitutionPolicy, proposedBy, 'proposed', changeSummary);
+  }
+
+  async getActiveConstitution() {
+    if (this.failReads) {
+      throw new Error('connection refused');
+    }
+    return this.versions.find(v => v.status === 'active') ?? null;
+  }
+
+  async getConstitutionVersion(version: number) {
+    return this.versions.find(v => v.version === version) ?? null;
+  }
+
+  async activateConstitutionVersion(version: number, activatedBy: string): Promise<boolean> {
+    const target = this.versions.find(v => v.version === version);
+    if (!target) {
+      return false;
+    }
+    for (const v of this.versions.filter(v => v.status === 'active')) {
+      v.status = 'superseded';
+    }
+    Object.assign(target, { status: 'active', activatedBy, activatedAt: new Date().toISOString() });
+    return true;
+  }
+
+  private insert(policy: ConstitutionPolicy, proposedBy: string, status: ConstitutionVersionRecord['status'], changeSummary?: string) {
+    const record: ConstitutionVersionRecord = {
+      version: this.versions.length + 1,
+      status,
+      policy: JSON.parse(JSON.stringify(policy)),
+      changeSummary: changeSummary ?? null,
+      proposedBy,
+      activatedBy: status === 'active' ? proposedBy : null,
+      activatedAt: null,
+      createdAt: new Date().toISOString()
+    };
+    this.versions.push(record);
+    return record;
+  }
+}
+
+function withCostFactor(magnitudeFactor: number): ConstitutionPolicy {
+  const policy: ConstitutionPolicy = JSON.parse(JSON.stringify(DEFAULT_CONSTITUTION_POLICY));
+  policy.resolutionRules.find(rule => rule.id === 'cost_within_bounds')!.magnitudeFactor = magnitudeFactor;
+  return policy;
+}
+
+describe('ConstitutionService', () => {
+  let store: InMemoryConstitutions;
+  let service: ConstitutionService;
+
+  beforeEach(async () => {
+    store = new InMemoryConstitutions();
+    service = new ConstitutionService(store as unknown as AlloyDBStateManager, 60000);
+    await service.initialize();
+  });
+
+  it('seeds the built-in policy as active version 1 once', async () => {
+    await new ConstitutionService(store as unknown as AlloyDBStateManager).initialize();
+
+    expect(store.versions).toHaveLength(1);
+    expect(await service.getActive()).toEqual({ version: 1, policy: DEFAULT_CONSTITUTION_POLICY });
+  });
+
+  it('stores a valid proposal inactive and refuses an invalid one', async () => {
+    const proposed = await service.propose(withCostFactor(0.3), 'admin_1', 'Smaller cost moves');
+    expect(proposed).toMatchObject({ version: { version: 2, status: 'proposed' }, errors: [] });
+
+    const invalid = await service.propose(withCostFactor(2), 'admin_1');
+    expect(invalid.version).toBeNull();
+    expect(invalid.errors).toEqual(['resolutionRules[4].magnitudeFactor must be between 0 and 1 for moderate rules']);
+
+    expect(store.versions).toHaveLength(2);
+    expect((await service.getActive()).version).toBe(1);
+  });
+
+  it('diffs two stored versions by rule id', async () => {
+    await service.propose(withCostFactor(0.3), 'admin_1');
+
+    expect(await service.diff(1, 2)).toEqual([
+      { path: 'resolutionRules.cost_within_bounds.magnitudeFactor', change: 'changed', from: 0.5, to: 0.3 }
+    ]);
+    expect(await service.diff(1, 9)).toBeNull();
+  });
+
+  it('activates a version and serves it at once', async () => {
+    await service.propose(withCostFactor(0.3), 'admin_1');
+
+    expect(await service.activate(2, 'admin_2')).toEqual({ activated: true, errors: [] });
+
+    expect(await service.getActive()).toEqual({ version: 2, policy: withCostFactor(0.3) });
+    expect(store.versions.map(v => v.status)).toEqual(['superseded', 'active']);
+  });
+
+  it('re-validates a stored version before activating it', async () => {
+    // Written before the schema tightened
+    store.versions.push({ ...store.versions[0], version: 2, status: 'proposed', policy: withCostFactor(1) });
+
+    const result = await service.activate(2, 'admin_2');
+
+    expect(result.activated).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect((await service.getActive()).version).toBe(1);
+    expect(await service.activate(9, 'admin_2')).toEqual({ activated: false, errors: [] });
+  });
+
+  it('serves the cached version while AlloyDB is unreachable', async () => {
+    const shortLived = new ConstitutionService(store as unknown as AlloyDBStateManager, 0);
+    await shortLived.getActive();
+    store.failReads = true;
+
+    expect((await shortLived.getActive()).version).toBe(1);
+    await expect(new ConstitutionService(store as unknown as AlloyDBStateManager, 0).getActive()).rejects.toThrow('connection refused');
+  });
+});
+
+describe('diffPolicies', () => {
+  it('matches priorities by level and reports added and removed entries', () => {
+    const from = { priorities: [{ level: 1, objective: 'Safety' }, { level: 2, objective: 'Quality' }], decisionProcess: ['a'] };
+    const to = { priorities: [{ level: 1, objective: 'Safety first' }], decisionProcess: ['a', 'b'], note: 'x' };
+
+    expect(diffPolicies(from, to)).toEqual([
+      { path: 'priorities.1.objective', change: 'changed', from: 'Safety', to: 'Safety first' },
+      { path: 'priorities.2', change: 'removed', from: { level: 2, objective: 'Quality' } },
+      { path: 'decisionProcess', change: 'changed', from: ['a'], to: ['a', 'b'] },
+      { path: 'note', change: 'added', to: 'x' }
+    ]);
+  });
+});
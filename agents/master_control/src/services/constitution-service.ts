@@ -0,0 +1,201 @@
+import { logger } from '../utils/logger';
+import { AlloyDBStateManager, ConstitutionVersionRecord, ConstitutionVersionSummary } from './alloydb-state-manager';
+import { CONSTITUTION_CACHE_TTL_MS } from '../config/constants';
+import {
+  ActiveConstitution,
+  DEFAULT_CONSTITUTION_POLICY,
+  validateConstitutionPolicy
+} from '../config/constitution';
+
+export interface PolicyChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Source of the constitution a workflow run decides under
+ */
+export interface ConstitutionSource {
+  getActive(): Promise<ActiveConstitution>;
+}
+
+/**
+ * Built-in seed policy, reported as version 0; used when no policy store is wired in
+ */
+export const BUILT_IN_CONSTITUTION: ConstitutionSource = {
+  getActive: async () => ({ version: 0, policy: DEFAULT_CONSTITUTION_POLICY })
+};
+
+/**
+ * Constitution Service for Master Control Agent
+ * Serves the active constitution version from AlloyDB and manages the
+ * propose / diff / activate lifecycle of new versions
+ */
+export class ConstitutionService implements ConstitutionSource {
+  private stateManager: AlloyDBStateManager;
+  private cacheTtlMs: number;
+  private active: ActiveConstitution | null = null;
+  private loadedAt = 0;
+
+  constructor(stateManager: AlloyDBStateManager, cacheTtlMs: number = CONSTITUTION_CACHE_TTL_MS) {
+    this.stateManager = stateManager;
+    this.cacheTtlMs = cacheTtlMs;
+  }
+
+  /**
+   * Seed version 1 from the built-in policy on first start and load the active version
+   */
+  async initialize(): Promise<void> {
+    const seeded = await this.stateManager.seedConstitution(DEFAULT_CONSTITUTION_POLICY, 'system');
+    if (seeded) {
+      logger.info('Seeded constitution version 1 from built-in policy');
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Active constitution, re-read from AlloyDB once the cache expires
+   * Other instances may activate a version, so the cache is deliberately short-lived
+   */
+  async getActive(): Promise<ActiveConstitution> {
+    if (!this.active || Date.now() - this.loadedAt > this.cacheTtlMs) {
+      try {
+        await this.refresh();
+      } catch (error: unknown) {
+        if (!this.active) {
+          throw error;
+        }
+        logger.warn('Failed to refresh constitution - serving cached version', {
+          version: this.active.version,
+          error: (error as Error).message
+        });
+      }
+    }
+    return this.active as ActiveConstitution;
+  }
+
+  /**
+   * Validate and store a new version; it stays inactive until activated
+   */
+  async propose(
+    policy: unknown,
+    proposedBy: string,
+    changeSummary?: string
+  ): Promise<{ version: ConstitutionVersionRecord | null; errors: string[] }> {
+    const errors = validateConstitutionPolicy(policy);
+    if (errors.length > 0) {
+      return { version: null, errors };
+    }
+    const version = await this.stateManager.insertConstitutionVersion(policy, proposedBy, changeSummary);
+    return { version, errors: [] };
+  }
+
+  async getVersion(version: number): Promise<ConstitutionVersionRecord | null> {
+    return this.stateManager.getConstitutionVersion(version);
+  }
+
+  async listVersions(): Promise<ConstitutionVersionSummary[]> {
+    return this.stateManager.listConstitutionVersions();
+  }
+
+  /**
+   * Structured diff between two stored versions; null when either does not exist
+   */
+  async diff(fromVersion: number, toVersion: number): Promise<PolicyChange[] | null> {
+    const [from, to] = await Promise.all([
+      this.stateManager.getConstitutionVersion(fromVersion),
+      this.stateManager.getConstitutionVersion(toVersion)
+    ]);
+    if (!from || !to) {
+      return null;
+    }
+    return diffPolicies(from.policy, to.policy);
+  }
+
+  /**
+   * Activate a stored version after re-validating it against the current schema
+   */
+  async activate(version: number, activatedBy: string): Promise<{ activated: boolean; errors: string[] }> {
+    const stored = await this.stateManager.getConstitutionVersion(version);
+    if (!stored) {
+      return { activated: false, errors: [] };
+    }
+
+    const errors = validateConstitutionPolicy(stored.policy);
+    if (errors.length > 0) {
+      return { activated: false, errors };
+    }
+
+    const activated = await this.stateManager.activateConstitutionVersion(version, activatedBy);
+    if (activated) {
+      await this.refresh();
+    }
+    return { activated, errors: [] };
+  }
+
+  private async refresh(): Promise<void> {
+    const row = await this.stateManager.getActiveConstitution();
+    if (!row) {
+      throw new Error('No active constitution version');
+    }
+    if (this.active?.version !== row.version) {
+      logger.info('Loaded active constitution', { version: row.version });
+    }
+    this.active = { version: row.version, policy: row.policy };
+    this.loadedAt = Date.now();
+  }
+}
+
+/**
+ * Compare two policy documents; list entries with an id (or a level) are matched by it
+ */
+export function diffPolicies(from: unknown, to: unknown, path: string = ''): PolicyChange[] {
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const key = keyOf(from[0] ?? to[0]);
+    if (key) {
+      return diffObjects(
+        Object.fromEntries(from.map(entry => [entry[key], entry])),
+        Object.fromEntries(to.map(entry => [entry[key], entry])),
+        path
+      );
+    }
+    return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ path, change: 'changed', from, to }];
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    return diffObjects(from, to, path);
+  }
+
+  return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ path, change: 'changed', from, to }];
+}
+
+function diffObjects(from: Record<string, unknown>, to: Record<string, unknown>, path: string): PolicyChange[] {
+  const changes: PolicyChange[] = [];
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+  for (const key of keys) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (!(key in to)) {
+      changes.push({ path: childPath, change: 'removed', from: from[key] });
+    } else if (!(key in from)) {
+      changes.push({ path: childPath, change: 'added', to: to[key] });
+    } else {
+      changes.push(...diffPolicies(from[key], to[key], childPath));
+    }
+  }
+
+  return changes;
+}
+
+function keyOf(entry: unknown): string | null {
+  if (!isPlainObject(entry)) return null;
+  if (typeof entry.id === 'string') return 'id';
+  if (typeof entry.level === 'number') return 'level';
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
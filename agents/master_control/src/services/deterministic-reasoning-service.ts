@@ -0,0 +1,76 @@
+import { logger } from '../utils/logger';
+import type { ReasoningService } from './gemini-reasoning-service';
+import type { AgentProposal } from './proposal-collector';
+import { detectRuleBasedConflicts, resolveByRules, extractPolicyFromPrompt, ProposalConflict } from './conflict-resolver';
+import { DEFAULT_CONSTITUTION_POLICY } from '../config/constitution';
+import type { WorkflowDecision } from '../graph';
+
+/**
+ * Deterministic local stand-in for GeminiReasoningService
+ * Answers from the constitution rule table so the LLM and hybrid strategies can
+ * run offline and produce the same decision for the same proposals
+ */
+export class DeterministicReasoningService implements ReasoningService {
+  async analyzeConflicts(proposals: AgentProposal[]): ReturnType<ReasoningService['analyzeConflicts']> {
+    const conflicts = detectRuleBasedConflicts(proposals).map(conflict => ({
+      type: conflict.type === 'kpi_coupling_conflict' && conflict.indirect ? 'indirect' as const : 'direct' as const,
+      severity: conflict.severity,
+      description: conflict.description,
+      impact: conflict.type === 'kpi_coupling_conflict'
+        ? `${conflict.effect} effect on ${conflict.kpi}: combined ${conflict.combinedImpact} ${conflict.unit}`
+        : `Competing setpoints for ${conflict.conflictingParameters.join(', ')}`,
+      proposals: conflict.affectedProposals,
+      resolution: 'Apply constitutional priority'
+    }));
+
+    logger.debug('Deterministic conflict analysis completed', { conflictsCount: conflicts.length });
+
+    return {
+      conflicts,
+      severity: conflicts.length > 0 ? 'high' : 'low',
+      confidence: 1,
+      summary: `${conflicts.length} conflicts between ${proposals.length} proposals`
+    };
+  }
+
+  async resolveConflictsUsingConstitution(
+    proposals: AgentProposal[],
+    conflicts: ProposalConflict[],
+    constitutionalPrompt: string
+  ): ReturnType<ReasoningService['resolveConflictsUsingConstitution']> {
+    // Decide under the same policy version the prompt carries
+    const policy = extractPolicyFromPrompt(constitutionalPrompt) || DEFAULT_CONSTITUTION_POLICY;
+    const resolution = resolveByRules(proposals, conflicts, policy);
+
+    return {
+      decisionType: resolution.modifications.length > 0 ? 'modified' : 'approved',
+      approvedActions: resolution.approvedActions,
+      rejectedActions: resolution.rejectedActions,
+      modifications: resolution.modifications,
+      decisionRationale: resolution.reasoning,
+      riskEvaluation: conflicts.length > 0 ? 'Conflicts resolved by constitutional priority' : 'No conflicts',
+      compromiseExplanation: resolution.modifications.length > 0
+        ? 'Conflicting lower-priority actions moderated per the constitution resolution rules'
+        : 'No compromise needed',
+      confidence: 1,
+      executionPriority: 'medium',
+      executionTimeline: 'immediate',
+      monitoringRequirements: ['continuous_monitoring']
+    };
+  }
+
+  async generateDecisionReasoning(
+    proposals: AgentProposal[],
+    conflicts: ProposalConflict[],
+    decision: WorkflowDecision | null
+  ): ReturnType<ReasoningService['generateDecisionReasoning']> {
+    return {
+      reasoning: `Deterministic decision over ${proposals.length} proposals and ${conflicts.length} conflicts: ` +
+        `${decision?.approvedActions?.length || 0} actions approved, ${decision?.modifications?.length || 0} modified`,
+      constitutionalCompliance: true,
+      riskAssessment: `Risk level: ${decision?.riskLevel || 'unknown'}`,
+      alternativeConsidered: [],
+      monitoringPlan: 'Standard monitoring plan'
+    };
+  }
+}
@@ -0,0 +1,333 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { CommandLedger, EgressAcknowledgement, EgressCommandDispatcher } from './egress-command-dispatcher';
+import type { DispatchedCommandRecord } from './alloydb-state-manager';
+import type { WorkflowState } from '../graph';
+import type { ControlAction } from './proposal-collector';
+
+// A command as Egress receives it; every action here is a numeric setpoint
+interface SentCommand {
+  commandId: string;
+  action: ControlAction & { currentValue: number; proposedValue: number };
+  authorization: string;
+  priority: string;
+}
+
+type CommandHandler = (command: SentCommand, res: express.Response) => void;
+
+// Egress stand-in: answers /v1/command through a per-test handler and serves its records
+class MockEgress {
+  commands: SentCommand[] = [];
+  acknowledgements = new Map<string, EgressAcknowledgement>();
+  ramps = new Map<string, Record<string, unknown>>();
+  handler: CommandHandler = () => undefined;
+  private server: Server | null = null;
+
+  async start(): Promise<string> {
+    const app = express();
+    app.use(express.json());
+    app.post('/v1/command', (req, res) => {
+      this.commands.push(req.body);
+      this.handler(req.body, res);
+    });
+    app.get('/v1/commands/:commandId', (req, res) => {
+      const command = this.acknowledgements.get(req.params.commandId);
+      return command ? res.json({ status: 'success', command }) : res.status(404).json({ error: 'Command not acknowledged' });
+    });
+    app.get('/v1/ramps/:rampId', (req, res) => {
+      const ramp = this.ramps.get(req.params.rampId);
+      return ramp ? res.json({ status: 'success', ramp }) : res.status(404).json({ error: 'Ramp not found' });
+    });
+    this.server = await new Promise<Server>(resolve => {
+      const listener = app.listen(0, () => resolve(listener));
+    });
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+  }
+
+  // Acknowledge an immediate write the way Egress does, reading back the value
+  execute(command: SentCommand, res: express.Response, previousValue: number): void {
+    const acknowledgement = {
+      commandId: command.commandId,
+      controlVariable: command.action.controlVariable,
+      proposedValue: command.action.proposedValue,
+      status: 'executed',
+      executedValue: command.action.proposedValue,
+      previousValue,
+      rampId: null
+    };
+    this.acknowledgements.set(command.commandId, acknowledgement);
+    res.json({ status: 'success', command: acknowledgement });
+  }
+
+  // Start a ramp that is already in its final state when first polled
+  ramp(command: SentCommand, res: express.Response, ramp: Record<string, unknown>): void {
+    const rampId = `ramp_${this.ramps.size + 1}`;
+    this.ramps.set(rampId, { rampId, startedAt: new Date().toISOString(), durationMinutes: 10, stopReason: null, ...ramp });
+    const acknowledgement = { commandId: command.commandId, status: 'ramping', previousValue: ramp.startValue as number, rampId };
+    this.acknowledgements.set(command.commandId, acknowledgement);
+    res.status(202).json({ status: 'success', command: acknowledgement });
+  }
+}
+
+// In-memory stand-in for the dispatched_commands table: a rejected command may be reserved again
+class InMemoryLedger implements CommandLedger {
+  records = new Map<string, DispatchedCommandRecord>();
+
+  async reserveCommand(command: Parameters<CommandLedger['reserveCommand']>[0]) {
+    const existing = this.records.get(command.commandId);
+    if (existing && existing.status !== 'rejected') {
+      return { reserved: false, existing };
+    }
+    this.records.set(command.commandId, {
+      ...command,
+      decisionId: command.decisionId ?? null,
+      status: 'sent',
+      acknowledgement: null,
+      error: null,
+      sentAt: new Date().toISOString()
+    });
+    return { reserved: true, existing: null };
+  }
+
+  async recordCommandOutcome(
+    commandId: string,
+    status: 'acknowledged' | 'rejected' | 'unknown',
+    acknowledgement: unknown = null,
+    error: string | null = null
+  ): Promise<void> {
+    Object.assign(this.records.get(commandId)!, { status, acknowledgement, error });
+  }
+
+  statuses(): Record<string, string> {
+    return Object.fromEntries([...this.records].map(([commandId, record]) => [commandId, record.status]));
+  }
+}
+
+const kilnSpeed = { controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.6, executionMethod: 'immediate' };
+const fuelFlow = { controlVariable: 'fuel_flow', currentValue: 5.0, proposedValue: 5.2, executionMethod: 'immediate' };
+const millPower = { controlVariable: 'mill_power', currentValue: 3000, proposedValue: 3100, executionMethod: 'immediate' };
+
+function workflowState(approvedActions: ControlAction[], modifications: ControlAction[] = []): WorkflowState {
+  const actions = [...approvedActions, ...modifications];
+  return {
+    requestId: 'req_test',
+    conversationId: 'conv_test',
+    timestamp: new Date().toISOString(),
+    trigger: 'test',
+    context: {},
+    proposals: [{ agentId: 'guardian_agent', urgency: 'medium', actions }],
+    conflicts: [],
+    approvedActions,
+    rejectedActions: [],
+    modifications,
+    status: 'executing',
+    decision: {
+      decisionId: 'decision_test',
+      executionPlan: {
+        executionOrder: actions.map((action, index) => ({ step: index + 1, action: action.controlVariable }))
+      }
+    }
+  } as unknown as WorkflowState;
+}
+
+describe('EgressCommandDispatcher', () => {
+  let egress: MockEgress;
+  let endpoint: string;
+  let dispatcher: EgressCommandDispatcher;
+
+  beforeEach(async () => {
+    egress = new MockEgress();
+    endpoint = await egress.start();
+    dispatcher = new EgressCommandDispatcher(null, endpoint, 'http', 2000, true, 10, 'test-token');
+  });
+
+  afterEach(async () => {
+    await egress.stop();
+  });
+
+  it('sends approved actions then modifications in plan order with stable command ids', async () => {
+    egress.handler = (command, res) => egress.execute(command, res, command.action.currentValue);
+
+    const { executionResults, rollback } = await dispatcher.dispatch(workflowState([kilnSpeed], [fuelFlow]));
+
+    expect(egress.commands.map(c => [c.commandId, c.action.controlVariable, c.authorization])).toEqual([
+      ['cmd_decision_test_s1', 'kiln_speed', 'Bearer test-token'],
+      ['cmd_decision_test_s2', 'fuel_flow', 'Bearer test-token']
+    ]);
+    expect(executionResults.map(r => [r.step, r.status, r.outcome])).toEqual([[1, 'success', 'applied'], [2, 'success', 'applied']]);
+    expect(rollback).toEqual({ triggered: false, results: [] });
+  });
+
+  it('does not send a step Egress already acknowledged', async () => {
+    egress.acknowledgements.set('cmd_decision_test_s1', { commandId: 'cmd_decision_test_s1', status: 'executed', previousValue: 3.5 });
+    egress.handler = (command, res) => egress.execute(command, res, command.action.currentValue);
+
+    const { executionResults } = await dispatcher.dispatch(workflowState([kilnSpeed, fuelFlow]));
+
+    expect(egress.commands.map(c => c.commandId)).toEqual(['cmd_decision_test_s2']);
+    expect(executionResults.every(r => r.status === 'success')).toBe(true);
+  });
+
+  it('restores applied steps to the value Egress read, not the proposal, and leaves a rejected step alone', async () => {
+    egress.handler = (command, res) => {
+      if (command.action.controlVariable === 'fuel_flow' && command.priority !== 'critical') {
+        res.status(409).json({ status: 'rejected', error: 'Ramp is moving fuel_flow' });
+        return;
+      }
+      // The plant had moved on from the proposal's currentValue
+      egress.execute(command, res, 3.45);
+    };
+
+    const { executionResults, rollback } = await dispatcher.dispatch(workflowState([kilnSpeed, fuelFlow, millPower]));
+
+    expect(executionResults.map(r => [r.status, r.outcome])).toEqual([
+      ['success', 'applied'],
+      ['failed', 'rejected'],
+      ['skipped', undefined]
+    ]);
+    expect(rollback.failedStep).toBe(2);
+    expect(rollback.results).toEqual([
+      expect.objectContaining({ step: 1, controlVariable: 'kiln_speed', restoreValue: 3.45, status: 'restored' })
+    ]);
+    const restore = egress.commands[egress.commands.length - 1];
+    expect(restore).toMatchObject({
+      commandId: 'cmd_decision_test_rollback_s1',
+      priority: 'critical',
+      action: { controlVariable: 'kiln_speed', currentValue: 3.6, proposedValue: 3.45, executionMethod: 'immediate' }
+    });
+  });
+
+  it('treats a setpoint the PLC did not accept as not applied', async () => {
+    egress.handler = (command, res) => res.json({ status: 'failed', command: { status: 'setpoint_not_accepted' } });
+
+    const { executionResults, rollback } = await dispatcher.dispatch(workflowState([kilnSpeed]));
+
+    expect(executionResults[0]).toMatchObject({ status: 'failed', outcome: 'rejected' });
+    expect(rollback).toMatchObject({ triggered: true, results: [] });
+    expect(egress.commands).toHaveLength(1);
+  });
+
+  it('restores a step whose outcome is unknown from the record Egress kept', async () => {
+    egress.handler = (command, res) => {
+      if (command.priority === 'critical') {
+        egress.execute(command, res, 5.2);
+        return;
+      }
+      // Written, but the answer is lost to a server error
+      egress.acknowledgements.set(command.commandId, { commandId: command.commandId, status: 'executed', executedValue: 5.2, previousValue: 4.9 });
+      res.status(500).json({ status: 'error', error: 'Command execution failed' });
+    };
+
+    const { executionResults, rollback } = await dispatcher.dispatch(workflowState([fuelFlow]));
+
+    expect(executionResults[0]).toMatchObject({ status: 'failed', outcome: 'unknown' });
+    expect(rollback.results).toEqual([
+      expect.objectContaining({ step: 1, restoreValue: 4.9, status: 'restored' })
+    ]);
+  });
+
+  it('reports an unknown outcome Egress has no record of as unavailable rather than guessing', async () => {
+    egress.handler = (command, res) => res.status(500).json({ status: 'error' });
+
+    const { rollback } = await dispatcher.dispatch(workflowState([fuelFlow]));
+
+    expect(rollback.results).toEqual([
+      expect.objectContaining({ step: 1, restoreValue: null, status: 'unavailable' })
+    ]);
+    expect(egress.commands).toHaveLength(1);
+  });
+
+  it('fails a gradual step whose ramp stopped short and ramps it back over the part that ran', async () => {
+    const gradualKilnSpeed = { ...kilnSpeed, proposedValue: 3.7, executionMethod: 'gradual' };
+    egress.handler = (command, res) => {
+      const restoring = command.priority === 'critical';
+      egress.ramp(command, res, restoring
+        ? { status: 'completed', startValue: 3.6, targetValue: 3.5, currentSetpoint: 3.5, totalSteps: 2, completedSteps: 2 }
+        : { status: 'aborted', stopReason: 'Guardian reports critical quality alert', startValue: 3.5, targetValue: 3.7, currentSetpoint: 3.6, totalSteps: 10, completedSteps: 5 });
+    };
+
+    const { executionResults, rollback } = await dispatcher.dispatch(workflowState([gradualKilnSpeed]));
+
+    expect(executionResults[0]).toMatchObject({ status: 'failed', outcome: 'applied' });
+    expect(executionResults[0].error).toContain('aborted: Guardian reports critical quality alert');
+    expect(rollback.results).toEqual([expect.objectContaining({ restoreValue: 3.5, status: 'restored' })]);
+    expect(egress.commands[1].action).toMatchObject({
+      currentValue: 3.6,
+      proposedValue: 3.5,
+      executionMethod: 'gradual',
+      rampDurationMinutes: 5
+    });
+  });
+
+  it('refuses to dispatch without an Egress auth token', async () => {
+    const unauthenticated = new EgressCommandDispatcher(null, endpoint, 'http', 2000, true, 10, undefined);
+    egress.handler = (command, res) => egress.execute(command, res, 3.5);
+
+    const { executionResults, rollback } = await unauthenticated.dispatch(workflowState([kilnSpeed, fuelFlow]));
+
+    expect(egress.commands).toHaveLength(0);
+    expect(executionResults.map(r => [r.status, r.error])).toEqual([
+      ['failed', 'Egress auth token not configured'],
+      ['failed', 'Egress auth token not configured']
+    ]);
+    expect(rollback.triggered).toBe(false);
+  });
+
+  describe('with a command ledger', () => {
+    let ledger: InMemoryLedger;
+
+    beforeEach(() => {
+      ledger = new InMemoryLedger();
+      dispatcher = new EgressCommandDispatcher(ledger, endpoint, 'http', 2000, true, 10, 'test-token');
+    });
+
+    it('records each command before it is sent and its outcome after', async () => {
+      egress.handler = (command, res) => command.action.controlVariable === 'fuel_flow'
+        ? res.status(409).json({ status: 'rejected', error: 'Ramp is moving fuel_flow' })
+        : egress.execute(command, res, command.action.currentValue);
+
+      await dispatcher.dispatch(workflowState([kilnSpeed, fuelFlow]));
+
+      expect(ledger.statuses()).toEqual({
+        cmd_decision_test_s1: 'acknowledged',
+        cmd_decision_test_s2: 'rejected',
+        cmd_decision_test_rollback_s1: 'acknowledged'
+      });
+      expect(ledger.records.get('cmd_decision_test_s1')).toMatchObject({
+        requestId: 'req_test',
+        decisionId: 'decision_test',
+        step: 1,
+        controlVariable: 'kiln_speed',
+        acknowledgement: expect.objectContaining({ status: 'executed', previousValue: 3.5 })
+      });
+    });
+
+    it('does not resend an acknowledged command after Egress restarted and lost its record', async () => {
+      await ledger.reserveCommand({ commandId: 'cmd_decision_test_s1', requestId: 'req_test', step: 1, controlVariable: 'kiln_speed' });
+      await ledger.recordCommandOutcome('cmd_decision_test_s1', 'acknowledged', { status: 'executed', previousValue: 3.5 });
+      egress.handler = (command, res) => egress.execute(command, res, command.action.currentValue);
+
+      const { executionResults } = await dispatcher.dispatch(workflowState([kilnSpeed, fuelFlow]));
+
+      expect(egress.commands.map(c => c.commandId)).toEqual(['cmd_decision_test_s2']);
+      expect(executionResults.map(r => [r.status, r.outcome])).toEqual([['success', 'applied'], ['success', 'applied']]);
+    });
+
+    it('does not resend a command whose outcome was lost with the previous instance', async () => {
+      await ledger.reserveCommand({ commandId: 'cmd_decision_test_s1', requestId: 'req_test', step: 1, controlVariable: 'kiln_speed' });
+      egress.handler = (command, res) => egress.execute(command, res, command.action.currentValue);
+
+      const { executionResults, rollback } = await dispatcher.dispatch(workflowState([kilnSpeed, fuelFlow]));
+
+      expect(egress.commands).toHaveLength(0);
+      expect(executionResults[0]).toMatchObject({ status: 'failed', outcome: 'unknown' });
+      expect(executionResults[0].error).toContain('not sent again');
+      expect(rollback.results).toEqual([expect.objectContaining({ step: 1, status: 'unavailable' })]);
+    });
+  });
+});
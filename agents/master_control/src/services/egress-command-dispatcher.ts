@@ -0,0 +1,734 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import { SPECIALIST_AGENTS, EGRESS_COMMAND_CONFIG } from '../config/constants';
+import type { WorkflowState, WorkflowDecision } from '../graph';
+import type { AlloyDBStateManager } from './alloydb-state-manager';
+import type { ControlAction } from './proposal-collector';
+
+// Ramp states Egress will not move on from
+const FINAL_RAMP_STATUSES = ['completed', 'aborted', 'cancelled', 'failed'];
+
+/**
+ * Egress's record of a command it acknowledged
+ */
+export interface EgressAcknowledgement {
+  commandId?: string;
+  status?: string;
+  executedValue?: number | null;
+  // Setpoint Egress read before writing, or the start of the ramp
+  previousValue?: number | null;
+  rampId?: string | null;
+}
+
+/**
+ * A ramped setpoint move as Egress reports it at /v1/ramps/:rampId
+ */
+export interface EgressRamp {
+  rampId: string;
+  status: string;
+  startValue: number;
+  targetValue: number;
+  currentSetpoint: number;
+  durationMinutes: number;
+  totalSteps: number;
+  completedSteps: number;
+  startedAt: string;
+  stopReason: string | null;
+}
+
+export interface CommandExecutionResult {
+  commandId: string;
+  step: number;
+  status: 'success' | 'failed' | 'skipped';
+  // Whether the command reached the plant; 'rejected' means Egress answered and wrote nothing
+  outcome?: 'applied' | 'rejected' | 'unknown';
+  action: ControlAction;
+  decisionId?: string;
+  acknowledgement?: EgressAcknowledgement;
+  // Final state of the Egress ramp for a gradual action
+  ramp?: EgressRamp;
+  error?: string;
+  timestamp: string;
+}
+
+export interface RollbackStepResult {
+  commandId: string;
+  step: number;
+  controlVariable: string;
+  restoreValue: number | null;
+  status: 'restored' | 'failed' | 'unavailable';
+  error?: string;
+  timestamp: string;
+}
+
+export interface RollbackReport {
+  triggered: boolean;
+  failedStep?: number;
+  results: RollbackStepResult[];
+}
+
+export interface CommandDispatchResult {
+  executionResults: CommandExecutionResult[];
+  rollback: RollbackReport;
+}
+
+/**
+ * Executes the approved actions of a decision against the plant
+ */
+export interface CommandDispatcher {
+  dispatch(state: WorkflowState): Promise<CommandDispatchResult>;
+}
+
+/**
+ * Durable record of commands sent to Egress, which keeps its own acknowledgements only in memory
+ */
+export type CommandLedger = Pick<AlloyDBStateManager, 'reserveCommand' | 'recordCommandOutcome'>;
+
+/**
+ * Egress answered and did not apply the command, so there is nothing to restore
+ */
+class CommandNotAppliedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandNotAppliedError';
+  }
+}
+
+// Egress answers /v1/command with the command record, /a2a/receive with a status payload
+interface EgressCommandResponse {
+  status?: string;
+  command?: EgressAcknowledgement;
+  payload?: { status?: string; result?: EgressAcknowledgement };
+}
+
+// How a rollback step moves a variable back to where Egress found it
+interface RestorePlan {
+  restoreValue: number;
+  fromValue: number;
+  executionMethod: 'immediate' | 'gradual';
+  rampDurationMinutes?: number;
+}
+
+/**
+ * Egress Command Dispatcher for Master Control Agent
+ * Sends approved actions to the Egress Agent step by step, waits for each
+ * acknowledgement (and for gradual actions, their ramp) and restores the setpoints
+ * Egress reported before each applied step when a later step fails
+ */
+export class EgressCommandDispatcher implements CommandDispatcher {
+  private ledger: CommandLedger | null;
+  private endpoint: string;
+  private transport: 'http' | 'a2a';
+  private acknowledgementTimeoutMs: number;
+  private rollbackOnFailure: boolean;
+  private rampPollIntervalMs: number;
+  private authToken: string | undefined;
+
+  constructor(
+    ledger: CommandLedger | null = null,
+    endpoint: string = SPECIALIST_AGENTS.egress.endpoint,
+    transport: 'http' | 'a2a' = EGRESS_COMMAND_CONFIG.transport,
+    acknowledgementTimeoutMs: number = EGRESS_COMMAND_CONFIG.acknowledgementTimeoutMs,
+    rollbackOnFailure: boolean = EGRESS_COMMAND_CONFIG.rollbackOnFailure,
+    rampPollIntervalMs: number = EGRESS_COMMAND_CONFIG.rampPollIntervalMs,
+    authToken: string | undefined = EGRESS_COMMAND_CONFIG.authToken
+  ) {
+    this.ledger = ledger;
+    this.endpoint = endpoint;
+    this.transport = transport;
+    this.acknowledgementTimeoutMs = acknowledgementTimeoutMs;
+    this.rollbackOnFailure = rollbackOnFailure;
+    this.rampPollIntervalMs = rampPollIntervalMs;
+    this.authToken = authToken;
+  }
+
+  /**
+   * Dispatch every step of the execution plan in order; stop and roll back on the first failure
+   */
+  async dispatch(state: WorkflowState): Promise<CommandDispatchResult> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('dispatch_egress_commands');
+
+    try {
+      const steps = orderActions(state);
+
+      // Without the token Egress trusts, nothing is sent; no stand-in credential is made up
+      if (!this.authToken) {
+        logger.error('EGRESS_AUTH_TOKEN is not configured - refusing to dispatch commands to Egress', {
+          requestId: state.requestId,
+          decisionId: state.decision?.decisionId,
+          stepCount: steps.length
+        });
+        span.setAttributes({ 'workflow.request_id': state.requestId, 'dispatch.refused': true });
+        return {
+          executionResults: steps.map(({ step, action }) => ({
+            commandId: createCommandId(state, `s${step}`),
+            step,
+            status: 'failed',
+            outcome: 'rejected',
+            action,
+            decisionId: state.decision?.decisionId,
+            error: 'Egress auth token not configured',
+            timestamp: new Date().toISOString()
+          })),
+          rollback: { triggered: false, results: [] }
+        };
+      }
+
+      const executionResults: CommandExecutionResult[] = [];
+      let failedStep: number | undefined;
+
+      for (const { step, action } of steps) {
+        if (failedStep !== undefined) {
+          executionResults.push({
+            commandId: createCommandId(state, `s${step}`),
+            step,
+            status: 'skipped',
+            action,
+            decisionId: state.decision?.decisionId,
+            error: `Skipped after step ${failedStep} failed`,
+            timestamp: new Date().toISOString()
+          });
+          continue;
+        }
+
+        const result = await this.executeStep(state, step, action);
+        executionResults.push(result);
+
+        if (result.status === 'failed') {
+          failedStep = step;
+        }
+      }
+
+      const rollback: RollbackReport = { triggered: false, results: [] };
+      if (failedStep !== undefined && this.rollbackOnFailure) {
+        rollback.triggered = true;
+        rollback.failedStep = failedStep;
+        rollback.results = await this.rollback(state, executionResults);
+      }
+
+      span.setAttributes({
+        'workflow.request_id': state.requestId,
+        'dispatch.step_count': steps.length,
+        'dispatch.failed_step': failedStep ?? 0,
+        'dispatch.rollback_triggered': rollback.triggered
+      });
+
+      return { executionResults, rollback };
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Send one action and wait for the Egress acknowledgement, then for a gradual action until
+   * its ramp ends; a step Egress already acknowledged (a run resumed after a restart) is not sent again
+   */
+  private async executeStep(state: WorkflowState, step: number, action: ControlAction): Promise<CommandExecutionResult> {
+    const commandId = createCommandId(state, `s${step}`);
+
+    try {
+      const previous = await this.findAcknowledgement(commandId);
+      if (previous) {
+        logger.warn('Command already acknowledged by Egress Agent - not sent again', {
+          requestId: state.requestId,
+          commandId,
+          step,
+          action: action.controlVariable
+        });
+        await this.recordOutcome(commandId, 'acknowledged', previous);
+      }
+      const acknowledgement = previous || await this.sendOnce(state, commandId, step, action, priorityFor(state));
+
+      logger.info('Command acknowledged by Egress Agent', {
+        requestId: state.requestId,
+        commandId,
+        step,
+        action: action.controlVariable,
+        executedValue: acknowledgement?.executedValue,
+        rampId: acknowledgement?.rampId
+      });
+
+      if (!acknowledgement?.rampId) {
+        return {
+          commandId,
+          step,
+          status: 'success',
+          outcome: 'applied',
+          action,
+          decisionId: state.decision?.decisionId,
+          acknowledgement,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      // A ramp that stops short of its target leaves the variable part-way: the step failed
+      const ramp = await this.awaitRamp(state, acknowledgement.rampId);
+      const completed = ramp.status === 'completed';
+      if (!completed) {
+        logger.error('Ramp did not complete', {
+          requestId: state.requestId,
+          commandId,
+          step,
+          rampId: ramp.rampId,
+          rampStatus: ramp.status,
+          stopReason: ramp.stopReason
+        });
+      }
+
+      return {
+        commandId,
+        step,
+        status: completed ? 'success' : 'failed',
+        outcome: 'applied',
+        action,
+        decisionId: state.decision?.decisionId,
+        acknowledgement,
+        ramp,
+        ...(completed ? {} : { error: `Ramp ${ramp.rampId} ${ramp.status}: ${ramp.stopReason || 'no reason given'}` }),
+        timestamp: new Date().toISOString()
+      };
+
+    } catch (error) {
+      logger.error('Failed to send command', {
+        requestId: state.requestId,
+        commandId,
+        step,
+        action: action.controlVariable,
+        error: (error as Error).message
+      });
+
+      // A timeout, dropped connection or server error leaves open whether the write happened
+      return {
+        commandId,
+        step,
+        status: 'failed',
+        outcome: error instanceof CommandNotAppliedError ? 'rejected' : 'unknown',
+        action,
+        decisionId: state.decision?.decisionId,
+        error: (error as Error).message,
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Restore the setpoints of applied steps, most recent first, to the values Egress read before
+   * writing them. A failed step is restored only when its outcome is unknown (e.g. a write that
+   * timed out) and Egress has a record of it; a step Egress rejected wrote nothing
+   */
+  private async rollback(state: WorkflowState, executionResults: CommandExecutionResult[]): Promise<RollbackStepResult[]> {
+    const attempted = executionResults.filter(r => r.outcome === 'applied' || r.outcome === 'unknown').reverse();
+    const results: RollbackStepResult[] = [];
+
+    logger.warn('Rolling back executed commands', {
+      requestId: state.requestId,
+      decisionId: state.decision?.decisionId,
+      stepCount: attempted.length
+    });
+
+    for (const executed of attempted) {
+      const commandId = createCommandId(state, `rollback_s${executed.step}`);
+      const base = {
+        commandId,
+        step: executed.step,
+        controlVariable: executed.action.controlVariable
+      };
+
+      let plan: RestorePlan | null;
+      try {
+        plan = await this.planRestore(state, executed);
+      } catch (error) {
+        results.push({
+          ...base,
+          restoreValue: null,
+          status: 'unavailable',
+          error: (error as Error).message,
+          timestamp: new Date().toISOString()
+        });
+        continue;
+      }
+      // The command never moved the variable
+      if (!plan) {
+        continue;
+      }
+
+      try {
+        const acknowledgement = await this.sendOnce(state, commandId, executed.step, {
+          ...executed.action,
+          currentValue: plan.fromValue,
+          proposedValue: plan.restoreValue,
+          executionMethod: plan.executionMethod,
+          rampDurationMinutes: plan.rampDurationMinutes
+        }, 'critical');
+
+        if (acknowledgement?.rampId) {
+          const ramp = await this.awaitRamp(state, acknowledgement.rampId);
+          if (ramp.status !== 'completed') {
+            throw new Error(`Restore ramp ${ramp.rampId} ${ramp.status}: ${ramp.stopReason || 'no reason given'}`);
+          }
+        }
+
+        results.push({ ...base, restoreValue: plan.restoreValue, status: 'restored', timestamp: new Date().toISOString() });
+
+      } catch (error) {
+        logger.error('Rollback command failed', {
+          requestId: state.requestId,
+          commandId,
+          step: executed.step,
+          action: executed.action.controlVariable,
+          error: (error as Error).message
+        });
+
+        results.push({
+          ...base,
+          restoreValue: plan.restoreValue,
+          status: 'failed',
+          error: (error as Error).message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Where to move a step's variable back to: the setpoint Egress read before the command,
+   * as a ramp over the part of the ramp that ran for a gradual step; null when nothing was written.
+   * Throws when Egress has no record to restore from
+   */
+  private async planRestore(state: WorkflowState, executed: CommandExecutionResult): Promise<RestorePlan | null> {
+    const acknowledgement = executed.outcome === 'unknown'
+      ? await this.findAcknowledgement(executed.commandId)
+      : executed.acknowledgement;
+
+    if (!acknowledgement) {
+      throw new Error('Outcome unknown and Egress has no acknowledgement of the command');
+    }
+
+    if (acknowledgement.rampId) {
+      const ramp = executed.ramp || await this.awaitRamp(state, acknowledgement.rampId);
+      if (ramp.completedSteps === 0) {
+        return null;
+      }
+      return {
+        restoreValue: ramp.startValue,
+        fromValue: ramp.currentSetpoint,
+        executionMethod: 'gradual',
+        rampDurationMinutes: ramp.durationMinutes * ramp.completedSteps / ramp.totalSteps
+      };
+    }
+
+    if (typeof acknowledgement.previousValue !== 'number') {
+      throw new Error('Egress did not report the setpoint before the command');
+    }
+    return {
+      restoreValue: acknowledgement.previousValue,
+      fromValue: acknowledgement.executedValue ?? executed.action.proposedValue as number,
+      executionMethod: 'immediate'
+    };
+  }
+
+  /**
+   * Poll Egress until the ramp reaches a final state; one still running past its duration
+   * plus the margin is cancelled, so the variable is held where it is and rollback can write it
+   */
+  private async awaitRamp(state: WorkflowState, rampId: string): Promise<EgressRamp> {
+    let deadline: number | null = null;
+    let cancelled = false;
+    let ramp = await this.fetchRamp(rampId);
+
+    while (!ramp || !FINAL_RAMP_STATUSES.includes(ramp.status)) {
+      if (ramp && deadline === null) {
+        deadline = Date.parse(ramp.startedAt) + ramp.durationMinutes * 60000 + EGRESS_COMMAND_CONFIG.rampCompletionMarginMs;
+      }
+      if (deadline === null || Number.isNaN(deadline)) {
+        deadline = Date.now() + EGRESS_COMMAND_CONFIG.rampCompletionMarginMs;
+      }
+
+      if (Date.now() > deadline) {
+        if (cancelled) {
+          throw new Error(`Ramp ${rampId} did not stop after it was cancelled`);
+        }
+        logger.warn('Ramp overran its duration - cancelling it', { requestId: state.requestId, rampId });
+        await this.cancelRamp(rampId);
+        cancelled = true;
+        // A stopping ramp finishes its in-flight step, one OPC-UA write
+        deadline = Date.now() + this.acknowledgementTimeoutMs;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.rampPollIntervalMs));
+      ramp = await this.fetchRamp(rampId);
+    }
+
+    return ramp;
+  }
+
+  /**
+   * Current state of a ramp; null on a transient lookup failure, which is polled again
+   */
+  private async fetchRamp(rampId: string): Promise<EgressRamp | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpoint}/v1/ramps/${encodeURIComponent(rampId)}`, {
+        headers: { 'User-Agent': 'CemAI-Agent/master_control_agent/1.0.0' },
+        signal: AbortSignal.timeout(this.acknowledgementTimeoutMs)
+      });
+    } catch (error) {
+      logger.warn('Could not poll Egress ramp', { rampId, error: (error as Error).message });
+      return null;
+    }
+
+    if (response.status === 404) {
+      throw new Error(`Egress no longer knows ramp ${rampId}`);
+    }
+    if (!response.ok) {
+      logger.warn('Could not poll Egress ramp', { rampId, status: response.status });
+      return null;
+    }
+    const result = await response.json() as { ramp?: EgressRamp };
+    return result?.ramp || null;
+  }
+
+  private async cancelRamp(rampId: string): Promise<void> {
+    if (!this.authToken) {
+      logger.error('EGRESS_AUTH_TOKEN is not configured - cannot cancel overrunning ramp', { rampId });
+      return;
+    }
+    try {
+      await fetch(`${this.endpoint}/v1/ramps/${encodeURIComponent(rampId)}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.authToken}`,
+          'X-User-Id': 'master_control_agent',
+          'User-Agent': 'CemAI-Agent/master_control_agent/1.0.0'
+        },
+        body: JSON.stringify({ reason: 'Ramp overran its duration' }),
+        signal: AbortSignal.timeout(this.acknowledgementTimeoutMs)
+      });
+    } catch (error) {
+      logger.error('Failed to cancel overrunning ramp', { rampId, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Egress's record of a command it already acknowledged, or null; lookup failures count as
+   * not acknowledged, since Egress also refuses to execute a commandId twice
+   */
+  private async findAcknowledgement(commandId: string): Promise<EgressAcknowledgement | null> {
+    try {
+      const response = await fetch(`${this.endpoint}/v1/commands/${encodeURIComponent(commandId)}`, {
+        headers: { 'User-Agent': 'CemAI-Agent/master_control_agent/1.0.0' },
+        signal: AbortSignal.timeout(this.acknowledgementTimeoutMs)
+      });
+      if (!response.ok) {
+        return null;
+      }
+      const result = await response.json() as { command?: EgressAcknowledgement };
+      // A command Egress is still writing has no outcome yet
+      return result?.command && result.command.status !== 'executing' ? result.command : null;
+    } catch (error) {
+      logger.warn('Could not check Egress for an earlier acknowledgement', { commandId, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Record the command in the ledger, then send it. A command the ledger shows as sent before
+   * (a run resumed after a restart of either agent) is not sent again: an earlier acknowledgement
+   * is returned, and an attempt without a recorded answer fails as an unknown outcome
+   */
+  private async sendOnce(
+    state: WorkflowState,
+    commandId: string,
+    step: number,
+    action: ControlAction,
+    priority: string
+  ): Promise<EgressAcknowledgement> {
+    if (this.ledger) {
+      let reservation: Awaited<ReturnType<CommandLedger['reserveCommand']>>;
+      try {
+        reservation = await this.ledger.reserveCommand({
+          commandId,
+          requestId: state.requestId,
+          decisionId: state.decision?.decisionId,
+          step,
+          controlVariable: action.controlVariable
+        });
+      } catch (error) {
+        throw new CommandNotAppliedError(`Could not record command before sending it: ${(error as Error).message}`);
+      }
+
+      if (!reservation.reserved) {
+        if (reservation.existing?.status === 'acknowledged') {
+          logger.warn('Command acknowledged before an interruption - not sent again', {
+            requestId: state.requestId,
+            commandId,
+            step
+          });
+          return reservation.existing.acknowledgement ?? { commandId, status: 'acknowledged' };
+        }
+        throw new Error(`Command ${commandId} was sent before an interruption and its outcome is unknown - not sent again`);
+      }
+    }
+
+    try {
+      const acknowledgement = await this.sendCommand(state, commandId, action, priority);
+      await this.recordOutcome(commandId, 'acknowledged', acknowledgement);
+      return acknowledgement;
+    } catch (error) {
+      await this.recordOutcome(
+        commandId,
+        error instanceof CommandNotAppliedError ? 'rejected' : 'unknown',
+        null,
+        (error as Error).message
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * A ledger write that fails leaves the command as sent, which is never re-sent; log and go on
+   */
+  private async recordOutcome(
+    commandId: string,
+    status: 'acknowledged' | 'rejected' | 'unknown',
+    acknowledgement: EgressAcknowledgement | null,
+    error: string | null = null
+  ): Promise<void> {
+    if (!this.ledger) {
+      return;
+    }
+    try {
+      await this.ledger.recordCommandOutcome(commandId, status, acknowledgement, error);
+    } catch (ledgerError) {
+      logger.error('Could not record command outcome', { commandId, status, error: (ledgerError as Error).message });
+    }
+  }
+
+  /**
+   * Send a command over the configured transport and return the acknowledged result;
+   * throws CommandNotAppliedError when Egress answered without applying it
+   */
+  private async sendCommand(
+    state: WorkflowState,
+    commandId: string,
+    action: ControlAction,
+    priority: string
+  ): Promise<EgressAcknowledgement> {
+    const token = this.authToken;
+    if (!token) {
+      throw new CommandNotAppliedError('Egress auth token not configured');
+    }
+    const command = {
+      commandId,
+      action,
+      authorization: `Bearer ${token}`,
+      priority,
+      decisionId: state.decision?.decisionId,
+      requestId: state.requestId
+    };
+
+    const isA2A = this.transport === 'a2a';
+    const body = isA2A
+      ? {
+        messageId: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        conversationId: state.conversationId,
+        timestamp: new Date().toISOString(),
+        correlationId: state.requestId,
+        senderAgent: 'master_control_agent',
+        recipientAgent: 'egress_agent',
+        messageType: 'command',
+        payload: command,
+        protocolVersion: '1.0',
+        priority
+      }
+      : command;
+
+    const response = await fetch(`${this.endpoint}${isA2A ? '/a2a/receive' : '/v1/command'}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': 'CemAI-Agent/master_control_agent/1.0.0'
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.acknowledgementTimeoutMs)
+    });
+
+    // A 4xx is an answer: Egress refused before writing, unless the same command is still
+    // being written. A 5xx may come after the write
+    if (response.status === 409) {
+      const conflict = await response.clone().json().catch(() => null);
+      if ((isA2A ? conflict?.payload?.status : conflict?.status) === 'in_progress') {
+        throw new Error(`Egress is still executing command ${commandId}`);
+      }
+    }
+    if (response.status >= 400 && response.status < 500) {
+      throw new CommandNotAppliedError(`Egress rejected command: ${response.status} ${response.statusText}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Egress command failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json() as EgressCommandResponse | null;
+
+    // /v1/command acknowledges with command.status, /a2a/receive with payload.status;
+    // gradual actions are acknowledged once Egress has started their ramp
+    if (isA2A) {
+      if (result?.payload?.status !== 'command_executed' && result?.payload?.status !== 'ramp_started') {
+        throw new CommandNotAppliedError(`Command not acknowledged: ${result?.payload?.status || 'no status'}`);
+      }
+      return result.payload.result as EgressAcknowledgement;
+    }
+
+    if (result?.status !== 'success' || !['executed', 'ramping'].includes(result?.command?.status ?? '')) {
+      throw new CommandNotAppliedError(`Command not acknowledged: ${result?.command?.status || result?.status || 'no status'}`);
+    }
+    return result.command as EgressAcknowledgement;
+  }
+}
+
+/**
+ * Everything the decision sends to the plant: approved actions as proposed, then moderated ones
+ */
+export function executableActions(state: Pick<WorkflowState, 'approvedActions' | 'modifications'>): ControlAction[] {
+  return [...(state.approvedActions || []), ...(state.modifications || [])];
+}
+
+/**
+ * Resolve executable actions in the order given by the decision's execution plan
+ */
+function orderActions(state: WorkflowState): Array<{ step: number; action: ControlAction }> {
+  const executionOrder: WorkflowDecision['executionPlan']['executionOrder'] = state.decision?.executionPlan?.executionOrder || [];
+  const actions = executableActions(state);
+
+  if (executionOrder.length === 0) {
+    return actions.map((action, index) => ({ step: index + 1, action }));
+  }
+
+  return [...executionOrder]
+    .sort((a, b) => a.step - b.step)
+    .map(entry => ({ step: entry.step, action: actions[entry.step - 1] }))
+    .filter(entry => entry.action !== undefined);
+}
+
+function priorityFor(state: WorkflowState): string {
+  const urgencies = state.proposals.map(p => p.urgency);
+  if (urgencies.includes('critical')) return 'critical';
+  if (urgencies.includes('high')) return 'high';
+  return 'normal';
+}
+
+/**
+ * Stable per decision and step, so a resumed run re-sends the same commandIds
+ */
+function createCommandId(state: WorkflowState, suffix: string): string {
+  const decisionId = state.decision?.decisionId;
+  return decisionId
+    ? `cmd_${decisionId}_${suffix}`
+    : `cmd_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
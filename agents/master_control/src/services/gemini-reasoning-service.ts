@@ -2,6 +2,14 @@ import { VertexAI } from '@google-cloud/vertexai';
 import { logger } from '../utils/logger';
 import { trace } from '@opentelemetry/api';
 
+/**
+ * Reasoning operations the LangGraph conflict nodes depend on
+ */
+export type ReasoningService = Pick<
+  GeminiReasoningService,
+  'analyzeConflicts' | 'resolveConflictsUsingConstitution' | 'generateDecisionReasoning'
+>;
+
 /**
  * Real Gemini 2.5 Pro Integration for Master Control Agent
  * Implements Constitutional AI framework for decision making
@@ -139,6 +147,8 @@ Respond in JSON format with:
     executionPriority: 'low' | 'medium' | 'high' | 'critical';
     executionTimeline: string;
     monitoringRequirements: string[];
+    // Set on the approve-everything stand-in returned when Gemini fails
+    fallback?: boolean;
   }> {
     const tracer = trace.getTracer('master-control-agent');
     const span = tracer.startSpan('gemini_constitutional_decision');
@@ -220,7 +230,8 @@ Respond in JSON format with:
         confidence: 0.5,
         executionPriority: 'medium',
         executionTimeline: 'immediate',
-        monitoringRequirements: ['continuous_monitoring']
+        monitoringRequirements: ['continuous_monitoring'],
+        fallback: true
       };
     } finally {
       span.end();
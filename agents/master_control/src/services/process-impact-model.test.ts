@@ -0,0 +1,91 @@
+import {
+  actionMovePercent,
+  describeKpiImpact,
+  detectCouplingConflicts,
+  estimateKpiImpact
+} from './process-impact-model';
+import { detectRuleBasedConflicts } from './conflict-resolver';
+import type { ControlAction } from './proposal-collector';
+
+const fuelFlowUp = { controlVariable: 'fuel_flow', currentValue: 5.0, proposedValue: 5.2 };
+const kilnSpeedDown = { controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.4 };
+const feedRateDown = { controlVariable: 'feed_rate', currentValue: 200, proposedValue: 190 };
+// A fuel mix change carries no setpoints; its magnitude is the alternative-fuel substitution in percent
+const moreAlternativeFuel = { controlVariable: 'fuel_mix', adjustmentMagnitude: 10 };
+
+const proposal = (agentId: string, ...actions: ControlAction[]) => ({ agentId, actions });
+
+describe('process impact model', () => {
+  it('measures moves relative to the current setpoint, falling back to the adjustment magnitude', () => {
+    expect(actionMovePercent(fuelFlowUp)).toBeCloseTo(4);
+    expect(actionMovePercent(kilnSpeedDown)).toBeCloseTo(-2.857, 3);
+    expect(actionMovePercent(moreAlternativeFuel)).toBe(10);
+    expect(actionMovePercent({ controlVariable: 'fuel_flow', currentValue: 0, proposedValue: 1 })).toBeNull();
+  });
+
+  it('sums the KPI moves of all actions and checks them against tolerances', () => {
+    const impact = estimateKpiImpact([kilnSpeedDown, feedRateDown]);
+
+    expect(impact.burning_zone_temp).toBeCloseTo(23.929, 3);
+    expect(impact.specific_heat_consumption).toBeCloseTo(7.5);
+    expect(impact).not.toHaveProperty('nox');
+    expect(describeKpiImpact(impact).find(k => k.kpi === 'burning_zone_temp')).toEqual({
+      kpi: 'burning_zone_temp', value: 23.929, unit: '°C', tolerance: 20, withinTolerance: false
+    });
+  });
+
+  it('flags proposals on different variables that undo each other through the process', () => {
+    const conflicts = detectCouplingConflicts(
+      proposal('guardian_agent', fuelFlowUp),
+      proposal('optimizer_agent', moreAlternativeFuel)
+    );
+
+    expect(conflicts.map(c => [c.kpi, c.effect, c.severity])).toEqual([
+      ['burning_zone_temp', 'opposing', 'high'],
+      ['lsf', 'opposing', 'high'],
+      ['free_lime', 'opposing', 'high'],
+      ['nox', 'opposing', 'high'],
+      ['specific_heat_consumption', 'compounding', 'critical']
+    ]);
+    expect(conflicts[0]).toMatchObject({
+      type: 'kpi_coupling_conflict',
+      indirect: true,
+      impacts: { guardian_agent: 24, optimizer_agent: -30 },
+      combinedImpact: -6
+    });
+    expect(conflicts[0].description).toContain('80% of the larger move is cancelled');
+  });
+
+  it('flags moves in the same direction only when together they leave the tolerance', () => {
+    const conflicts = detectCouplingConflicts(
+      proposal('guardian_agent', kilnSpeedDown),
+      proposal('optimizer_agent', feedRateDown)
+    );
+
+    expect(conflicts.map(c => [c.kpi, c.effect, c.severity])).toEqual([
+      ['burning_zone_temp', 'compounding', 'high'],
+      ['lsf', 'opposing', 'high']
+    ]);
+    expect(conflicts[0].combinedImpact).toBe(23.929);
+  });
+
+  it('ignores KPI moves too small to matter', () => {
+    const nudge = (controlVariable: string, currentValue: number) =>
+      ({ controlVariable, currentValue, proposedValue: currentValue * 1.001 });
+
+    expect(detectCouplingConflicts(
+      proposal('guardian_agent', nudge('fuel_flow', 5)),
+      proposal('optimizer_agent', nudge('kiln_speed', 3.5))
+    )).toEqual([]);
+  });
+
+  it('reports a shared setpoint alongside the process conflicts it causes', () => {
+    const conflicts = detectRuleBasedConflicts([
+      proposal('guardian_agent', { ...kilnSpeedDown, proposedValue: 3.6 }),
+      proposal('optimizer_agent', kilnSpeedDown, feedRateDown)
+    ]);
+
+    expect(conflicts[0]).toMatchObject({ type: 'control_variable_conflict', conflictingParameters: ['kiln_speed'] });
+    expect(conflicts.slice(1).every(c => c.type === 'kpi_coupling_conflict' && c.indirect === false)).toBe(true);
+  });
+});
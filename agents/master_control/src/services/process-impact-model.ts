@@ -0,0 +1,152 @@
+import {
+  PROCESS_KPIS,
+  PROCESS_COUPLING_MODEL,
+  COUPLING_SIGNIFICANCE_RATIO,
+  ProcessCoupling
+} from '../config/process-coupling';
+import type { AgentProposal, ControlAction } from './proposal-collector';
+
+export interface KpiImpact {
+  kpi: string;
+  value: number;
+  unit: string;
+  tolerance: number;
+  withinTolerance: boolean;
+}
+
+export interface KpiCouplingConflict {
+  type: 'kpi_coupling_conflict';
+  effect: 'opposing' | 'compounding';
+  severity: 'medium' | 'high' | 'critical';
+  description: string;
+  // Neither proposal moves a variable the other one moves
+  indirect: boolean;
+  kpi: string;
+  affectedProposals: string[];
+  // Estimated KPI move per agent
+  impacts: Record<string, number>;
+  combinedImpact: number;
+  unit: string;
+  tolerance: number;
+  source: 'rule_based';
+}
+
+/**
+ * Relative move of an action in percent
+ * Numeric setpoints use current/proposed; other actions (e.g. a fuel mix) fall back to adjustmentMagnitude as a percent
+ */
+export function actionMovePercent(action: ControlAction): number | null {
+  const { currentValue, proposedValue, adjustmentMagnitude } = action;
+  if (typeof currentValue === 'number' && typeof proposedValue === 'number') {
+    return currentValue === 0 ? null : (proposedValue - currentValue) / Math.abs(currentValue) * 100;
+  }
+  return typeof adjustmentMagnitude === 'number' ? adjustmentMagnitude : null;
+}
+
+/**
+ * Estimated steady-state KPI moves caused by a set of actions
+ */
+export function estimateKpiImpact(
+  actions: ControlAction[],
+  model: ProcessCoupling[] = PROCESS_COUPLING_MODEL
+): Record<string, number> {
+  const impact: Record<string, number> = {};
+
+  for (const action of actions) {
+    const move = actionMovePercent(action);
+    if (move === null) continue;
+
+    for (const coupling of model.filter(c => c.controlVariable === action.controlVariable)) {
+      impact[coupling.kpi] = (impact[coupling.kpi] || 0) + coupling.gain * move;
+    }
+  }
+
+  return impact;
+}
+
+/**
+ * Describe KPI moves against their tolerances
+ */
+export function describeKpiImpact(impact: Record<string, number>): KpiImpact[] {
+  return Object.entries(impact).map(([kpi, value]) => {
+    const definition = PROCESS_KPIS[kpi];
+    const tolerance = definition?.tolerance ?? Infinity;
+    return {
+      kpi,
+      value: round(value),
+      unit: definition?.unit || '',
+      tolerance,
+      withinTolerance: Math.abs(value) <= tolerance
+    };
+  });
+}
+
+/**
+ * Conflicts between two proposals that act on shared KPIs
+ * opposing: the proposals push a KPI in opposite directions and partly undo each other
+ * compounding: both push the same way and together leave the KPI's tolerance
+ */
+export function detectCouplingConflicts(
+  proposal1: AgentProposal,
+  proposal2: AgentProposal,
+  model: ProcessCoupling[] = PROCESS_COUPLING_MODEL
+): KpiCouplingConflict[] {
+  const impact1 = estimateKpiImpact(proposal1.actions || [], model);
+  const impact2 = estimateKpiImpact(proposal2.actions || [], model);
+  const variables1 = (proposal1.actions || []).map(a => a.controlVariable);
+  const indirect = !(proposal2.actions || []).some(a => variables1.includes(a.controlVariable));
+  const conflicts: KpiCouplingConflict[] = [];
+
+  for (const kpi of Object.keys(impact1).filter(k => k in impact2)) {
+    const a = impact1[kpi];
+    const b = impact2[kpi];
+    const tolerance = PROCESS_KPIS[kpi]?.tolerance;
+    if (!tolerance) continue;
+
+    const significance = tolerance * COUPLING_SIGNIFICANCE_RATIO;
+    if (Math.abs(a) < significance || Math.abs(b) < significance) continue;
+
+    const combined = a + b;
+    const base = {
+      type: 'kpi_coupling_conflict' as const,
+      indirect,
+      kpi,
+      affectedProposals: [proposal1.agentId, proposal2.agentId],
+      impacts: {
+        [proposal1.agentId]: round(a),
+        [proposal2.agentId]: round(b)
+      },
+      combinedImpact: round(combined),
+      unit: PROCESS_KPIS[kpi].unit,
+      tolerance,
+      source: 'rule_based' as const
+    };
+
+    if (Math.sign(a) !== Math.sign(b)) {
+      // Share of the larger move cancelled by the smaller one
+      const offset = Math.min(Math.abs(a), Math.abs(b)) / Math.max(Math.abs(a), Math.abs(b));
+      conflicts.push({
+        ...base,
+        effect: 'opposing',
+        severity: offset >= 0.5 ? 'high' : 'medium',
+        description: `${proposal1.agentId} and ${proposal2.agentId} push ${kpi} in opposite directions ` +
+          `(${round(a)} vs ${round(b)} ${base.unit}); ${Math.round(offset * 100)}% of the larger move is cancelled`
+      });
+    } else if (Math.abs(combined) > tolerance) {
+      const ratio = Math.abs(combined) / tolerance;
+      conflicts.push({
+        ...base,
+        effect: 'compounding',
+        severity: ratio >= 2 ? 'critical' : 'high',
+        description: `${proposal1.agentId} and ${proposal2.agentId} together move ${kpi} by ${round(combined)} ${base.unit}, ` +
+          `beyond its ${tolerance} ${base.unit} tolerance`
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
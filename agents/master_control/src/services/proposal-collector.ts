@@ -0,0 +1,213 @@
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import { SPECIALIST_AGENTS, SpecialistAgentConfig } from '../config/constants';
+import type { WorkflowState } from '../graph';
+
+/**
+ * One move in a proposal; numeric for setpoints, other actions (e.g. a fuel mix) carry their own values
+ */
+export interface ControlAction {
+  controlVariable: string;
+  currentValue?: unknown;
+  proposedValue?: unknown;
+  adjustmentMagnitude?: number;
+  executionMethod?: string;
+  rampDurationMinutes?: number;
+  safetyChecksRequired?: boolean;
+  // Set on actions the resolver or policy turned down
+  rejectionReason?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * A specialist agent's proposal; agents may add fields of their own
+ */
+export interface AgentProposal {
+  agentId: string;
+  // Set by agents that track their proposals, e.g. Guardian
+  proposalId?: string;
+  proposalType?: string;
+  urgency?: string;
+  confidence?: number;
+  actions: ControlAction[];
+  [field: string]: unknown;
+}
+
+export type AgentResponseStatus = 'received' | 'no_proposal' | 'skipped' | 'timeout' | 'failed';
+
+export interface AgentResponseRecord {
+  agentId: string;
+  status: AgentResponseStatus;
+  latencyMs: number;
+  deadlineMs: number;
+  error?: string;
+}
+
+export interface ProposalCollectionResult {
+  proposals: AgentProposal[];
+  agentResponses: AgentResponseRecord[];
+}
+
+/**
+ * Source of specialist agent proposals for the collect_proposals node
+ */
+export interface ProposalSource {
+  collect(state: WorkflowState): Promise<ProposalCollectionResult>;
+}
+
+/**
+ * Proposal Collector for Master Control Agent
+ * Fans out proposal requests to the specialist agents in parallel, each with its own deadline
+ */
+export class ProposalCollector implements ProposalSource {
+  private agents: SpecialistAgentConfig[];
+
+  constructor(agents: SpecialistAgentConfig[] = Object.values(SPECIALIST_AGENTS)) {
+    this.agents = agents.filter(agent => agent.proposalPath !== null);
+  }
+
+  /**
+   * Request proposals from every proposing agent and wait for all of them to settle
+   */
+  async collect(state: WorkflowState): Promise<ProposalCollectionResult> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('collect_agent_proposals');
+
+    try {
+      const outcomes = await Promise.all(
+        this.agents.map(agent => this.requestProposal(agent, state))
+      );
+
+      const proposals = outcomes
+        .map(outcome => outcome.proposal)
+        .filter((proposal): proposal is AgentProposal => proposal !== null);
+      const agentResponses = outcomes.map(outcome => outcome.record);
+
+      span.setAttributes({
+        'workflow.request_id': state.requestId,
+        'collection.agent_count': this.agents.length,
+        'collection.proposal_count': proposals.length,
+        'collection.timeouts': agentResponses.filter(r => r.status === 'timeout').length,
+        'collection.failures': agentResponses.filter(r => r.status === 'failed').length
+      });
+
+      return { proposals, agentResponses };
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Request a proposal from a single agent; never rejects
+   */
+  private async requestProposal(
+    agent: SpecialistAgentConfig,
+    state: WorkflowState
+  ): Promise<{ proposal: AgentProposal | null; record: AgentResponseRecord }> {
+    const startTime = Date.now();
+    const deadlineMs = agent.proposalTimeoutMs;
+    const record = (status: AgentResponseStatus, error?: string): AgentResponseRecord => ({
+      agentId: agent.name,
+      status,
+      latencyMs: Date.now() - startTime,
+      deadlineMs,
+      ...(error ? { error } : {})
+    });
+
+    const body = buildProposalRequest(agent.name, state);
+    if (!body) {
+      logger.info('Skipping agent - context lacks required inputs', {
+        requestId: state.requestId,
+        agentId: agent.name
+      });
+      return { proposal: null, record: record('skipped', 'Context lacks required inputs') };
+    }
+
+    try {
+      const response = await fetch(`${agent.endpoint}${agent.proposalPath}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CemAI-Agent/master_control_agent/1.0.0',
+          'X-Request-Id': state.requestId
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(deadlineMs)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Proposal request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json() as { proposal?: Partial<AgentProposal> } | null;
+
+      if (!result?.proposal) {
+        return { proposal: null, record: record('no_proposal') };
+      }
+
+      const proposal: AgentProposal = {
+        ...result.proposal,
+        agentId: result.proposal.agentId || agent.name,
+        actions: result.proposal.actions || []
+      };
+
+      logger.info('Proposal received from specialist agent', {
+        requestId: state.requestId,
+        agentId: agent.name,
+        proposalType: proposal.proposalType,
+        latencyMs: Date.now() - startTime
+      });
+
+      return { proposal, record: record('received') };
+
+    } catch (error) {
+      const err = error as Error;
+      const timedOut = err.name === 'TimeoutError' || err.name === 'AbortError';
+
+      logger.warn('Specialist agent did not return a proposal', {
+        requestId: state.requestId,
+        agentId: agent.name,
+        status: timedOut ? 'timeout' : 'failed',
+        error: err.message
+      });
+
+      return {
+        proposal: null,
+        record: record(timedOut ? 'timeout' : 'failed', timedOut ? `No response within ${deadlineMs}ms` : err.message)
+      };
+    }
+  }
+}
+
+/**
+ * Build the agent-specific request body from the workflow context
+ * Returns null when the context does not carry what the agent needs
+ */
+function buildProposalRequest(agentId: string, state: WorkflowState): Record<string, unknown> | null {
+  const context = state.context || {};
+
+  switch (agentId) {
+    case 'guardian_agent':
+      if (!Array.isArray(context.sensorData) || context.sensorData.length === 0) {
+        return null;
+      }
+      return {
+        sensorData: context.sensorData,
+        predictionHorizon: context.predictionHorizon
+      };
+    case 'optimizer_agent':
+      if (!context.marketData || !context.currentState) {
+        return null;
+      }
+      return {
+        constraints: context.constraints || [],
+        marketData: context.marketData,
+        currentState: context.currentState,
+        // The proposal comes back in the response; an A2A copy would be queued and decided again
+        deliverProposal: false
+      };
+    default:
+      return { trigger: state.trigger, context };
+  }
+}
@@ -0,0 +1,94 @@
+import { GuardianExecutionReporter, executedProposals } from './proposal-execution-reporter';
+import type { CommandExecutionResult } from './egress-command-dispatcher';
+import type { WorkflowState } from '../graph';
+
+const guardianProposal = (proposalId: string, variables: string[]) => ({
+  proposalId,
+  agentId: 'guardian_agent',
+  actions: variables.map(controlVariable => ({ controlVariable }))
+});
+
+function result(
+  controlVariable: string,
+  status: CommandExecutionResult['status'],
+  timestamp: string,
+  outcome: CommandExecutionResult['outcome'] = 'applied'
+): CommandExecutionResult {
+  return { commandId: `cmd_${controlVariable}`, step: 1, status, outcome, action: { controlVariable }, timestamp };
+}
+
+describe('executedProposals', () => {
+  it('reports a Guardian proposal once a command moved one of its variables, at the latest move', () => {
+    const executed = executedProposals(
+      [
+        guardianProposal('prop_kiln', ['kiln_speed', 'fuel_flow']),
+        guardianProposal('prop_feed', ['feed_rate']),
+        { proposalId: 'opt_1', agentId: 'optimizer_agent', actions: [{ controlVariable: 'fuel_flow' }] },
+        { agentId: 'guardian_agent', actions: [{ controlVariable: 'kiln_speed' }] }
+      ],
+      [
+        result('kiln_speed', 'success', '2026-10-01T08:00:05.000Z'),
+        result('fuel_flow', 'success', '2026-10-01T08:00:10.000Z'),
+        result('feed_rate', 'skipped', '2026-10-01T08:00:15.000Z')
+      ]
+    );
+
+    expect(executed).toEqual([{ proposalId: 'prop_kiln', executedAt: '2026-10-01T08:00:10.000Z' }]);
+  });
+
+  it('ignores commands Egress answered without writing', () => {
+    const executed = executedProposals(
+      [guardianProposal('prop_kiln', ['kiln_speed'])],
+      [result('kiln_speed', 'success', '2026-10-01T08:00:05.000Z', 'rejected')]
+    );
+
+    expect(executed).toEqual([]);
+  });
+});
+
+describe('GuardianExecutionReporter', () => {
+  const guardian = {
+    name: 'guardian_agent',
+    endpoint: 'http://guardian.test',
+    capabilities: [],
+    proposalPath: '/v1/predict/lsf',
+    proposalTimeoutMs: 1000
+  };
+  const state = {
+    requestId: 'req_1',
+    proposals: [guardianProposal('prop/1', ['kiln_speed']), guardianProposal('prop_2', ['fuel_flow'])]
+  } as unknown as WorkflowState;
+  const results = [
+    result('kiln_speed', 'success', '2026-10-01T08:00:05.000Z'),
+    result('fuel_flow', 'success', '2026-10-01T08:00:06.000Z')
+  ];
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('posts each executed proposal to Guardian', async () => {
+    fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+
+    await new GuardianExecutionReporter(guardian).report(state, results);
+
+    expect(fetchMock.mock.calls.map(([url, init]) => [url, JSON.parse(init.body)])).toEqual([
+      ['http://guardian.test/v1/proposals/prop%2F1/executed', { executedAt: '2026-10-01T08:00:05.000Z' }],
+      ['http://guardian.test/v1/proposals/prop_2/executed', { executedAt: '2026-10-01T08:00:06.000Z' }]
+    ]);
+  });
+
+  it('keeps reporting the rest when Guardian cannot be reached', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    await expect(new GuardianExecutionReporter(guardian).report(state, results)).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,85 @@
+import { logger } from '../utils/logger';
+import { SPECIALIST_AGENTS, SpecialistAgentConfig } from '../config/constants';
+import type { WorkflowState } from '../graph';
+import type { CommandExecutionResult } from './egress-command-dispatcher';
+import type { AgentProposal } from './proposal-collector';
+
+/**
+ * Tells proposing agents which of their proposals reached the plant
+ */
+export interface ExecutionReporter {
+  report(state: WorkflowState, executionResults: CommandExecutionResult[]): Promise<void>;
+}
+
+/**
+ * Guardian proposals whose control variables were moved by a successful command, with when
+ * Guardian's cooldown is per variable, so the move counts whichever proposal it came from
+ */
+export function executedProposals(
+  proposals: AgentProposal[],
+  executionResults: CommandExecutionResult[]
+): Array<{ proposalId: string; executedAt: string }> {
+  const movedAt = new Map<string, string>();
+  for (const result of executionResults.filter(r => r.status === 'success' && r.outcome !== 'rejected')) {
+    const variable = result.action?.controlVariable;
+    if (typeof variable === 'string' && (movedAt.get(variable) ?? '') < result.timestamp) {
+      movedAt.set(variable, result.timestamp);
+    }
+  }
+
+  return proposals
+    .filter(p => p.agentId === SPECIALIST_AGENTS.guardian.name && typeof p.proposalId === 'string')
+    .map(p => {
+      const times = (p.actions || [])
+        .map(action => movedAt.get(action.controlVariable))
+        .filter((time: string | undefined): time is string => time !== undefined);
+      return { proposalId: p.proposalId, executedAt: times.sort().pop() };
+    })
+    .filter((p): p is { proposalId: string; executedAt: string } => p.executedAt !== undefined);
+}
+
+/**
+ * Reports executed proposals to Guardian so their variables enter cooldown
+ * Best effort: a missed report only means Guardian may propose the same move again
+ */
+export class GuardianExecutionReporter implements ExecutionReporter {
+  private guardian: SpecialistAgentConfig;
+
+  constructor(guardian: SpecialistAgentConfig = SPECIALIST_AGENTS.guardian) {
+    this.guardian = guardian;
+  }
+
+  async report(state: WorkflowState, executionResults: CommandExecutionResult[]): Promise<void> {
+    for (const { proposalId, executedAt } of executedProposals(state.proposals, executionResults)) {
+      try {
+        const response = await fetch(
+          `${this.guardian.endpoint}/v1/proposals/${encodeURIComponent(proposalId)}/executed`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'CemAI-Agent/master_control_agent/1.0.0',
+              'X-Request-Id': state.requestId
+            },
+            body: JSON.stringify({ executedAt }),
+            signal: AbortSignal.timeout(this.guardian.proposalTimeoutMs)
+          }
+        );
+
+        // 404 is a proposal already marked, e.g. when a resumed run reports again
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`Execution report failed: ${response.status} ${response.statusText}`);
+        }
+
+        logger.info('Proposal execution reported to Guardian', { requestId: state.requestId, proposalId, executedAt });
+
+      } catch (error) {
+        logger.warn('Could not report proposal execution to Guardian', {
+          requestId: state.requestId,
+          proposalId,
+          error: (error as Error).message
+        });
+      }
+    }
+  }
+}
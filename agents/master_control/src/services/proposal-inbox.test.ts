@@ -0,0 +1,170 @@
+import { ProposalInbox, ProposalMessage } from './proposal-inbox';
+import type { AlloyDBStateManager } from './alloydb-state-manager';
+import type { AgentProposal } from './proposal-collector';
+import { PROPOSAL_BATCH_MAX_SIZE } from '../config/constants';
+
+type InboxRow = {
+  messageId: string;
+  conversationId: string;
+  senderAgent: string;
+  proposalType: string;
+  urgency: string;
+  payload: Partial<AgentProposal>;
+  receivedAt: string;
+  status: 'queued' | 'processing' | 'processed' | 'failed';
+  requestId: string | null;
+  claimedAt: number | null;
+};
+
+// In-memory stand-in for the proposal_inbox table with the same claim semantics
+class InMemoryInbox {
+  rows: InboxRow[] = [];
+  now = Date.now();
+
+  async enqueueProposal(proposal: Omit<InboxRow, 'receivedAt' | 'status' | 'requestId' | 'claimedAt'>): Promise<boolean> {
+    if (this.rows.some(row => row.messageId === proposal.messageId)) {
+      return false;
+    }
+    this.rows.push({
+      ...proposal,
+      receivedAt: new Date(this.now).toISOString(),
+      status: 'queued',
+      requestId: null,
+      claimedAt: null
+    });
+    return true;
+  }
+
+  async claimQueuedProposals(requestId: string, limit: number) {
+    const claimed = this.rows.filter(row => row.status === 'queued').slice(0, limit);
+    for (const row of claimed) {
+      Object.assign(row, { status: 'processing', requestId, claimedAt: this.now });
+    }
+    return claimed.map(row => ({ ...row }));
+  }
+
+  async completeClaimedProposals(requestId: string, status: 'processed' | 'failed' | 'queued'): Promise<void> {
+    for (const row of this.rows.filter(r => r.requestId === requestId && r.status === 'processing')) {
+      Object.assign(row, status === 'queued' ? { status, requestId: null, claimedAt: null } : { status });
+    }
+  }
+
+  async requeueStaleProposals(olderThanMinutes: number = 5): Promise<number> {
+    const stale = this.rows.filter(row =>
+      row.status === 'processing' && (row.claimedAt ?? 0) < this.now - olderThanMinutes * 60000
+    );
+    for (const row of stale) {
+      Object.assign(row, { status: 'queued', requestId: null, claimedAt: null });
+    }
+    return stale.length;
+  }
+
+  statuses(): Record<string, string> {
+    return Object.fromEntries(this.rows.map(row => [row.messageId, row.status]));
+  }
+}
+
+function proposalMessage(messageId: string, payload: Partial<AgentProposal> = {}): ProposalMessage {
+  return {
+    messageId,
+    conversationId: `conv_${messageId}`,
+    senderAgent: 'guardian_agent',
+    payload: { proposalType: 'stability', urgency: 'medium', ...payload }
+  };
+}
+
+// Let the background flush started by submit() or the batch timer finish
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('ProposalInbox', () => {
+  let store: InMemoryInbox;
+  let runBatch: jest.Mock<Promise<void>, [string, AgentProposal[]]>;
+  let inbox: ProposalInbox;
+
+  beforeEach(() => {
+    store = new InMemoryInbox();
+    runBatch = jest.fn<Promise<void>, [string, AgentProposal[]]>(async () => undefined);
+    inbox = new ProposalInbox(store as unknown as AlloyDBStateManager, runBatch, 50);
+  });
+
+  afterEach(() => {
+    inbox.stop();
+  });
+
+  it('batches proposals arriving within the window into one run', async () => {
+    await inbox.submit(proposalMessage('msg_1'));
+    await inbox.submit(proposalMessage('msg_2', { agentId: 'optimizer_agent' }));
+    expect(runBatch).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve, 80));
+    await settle();
+
+    expect(runBatch).toHaveBeenCalledTimes(1);
+    const [requestId, proposals] = runBatch.mock.calls[0];
+    expect(proposals.map(p => p.agentId)).toEqual(['guardian_agent', 'optimizer_agent']);
+    expect(store.rows.every(row => row.requestId === requestId)).toBe(true);
+    expect(store.statuses()).toEqual({ msg_1: 'processed', msg_2: 'processed' });
+  });
+
+  it('starts a run immediately for urgent and emergency proposals', async () => {
+    expect(await inbox.submit(proposalMessage('msg_urgent', { urgency: 'high' }))).toEqual({ queued: true, immediate: true });
+    await settle();
+    expect(runBatch).toHaveBeenCalledTimes(1);
+
+    expect(await inbox.submit(proposalMessage('msg_emergency', { proposalType: 'emergency' })))
+      .toEqual({ queued: true, immediate: true });
+    await settle();
+    expect(runBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores a redelivered message', async () => {
+    await inbox.submit(proposalMessage('msg_1', { urgency: 'critical' }));
+    await settle();
+
+    expect(await inbox.submit(proposalMessage('msg_1', { urgency: 'critical' }))).toEqual({ queued: false, immediate: false });
+    await settle();
+    expect(runBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks the claimed proposals failed when the run throws', async () => {
+    runBatch.mockRejectedValueOnce(new Error('graph failed'));
+    await inbox.submit(proposalMessage('msg_1'));
+
+    await inbox.flush('test');
+
+    expect(store.statuses()).toEqual({ msg_1: 'failed' });
+  });
+
+  it('leaves proposals past the batch size for the next window', async () => {
+    for (let i = 0; i < PROPOSAL_BATCH_MAX_SIZE + 2; i++) {
+      await store.enqueueProposal({ ...proposalMessage(`msg_${i}`), proposalType: 'stability', urgency: 'medium', payload: {} });
+    }
+
+    await inbox.flush('test');
+    expect(runBatch.mock.calls[0][1]).toHaveLength(PROPOSAL_BATCH_MAX_SIZE);
+
+    await new Promise(resolve => setTimeout(resolve, 80));
+    await settle();
+    expect(runBatch).toHaveBeenCalledTimes(2);
+    expect(runBatch.mock.calls[1][1]).toHaveLength(2);
+  });
+
+  it('requeues proposals an interrupted instance left in processing and runs them on recovery', async () => {
+    await store.enqueueProposal({ ...proposalMessage('msg_stale'), proposalType: 'stability', urgency: 'medium', payload: {} });
+    await store.enqueueProposal({ ...proposalMessage('msg_recent'), proposalType: 'stability', urgency: 'medium', payload: {} });
+    await store.claimQueuedProposals('req_crashed', 1);
+    store.now += 10 * 60000;
+    // Another instance claimed this one just now; it is not stale
+    await store.claimQueuedProposals('req_other_instance', 1);
+
+    await inbox.recover();
+    await settle();
+
+    expect(runBatch).toHaveBeenCalledTimes(1);
+    expect(store.statuses()).toEqual({ msg_stale: 'processed', msg_recent: 'processing' });
+  });
+});
@@ -0,0 +1,167 @@
+import { logger } from '../utils/logger';
+import { AlloyDBStateManager } from './alloydb-state-manager';
+import type { AgentProposal } from './proposal-collector';
+import {
+  PROPOSAL_BATCH_WINDOW_MS,
+  PROPOSAL_BATCH_MAX_SIZE,
+  IMMEDIATE_PROPOSAL_URGENCIES,
+  IMMEDIATE_PROPOSAL_TYPES
+} from '../config/constants';
+
+/**
+ * A proposal message as received over A2A
+ */
+export interface ProposalMessage {
+  messageId: string;
+  conversationId: string;
+  senderAgent: string;
+  priority?: string;
+  payload?: Partial<AgentProposal>;
+}
+
+/**
+ * Runs one orchestration workflow over a batch of queued proposals
+ */
+export type ProposalBatchRunner = (requestId: string, proposals: AgentProposal[]) => Promise<unknown>;
+
+/**
+ * Durable proposal inbox for Master Control Agent
+ * Queues A2A proposals in AlloyDB and batches them into orchestration runs;
+ * urgent and emergency proposals start a run immediately
+ */
+export class ProposalInbox {
+  private stateManager: AlloyDBStateManager;
+  private runBatch: ProposalBatchRunner;
+  private batchWindowMs: number;
+  private batchTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    stateManager: AlloyDBStateManager,
+    runBatch: ProposalBatchRunner,
+    batchWindowMs: number = PROPOSAL_BATCH_WINDOW_MS
+  ) {
+    this.stateManager = stateManager;
+    this.runBatch = runBatch;
+    this.batchWindowMs = batchWindowMs;
+  }
+
+  /**
+   * Queue a proposal message and schedule the run that will process it
+   */
+  async submit(message: ProposalMessage): Promise<{ queued: boolean; immediate: boolean }> {
+    const payload = message.payload || {};
+
+    const queued = await this.stateManager.enqueueProposal({
+      messageId: message.messageId,
+      conversationId: message.conversationId,
+      senderAgent: message.senderAgent,
+      proposalType: payload.proposalType,
+      urgency: payload.urgency,
+      payload: {
+        ...payload,
+        agentId: payload.agentId || message.senderAgent
+      }
+    });
+
+    const immediate = queued && isImmediateProposal(message);
+
+    if (immediate) {
+      logger.warn('Urgent proposal received - starting orchestration immediately', {
+        messageId: message.messageId,
+        senderAgent: message.senderAgent,
+        proposalType: payload.proposalType,
+        urgency: payload.urgency
+      });
+      this.flushInBackground('urgent_proposal');
+    } else if (queued) {
+      this.scheduleBatch();
+    }
+
+    return { queued, immediate };
+  }
+
+  /**
+   * Claim everything currently queued and run it as one workflow
+   */
+  async flush(reason: string): Promise<void> {
+    this.clearBatchTimer();
+
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const claimed = await this.stateManager.claimQueuedProposals(requestId, PROPOSAL_BATCH_MAX_SIZE);
+
+    if (claimed.length === 0) {
+      return;
+    }
+
+    logger.info('Processing proposal batch', {
+      requestId,
+      reason,
+      proposalCount: claimed.length,
+      senders: claimed.map(p => p.senderAgent)
+    });
+
+    try {
+      await this.runBatch(requestId, claimed.map(p => p.payload));
+      await this.stateManager.completeClaimedProposals(requestId, 'processed');
+    } catch (error: unknown) {
+      logger.error('Proposal batch run failed', {
+        requestId,
+        error: (error as Error).message
+      });
+      await this.stateManager.completeClaimedProposals(requestId, 'failed');
+    }
+
+    // Proposals beyond the batch size limit are picked up by the next window
+    if (claimed.length >= PROPOSAL_BATCH_MAX_SIZE) {
+      this.scheduleBatch();
+    }
+  }
+
+  /**
+   * Pick up proposals left queued or in flight by a previous instance
+   */
+  async recover(): Promise<void> {
+    const requeued = await this.stateManager.requeueStaleProposals();
+    if (requeued > 0) {
+      logger.warn('Requeued proposals from an interrupted run', { requeued });
+    }
+    this.flushInBackground('startup_recovery');
+  }
+
+  /**
+   * Stop the pending batch timer (queued proposals stay in AlloyDB)
+   */
+  stop(): void {
+    this.clearBatchTimer();
+  }
+
+  private scheduleBatch(): void {
+    if (this.batchTimer) {
+      return;
+    }
+    this.batchTimer = setTimeout(() => this.flushInBackground('batch_window'), this.batchWindowMs);
+  }
+
+  private clearBatchTimer(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+  }
+
+  private flushInBackground(reason: string): void {
+    this.flush(reason).catch((error: unknown) => {
+      logger.error('Proposal inbox flush failed', { reason, error: (error as Error).message });
+    });
+  }
+}
+
+/**
+ * Urgent or emergency proposals bypass the batch window
+ */
+function isImmediateProposal(message: ProposalMessage): boolean {
+  const payload = message.payload || {};
+  return IMMEDIATE_PROPOSAL_TYPES.includes(payload.proposalType ?? '') ||
+    IMMEDIATE_PROPOSAL_URGENCIES.includes(payload.urgency ?? '') ||
+    message.priority === 'critical';
+}
@@ -0,0 +1,150 @@
+import { WorkflowReplayer, diffDecisions } from './workflow-replay';
+import type { AlloyDBStateManager } from './alloydb-state-manager';
+import type { ControlAction } from './proposal-collector';
+import type { WorkflowDecision } from '../graph';
+import { ActiveConstitution, ConstitutionPolicy, DEFAULT_CONSTITUTION_POLICY } from '../config/constitution';
+
+const stabilityKilnSpeed = {
+  controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.55, adjustmentMagnitude: 1.43, executionMethod: 'immediate'
+};
+const optimizationKilnSpeed = {
+  controlVariable: 'kiln_speed', currentValue: 3.5, proposedValue: 3.45, adjustmentMagnitude: -1.43, executionMethod: 'immediate'
+};
+const optimizationFuelFlow = {
+  controlVariable: 'fuel_flow', currentValue: 5.0, proposedValue: 5.1, adjustmentMagnitude: 2, executionMethod: 'immediate'
+};
+
+const constitution: ActiveConstitution = { version: 1, policy: DEFAULT_CONSTITUTION_POLICY };
+
+function withCostFactor(version: number, magnitudeFactor: number): ActiveConstitution {
+  const policy: ConstitutionPolicy = JSON.parse(JSON.stringify(DEFAULT_CONSTITUTION_POLICY));
+  policy.resolutionRules.find(rule => rule.id === 'cost_within_bounds')!.magnitudeFactor = magnitudeFactor;
+  return { version, policy };
+}
+
+// In-memory stand-in for the workflow_states table
+class InMemoryRuns {
+  runs = new Map<string, ReturnType<typeof storedRun>>();
+
+  async loadWorkflowState(requestId: string) {
+    return this.runs.get(requestId) ?? null;
+  }
+
+  async listDecidedWorkflowIds() {
+    return [...this.runs.values()].filter(run => run.decision).map(run => run.requestId);
+  }
+}
+
+function storedRun(requestId: string, decision: Partial<WorkflowDecision> | null = null) {
+  return {
+    requestId,
+    conversationId: `conv_${requestId}`,
+    timestamp: '2026-10-01T08:00:00.000Z',
+    trigger: 'scheduled',
+    context: {},
+    proposals: [
+      { agentId: 'guardian_agent', proposalType: 'stability', urgency: 'medium', actions: [stabilityKilnSpeed] },
+      { agentId: 'optimizer_agent', proposalType: 'optimization', urgency: 'low', actions: [optimizationKilnSpeed, optimizationFuelFlow] }
+    ],
+    conflicts: [],
+    analysis: null,
+    decision,
+    status: 'completed'
+  };
+}
+
+describe('diffDecisions', () => {
+  const decision = {
+    riskLevel: 'medium',
+    humanApproval: { required: false },
+    conflictAnalysis: [{ type: 'control_variable_conflict' }],
+    approvedActions: [stabilityKilnSpeed],
+    modifications: [{ ...optimizationFuelFlow, proposedValue: 5.05 }],
+    rejectedActions: []
+  } as unknown as WorkflowDecision;
+
+  it('reports no change for the same decision with keys in another order', () => {
+    const reordered = {
+      ...decision,
+      approvedActions: [Object.fromEntries(Object.entries(stabilityKilnSpeed).reverse()) as ControlAction]
+    };
+
+    expect(diffDecisions(decision, reordered)).toMatchObject({ changed: false, fields: [] });
+  });
+
+  it('matches actions by control variable and reports what moved', () => {
+    const replayed = {
+      ...decision,
+      riskLevel: 'high' as const,
+      modifications: [{ ...optimizationFuelFlow, proposedValue: 5.03 }],
+      rejectedActions: [optimizationKilnSpeed]
+    };
+
+    const diff = diffDecisions(decision, replayed);
+
+    expect(diff.changed).toBe(true);
+    expect(diff.fields).toEqual([{ field: 'riskLevel', from: 'medium', to: 'high' }]);
+    expect(diff.modifications.changed).toEqual([{
+      controlVariable: 'fuel_flow',
+      from: expect.objectContaining({ proposedValue: 5.05 }),
+      to: expect.objectContaining({ proposedValue: 5.03 })
+    }]);
+    expect(diff.rejectedActions).toEqual({ added: [optimizationKilnSpeed], removed: [], changed: [] });
+  });
+
+  it('reports a run that no longer reaches a decision', () => {
+    const diff = diffDecisions(decision, null);
+
+    expect(diff.fields[0]).toEqual({ field: 'decisionMade', from: true, to: false });
+    expect(diff.approvedActions.removed).toEqual([stabilityKilnSpeed]);
+  });
+});
+
+describe('WorkflowReplayer', () => {
+  let runs: InMemoryRuns;
+  let replayer: WorkflowReplayer;
+
+  beforeEach(() => {
+    runs = new InMemoryRuns();
+    replayer = new WorkflowReplayer(runs as unknown as AlloyDBStateManager, { getActive: async () => constitution });
+  });
+
+  it('reproduces a recorded rule-based decision without dispatching it', async () => {
+    runs.runs.set('req_1', storedRun('req_1'));
+    const first = await replayer.replay('req_1', { strategy: 'rule_based' });
+    runs.runs.set('req_1', storedRun('req_1', first!.replayed.decision));
+
+    const report = await replayer.replay('req_1', { strategy: 'rule_based' });
+
+    expect(report).toMatchObject({
+      requestId: 'req_1',
+      replayed: { policyVersion: 1, resolutionStrategy: 'rule_based' },
+      diff: { changed: false }
+    });
+    expect(report!.replayed.decision!.decisionId).not.toBe(first!.replayed.decision!.decisionId);
+  });
+
+  it('shows how a proposed constitution would have moderated the optimization differently', async () => {
+    runs.runs.set('req_1', storedRun('req_1'));
+    const recorded = await replayer.replay('req_1', { strategy: 'rule_based' });
+    runs.runs.set('req_1', storedRun('req_1', recorded!.replayed.decision));
+
+    const report = await replayer.replay('req_1', { strategy: 'rule_based', constitution: withCostFactor(2, 0.2) });
+
+    expect(report!.replayed.policyVersion).toBe(2);
+    expect(report!.diff.changed).toBe(true);
+    expect(report!.diff.modifications.changed.map(c => c.controlVariable)).toContain('fuel_flow');
+  });
+
+  it('returns null for an unknown run and collects failures in a range replay', async () => {
+    expect(await replayer.replay('req_missing')).toBeNull();
+
+    runs.runs.set('req_ok', storedRun('req_ok', { riskLevel: 'low' }));
+    runs.runs.set('req_broken', { ...storedRun('req_broken', { riskLevel: 'low' }), timestamp: 'not a date' });
+
+    const { reports, failed } = await replayer.replayRange({}, { strategy: 'rule_based' });
+
+    expect(reports.map(r => r.requestId)).toEqual(['req_ok']);
+    expect(failed).toEqual([{ requestId: 'req_broken', error: expect.any(String) }]);
+  });
+});
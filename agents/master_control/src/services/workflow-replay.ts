@@ -0,0 +1,368 @@
+import { MemorySaver } from '@langchain/langgraph';
+import { trace } from '@opentelemetry/api';
+import { logger } from '../utils/logger';
+import { buildGraph } from '../graph';
+import type { WorkflowState, WorkflowDecision } from '../graph';
+import { AlloyDBStateManager } from './alloydb-state-manager';
+import type { StoredWorkflowState } from './alloydb-state-manager';
+import { DeterministicReasoningService } from './deterministic-reasoning-service';
+import type { ReasoningService } from './gemini-reasoning-service';
+import type {
+  ProposalSource,
+  ProposalCollectionResult,
+  AgentProposal,
+  AgentResponseRecord,
+  ControlAction
+} from './proposal-collector';
+import type { ProposalConflict, LlmConflict } from './conflict-resolver';
+import { executableActions } from './egress-command-dispatcher';
+import type { CommandDispatcher, CommandDispatchResult } from './egress-command-dispatcher';
+import type { ConstitutionSource } from './constitution-service';
+import { WORKFLOW_STATUS, CONFLICT_RESOLUTION_CONFIG, ResolutionStrategy } from '../config/constants';
+import type { ActiveConstitution } from '../config/constitution';
+
+export interface ActionDiff {
+  added: ControlAction[];
+  removed: ControlAction[];
+  changed: Array<{ controlVariable: string; from: ControlAction; to: ControlAction }>;
+}
+
+export interface DecisionDiff {
+  changed: boolean;
+  fields: Array<{ field: string; from: unknown; to: unknown }>;
+  approvedActions: ActionDiff;
+  modifications: ActionDiff;
+  rejectedActions: ActionDiff;
+}
+
+export interface ReplayReport {
+  requestId: string;
+  recorded: {
+    status: string;
+    decisionId: string | null;
+    policyVersion: number | null;
+    resolutionStrategy: string | null;
+  };
+  replayed: {
+    status: string;
+    policyVersion: number;
+    resolutionStrategy: ResolutionStrategy;
+    decision: WorkflowDecision | null;
+  };
+  // Reasoning calls with no recorded response, answered by the deterministic stub instead
+  unrecordedCalls: string[];
+  diff: DecisionDiff;
+}
+
+export interface ReplayOptions {
+  constitution?: ActiveConstitution;
+  strategy?: ResolutionStrategy;
+}
+
+/**
+ * Workflow Replayer for Master Control Agent
+ * Re-executes stored runs through the current graph and constitution with the
+ * agents and LLM stubbed from the recorded data, and diffs the decisions
+ * Nothing is dispatched to the plant and nothing is persisted
+ */
+export class WorkflowReplayer {
+  private stateManager: AlloyDBStateManager;
+  private constitutionSource: ConstitutionSource;
+
+  constructor(stateManager: AlloyDBStateManager, constitutionSource: ConstitutionSource) {
+    this.stateManager = stateManager;
+    this.constitutionSource = constitutionSource;
+  }
+
+  /**
+   * Replay one stored run; null when the run does not exist
+   */
+  async replay(requestId: string, options: ReplayOptions = {}): Promise<ReplayReport | null> {
+    const tracer = trace.getTracer('master-control-agent');
+    const span = tracer.startSpan('replay_workflow');
+
+    try {
+      const stored = await this.stateManager.loadWorkflowState(requestId);
+      if (!stored) {
+        return null;
+      }
+
+      const constitution = options.constitution || await this.constitutionSource.getActive();
+      const strategy = options.strategy || CONFLICT_RESOLUTION_CONFIG.strategy;
+      const reasoningService = new RecordedReasoningService(stored);
+
+      const graph = buildGraph({
+        proposalSource: new RecordedProposalSource(stored),
+        commandDispatcher: new DryRunCommandDispatcher(),
+        reasoningService,
+        resolutionStrategy: strategy,
+        constitutionSource: { getActive: async () => constitution },
+        // In-memory only: lets a decision that needs approval pause instead of failing
+        checkpointer: new MemorySaver()
+      });
+
+      const result = await graph.invoke({
+        requestId: stored.requestId,
+        conversationId: stored.conversationId,
+        timestamp: new Date(stored.timestamp).toISOString(),
+        trigger: stored.trigger,
+        context: stored.context,
+        proposals: stored.proposals || [],
+        agentResponses: [],
+        conflicts: [],
+        approvedActions: [],
+        rejectedActions: [],
+        modifications: [],
+        status: WORKFLOW_STATUS.INITIALIZING
+      }, { configurable: { thread_id: `replay_${requestId}_${Date.now()}` } }) as WorkflowState;
+
+      const diff = diffDecisions(stored.decision, result.decision);
+
+      span.setAttributes({
+        'workflow.request_id': requestId,
+        'replay.policy_version': constitution.version,
+        'replay.strategy': strategy,
+        'replay.changed': diff.changed
+      });
+
+      logger.info('Workflow replayed', {
+        requestId,
+        policyVersion: constitution.version,
+        strategy,
+        changed: diff.changed,
+        unrecordedCalls: reasoningService.unrecordedCalls
+      });
+
+      return {
+        requestId,
+        recorded: {
+          status: stored.status,
+          decisionId: stored.decision?.decisionId ?? null,
+          policyVersion: stored.decision?.policyVersion ?? null,
+          resolutionStrategy: stored.decision?.resolutionStrategy ?? null
+        },
+        replayed: {
+          status: result.status,
+          policyVersion: constitution.version,
+          resolutionStrategy: strategy,
+          decision: result.decision ?? null
+        },
+        unrecordedCalls: reasoningService.unrecordedCalls,
+        diff
+      };
+
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Replay every decided run in a time range, one at a time
+   */
+  async replayRange(
+    filters: { from?: string; to?: string; limit?: number },
+    options: ReplayOptions = {}
+  ): Promise<{ reports: ReplayReport[]; failed: Array<{ requestId: string; error: string }> }> {
+    const requestIds = await this.stateManager.listDecidedWorkflowIds(filters);
+    // Pin the constitution once so every run in the batch is compared against the same policy
+    const pinned = { ...options, constitution: options.constitution || await this.constitutionSource.getActive() };
+    const reports: ReplayReport[] = [];
+    const failed: Array<{ requestId: string; error: string }> = [];
+
+    for (const requestId of requestIds) {
+      try {
+        const report = await this.replay(requestId, pinned);
+        if (report) {
+          reports.push(report);
+        }
+      } catch (error: unknown) {
+        logger.error('Workflow replay failed', { requestId, error: (error as Error).message });
+        failed.push({ requestId, error: (error as Error).message });
+      }
+    }
+
+    return { reports, failed };
+  }
+}
+
+/**
+ * Serves the proposals recorded with the run; no agent is contacted
+ */
+class RecordedProposalSource implements ProposalSource {
+  private agentResponses: AgentResponseRecord[];
+
+  constructor(stored: StoredWorkflowState) {
+    this.agentResponses = stored.analysis?.agentResponses || [];
+  }
+
+  // The recorded proposals are already on the replay's initial state
+  async collect(): Promise<ProposalCollectionResult> {
+    return { proposals: [], agentResponses: this.agentResponses };
+  }
+}
+
+/**
+ * Answers reasoning calls from the recorded LLM output where the run has one,
+ * otherwise from the deterministic stub
+ */
+class RecordedReasoningService implements ReasoningService {
+  unrecordedCalls: string[] = [];
+  private stored: StoredWorkflowState;
+  private fallback = new DeterministicReasoningService();
+
+  constructor(stored: StoredWorkflowState) {
+    this.stored = stored;
+  }
+
+  async analyzeConflicts(proposals: AgentProposal[]): ReturnType<ReasoningService['analyzeConflicts']> {
+    const recorded = this.stored.analysis?.conflictAnalysis?.llm;
+    if (!recorded) {
+      this.unrecordedCalls.push('analyzeConflicts');
+      return this.fallback.analyzeConflicts(proposals);
+    }
+
+    return {
+      conflicts: (this.stored.conflicts || [])
+        .filter((conflict): conflict is LlmConflict => conflict.source === 'llm')
+        .map(conflict => ({
+          type: conflict.type,
+          severity: conflict.severity,
+          description: conflict.description,
+          impact: conflict.impact,
+          proposals: conflict.affectedProposals,
+          resolution: conflict.resolution
+        })),
+      severity: recorded.severity,
+      confidence: recorded.confidence,
+      summary: recorded.summary
+    };
+  }
+
+  async resolveConflictsUsingConstitution(
+    proposals: AgentProposal[],
+    conflicts: ProposalConflict[],
+    constitutionalPrompt: string
+  ): ReturnType<ReasoningService['resolveConflictsUsingConstitution']> {
+    const recorded = this.stored.analysis?.resolution?.llm;
+    if (!recorded) {
+      this.unrecordedCalls.push('resolveConflictsUsingConstitution');
+      return this.fallback.resolveConflictsUsingConstitution(proposals, conflicts, constitutionalPrompt);
+    }
+    return recorded;
+  }
+
+  async generateDecisionReasoning(
+    proposals: AgentProposal[],
+    conflicts: ProposalConflict[],
+    decision: WorkflowDecision | null
+  ): ReturnType<ReasoningService['generateDecisionReasoning']> {
+    const recorded = this.stored.decision?.reasoningDetails?.explanation;
+    if (!recorded) {
+      this.unrecordedCalls.push('generateDecisionReasoning');
+      return this.fallback.generateDecisionReasoning(proposals, conflicts, decision);
+    }
+    return recorded;
+  }
+}
+
+/**
+ * Reports every step as skipped; replays never reach the plant
+ */
+class DryRunCommandDispatcher implements CommandDispatcher {
+  async dispatch(state: WorkflowState): Promise<CommandDispatchResult> {
+    return {
+      executionResults: executableActions(state).map((action, index) => ({
+        commandId: `replay_${index + 1}`,
+        step: index + 1,
+        status: 'skipped',
+        action,
+        decisionId: state.decision?.decisionId,
+        error: 'Replay - not dispatched',
+        timestamp: new Date().toISOString()
+      })),
+      rollback: { triggered: false, results: [] }
+    };
+  }
+}
+
+/**
+ * Structured diff of a recorded and a replayed decision
+ */
+export function diffDecisions(
+  recorded: WorkflowDecision | null | undefined,
+  replayed: WorkflowDecision | null | undefined
+): DecisionDiff {
+  const fields: DecisionDiff['fields'] = [];
+  const compare = (field: string, from: unknown, to: unknown) => {
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      fields.push({ field, from, to });
+    }
+  };
+
+  compare('decisionMade', Boolean(recorded), Boolean(replayed));
+  compare('riskLevel', recorded?.riskLevel, replayed?.riskLevel);
+  compare('humanApproval.required', recorded?.humanApproval?.required, replayed?.humanApproval?.required);
+  compare('conflictCount', recorded?.conflictAnalysis?.length ?? 0, replayed?.conflictAnalysis?.length ?? 0);
+  compare(
+    'conflictTypes',
+    summarizeConflicts(recorded?.conflictAnalysis),
+    summarizeConflicts(replayed?.conflictAnalysis)
+  );
+
+  const diff = {
+    fields,
+    approvedActions: diffActions(recorded?.approvedActions, replayed?.approvedActions),
+    modifications: diffActions(recorded?.modifications, replayed?.modifications),
+    rejectedActions: diffActions(recorded?.rejectedActions, replayed?.rejectedActions)
+  };
+
+  const actionsChanged = [diff.approvedActions, diff.modifications, diff.rejectedActions]
+    .some(d => d.added.length > 0 || d.removed.length > 0 || d.changed.length > 0);
+
+  return { changed: fields.length > 0 || actionsChanged, ...diff };
+}
+
+/**
+ * Match actions by control variable (and occurrence, for repeated variables)
+ */
+function diffActions(recorded: ControlAction[] = [], replayed: ControlAction[] = []): ActionDiff {
+  const from = keyActions(recorded);
+  const to = keyActions(replayed);
+  const diff: ActionDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, action] of from) {
+    const counterpart = to.get(key);
+    if (!counterpart) {
+      diff.removed.push(action);
+    } else if (JSON.stringify(canonical(action)) !== JSON.stringify(canonical(counterpart))) {
+      diff.changed.push({ controlVariable: action.controlVariable, from: action, to: counterpart });
+    }
+  }
+  for (const [key, action] of to) {
+    if (!from.has(key)) {
+      diff.added.push(action);
+    }
+  }
+
+  return diff;
+}
+
+function keyActions(actions: ControlAction[]): Map<string, ControlAction> {
+  const keyed = new Map<string, ControlAction>();
+  const seen: Record<string, number> = {};
+  for (const action of actions) {
+    const occurrence = seen[action.controlVariable] = (seen[action.controlVariable] || 0) + 1;
+    keyed.set(`${action.controlVariable}#${occurrence}`, action);
+  }
+  return keyed;
+}
+
+function canonical(action: ControlAction): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(action).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function summarizeConflicts(conflicts: ProposalConflict[] = []): string[] {
+  return conflicts
+    .map(c => (c.type === 'kpi_coupling_conflict' ? [c.type, c.effect, c.kpi] : [c.type]).filter(Boolean).join(':'))
+    .sort();
+}
@@ -85,7 +85,8 @@ app.post('/v1/optimize', async (req, res) => {
       });
     }
 
-    const { constraints, marketData, currentState } = req.body;
+    // Master Control sets deliverProposal: false when it collects the proposal from the response
+    const { constraints, marketData, currentState, deliverProposal = true } = req.body;
     
     // Generate optimization using Vertex AI
     const optimization = await generateFuelMixOptimization(constraints, marketData, currentState);
@@ -94,8 +95,10 @@ app.post('/v1/optimize', async (req, res) => {
     const optimizationProposal = await createOptimizationProposal(optimization, constraints);
     
     // Send proposal to Master Control Agent
-    await sendOptimizationProposal(optimizationProposal);
-    proposalCount.labels('optimization', 'sent').inc();
+    if (deliverProposal !== false) {
+      await sendOptimizationProposal(optimizationProposal);
+      proposalCount.labels('optimization', 'sent').inc();
+    }
 
     // Update metrics
     optimizationLatency.labels('fuel_mix', constraints.length.toString()).observe(optimization.latency);